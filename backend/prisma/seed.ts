@@ -1,4 +1,13 @@
-import { PrismaClient, DoctorSpecialty, UserRole, Gender, PatientStage } from '@prisma/client';
+import {
+  PrismaClient,
+  DoctorSpecialty,
+  UserRole,
+  Gender,
+  PatientStage,
+  TariffItemType,
+  ConsultationVisitType,
+  StockMovementType,
+} from '@prisma/client';
 import * as bcrypt from 'bcrypt';
 
 const prisma = new PrismaClient();
@@ -8,13 +17,25 @@ async function main() {
 
   // Clear existing data
   await prisma.patientStateHistory.deleteMany();
+  await prisma.prescriptionSafetyAlert.deleteMany();
   await prisma.prescriptionItem.deleteMany();
   await prisma.prescription.deleteMany();
   await prisma.labOrder.deleteMany();
+  await prisma.specimen.deleteMany();
   await prisma.vitals.deleteMany();
+  await prisma.visit.deleteMany();
   await prisma.patient.deleteMany();
+  await prisma.stockMovement.deleteMany();
+  await prisma.supplierPayment.deleteMany();
+  await prisma.goodsReceipt.deleteMany();
+  await prisma.purchaseOrder.deleteMany();
+  await prisma.tariffRevision.deleteMany();
+  await prisma.labPanel.deleteMany();
   await prisma.medicineStock.deleteMany();
   await prisma.medicine.deleteMany();
+  await prisma.drugInteraction.deleteMany();
+  await prisma.drugContraindication.deleteMany();
+  await prisma.supplier.deleteMany();
   await prisma.labTest.deleteMany();
   await prisma.user.deleteMany();
 
@@ -77,7 +98,73 @@ async function main() {
     },
   });
 
-  console.log('✅ Created 5 users (2 general doctors, 2 specialists, 1 nurse)');
+  // Receptionist (Front desk registration)
+  await prisma.user.create({
+    data: {
+      username: 'reception.anita',
+      password: hashedPassword,
+      name: 'Anita Rao',
+      role: UserRole.RECEPTIONIST,
+    },
+  });
+
+  // Lab: technician enters results, pathologist verifies and releases
+  await prisma.user.create({
+    data: {
+      username: 'lab.ravi',
+      password: hashedPassword,
+      name: 'Ravi Menon',
+      role: UserRole.LAB_TECH,
+    },
+  });
+
+  await prisma.user.create({
+    data: {
+      username: 'dr.nair',
+      password: hashedPassword,
+      name: 'Dr. Kavitha Nair',
+      role: UserRole.PATHOLOGIST,
+    },
+  });
+
+  const pharmacist = await prisma.user.create({
+    data: {
+      username: 'pharmacist.ankit',
+      password: hashedPassword,
+      name: 'Ankit Joshi',
+      role: UserRole.PHARMACIST,
+    },
+  });
+
+  console.log('✅ Created 9 users (2 general doctors, 2 specialists, 1 nurse, 1 receptionist, 1 lab tech, 1 pathologist, 1 pharmacist)');
+
+  // ============ SUPPLIERS ============
+
+  const supplier = await prisma.supplier.create({
+    data: {
+      name: 'MedPlus Distributors',
+      contactPerson: 'Suresh Patel',
+      phone: '9876501234',
+      gstin: '27AABCM1234F1Z5',
+      address: 'Andheri East, Mumbai',
+      paymentTermsDays: 30,
+      leadTimeDays: 3,
+    },
+  });
+
+  await prisma.supplier.create({
+    data: {
+      name: 'Apollo Pharma Wholesale',
+      contactPerson: 'Lakshmi Iyer',
+      phone: '9876505678',
+      gstin: '27AACCA5678G1Z2',
+      address: 'Bhiwandi, Thane',
+      paymentTermsDays: 45,
+      leadTimeDays: 7,
+    },
+  });
+
+  console.log('✅ Created 2 suppliers');
 
   // ============ MEDICINES ============
 
@@ -113,19 +200,35 @@ async function main() {
         strength: med.strength,
         mrp: med.mrp,
         sellingPrice: med.sellingPrice,
+        gstRate: med.genericName === 'Insulin' ? 0.05 : 0.12, // Insulin: essential, 5%
+        hsnSacCode: '3004',
         currentStock: med.stock,
         reorderLevel: 10,
       },
     });
 
-    // Create stock batches (FIFO)
+    // Create stock batches (FIFO), received through the stock ledger
     if (med.stock > 0) {
-      await prisma.medicineStock.create({
+      const batch = await prisma.medicineStock.create({
         data: {
           medicineId: medicine.id,
           batchNumber: `BATCH${Math.random().toString(36).substring(7).toUpperCase()}`,
           quantity: med.stock,
           expiryDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), // 1 year from now
+          supplierId: supplier.id,
+        },
+      });
+
+      await prisma.stockMovement.create({
+        data: {
+          medicineId: medicine.id,
+          batchId: batch.id,
+          batchNumber: batch.batchNumber,
+          type: StockMovementType.RECEIPT,
+          quantity: med.stock,
+          balanceAfter: med.stock,
+          reason: 'Opening stock',
+          performedById: pharmacist.id,
         },
       });
     }
@@ -133,6 +236,44 @@ async function main() {
 
   console.log('✅ Created 15 medicines with stock');
 
+  // ============ DRUG SAFETY ============
+  // Keyed on lowercase generic names; interaction pairs in alphabetical order
+
+  const interactions = [
+    { genericA: 'diclofenac', genericB: 'ibuprofen', severity: 'MAJOR', effect: 'Two NSAIDs together: GI bleeding and kidney injury', management: 'Use a single NSAID' },
+    { genericA: 'azithromycin', genericB: 'ciprofloxacin', severity: 'MAJOR', effect: 'Additive QT prolongation, risk of arrhythmia', management: 'Avoid; choose one antibiotic' },
+    { genericA: 'aspirin', genericB: 'ibuprofen', severity: 'MODERATE', effect: 'Ibuprofen blunts the antiplatelet effect of aspirin and adds GI bleeding risk', management: 'Give aspirin 30 min before ibuprofen; prefer paracetamol' },
+    { genericA: 'aspirin', genericB: 'diclofenac', severity: 'MODERATE', effect: 'Increased GI bleeding risk', management: 'Add gastroprotection (PPI); monitor' },
+    { genericA: 'ciprofloxacin', genericB: 'insulin', severity: 'MODERATE', effect: 'Fluoroquinolones can cause hypo- or hyperglycaemia', management: 'Monitor blood glucose closely' },
+    { genericA: 'ciprofloxacin', genericB: 'metformin', severity: 'MODERATE', effect: 'Dysglycaemia with fluoroquinolones', management: 'Monitor blood glucose' },
+    { genericA: 'atorvastatin', genericB: 'azithromycin', severity: 'MINOR', effect: 'Rare reports of myopathy', management: 'Advise to report muscle pain' },
+    { genericA: 'insulin', genericB: 'metformin', severity: 'MINOR', effect: 'Additive glucose lowering', management: 'Review insulin dose; monitor glucose' },
+  ] as const;
+
+  for (const interaction of interactions) {
+    await prisma.drugInteraction.create({ data: interaction });
+  }
+
+  const contraindications = [
+    { allergen: 'penicillin', genericName: 'amoxicillin', severity: 'MAJOR', reaction: 'Penicillin-class antibiotic' },
+    { allergen: 'beta-lactam', genericName: 'amoxicillin', severity: 'MAJOR', reaction: 'Beta-lactam antibiotic' },
+    { allergen: 'nsaid', genericName: 'ibuprofen', severity: 'MAJOR', reaction: 'NSAID hypersensitivity' },
+    { allergen: 'nsaid', genericName: 'diclofenac', severity: 'MAJOR', reaction: 'NSAID hypersensitivity' },
+    { allergen: 'nsaid', genericName: 'aspirin', severity: 'MAJOR', reaction: 'NSAID hypersensitivity' },
+    { allergen: 'aspirin', genericName: 'ibuprofen', severity: 'MODERATE', reaction: 'Cross-sensitivity with aspirin' },
+    { allergen: 'aspirin', genericName: 'diclofenac', severity: 'MODERATE', reaction: 'Cross-sensitivity with aspirin' },
+    { allergen: 'macrolide', genericName: 'azithromycin', severity: 'MAJOR', reaction: 'Macrolide antibiotic' },
+    { allergen: 'quinolone', genericName: 'ciprofloxacin', severity: 'MAJOR', reaction: 'Fluoroquinolone antibiotic' },
+    { allergen: 'fluoroquinolone', genericName: 'ciprofloxacin', severity: 'MAJOR', reaction: 'Fluoroquinolone antibiotic' },
+    { allergen: 'statin', genericName: 'atorvastatin', severity: 'MAJOR', reaction: 'Statin' },
+  ] as const;
+
+  for (const contraindication of contraindications) {
+    await prisma.drugContraindication.create({ data: contraindication });
+  }
+
+  console.log(`✅ Created ${interactions.length} drug interactions and ${contraindications.length} allergy contraindications`);
+
   // ============ LAB TESTS ============
 
   const labTests = [
@@ -147,11 +288,169 @@ async function main() {
   ];
 
   for (const test of labTests) {
-    await prisma.labTest.create({ data: test });
+    await prisma.labTest.create({ data: { ...test, hsnSacCode: '999316' } });
   }
 
   console.log('✅ Created 8 lab tests');
 
+  // ============ LAB ANALYTES & REFERENCE RANGES ============
+
+  // [code, name, unit, ranges: [gender, minAge, maxAge, low, high, criticalLow, criticalHigh]]
+  const analytesByTest: Record<string, Array<[string, string, string, Array<[Gender | null, number, number, number | null, number | null, number | null, number | null]>]>> = {
+    'CBC (Complete Blood Count)': [
+      ['HB', 'Hemoglobin', 'g/dL', [
+        [Gender.M, 18, 150, 13, 17, 7, 20],
+        [Gender.F, 18, 150, 12, 15, 7, 20],
+        [null, 0, 17, 11, 14, 7, 20],
+      ]],
+      ['WBC', 'Total WBC Count', '10^3/µL', [[null, 0, 150, 4, 11, 2, 30]]],
+      ['PLT', 'Platelet Count', '10^3/µL', [[null, 0, 150, 150, 410, 20, 1000]]],
+    ],
+    'Blood Sugar (Fasting)': [
+      ['FBS', 'Fasting Blood Sugar', 'mg/dL', [[null, 0, 150, 70, 100, 40, 450]]],
+    ],
+    'KFT (Kidney Function Test)': [
+      ['UREA', 'Blood Urea', 'mg/dL', [[null, 0, 150, 15, 40, null, 200]]],
+      ['CREAT', 'Serum Creatinine', 'mg/dL', [
+        [Gender.M, 18, 150, 0.7, 1.3, null, 7],
+        [Gender.F, 18, 150, 0.6, 1.1, null, 7],
+        [null, 0, 17, 0.3, 0.7, null, 7],
+      ]],
+      ['K', 'Potassium', 'mmol/L', [[null, 0, 150, 3.5, 5.1, 2.8, 6.2]]],
+      ['NA', 'Sodium', 'mmol/L', [[null, 0, 150, 136, 145, 120, 160]]],
+    ],
+    'Lipid Profile': [
+      ['TC', 'Total Cholesterol', 'mg/dL', [[null, 0, 150, null, 200, null, null]]],
+      ['TG', 'Triglycerides', 'mg/dL', [[null, 0, 150, null, 150, null, 1000]]],
+      ['HDL', 'HDL Cholesterol', 'mg/dL', [[null, 0, 150, 40, null, null, null]]],
+      ['LDL', 'LDL Cholesterol', 'mg/dL', [[null, 0, 150, null, 100, null, null]]],
+    ],
+    'Thyroid Profile (T3, T4, TSH)': [
+      ['T3', 'Total T3', 'ng/dL', [[null, 0, 150, 80, 200, null, null]]],
+      ['T4', 'Total T4', 'µg/dL', [[null, 0, 150, 5.1, 14.1, null, null]]],
+      ['TSH', 'TSH', 'µIU/mL', [[null, 0, 150, 0.27, 4.2, null, 50]]],
+    ],
+  };
+
+  let analyteCount = 0;
+  for (const [testName, analytes] of Object.entries(analytesByTest)) {
+    const test = await prisma.labTest.findUnique({ where: { name: testName } });
+
+    for (const [index, [code, name, unit, ranges]] of analytes.entries()) {
+      await prisma.labAnalyte.create({
+        data: {
+          testId: test!.id,
+          code,
+          name,
+          unit,
+          displayOrder: index,
+          referenceRanges: {
+            create: ranges.map(([gender, minAgeYears, maxAgeYears, low, high, criticalLow, criticalHigh]) => ({
+              gender,
+              minAgeYears,
+              maxAgeYears,
+              low,
+              high,
+              criticalLow,
+              criticalHigh,
+            })),
+          },
+        },
+      });
+      analyteCount++;
+    }
+  }
+
+  console.log(`✅ Created ${analyteCount} lab analytes with reference ranges`);
+
+  // ============ LAB PANELS ============
+
+  // [name, code, package price, component tests in report order]
+  const labPanels: Array<[string, string, number, string[]]> = [
+    ['Basic Health Checkup', 'BHC', 750, [
+      'CBC (Complete Blood Count)',
+      'Blood Sugar (Fasting)',
+      'Lipid Profile',
+      'Urine Routine',
+    ]],
+    ['Comprehensive Health Checkup', 'CHC', 2000, [
+      'CBC (Complete Blood Count)',
+      'Blood Sugar (Fasting)',
+      'LFT (Liver Function Test)',
+      'KFT (Kidney Function Test)',
+      'Lipid Profile',
+      'Thyroid Profile (T3, T4, TSH)',
+      'Urine Routine',
+    ]],
+  ];
+
+  for (const [name, code, price, testNames] of labPanels) {
+    const tests = await prisma.labTest.findMany({ where: { name: { in: testNames } } });
+
+    await prisma.labPanel.create({
+      data: {
+        name,
+        code,
+        price,
+        hsnSacCode: '999316',
+        tests: {
+          create: testNames.map((testName, displayOrder) => ({
+            testId: tests.find((test) => test.name === testName)!.id,
+            displayOrder,
+          })),
+        },
+      },
+    });
+  }
+
+  console.log(`✅ Created ${labPanels.length} lab panels`);
+
+  // ============ CONSULTATION TARIFF ============
+
+  // NEW / FOLLOW_UP fee per specialty (follow-up within 7 days)
+  const consultationFees: Record<DoctorSpecialty, [number, number]> = {
+    GENERAL: [300, 150],
+    ORTHOPEDIC: [500, 250],
+    CARDIOLOGY: [700, 350],
+    GYNECOLOGY: [500, 250],
+    ENT: [400, 200],
+    DERMATOLOGY: [400, 200],
+    PEDIATRIC: [400, 200],
+  };
+  const tariffStart = new Date(new Date().getFullYear(), 0, 1);
+
+  for (const [specialty, [newFee, followUpFee]] of Object.entries(consultationFees)) {
+    await prisma.tariffRevision.createMany({
+      data: [
+        {
+          itemType: TariffItemType.CONSULTATION,
+          specialty: specialty as DoctorSpecialty,
+          visitType: ConsultationVisitType.NEW,
+          price: newFee,
+          gstRate: 0.18,
+          hsnSacCode: '999312',
+          effectiveFrom: tariffStart,
+          reason: 'Initial tariff',
+          createdBy: 'seed',
+        },
+        {
+          itemType: TariffItemType.CONSULTATION,
+          specialty: specialty as DoctorSpecialty,
+          visitType: ConsultationVisitType.FOLLOW_UP,
+          price: followUpFee,
+          gstRate: 0.18,
+          hsnSacCode: '999312',
+          followUpDays: 7,
+          effectiveFrom: tariffStart,
+          reason: 'Initial tariff',
+          createdBy: 'seed',
+        },
+      ],
+    });
+  }
+
+  console.log('✅ Created consultation tariff for 7 specialties');
+
   // ============ PATIENTS ============
 
   // General Queue Patients (No specific doctor assigned)
@@ -217,13 +516,19 @@ async function main() {
 
     const patient = await prisma.patient.create({
       data: {
-        token: p.token,
         uhid: p.uhid,
         name: p.name,
         age: p.age,
         gender: p.gender,
         mobile: p.mobile,
         address: p.address,
+      },
+    });
+
+    const visit = await prisma.visit.create({
+      data: {
+        patientId: patient.id,
+        token: p.token,
         stage: PatientStage.DOCTOR_PENDING,
         consultationType: p.consultationType,
         doctorId: null, // Shared queue
@@ -232,6 +537,7 @@ async function main() {
 
     await prisma.vitals.create({
       data: {
+        visitId: visit.id,
         patientId: patient.id,
         bp: p.bp,
         pulse: p.pulse,
@@ -290,13 +596,19 @@ async function main() {
 
     const patient = await prisma.patient.create({
       data: {
-        token: p.token,
         uhid: p.uhid,
         name: p.name,
         age: p.age,
         gender: p.gender,
         mobile: p.mobile,
         address: p.address,
+      },
+    });
+
+    const visit = await prisma.visit.create({
+      data: {
+        patientId: patient.id,
+        token: p.token,
         stage: PatientStage.DOCTOR_PENDING,
         consultationType: DoctorSpecialty.ORTHOPEDIC,
         doctorId: drSharmaOrtho.id, // Assigned
@@ -305,6 +617,7 @@ async function main() {
 
     await prisma.vitals.create({
       data: {
+        visitId: visit.id,
         patientId: patient.id,
         bp: p.bp,
         pulse: p.pulse,
@@ -346,13 +659,19 @@ async function main() {
 
     const patient = await prisma.patient.create({
       data: {
-        token: p.token,
         uhid: p.uhid,
         name: p.name,
         age: p.age,
         gender: p.gender,
         mobile: p.mobile,
         address: p.address,
+      },
+    });
+
+    const visit = await prisma.visit.create({
+      data: {
+        patientId: patient.id,
+        token: p.token,
         stage: PatientStage.DOCTOR_PENDING,
         consultationType: DoctorSpecialty.GYNECOLOGY,
         doctorId: drMeeraGyn.id, // Assigned
@@ -361,6 +680,7 @@ async function main() {
 
     await prisma.vitals.create({
       data: {
+        visitId: visit.id,
         patientId: patient.id,
         bp: p.bp,
         pulse: p.pulse,
@@ -376,7 +696,7 @@ async function main() {
     });
   }
 
-  console.log('✅ Created 6 patients (3 general, 2 ortho, 1 gyno)');
+  console.log('✅ Created 6 patients with open visits (3 general, 2 ortho, 1 gyno)');
 
   console.log('\n🎉 Database seeded successfully!');
   console.log('\n📋 Login Credentials (all password: demo):');
@@ -389,6 +709,11 @@ async function main() {
   console.log('      - dr.meera (Dr. Meera Iyer)');
   console.log('   💉 Nurse:');
   console.log('      - nurse.priya (Nurse Priya)');
+  console.log('   🧾 Receptionist:');
+  console.log('      - reception.anita (Anita Rao)');
+  console.log('   🧪 Lab:');
+  console.log('      - lab.ravi (Ravi Menon, Lab Technician)');
+  console.log('      - dr.nair (Dr. Kavitha Nair, Pathologist)');
 }
 
 main()
@@ -7,12 +7,17 @@ import { AuthModule } from './auth/auth.module';
 import { UsersModule } from './users/users.module';
 import { PatientsModule } from './patients/patients.module';
 import { PharmacyModule } from './pharmacy/pharmacy.module';
+import { PurchasingModule } from './purchasing/purchasing.module';
 import { PrescriptionsModule } from './prescriptions/prescriptions.module';
 import { LabModule } from './lab/lab.module';
 import { WorkflowModule } from './workflow/workflow.module';
 import { EventsModule } from './events/events.module';
 import { VitalsModule } from './vitals/vitals.module';
 import { BillingModule } from './billing/billing.module';
+import { RegistrationModule } from './registration/registration.module';
+import { DuesModule } from './dues/dues.module';
+import { TariffModule } from './tariff/tariff.module';
+import { SequenceModule } from './sequence/sequence.module';
 
 @Module({
   imports: [
@@ -25,17 +30,22 @@ import { BillingModule } from './billing/billing.module';
     // Core modules
     PrismaModule,
     EventsModule,
+    SequenceModule,
 
     // Feature modules
     AuthModule,
     UsersModule,
+    RegistrationModule,
     PatientsModule,
     VitalsModule,
     PharmacyModule,
+    PurchasingModule,
     PrescriptionsModule,
     LabModule,
     WorkflowModule,
+    TariffModule,
     BillingModule,
+    DuesModule,
   ],
   controllers: [AppController],
   providers: [AppService],
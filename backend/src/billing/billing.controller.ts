@@ -6,11 +6,17 @@ import {
   Param,
   UseGuards,
   Request,
+  Res,
 } from '@nestjs/common';
+import { Response } from 'express';
 import { BillingService } from './billing.service';
+import { PaymentsService } from './payments.service';
+import { InvoicePdfService } from './invoice-pdf.service';
 import { GenerateBillDto } from './dto/generate-bill.dto';
+import { RecordPaymentDto } from './dto/record-payment.dto';
 import { BillResponse, BillPreview } from './dto/bill-response.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 
 /**
@@ -22,11 +28,19 @@ import { Roles } from '../auth/decorators/roles.decorator';
  * - GET /api/billing/:billId - Get bill by ID
  * - GET /api/billing/number/:billNumber - Get bill by bill number
  * - GET /api/billing/visit/:visitId - Get all bills for a visit
+ * - GET /api/billing/:billId/pdf - Download GST tax invoice
+ * - POST /api/billing/:billId/payments - Record (split-tender) payment
+ * - GET /api/billing/:billId/payments - Get payments for a bill
+ * - GET /api/billing/receipts/:receiptNumber - Get payment by receipt number
  */
 @Controller('billing')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, RolesGuard)
 export class BillingController {
-  constructor(private readonly billingService: BillingService) {}
+  constructor(
+    private readonly billingService: BillingService,
+    private readonly paymentsService: PaymentsService,
+    private readonly invoicePdfService: InvoicePdfService,
+  ) {}
 
   /**
    * Generate bill from a visit
@@ -109,4 +123,62 @@ export class BillingController {
   async getBillsForVisit(@Param('visitId') visitId: string): Promise<BillResponse[]> {
     return this.billingService.getBillsForVisit(visitId);
   }
+
+  /**
+   * ⭐ Download GST tax invoice
+   * GET /api/billing/:billId/pdf
+   *
+   * First print is the original; every reprint is watermarked DUPLICATE
+   */
+  @Get(':billId/pdf')
+  @Roles('BILLING', 'ADMIN', 'RECEPTIONIST')
+  async downloadInvoicePDF(@Param('billId') billId: string, @Res() res: Response) {
+    return this.invoicePdfService.generateInvoicePDF(billId, res);
+  }
+
+  /**
+   * Record payment against a bill (split tender supported)
+   * POST /api/billing/:billId/payments
+   *
+   * Body:
+   * {
+   *   "tenders": [
+   *     { "mode": "CASH", "amount": 2000 },
+   *     { "mode": "UPI", "amount": 444, "transactionId": "UTR123" }
+   *   ]
+   * }
+   *
+   * A bill paid in full completes the visit (BILLING_PENDING → COMPLETED)
+   */
+  @Post(':billId/payments')
+  @Roles('BILLING', 'ADMIN')
+  async recordPayment(
+    @Param('billId') billId: string,
+    @Body() dto: RecordPaymentDto,
+    @Request() req: any,
+  ) {
+    return this.paymentsService.recordPayment(billId, dto, req.user.id);
+  }
+
+  /**
+   * Get all payments for a bill
+   * GET /api/billing/:billId/payments
+   */
+  @Get(':billId/payments')
+  @Roles('BILLING', 'ADMIN', 'RECEPTIONIST')
+  async getPayments(@Param('billId') billId: string) {
+    return this.paymentsService.getPaymentsForBill(billId);
+  }
+
+  /**
+   * Get payment by receipt number
+   * GET /api/billing/receipts/:receiptNumber
+   *
+   * Example: GET /api/billing/receipts/RCP%2F2024%2F0001
+   */
+  @Get('receipts/:receiptNumber')
+  @Roles('BILLING', 'ADMIN', 'RECEPTIONIST')
+  async getReceipt(@Param('receiptNumber') receiptNumber: string) {
+    return this.paymentsService.getPaymentByReceipt(receiptNumber);
+  }
 }
@@ -1,12 +1,42 @@
 import { Module } from '@nestjs/common';
 import { BillingService } from './billing.service';
+import { PaymentsService } from './payments.service';
+import { InvoicePdfService } from './invoice-pdf.service';
+import { DiscountsService } from './discounts.service';
+import { RefundsService } from './refunds.service';
+import { CreditBillingService } from './credit-billing.service';
 import { BillingController } from './billing.controller';
+import { DiscountsController } from './discounts.controller';
+import { RefundsController } from './refunds.controller';
+import { CreditBillingController } from './credit-billing.controller';
 import { PrismaModule } from '../prisma/prisma.module';
+import { WorkflowModule } from '../workflow/workflow.module';
+import { EventsModule } from '../events/events.module';
+import { TariffModule } from '../tariff/tariff.module';
+import { SequenceModule } from '../sequence/sequence.module';
 
 @Module({
-  imports: [PrismaModule],
-  controllers: [BillingController],
-  providers: [BillingService],
-  exports: [BillingService],
+  imports: [
+    PrismaModule,
+    WorkflowModule,
+    EventsModule,
+    TariffModule,
+    SequenceModule,
+  ],
+  controllers: [
+    BillingController,
+    DiscountsController,
+    RefundsController,
+    CreditBillingController,
+  ],
+  providers: [
+    BillingService,
+    PaymentsService,
+    InvoicePdfService,
+    DiscountsService,
+    RefundsService,
+    CreditBillingService,
+  ],
+  exports: [BillingService, PaymentsService],
 })
 export class BillingModule {}
@@ -1,11 +1,20 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { BillingService } from './billing.service';
 import { PrismaService } from '../prisma/prisma.service';
+import { TariffService } from '../tariff/tariff.service';
+import { SequenceService } from '../sequence/sequence.service';
 import { NotFoundException, BadRequestException } from '@nestjs/common';
 
 describe('BillingService', () => {
   let service: BillingService;
   let prisma: PrismaService;
+  let tariffService: {
+    getConsultationCharge: jest.Mock;
+    getMedicinePrice: jest.Mock;
+    getLabTestPrice: jest.Mock;
+    getLabPanelPrice: jest.Mock;
+  };
+  let sequenceService: { next: jest.Mock };
 
   // Mock data
   const mockVisit = {
@@ -13,48 +22,64 @@ describe('BillingService', () => {
     patientId: 'patient-1',
     visitType: 'OPD',
     arrivedAt: new Date('2024-01-15'),
+    token: 101,
     patient: {
       id: 'patient-1',
       name: 'John Doe',
-      prescriptions: [
-        {
-          id: 'rx-1',
-          doctorId: 'doctor-1',
-          items: [
-            {
-              id: 'rx-item-1',
-              medicineId: 'med-1',
-              quantity: 15,
-              dispensed: true,
-              medicine: {
-                id: 'med-1',
-                name: 'Paracetamol',
-                strength: '500mg',
-                mrp: 100,
-              },
+    },
+    prescriptions: [
+      {
+        id: 'rx-1',
+        doctorId: 'doctor-1',
+        items: [
+          {
+            id: 'rx-item-1',
+            medicineId: 'med-1',
+            quantity: 15,
+            dispensed: true,
+            dispensedQuantity: 15,
+            medicine: {
+              id: 'med-1',
+              name: 'Paracetamol',
+              strength: '500mg',
+              mrp: 100,
             },
-          ],
-        },
-      ],
-      labOrders: [
-        {
-          id: 'lab-1',
-          testId: 'test-1',
-          status: 'COMPLETED',
-          test: {
-            id: 'test-1',
-            name: 'CBC Test',
-            price: 500,
+            dispenseRecords: [
+              {
+                medicineId: 'med-1',
+                batchNumber: 'B1',
+                quantity: 15,
+                medicine: {
+                  id: 'med-1',
+                  name: 'Paracetamol',
+                  strength: '500mg',
+                  mrp: 100,
+                },
+              },
+            ],
           },
+        ],
+      },
+    ],
+    labOrders: [
+      {
+        id: 'lab-1',
+        testId: 'test-1',
+        status: 'RELEASED',
+        test: {
+          id: 'test-1',
+          name: 'CBC Test',
+          price: 500,
         },
-      ],
-    },
+      },
+    ],
+    labPanelOrders: [],
   };
 
   const mockBill = {
     id: 'bill-1',
     visitId: 'visit-1',
-    billNumber: 'HMS/2024/0001',
+    billNumber: 'HMS/2024-25/0001',
     subtotal: 2139.35,
     taxAmount: 304.65,
     discount: 0,
@@ -103,9 +128,35 @@ describe('BillingService', () => {
   };
 
   beforeEach(async () => {
+    // Tariff in effect: master prices, 12% medicines, 18% services
+    tariffService = {
+      getConsultationCharge: jest.fn().mockResolvedValue({
+        description: 'Doctor Consultation Fee',
+        visitType: 'NEW',
+        unitPrice: 300,
+        taxRate: 0.18,
+        hsnSacCode: '999312',
+      }),
+      getMedicinePrice: jest.fn().mockImplementation((medicine) =>
+        Promise.resolve({ unitPrice: medicine.mrp, taxRate: 0.12, hsnSacCode: '3004' }),
+      ),
+      getLabTestPrice: jest.fn().mockImplementation((test) =>
+        Promise.resolve({ unitPrice: test.price, taxRate: 0.18, hsnSacCode: '999316' }),
+      ),
+      getLabPanelPrice: jest.fn().mockImplementation((panel) =>
+        Promise.resolve({ unitPrice: panel.price, taxRate: 0.18, hsnSacCode: '999316' }),
+      ),
+    };
+
+    sequenceService = {
+      next: jest.fn().mockResolvedValue('HMS/2024-25/0001'),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         BillingService,
+        { provide: TariffService, useValue: tariffService },
+        { provide: SequenceService, useValue: sequenceService },
         {
           provide: PrismaService,
           useValue: {
@@ -118,6 +169,10 @@ describe('BillingService', () => {
               findMany: jest.fn(),
               create: jest.fn(),
             },
+            // Interactive transactions run against the same mock client
+            $transaction: jest.fn(function (this: any, callback: any) {
+              return callback(this);
+            }),
           },
         },
       ],
@@ -148,7 +203,7 @@ describe('BillingService', () => {
       });
 
       // Verify bill was created with correct structure
-      expect(result.billNumber).toMatch(/HMS\/\d{4}\/\d{4}/);
+      expect(result.billNumber).toMatch(/^HMS\/\d{4}-\d{2}\/\d{4,}$/);
       expect(result.items).toHaveLength(3);
       expect(result.total).toBeGreaterThan(0);
 
@@ -197,11 +252,8 @@ describe('BillingService', () => {
     it('should throw BadRequestException if no unbilled items found', async () => {
       const emptyVisit = {
         ...mockVisit,
-        patient: {
-          ...mockVisit.patient,
-          prescriptions: [],
-          labOrders: [],
-        },
+        prescriptions: [],
+        labOrders: [],
       };
 
       jest.spyOn(prisma.visit, 'findUnique').mockResolvedValue(emptyVisit as any);
@@ -234,11 +286,8 @@ describe('BillingService', () => {
     it('should return empty preview if no unbilled items', async () => {
       const emptyVisit = {
         ...mockVisit,
-        patient: {
-          ...mockVisit.patient,
-          prescriptions: [],
-          labOrders: [],
-        },
+        prescriptions: [],
+        labOrders: [],
       };
 
       jest.spyOn(prisma.visit, 'findUnique').mockResolvedValue(emptyVisit as any);
@@ -252,6 +301,148 @@ describe('BillingService', () => {
     });
   });
 
+  describe('Tariff pricing', () => {
+    it('should price items from the tariff in effect on the visit date', async () => {
+      jest.spyOn(prisma.visit, 'findUnique').mockResolvedValue(mockVisit as any);
+      tariffService.getConsultationCharge.mockResolvedValue({
+        description: 'Doctor Consultation Fee (Follow-up)',
+        visitType: 'FOLLOW_UP',
+        unitPrice: 150,
+        taxRate: 0.18,
+        hsnSacCode: '999312',
+      });
+      tariffService.getLabTestPrice.mockResolvedValue({
+        unitPrice: 450,
+        taxRate: 0.05,
+        hsnSacCode: '999316',
+      });
+
+      const preview = await service.previewBill('visit-1');
+
+      expect(tariffService.getMedicinePrice).toHaveBeenCalledWith(
+        mockVisit.prescriptions[0].items[0].medicine,
+        mockVisit.arrivedAt,
+      );
+      expect(preview.items.find((i) => i.itemType === 'CONSULTATION')).toMatchObject({
+        description: 'Doctor Consultation Fee (Follow-up)',
+        unitPrice: 150,
+      });
+      expect(preview.items.find((i) => i.itemType === 'LAB_TEST')).toMatchObject({
+        unitPrice: 450,
+        taxRate: 0.05,
+        hsnSacCode: '999316',
+      });
+    });
+  });
+
+  describe('Dispensed medicines', () => {
+    const crocin = { id: 'med-2', name: 'Crocin', strength: '500mg', mrp: 120 };
+
+    it('should bill the quantity dispensed per brand, substitutes at their own price', async () => {
+      const [prescription] = mockVisit.prescriptions;
+      const [item] = prescription.items;
+
+      jest.spyOn(prisma.visit, 'findUnique').mockResolvedValue({
+        ...mockVisit,
+        labOrders: [],
+        prescriptions: [
+          {
+            ...prescription,
+            items: [
+              {
+                ...item,
+                dispensed: false,
+                dispensedQuantity: 10,
+                dispenseRecords: [
+                  { medicineId: 'med-1', batchNumber: 'B1', quantity: 4, medicine: item.medicine },
+                  { medicineId: 'med-1', batchNumber: 'B2', quantity: 2, medicine: item.medicine },
+                  { medicineId: 'med-2', batchNumber: 'C1', quantity: 4, medicine: crocin },
+                ],
+              },
+            ],
+          },
+        ],
+      } as any);
+
+      const preview = await service.previewBill('visit-1');
+      const medicines = preview.items.filter((i) => i.itemType === 'MEDICINE');
+
+      expect(medicines).toHaveLength(2);
+      expect(medicines[0]).toMatchObject({
+        description: 'Paracetamol 500mg',
+        quantity: 6,
+        unitPrice: 100,
+      });
+      expect(medicines[1]).toMatchObject({
+        description: 'Crocin 500mg (for Paracetamol)',
+        quantity: 4,
+        unitPrice: 120,
+      });
+    });
+  });
+
+  describe('Lab panels', () => {
+    const panel = { id: 'panel-1', name: 'Basic Health Checkup', price: 750 };
+    const componentOrder = (id: string, status: string) => ({
+      id,
+      status,
+      panelOrderId: 'po-1',
+      test: { id, name: id, price: 300 },
+    });
+
+    it('should bill a released panel as one line at its package price', async () => {
+      jest.spyOn(prisma.visit, 'findUnique').mockResolvedValue({
+        ...mockVisit,
+        labOrders: [
+          ...mockVisit.labOrders,
+          componentOrder('cbc', 'RELEASED'),
+          componentOrder('fbs', 'RELEASED'),
+        ],
+        labPanelOrders: [
+          {
+            id: 'po-1',
+            panel,
+            orders: [{ status: 'RELEASED' }, { status: 'RELEASED' }],
+          },
+        ],
+      } as any);
+
+      const preview = await service.previewBill('visit-1');
+
+      const labLines = preview.items.filter((i) => i.itemType.startsWith('LAB_'));
+      expect(labLines).toHaveLength(2);
+      expect(labLines[1]).toMatchObject({
+        itemType: 'LAB_PANEL',
+        itemId: 'po-1',
+        description: 'Basic Health Checkup',
+        unitPrice: 750,
+      });
+      expect(tariffService.getLabPanelPrice).toHaveBeenCalledWith(panel, mockVisit.arrivedAt);
+    });
+
+    it('should not bill a panel until every component test is released', async () => {
+      jest.spyOn(prisma.visit, 'findUnique').mockResolvedValue({
+        ...mockVisit,
+        labOrders: [...mockVisit.labOrders, componentOrder('cbc', 'RELEASED')],
+        labPanelOrders: [
+          {
+            id: 'po-1',
+            panel,
+            orders: [{ status: 'RELEASED' }, { status: 'COMPLETED' }], // fbs awaiting verification
+          },
+        ],
+      } as any);
+
+      const preview = await service.previewBill('visit-1');
+
+      expect(preview.items.map((i) => i.itemType)).toEqual([
+        'CONSULTATION',
+        'MEDICINE',
+        'LAB_TEST',
+      ]);
+    });
+  });
+
   describe('getBill', () => {
     it('should return bill by ID', async () => {
       jest.spyOn(prisma.billing, 'findUnique').mockResolvedValue(mockBill as any);
@@ -259,7 +450,7 @@ describe('BillingService', () => {
       const result = await service.getBill('bill-1');
 
       expect(result.id).toBe('bill-1');
-      expect(result.billNumber).toBe('HMS/2024/0001');
+      expect(result.billNumber).toBe('HMS/2024-25/0001');
     });
 
     it('should throw NotFoundException if bill not found', async () => {
@@ -273,9 +464,9 @@ describe('BillingService', () => {
     it('should return bill by bill number', async () => {
       jest.spyOn(prisma.billing, 'findUnique').mockResolvedValue(mockBill as any);
 
-      const result = await service.getBillByNumber('HMS/2024/0001');
+      const result = await service.getBillByNumber('HMS/2024-25/0001');
 
-      expect(result.billNumber).toBe('HMS/2024/0001');
+      expect(result.billNumber).toBe('HMS/2024-25/0001');
     });
 
     it('should throw NotFoundException if bill not found', async () => {
@@ -307,51 +498,34 @@ describe('BillingService', () => {
   });
 
   describe('Bill Number Generation', () => {
-    it('should generate bill number with correct format', async () => {
+    it('should take the bill number from the BILL series inside the transaction', async () => {
       jest.spyOn(prisma.visit, 'findUnique').mockResolvedValue(mockVisit as any);
       jest.spyOn(prisma.billing, 'findFirst').mockResolvedValue(null);
-
-      const mockCreatedBill = {
-        ...mockBill,
-        billNumber: 'HMS/2024/0001',
-      };
-      jest.spyOn(prisma.billing, 'create').mockResolvedValue(mockCreatedBill as any);
+      jest.spyOn(prisma.billing, 'create').mockImplementation(
+        ({ data }: any) => ({ ...mockBill, billNumber: data.billNumber }) as any,
+      );
 
       const result = await service.generateBill({
         visitId: 'visit-1',
         generatedBy: 'user-1',
       });
 
-      expect(result.billNumber).toMatch(/HMS\/\d{4}\/\d{4}/);
+      expect(sequenceService.next).toHaveBeenCalledWith('BILL', prisma);
+      expect(result.billNumber).toBe('HMS/2024-25/0001');
     });
 
-    it('should increment bill number correctly', async () => {
-      jest.spyOn(prisma.visit, 'findUnique').mockResolvedValue(mockVisit as any);
-
-      // Mock findFirst calls in order:
-      // 1st call: Check if bill exists for this visit → null (no existing bill)
-      // 2nd call: Get latest bill number → HMS/2024/0005
-      jest
-        .spyOn(prisma.billing, 'findFirst')
-        .mockResolvedValueOnce(null) // No existing bill for this visit
-        .mockResolvedValueOnce({
-          ...mockBill,
-          billNumber: 'HMS/2024/0005',
-        } as any); // Latest bill number is 0005
-
-      const mockCreatedBill = {
-        ...mockBill,
-        billNumber: 'HMS/2024/0006',
-      };
-      jest.spyOn(prisma.billing, 'create').mockResolvedValue(mockCreatedBill as any);
-
-      const result = await service.generateBill({
-        visitId: 'visit-1',
-        generatedBy: 'user-1',
-      });
+    it('should not issue a bill number when there is nothing to bill', async () => {
+      jest.spyOn(prisma.visit, 'findUnique').mockResolvedValue({
+        ...mockVisit,
+        prescriptions: [],
+        labOrders: [],
+      } as any);
+      jest.spyOn(prisma.billing, 'findFirst').mockResolvedValue(null);
 
-      // Next bill should be 0006
-      expect(result.billNumber).toContain('0006');
+      await expect(
+        service.generateBill({ visitId: 'visit-1', generatedBy: 'user-1' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(sequenceService.next).not.toHaveBeenCalled();
     });
   });
 
@@ -1,6 +1,9 @@
 import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Medicine, SequenceName } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { TaxCalculator, BillItemInput } from './utils/tax-calculator';
+import { TariffService } from '../tariff/tariff.service';
+import { SequenceService } from '../sequence/sequence.service';
 import { GenerateBillDto } from './dto/generate-bill.dto';
 import { BillResponse, UnbilledItem, BillPreview } from './dto/bill-response.dto';
 
@@ -8,16 +11,21 @@ import { BillResponse, UnbilledItem, BillPreview } from './dto/bill-response.dto
  * BillingService - Session 2B
  *
  * Handles bill generation from visits:
- * 1. Aggregates unbilled items (consultation, medicines, lab tests)
+ * 1. Aggregates unbilled items (consultation, medicines, lab tests, lab panels)
+ *    priced from the tariff in effect on the visit date
  * 2. Calculates accurate totals using TaxCalculator
- * 3. Generates bill with auto-incremented bill number
+ * 3. Generates bill with the next number from the BILL series
  * 4. Creates billing records in database
  */
 @Injectable()
 export class BillingService {
   private taxCalculator: TaxCalculator;
 
-  constructor(private prisma: PrismaService) {
+  constructor(
+    private prisma: PrismaService,
+    private tariffService: TariffService,
+    private sequenceService: SequenceService,
+  ) {
     this.taxCalculator = new TaxCalculator();
   }
 
@@ -30,20 +38,17 @@ export class BillingService {
     const visit = await this.prisma.visit.findUnique({
       where: { id: dto.visitId },
       include: {
-        patient: {
+        patient: true,
+        prescriptions: {
           include: {
-            prescriptions: {
-              include: {
-                items: {
-                  include: { medicine: true },
-                },
-              },
-            },
-            labOrders: {
-              include: { test: true },
+            items: {
+              include: { medicine: true },
             },
           },
         },
+        labOrders: {
+          include: { test: true },
+        },
       },
     });
 
@@ -80,39 +85,43 @@ export class BillingService {
       })),
     );
 
-    // 5. Generate bill number
-    const billNumber = await this.createBillNumber();
-
-    // 6. Create billing record with items
-    const bill = await this.prisma.billing.create({
-      data: {
-        visitId: dto.visitId,
-        billNumber,
-        subtotal: breakdown.subtotal,
-        taxAmount: breakdown.totalTax,
-        discount: 0,
-        total: breakdown.grandTotal,
-        balance: breakdown.grandTotal, // Initially, balance = total
-        status: 'PENDING',
-        generatedBy: dto.generatedBy,
-        items: {
-          create: breakdown.items.map((item, index) => ({
-            itemType: unbilledItems[index].itemType,
-            itemId: unbilledItems[index].itemId,
-            description: item.description,
-            quantity: item.quantity,
-            unitPrice: item.unitPrice,
-            amount: item.amount,
-            isTaxInclusive: item.isTaxInclusive,
-            taxRate: item.taxRate,
-            taxAmount: item.taxAmount,
-            total: item.lineTotal,
-          })),
+    // 5-6. Issue bill number and create billing record with items
+    // (same transaction: a failed bill does not burn a number)
+    const bill = await this.prisma.$transaction(async (tx) => {
+      const billNumber = await this.sequenceService.next(SequenceName.BILL, tx);
+
+      return tx.billing.create({
+        data: {
+          visitId: dto.visitId,
+          billNumber,
+          subtotal: breakdown.subtotal,
+          taxAmount: breakdown.totalTax,
+          discount: 0,
+          total: breakdown.grandTotal,
+          balance: breakdown.grandTotal, // Initially, balance = total
+          status: 'PENDING',
+          generatedBy: dto.generatedBy,
+          placeOfSupply: dto.placeOfSupply,
+          items: {
+            create: breakdown.items.map((item, index) => ({
+              itemType: unbilledItems[index].itemType,
+              itemId: unbilledItems[index].itemId,
+              description: item.description,
+              quantity: item.quantity,
+              unitPrice: item.unitPrice,
+              amount: item.amount,
+              isTaxInclusive: item.isTaxInclusive,
+              taxRate: item.taxRate,
+              taxAmount: item.taxAmount,
+              total: item.lineTotal,
+              hsnSacCode: unbilledItems[index].hsnSacCode,
+            })),
+          },
         },
-      },
-      include: {
-        items: true,
-      },
+        include: {
+          items: true,
+        },
+      });
     });
 
     // 7. Return formatted response
@@ -155,30 +164,36 @@ export class BillingService {
 
   /**
    * Aggregate all unbilled items from a visit
-   * Fetches: Consultation fees, Medicines, Lab tests
+   * Fetches: Consultation fees, Medicines, Lab tests, Lab panels
+   * Prices and GST come from TariffService as of the visit's arrival
    */
   private async aggregateUnbilledItems(visitId: string): Promise<UnbilledItem[]> {
     const items: UnbilledItem[] = [];
 
-    // Fetch visit with patient data
+    // Fetch visit with its own prescriptions and lab orders
     const visit = await this.prisma.visit.findUnique({
       where: { id: visitId },
       include: {
-        patient: {
+        prescriptions: {
           include: {
-            prescriptions: {
+            items: {
               include: {
-                items: {
-                  include: { medicine: true },
-                  where: { dispensed: true }, // Only dispensed medicines
-                },
-                doctor: true,
+                medicine: true,
+                dispenseRecords: { include: { medicine: true } },
               },
+              where: { dispensedQuantity: { gt: 0 } }, // Only what was actually dispensed
             },
-            labOrders: {
-              include: { test: true },
-              where: { status: 'COMPLETED' }, // Only completed tests
-            },
+            doctor: true,
+          },
+        },
+        labOrders: {
+          include: { test: true },
+          where: { status: 'RELEASED' }, // Only verified, released tests
+        },
+        labPanelOrders: {
+          include: {
+            panel: true,
+            orders: { select: { status: true } },
           },
         },
       },
@@ -188,89 +203,97 @@ export class BillingService {
       throw new NotFoundException(`Visit with ID ${visitId} not found`);
     }
 
-    // 1. Add consultation fee (if patient has prescriptions/lab orders)
-    const hasPrescriptions = visit.patient.prescriptions.length > 0;
-    const hasLabOrders = visit.patient.labOrders.length > 0;
+    // 1. Add consultation fee (if the visit has prescriptions/lab orders)
+    const hasPrescriptions = visit.prescriptions.length > 0;
+    const hasLabOrders = visit.labOrders.length > 0;
 
     if (hasPrescriptions || hasLabOrders) {
-      // Consultation fee: ₹300 with 18% GST (exclusive)
+      // Consultation fee: per specialty, NEW vs FOLLOW_UP
+      const consultation = await this.tariffService.getConsultationCharge(visit);
+
       items.push({
         itemType: 'CONSULTATION',
-        description: 'Doctor Consultation Fee',
+        description: consultation.description,
         quantity: 1,
-        unitPrice: 300,
+        unitPrice: consultation.unitPrice,
         isTaxInclusive: false, // Services: tax added on top
-        taxRate: 0.18, // 18% GST for healthcare services
+        taxRate: consultation.taxRate,
+        hsnSacCode: consultation.hsnSacCode,
       });
     }
 
-    // 2. Add dispensed medicines
-    for (const prescription of visit.patient.prescriptions) {
+    // 2. Add dispensed medicines: the quantity handed over, per brand
+    // (a substituted brand is billed at its own price)
+    for (const prescription of visit.prescriptions) {
       for (const item of prescription.items) {
-        if (item.dispensed) {
+        const byMedicine = new Map<string, { medicine: Medicine; quantity: number }>();
+
+        for (const record of item.dispenseRecords) {
+          const line = byMedicine.get(record.medicineId);
+          if (line) {
+            line.quantity += record.quantity;
+          } else {
+            byMedicine.set(record.medicineId, { medicine: record.medicine, quantity: record.quantity });
+          }
+        }
+
+        for (const { medicine, quantity } of byMedicine.values()) {
+          const price = await this.tariffService.getMedicinePrice(medicine, visit.arrivedAt);
+          const substituted = medicine.id !== item.medicineId;
+
           items.push({
             itemType: 'MEDICINE',
             itemId: item.id,
-            description: `${item.medicine.name} ${item.medicine.strength}`,
-            quantity: item.quantity,
-            unitPrice: item.medicine.mrp,
+            description:
+              `${medicine.name} ${medicine.strength}` +
+              (substituted ? ` (for ${item.medicine.name})` : ''),
+            quantity,
+            unitPrice: price.unitPrice,
             isTaxInclusive: true, // Pharmacy: MRP includes tax
-            taxRate: 0.12, // 12% GST for general medicines
+            taxRate: price.taxRate,
+            hsnSacCode: price.hsnSacCode,
           });
         }
       }
     }
 
-    // 3. Add completed lab tests
-    for (const labOrder of visit.patient.labOrders) {
-      if (labOrder.status === 'COMPLETED') {
+    // 3. Add released lab tests (panel components are billed with their panel)
+    for (const labOrder of visit.labOrders) {
+      if (labOrder.status === 'RELEASED' && !labOrder.panelOrderId) {
+        const price = await this.tariffService.getLabTestPrice(labOrder.test, visit.arrivedAt);
+
         items.push({
           itemType: 'LAB_TEST',
           itemId: labOrder.id,
           description: labOrder.test.name,
           quantity: 1,
-          unitPrice: labOrder.test.price,
+          unitPrice: price.unitPrice,
           isTaxInclusive: false, // Services: tax added on top
-          taxRate: 0.18, // 18% GST for healthcare services
+          taxRate: price.taxRate,
+          hsnSacCode: price.hsnSacCode,
         });
       }
     }
 
-    return items;
-  }
-
-  /**
-   * Create auto-incremented bill number
-   * Format: HMS/2024/0001, HMS/2024/0002, etc.
-   */
-  private async createBillNumber(): Promise<string> {
-    const currentYear = new Date().getFullYear();
-    const prefix = `HMS/${currentYear}/`;
-
-    // Find the latest bill number for this year
-    const latestBill = await this.prisma.billing.findFirst({
-      where: {
-        billNumber: {
-          startsWith: prefix,
-        },
-      },
-      orderBy: {
-        generatedAt: 'desc',
-      },
-    });
-
-    let nextNumber = 1;
+    // 4. Add lab panels once every component test is released (one line, package price)
+    for (const panelOrder of visit.labPanelOrders) {
+      if (panelOrder.orders.every((order) => order.status === 'RELEASED')) {
+        const price = await this.tariffService.getLabPanelPrice(panelOrder.panel, visit.arrivedAt);
 
-    if (latestBill) {
-      // Extract number from "HMS/2024/0001" → 1
-      const lastNumber = parseInt(latestBill.billNumber.split('/')[2], 10);
-      nextNumber = lastNumber + 1;
+        items.push({
+          itemType: 'LAB_PANEL',
+          itemId: panelOrder.id,
+          description: panelOrder.panel.name,
+          quantity: 1,
+          unitPrice: price.unitPrice,
+          isTaxInclusive: false, // Services: tax added on top
+          taxRate: price.taxRate,
+          hsnSacCode: price.hsnSacCode,
+        });
+      }
     }
 
-    // Pad with zeros: 1 → 0001
-    const paddedNumber = nextNumber.toString().padStart(4, '0');
-
-    return `${prefix}${paddedNumber}`;
+    return items;
   }
 
   /**
@@ -285,6 +308,7 @@ export class BillingService {
       taxAmount: bill.taxAmount,
       discount: bill.discount,
       total: bill.total,
+      paidAmount: bill.paidAmount,
       balance: bill.balance,
       status: bill.status,
       generatedAt: bill.generatedAt,
@@ -299,6 +323,7 @@ export class BillingService {
         taxRate: item.taxRate,
         taxAmount: item.taxAmount,
         total: item.total,
+        hsnSacCode: item.hsnSacCode,
       })),
     };
   }
@@ -0,0 +1,119 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { CreditBillingService } from './credit-billing.service';
+import {
+  CreateCreditBillingDto,
+  RecordPreAuthDto,
+  ApproveClaimDto,
+  SettleClaimDto,
+} from './dto/credit-billing.dto';
+import { RejectRequestDto } from './dto/reject-request.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+/**
+ * CreditBillingController - TPA desk
+ *
+ * Endpoints:
+ * - POST /api/billing/credit - Attach insurance policy to a bill
+ * - GET /api/billing/credit/open - Claims awaiting approval or settlement
+ * - GET /api/billing/credit/ageing - Unsettled claim ageing per provider
+ * - GET /api/billing/credit/bill/:billId - Claim on a bill
+ * - PATCH /api/billing/credit/:id/pre-auth - Record pre-authorization
+ * - PATCH /api/billing/credit/:id/approve - Record (partial) approval
+ * - PATCH /api/billing/credit/:id/reject - Record rejection
+ * - POST /api/billing/credit/:id/settle - Record insurer settlement
+ */
+@Controller('billing/credit')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.BILLING, UserRole.ADMIN)
+export class CreditBillingController {
+  constructor(private readonly creditBillingService: CreditBillingService) {}
+
+  /**
+   * Attach insurance policy and submit claim
+   * POST /api/billing/credit
+   */
+  @Post()
+  async createCreditBilling(@Body() dto: CreateCreditBillingDto) {
+    return this.creditBillingService.createCreditBilling(dto);
+  }
+
+  /**
+   * Get claims awaiting approval or settlement
+   * GET /api/billing/credit/open?provider=Star Health
+   */
+  @Get('open')
+  async getOpenClaims(@Query('provider') provider?: string) {
+    return this.creditBillingService.getOpenClaims(provider);
+  }
+
+  /**
+   * ⭐ Ageing report of unsettled claims per insurance provider
+   * GET /api/billing/credit/ageing
+   */
+  @Get('ageing')
+  async getAgeingReport() {
+    return this.creditBillingService.getAgeingReport();
+  }
+
+  /**
+   * Get claim on a bill
+   * GET /api/billing/credit/bill/:billId
+   */
+  @Get('bill/:billId')
+  async getCreditForBill(@Param('billId') billId: string) {
+    return this.creditBillingService.getCreditForBill(billId);
+  }
+
+  /**
+   * Record pre-authorization code
+   * PATCH /api/billing/credit/:id/pre-auth
+   */
+  @Patch(':id/pre-auth')
+  async recordPreAuth(@Param('id') creditId: string, @Body() dto: RecordPreAuthDto) {
+    return this.creditBillingService.recordPreAuth(creditId, dto);
+  }
+
+  /**
+   * Record TPA approval (full or partial)
+   * PATCH /api/billing/credit/:id/approve
+   */
+  @Patch(':id/approve')
+  async approveClaim(@Param('id') creditId: string, @Body() dto: ApproveClaimDto) {
+    return this.creditBillingService.approveClaim(creditId, dto);
+  }
+
+  /**
+   * Record TPA rejection
+   * PATCH /api/billing/credit/:id/reject
+   */
+  @Patch(':id/reject')
+  async rejectClaim(@Param('id') creditId: string, @Body() dto: RejectRequestDto) {
+    return this.creditBillingService.rejectClaim(creditId, dto.reason);
+  }
+
+  /**
+   * ⭐ Record insurer settlement
+   * POST /api/billing/credit/:id/settle
+   */
+  @Post(':id/settle')
+  async settleClaim(
+    @Param('id') creditId: string,
+    @Body() dto: SettleClaimDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.creditBillingService.settleClaim(creditId, dto, user.id);
+  }
+}
@@ -0,0 +1,406 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { BillingStatus, CreditStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PaymentsService } from './payments.service';
+import {
+  CreateCreditBillingDto,
+  RecordPreAuthDto,
+  ApproveClaimDto,
+  SettleClaimDto,
+} from './dto/credit-billing.dto';
+import {
+  AgeingBucket,
+  daysOutstanding,
+  emptyAgeingBuckets,
+  getAgeingBucket,
+} from './utils/ageing';
+
+/**
+ * Claim receivable ageing for one insurance provider
+ */
+export interface ProviderAgeing {
+  insuranceProvider: string;
+  claimCount: number;
+  totalReceivable: number;
+  oldestClaimDays: number;
+  buckets: Record<AgeingBucket, number>;
+}
+
+/**
+ * CreditBillingService - Insurance/TPA desk
+ *
+ * Claim lifecycle:
+ * 1. Attach policy details to a bill (PENDING: submitted to TPA)
+ * 2. Record the pre-authorization code
+ * 3. Record approval → APPROVED or PARTIALLY_APPROVED
+ *    Bill splits into patient co-pay (collected at the counter) and insurer receivable
+ * 4. Record the insurer's payment → SETTLED
+ *
+ * A rejected claim leaves the full amount payable by the patient.
+ */
+@Injectable()
+export class CreditBillingService {
+  // Claims still waiting on money from the insurer
+  private readonly UNSETTLED: CreditStatus[] = [
+    CreditStatus.PENDING,
+    CreditStatus.APPROVED,
+    CreditStatus.PARTIALLY_APPROVED,
+  ];
+
+  constructor(
+    private prisma: PrismaService,
+    private paymentsService: PaymentsService,
+  ) {}
+
+  /**
+   * Attach insurance policy details to a bill and submit the claim
+   */
+  async createCreditBilling(dto: CreateCreditBillingDto) {
+    const bill = await this.prisma.billing.findUnique({
+      where: { id: dto.billId },
+      include: { creditBilling: true },
+    });
+
+    if (!bill) {
+      throw new NotFoundException(`Bill with ID ${dto.billId} not found`);
+    }
+
+    const closed: BillingStatus[] = [BillingStatus.PAID, BillingStatus.WRITTEN_OFF, BillingStatus.CANCELLED];
+    if (closed.includes(bill.status)) {
+      throw new BadRequestException(
+        `Cannot raise an insurance claim on ${bill.status.toLowerCase().replace('_', ' ')} bill ${bill.billNumber}`,
+      );
+    }
+
+    if (bill.creditBilling) {
+      throw new ConflictException(`Bill ${bill.billNumber} already has an insurance claim`);
+    }
+
+    const credit = await this.prisma.creditBilling.create({
+      data: {
+        billingId: bill.id,
+        insuranceProvider: dto.insuranceProvider,
+        policyNumber: dto.policyNumber,
+        claimNumber: dto.claimNumber,
+        remarks: dto.remarks,
+        submittedAt: new Date(),
+      },
+    });
+
+    console.log(`✅ Insurance claim raised on ${bill.billNumber} (${dto.insuranceProvider})`);
+
+    return credit;
+  }
+
+  /**
+   * Record the TPA pre-authorization code
+   */
+  async recordPreAuth(creditId: string, dto: RecordPreAuthDto) {
+    const credit = await this.getCredit(creditId);
+
+    if (credit.status !== CreditStatus.PENDING) {
+      throw new BadRequestException(
+        `Pre-authorization can only be recorded on pending claims (claim is ${credit.status.toLowerCase()})`,
+      );
+    }
+
+    const { count } = await this.prisma.creditBilling.updateMany({
+      where: { id: creditId, status: CreditStatus.PENDING },
+      data: {
+        approvalCode: dto.approvalCode,
+        claimNumber: dto.claimNumber ?? credit.claimNumber,
+      },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('Claim is no longer pending');
+    }
+
+    return this.prisma.creditBilling.findUniqueOrThrow({
+      where: { id: creditId },
+    });
+  }
+
+  /**
+   * ⭐ Record TPA approval and split the bill
+   * insuranceShare: receivable from the insurer (never more than the open balance)
+   * patientShare: co-pay collected from the patient
+   */
+  async approveClaim(creditId: string, dto: ApproveClaimDto) {
+    const credit = await this.getCredit(creditId);
+
+    if (credit.status !== CreditStatus.PENDING) {
+      throw new BadRequestException(`Claim is already ${credit.status.toLowerCase()}`);
+    }
+
+    if (!credit.approvalCode) {
+      throw new BadRequestException('Record the pre-authorization code before approval');
+    }
+
+    const { bill, updated, insuranceShare, patientShare } = await this.prisma.$transaction(
+      async (tx) => {
+        // Lock the bill so the split is taken against a balance payments can't move
+        await tx.$queryRaw`SELECT "id" FROM "billings" WHERE "id" = ${credit.billingId} FOR UPDATE`;
+
+        const bill = await tx.billing.findUniqueOrThrow({
+          where: { id: credit.billingId },
+        });
+        const claimed = this.round(bill.total - bill.refundedAmount);
+
+        if (dto.approvedAmount > claimed) {
+          throw new BadRequestException(
+            `Approved amount ₹${dto.approvedAmount} exceeds claimed amount ₹${claimed} on ${bill.billNumber}`,
+          );
+        }
+
+        // Anything the patient already paid reduces what is left for the insurer
+        const insuranceShare = this.round(Math.min(dto.approvedAmount, bill.balance));
+        const patientShare = this.round(claimed - insuranceShare);
+
+        // Guard against a concurrent approve/reject of the same claim
+        const { count } = await tx.creditBilling.updateMany({
+          where: { id: creditId, status: CreditStatus.PENDING },
+          data: {
+            status:
+              dto.approvedAmount < claimed
+                ? CreditStatus.PARTIALLY_APPROVED
+                : CreditStatus.APPROVED,
+            approvedAmount: dto.approvedAmount,
+            insuranceShare,
+            patientShare,
+            approvedAt: new Date(),
+            remarks: dto.remarks ?? credit.remarks,
+          },
+        });
+
+        if (count === 0) {
+          throw new BadRequestException('Claim is no longer pending');
+        }
+
+        const updated = await tx.creditBilling.findUniqueOrThrow({
+          where: { id: creditId },
+        });
+
+        return { bill, updated, insuranceShare, patientShare };
+      },
+    );
+
+    console.log(
+      `✅ Claim on ${bill.billNumber} approved: insurer ₹${insuranceShare}, patient ₹${patientShare}`,
+    );
+
+    return updated;
+  }
+
+  /**
+   * Record TPA rejection - the patient pays the full bill
+   */
+  async rejectClaim(creditId: string, reason: string) {
+    const credit = await this.getCredit(creditId);
+
+    if (credit.status !== CreditStatus.PENDING) {
+      throw new BadRequestException(`Claim is already ${credit.status.toLowerCase()}`);
+    }
+
+    const { count } = await this.prisma.creditBilling.updateMany({
+      where: { id: creditId, status: CreditStatus.PENDING },
+      data: {
+        status: CreditStatus.REJECTED,
+        approvedAmount: 0,
+        insuranceShare: 0,
+        patientShare: this.round(credit.billing.total - credit.billing.refundedAmount),
+        remarks: reason,
+      },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('Claim is no longer pending');
+    }
+
+    return this.prisma.creditBilling.findUniqueOrThrow({
+      where: { id: creditId },
+    });
+  }
+
+  /**
+   * ⭐ Record the insurer's payment and close the claim
+   * Short settlements (TPA deductions) move the shortfall onto the patient
+   */
+  async settleClaim(creditId: string, dto: SettleClaimDto, settledBy: string) {
+    const credit = await this.getCredit(creditId);
+
+    if (
+      credit.status !== CreditStatus.APPROVED &&
+      credit.status !== CreditStatus.PARTIALLY_APPROVED
+    ) {
+      throw new BadRequestException(
+        `Only approved claims can be settled (claim is ${credit.status.toLowerCase()})`,
+      );
+    }
+
+    const insuranceShare = credit.insuranceShare || 0;
+    const settledAmount = dto.settledAmount ?? insuranceShare;
+
+    if (settledAmount > insuranceShare) {
+      throw new BadRequestException(
+        `Settlement of ₹${settledAmount} exceeds insurer share of ₹${insuranceShare}`,
+      );
+    }
+
+    const { bill, payment, claim } = await this.prisma.$transaction(async (tx) => {
+      // Lock the bill before writing the settlement payment
+      await tx.$queryRaw`SELECT "id" FROM "billings" WHERE "id" = ${credit.billingId} FOR UPDATE`;
+
+      // Only one settlement per claim: a double submit finds it already SETTLED
+      const { count } = await tx.creditBilling.updateMany({
+        where: {
+          id: creditId,
+          status: { in: [CreditStatus.APPROVED, CreditStatus.PARTIALLY_APPROVED] },
+        },
+        data: {
+          status: CreditStatus.SETTLED,
+          insuranceShare: settledAmount,
+          patientShare: this.round(
+            (credit.patientShare || 0) + insuranceShare - settledAmount,
+          ),
+          settledAt: new Date(),
+          remarks: dto.remarks ?? credit.remarks,
+        },
+      });
+
+      if (count === 0) {
+        throw new BadRequestException('Claim has already been settled');
+      }
+
+      const payment = await this.paymentsService.recordClaimSettlement(
+        tx,
+        {
+          billingId: credit.billingId,
+          amount: settledAmount,
+          transactionId: dto.transactionId,
+          remarks: `TPA settlement ${credit.claimNumber || credit.policyNumber} (${credit.insuranceProvider})`,
+        },
+        settledBy,
+      );
+
+      const claim = await tx.creditBilling.findUniqueOrThrow({
+        where: { id: creditId },
+      });
+
+      const bill = await this.paymentsService.recalculateBalance(tx, credit.billingId);
+
+      return { bill, payment, claim };
+    });
+
+    console.log(
+      `✅ Claim on ${bill.billNumber} settled: ₹${settledAmount} from ${credit.insuranceProvider} (${payment.receiptNumber})`,
+    );
+
+    await this.paymentsService.completeVisitIfSettled(bill, settledBy);
+
+    return { claim, bill, payment };
+  }
+
+  /**
+   * Get claim for a bill
+   */
+  async getCreditForBill(billId: string) {
+    const credit = await this.prisma.creditBilling.findUnique({
+      where: { billingId: billId },
+      include: { billing: true },
+    });
+
+    if (!credit) {
+      throw new NotFoundException(`No insurance claim on bill ${billId}`);
+    }
+
+    return credit;
+  }
+
+  /**
+   * Get claims still awaiting approval or settlement
+   */
+  async getOpenClaims(insuranceProvider?: string) {
+    return this.prisma.creditBilling.findMany({
+      where: {
+        status: { in: this.UNSETTLED },
+        ...(insuranceProvider && { insuranceProvider }),
+      },
+      include: {
+        billing: {
+          select: {
+            id: true,
+            billNumber: true,
+            total: true,
+            balance: true,
+            status: true,
+          },
+        },
+      },
+      orderBy: { submittedAt: 'asc' },
+    });
+  }
+
+  /**
+   * ⭐ Ageing of unsettled claims per insurance provider
+   * Receivable is the approved insurer share, or the open balance while pending
+   */
+  async getAgeingReport(asOf: Date = new Date()): Promise<ProviderAgeing[]> {
+    const claims = await this.prisma.creditBilling.findMany({
+      where: { status: { in: this.UNSETTLED } },
+      include: {
+        billing: { select: { balance: true, generatedAt: true } },
+      },
+    });
+
+    const report = new Map<string, ProviderAgeing>();
+
+    for (const claim of claims) {
+      const since = claim.submittedAt || claim.billing.generatedAt;
+      const receivable =
+        claim.status === CreditStatus.PENDING
+          ? claim.billing.balance
+          : claim.insuranceShare || 0;
+
+      const row = report.get(claim.insuranceProvider) || {
+        insuranceProvider: claim.insuranceProvider,
+        claimCount: 0,
+        totalReceivable: 0,
+        oldestClaimDays: 0,
+        buckets: emptyAgeingBuckets(),
+      };
+
+      const bucket = getAgeingBucket(since, asOf);
+      row.claimCount += 1;
+      row.totalReceivable = this.round(row.totalReceivable + receivable);
+      row.buckets[bucket] = this.round(row.buckets[bucket] + receivable);
+      row.oldestClaimDays = Math.max(row.oldestClaimDays, daysOutstanding(since, asOf));
+
+      report.set(claim.insuranceProvider, row);
+    }
+
+    return [...report.values()].sort((a, b) => b.totalReceivable - a.totalReceivable);
+  }
+
+  private async getCredit(creditId: string) {
+    const credit = await this.prisma.creditBilling.findUnique({
+      where: { id: creditId },
+      include: { billing: true },
+    });
+
+    if (!credit) {
+      throw new NotFoundException(`Insurance claim with ID ${creditId} not found`);
+    }
+
+    return credit;
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -0,0 +1,90 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { DiscountsService } from './discounts.service';
+import { RequestDiscountDto } from './dto/request-discount.dto';
+import { RejectRequestDto } from './dto/reject-request.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+/**
+ * DiscountsController
+ *
+ * Endpoints:
+ * - POST /api/billing/discounts - Raise discount request (BILLING)
+ * - GET /api/billing/discounts/pending - Requests awaiting approval
+ * - GET /api/billing/discounts/bill/:billId - Discounts on a bill
+ * - PATCH /api/billing/discounts/:id/approve - Approve (ADMIN)
+ * - PATCH /api/billing/discounts/:id/reject - Reject with reason (ADMIN)
+ */
+@Controller('billing/discounts')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class DiscountsController {
+  constructor(private readonly discountsService: DiscountsService) {}
+
+  /**
+   * Raise a discount request
+   * POST /api/billing/discounts
+   */
+  @Post()
+  @Roles(UserRole.BILLING, UserRole.ADMIN)
+  async requestDiscount(
+    @Body() dto: RequestDiscountDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.discountsService.requestDiscount(dto, user.id);
+  }
+
+  /**
+   * Get discount requests awaiting approval
+   * GET /api/billing/discounts/pending
+   */
+  @Get('pending')
+  @Roles(UserRole.BILLING, UserRole.ADMIN)
+  async getPendingDiscounts() {
+    return this.discountsService.getPendingDiscounts();
+  }
+
+  /**
+   * Get all discounts on a bill
+   * GET /api/billing/discounts/bill/:billId
+   */
+  @Get('bill/:billId')
+  @Roles(UserRole.BILLING, UserRole.ADMIN)
+  async getDiscountsForBill(@Param('billId') billId: string) {
+    return this.discountsService.getDiscountsForBill(billId);
+  }
+
+  /**
+   * ⭐ Approve discount (recomputes bill total and balance)
+   * PATCH /api/billing/discounts/:id/approve
+   */
+  @Patch(':id/approve')
+  @Roles(UserRole.ADMIN)
+  async approveDiscount(@Param('id') discountId: string, @CurrentUser() user: any) {
+    return this.discountsService.approveDiscount(discountId, user.id);
+  }
+
+  /**
+   * Reject discount
+   * PATCH /api/billing/discounts/:id/reject
+   */
+  @Patch(':id/reject')
+  @Roles(UserRole.ADMIN)
+  async rejectDiscount(
+    @Param('id') discountId: string,
+    @Body() dto: RejectRequestDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.discountsService.rejectDiscount(discountId, user.id, dto.reason);
+  }
+}
@@ -0,0 +1,269 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import {
+  Prisma,
+  BillingStatus,
+  DiscountStatus,
+  DiscountType,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { QueueGateway } from '../events/queue.gateway';
+import { PaymentsService } from './payments.service';
+import { TaxCalculator } from './utils/tax-calculator';
+import { RequestDiscountDto } from './dto/request-discount.dto';
+
+/**
+ * DiscountsService - Discount approval workflow
+ *
+ * 1. BILLING staff raise a discount request against an unpaid bill
+ * 2. ADMIN approves or rejects it (with a reason)
+ * 3. Approved discounts recompute the bill total/tax through TaxCalculator
+ * 4. The requester is notified of every decision in real time
+ */
+@Injectable()
+export class DiscountsService {
+  private taxCalculator: TaxCalculator;
+
+  constructor(
+    private prisma: PrismaService,
+    private paymentsService: PaymentsService,
+    private queueGateway: QueueGateway,
+  ) {
+    this.taxCalculator = new TaxCalculator();
+  }
+
+  /**
+   * Raise a discount request
+   */
+  async requestDiscount(dto: RequestDiscountDto, requestedBy: string) {
+    const bill = await this.prisma.billing.findUnique({
+      where: { id: dto.billId },
+      include: { items: true },
+    });
+
+    if (!bill) {
+      throw new NotFoundException(`Bill with ID ${dto.billId} not found`);
+    }
+
+    const closed: BillingStatus[] = [BillingStatus.PAID, BillingStatus.WRITTEN_OFF, BillingStatus.CANCELLED];
+    if (closed.includes(bill.status)) {
+      throw new BadRequestException(
+        `Cannot discount ${bill.status.toLowerCase().replace('_', ' ')} bill ${bill.billNumber}; raise a refund instead`,
+      );
+    }
+
+    if (dto.discountType === DiscountType.PERCENTAGE && !dto.percentage) {
+      throw new BadRequestException('percentage is required for PERCENTAGE discounts');
+    }
+
+    if (!dto.amount && !dto.percentage) {
+      throw new BadRequestException('Provide a discount amount or percentage');
+    }
+
+    // Percentages apply to the gross (pre-discount) bill value
+    const grossTotal = this.taxCalculator.breakdownFromItems(bill.items).grandTotal;
+    const amount = dto.percentage
+      ? Math.round(grossTotal * dto.percentage) / 100
+      : dto.amount!;
+
+    if (amount > bill.balance) {
+      throw new BadRequestException(
+        `Discount of ₹${amount} exceeds balance of ₹${bill.balance} on ${bill.billNumber}`,
+      );
+    }
+
+    const discount = await this.prisma.discount.create({
+      data: {
+        billingId: bill.id,
+        discountType: dto.discountType,
+        amount,
+        percentage: dto.percentage,
+        reason: dto.reason,
+        requestedBy,
+      },
+    });
+
+    console.log(`✅ Discount of ₹${amount} requested on ${bill.billNumber}`);
+
+    return discount;
+  }
+
+  /**
+   * ⭐ Approve a discount and recompute the bill
+   */
+  async approveDiscount(discountId: string, approvedBy: string) {
+    const discount = await this.getPendingDiscount(discountId, approvedBy);
+
+    const bill = await this.prisma.$transaction(async (tx) => {
+      // Lock the bill so concurrent approvals and payments see each other's balance
+      await tx.$queryRaw`SELECT "id" FROM "billings" WHERE "id" = ${discount.billingId} FOR UPDATE`;
+
+      const bill = await tx.billing.findUniqueOrThrow({
+        where: { id: discount.billingId },
+      });
+
+      // Balance may have dropped since the request was raised
+      if (discount.amount > bill.balance) {
+        throw new BadRequestException(
+          `Discount of ₹${discount.amount} now exceeds balance of ₹${bill.balance} on ${bill.billNumber}`,
+        );
+      }
+
+      // Guard against a concurrent approve/reject of the same request
+      const { count } = await tx.discount.updateMany({
+        where: { id: discountId, status: DiscountStatus.PENDING },
+        data: {
+          status: DiscountStatus.APPROVED,
+          approvedBy,
+          approvedAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        throw new BadRequestException('Discount is no longer pending');
+      }
+
+      await this.recomputeBillTotals(tx, bill.id);
+
+      return this.paymentsService.recalculateBalance(tx, bill.id);
+    });
+
+    console.log(
+      `✅ Discount ₹${discount.amount} approved on ${bill.billNumber}, new total ₹${bill.total}`,
+    );
+
+    this.queueGateway.notifyUser(discount.requestedBy, {
+      type: 'discount_approved',
+      message: `Discount of ₹${discount.amount} on ${bill.billNumber} approved`,
+      data: { discountId, billId: bill.id, total: bill.total, balance: bill.balance },
+    });
+
+    return bill;
+  }
+
+  /**
+   * Reject a discount with a reason
+   */
+  async rejectDiscount(discountId: string, rejectedBy: string, reason: string) {
+    const discount = await this.getPendingDiscount(discountId, rejectedBy);
+
+    const { count } = await this.prisma.discount.updateMany({
+      where: { id: discountId, status: DiscountStatus.PENDING },
+      data: {
+        status: DiscountStatus.REJECTED,
+        approvedBy: rejectedBy,
+        approvedAt: new Date(),
+        rejectionReason: reason,
+      },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('Discount is no longer pending');
+    }
+
+    const updated = await this.prisma.discount.findUniqueOrThrow({
+      where: { id: discountId },
+      include: {
+        billing: { select: { billNumber: true } },
+      },
+    });
+
+    this.queueGateway.notifyUser(discount.requestedBy, {
+      type: 'discount_rejected',
+      message: `Discount of ₹${discount.amount} on ${updated.billing.billNumber} rejected: ${reason}`,
+      data: { discountId, billId: discount.billingId, reason },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Get discount requests awaiting approval
+   */
+  async getPendingDiscounts() {
+    return this.prisma.discount.findMany({
+      where: { status: DiscountStatus.PENDING },
+      include: {
+        billing: {
+          select: {
+            id: true,
+            billNumber: true,
+            total: true,
+            balance: true,
+          },
+        },
+      },
+      orderBy: { requestedAt: 'asc' },
+    });
+  }
+
+  /**
+   * Get all discounts on a bill
+   */
+  async getDiscountsForBill(billId: string) {
+    return this.prisma.discount.findMany({
+      where: { billingId: billId },
+      orderBy: { requestedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Reapply all approved discounts to the bill's line items
+   */
+  private async recomputeBillTotals(tx: Prisma.TransactionClient, billId: string) {
+    const bill = await tx.billing.findUniqueOrThrow({
+      where: { id: billId },
+      include: { items: true },
+    });
+
+    const approved = await tx.discount.aggregate({
+      _sum: { amount: true },
+      where: {
+        billingId: billId,
+        status: DiscountStatus.APPROVED,
+      },
+    });
+
+    const discounted = this.taxCalculator.applyDiscount(
+      this.taxCalculator.breakdownFromItems(bill.items),
+      approved._sum.amount || 0,
+    );
+
+    await tx.billing.update({
+      where: { id: billId },
+      data: {
+        subtotal: discounted.subtotal,
+        taxAmount: discounted.totalTax,
+        discount: discounted.discount,
+        total: discounted.grandTotal,
+      },
+    });
+  }
+
+  /**
+   * Load a pending discount, blocking self-approval
+   */
+  private async getPendingDiscount(discountId: string, reviewerId: string) {
+    const discount = await this.prisma.discount.findUnique({
+      where: { id: discountId },
+    });
+
+    if (!discount) {
+      throw new NotFoundException(`Discount with ID ${discountId} not found`);
+    }
+
+    if (discount.status !== DiscountStatus.PENDING) {
+      throw new BadRequestException(`Discount is already ${discount.status.toLowerCase()}`);
+    }
+
+    if (discount.requestedBy === reviewerId) {
+      throw new ForbiddenException('You cannot review your own discount request');
+    }
+
+    return discount;
+  }
+}
@@ -13,6 +13,7 @@ export class BillItemResponse {
   taxRate: number;
   taxAmount: number;
   total: number;
+  hsnSacCode: string | null;
 }
 
 export class BillResponse {
@@ -23,6 +24,7 @@ export class BillResponse {
   taxAmount: number;
   discount: number;
   total: number;
+  paidAmount: number;
   balance: number;
   status: string;
   generatedAt: Date;
@@ -30,13 +32,14 @@ export class BillResponse {
 }
 
 export class UnbilledItem {
-  itemType: 'CONSULTATION' | 'MEDICINE' | 'LAB_TEST';
+  itemType: 'CONSULTATION' | 'MEDICINE' | 'LAB_TEST' | 'LAB_PANEL';
   itemId?: string;
   description: string;
   quantity: number;
   unitPrice: number;
   isTaxInclusive: boolean;
   taxRate: number;
+  hsnSacCode?: string | null;
 }
 
 export class BillPreview {
@@ -0,0 +1,63 @@
+import {
+  IsString,
+  IsOptional,
+  IsNumber,
+  IsPositive,
+  Min,
+} from 'class-validator';
+
+/**
+ * DTOs for the TPA desk (insurance credit billing)
+ */
+
+export class CreateCreditBillingDto {
+  @IsString()
+  billId: string;
+
+  @IsString()
+  insuranceProvider: string; // "ICICI Lombard", "Star Health"
+
+  @IsString()
+  policyNumber: string;
+
+  @IsString()
+  @IsOptional()
+  claimNumber?: string;
+
+  @IsString()
+  @IsOptional()
+  remarks?: string;
+}
+
+export class RecordPreAuthDto {
+  @IsString()
+  approvalCode: string; // Pre-authorization code from TPA
+
+  @IsString()
+  @IsOptional()
+  claimNumber?: string;
+}
+
+export class ApproveClaimDto {
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  approvedAmount: number; // Less than the claimed amount = partial approval
+
+  @IsString()
+  @IsOptional()
+  remarks?: string;
+}
+
+export class SettleClaimDto {
+  @IsString()
+  transactionId: string; // NEFT/UTR reference from the insurer
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  @IsOptional()
+  settledAmount?: number; // Defaults to the approved insurer share
+
+  @IsString()
+  @IsOptional()
+  remarks?: string;
+}
@@ -1,4 +1,4 @@
-import { IsString, IsOptional } from 'class-validator';
+import { IsString, IsOptional, Matches } from 'class-validator';
 
 /**
  * DTO for generating a bill from a visit
@@ -10,4 +10,8 @@ export class GenerateBillDto {
   @IsString()
   @IsOptional()
   generatedBy?: string; // User ID who generated the bill
+
+  @IsOptional()
+  @Matches(/^\d{2}$/, { message: 'placeOfSupply must be a 2-digit GST state code' })
+  placeOfSupply?: string; // Only for recipients outside the hospital's state (IGST)
 }
@@ -0,0 +1,53 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsNumber,
+  IsArray,
+  IsPositive,
+  ArrayMinSize,
+  Matches,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PaymentMode } from '@prisma/client';
+
+/**
+ * One tender in a (possibly split) payment
+ */
+export class PaymentTenderDto {
+  @IsEnum(PaymentMode)
+  mode: PaymentMode;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  amount: number;
+
+  @IsString()
+  @IsOptional()
+  transactionId?: string; // UPI UTR / card approval code / insurance claim reference
+
+  @IsString()
+  @IsOptional()
+  upiId?: string;
+
+  @IsOptional()
+  @Matches(/^\d{4}$/, { message: 'cardLast4 must be 4 digits' })
+  cardLast4?: string;
+
+  @IsString()
+  @IsOptional()
+  remarks?: string;
+}
+
+/**
+ * DTO for recording payment against a bill
+ * Example: ₹2000 cash + ₹444 UPI
+ */
+export class RecordPaymentDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => PaymentTenderDto)
+  tenders: PaymentTenderDto[];
+}
@@ -0,0 +1,10 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+
+/**
+ * DTO for rejecting a discount or refund request
+ */
+export class RejectRequestDto {
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
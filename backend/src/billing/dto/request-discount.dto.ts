@@ -0,0 +1,35 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsNumber,
+  IsPositive,
+  Max,
+} from 'class-validator';
+import { DiscountType } from '@prisma/client';
+
+/**
+ * DTO for raising a discount request on a bill
+ * Either a flat amount or a percentage of the bill total
+ */
+export class RequestDiscountDto {
+  @IsString()
+  billId: string;
+
+  @IsEnum(DiscountType)
+  discountType: DiscountType;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  @IsOptional()
+  amount?: number; // Required unless percentage is given
+
+  @IsNumber()
+  @IsPositive()
+  @Max(100)
+  @IsOptional()
+  percentage?: number; // e.g. 10 for 10%
+
+  @IsString()
+  reason: string; // "Senior citizen", "Staff family", "CSR"
+}
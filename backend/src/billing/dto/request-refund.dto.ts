@@ -0,0 +1,20 @@
+import { IsString, IsOptional, IsNumber, IsPositive } from 'class-validator';
+
+/**
+ * DTO for raising a refund request on a bill
+ */
+export class RequestRefundDto {
+  @IsString()
+  billId: string;
+
+  @IsString()
+  @IsOptional()
+  paymentId?: string; // Original payment being refunded
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  amount: number;
+
+  @IsString()
+  reason: string; // "Cancelled test", "Duplicate payment"
+}
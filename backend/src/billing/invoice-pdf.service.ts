@@ -0,0 +1,458 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import PDFDocument from 'pdfkit';
+import { Response } from 'express';
+import { PaymentStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { TaxCalculator } from './utils/tax-calculator';
+import { amountInWords } from './utils/amount-in-words';
+
+/**
+ * InvoicePdfService - GST tax invoice
+ *
+ * Renders a bill as a tax invoice:
+ * 1. Hospital GSTIN, bill number, place of supply
+ * 2. Line items with HSN/SAC and taxable value
+ * 3. CGST/SGST (or IGST) per rate slab, after discount
+ * 4. Amount in words and payment summary
+ * 5. First print is the original; reprints carry a DUPLICATE watermark
+ */
+@Injectable()
+export class InvoicePdfService {
+  private taxCalculator: TaxCalculator;
+
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+  ) {
+    this.taxCalculator = new TaxCalculator();
+  }
+
+  /**
+   * ⭐ Generate tax invoice PDF
+   */
+  async generateInvoicePDF(billId: string, res: Response) {
+    const bill = await this.prisma.billing.findUnique({
+      where: { id: billId },
+      include: {
+        items: true,
+        visit: {
+          include: { patient: true },
+        },
+        payments: {
+          where: { status: PaymentStatus.SUCCESS },
+          orderBy: { recordedAt: 'asc' },
+        },
+        creditBilling: true,
+      },
+    });
+
+    if (!bill) {
+      throw new NotFoundException(`Bill with ID ${billId} not found`);
+    }
+
+    // Count the print before rendering so concurrent reprints are never "original"
+    const { printCount } = await this.prisma.billing.update({
+      where: { id: billId },
+      data: {
+        printCount: { increment: 1 },
+        lastPrintedAt: new Date(),
+      },
+    });
+    const isDuplicate = printCount > 1;
+
+    const hospital = {
+      name: this.config.get('HOSPITAL_NAME') || 'HMS Hospital',
+      address: this.config.get('HOSPITAL_ADDRESS') || '123 Medical Street, Healthcare City',
+      phone: this.config.get('HOSPITAL_PHONE') || '+1 (555) 123-4567',
+      gstin: this.config.get('HOSPITAL_GSTIN') || 'GSTIN NOT CONFIGURED',
+    };
+    const hospitalState = hospital.gstin.slice(0, 2);
+    const isInterState = !!bill.placeOfSupply && bill.placeOfSupply !== hospitalState;
+
+    // Tax is computed on the discounted value
+    const breakdown = this.taxCalculator.applyDiscount(
+      this.taxCalculator.breakdownFromItems(bill.items),
+      bill.discount,
+    );
+    const slabs = this.taxCalculator.summarizeBySlab(breakdown.items, isInterState);
+
+    // Create PDF document
+    const doc = new PDFDocument({
+      size: 'A4',
+      margins: { top: 50, bottom: 50, left: 50, right: 50 },
+    });
+
+    // Set response headers
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename=invoice_${bill.billNumber.replace(/\//g, '-')}${isDuplicate ? '_duplicate' : ''}.pdf`,
+    );
+
+    // Pipe PDF to response
+    doc.pipe(res);
+
+    if (isDuplicate) {
+      this.drawWatermark(doc);
+      doc.on('pageAdded', () => this.drawWatermark(doc));
+    }
+
+    // ========== HEADER ==========
+    doc
+      .fontSize(22)
+      .font('Helvetica-Bold')
+      .fillColor('#4F46E5')
+      .text(hospital.name, 50, 50);
+
+    doc
+      .fontSize(9)
+      .font('Helvetica')
+      .fillColor('#6B7280')
+      .text(hospital.address, 50, 78)
+      .text(`Phone: ${hospital.phone}`, 50, 91)
+      .font('Helvetica-Bold')
+      .fillColor('#1F2937')
+      .text(`GSTIN: ${hospital.gstin}`, 50, 104);
+
+    doc
+      .fontSize(16)
+      .font('Helvetica-Bold')
+      .fillColor('#1F2937')
+      .text('TAX INVOICE', 345, 50, { width: 200, align: 'right' });
+
+    doc
+      .fontSize(9)
+      .font('Helvetica')
+      .fillColor(isDuplicate ? '#DC2626' : '#6B7280')
+      .text(
+        isDuplicate ? `DUPLICATE (print #${printCount})` : 'ORIGINAL FOR RECIPIENT',
+        345,
+        72,
+        { width: 200, align: 'right' },
+      );
+
+    doc
+      .strokeColor('#E5E7EB')
+      .lineWidth(1)
+      .moveTo(50, 125)
+      .lineTo(545, 125)
+      .stroke();
+
+    // ========== BILL & PATIENT INFO ==========
+    let yPosition = 140;
+    const patient = bill.visit.patient;
+
+    doc
+      .rect(50, yPosition, 240, 85)
+      .fillAndStroke('#F3F4F6', '#E5E7EB');
+
+    doc
+      .fontSize(10)
+      .font('Helvetica-Bold')
+      .fillColor('#1F2937')
+      .text('BILLED TO', 60, yPosition + 10);
+
+    doc
+      .fontSize(9)
+      .font('Helvetica')
+      .fillColor('#374151')
+      .text(`${patient.name} (${patient.uhid})`, 60, yPosition + 27)
+      .text(`Age: ${patient.age} | Gender: ${patient.gender}`, 60, yPosition + 41)
+      .text(`Mobile: ${patient.mobile}`, 60, yPosition + 55)
+      .text(patient.address || '', 60, yPosition + 69, { width: 220, height: 12, ellipsis: true });
+
+    doc
+      .rect(305, yPosition, 240, 85)
+      .fillAndStroke('#EEF2FF', '#C7D2FE');
+
+    doc
+      .fontSize(10)
+      .font('Helvetica-Bold')
+      .fillColor('#1F2937')
+      .text('INVOICE DETAILS', 315, yPosition + 10);
+
+    doc
+      .fontSize(9)
+      .font('Helvetica')
+      .fillColor('#374151')
+      .text(`Invoice No: ${bill.billNumber}`, 315, yPosition + 27)
+      .text(`Date: ${new Date(bill.generatedAt).toLocaleDateString('en-IN')}`, 315, yPosition + 41)
+      .text(`Token: #${bill.visit.token}`, 315, yPosition + 55)
+      .text(
+        `Place of Supply: ${bill.placeOfSupply || hospitalState}${isInterState ? ' (Inter-state)' : ''}`,
+        315,
+        yPosition + 69,
+      );
+
+    yPosition += 105;
+
+    // ========== LINE ITEMS ==========
+    const columns = [
+      { label: '#', x: 55, width: 20, align: 'left' as const },
+      { label: 'Description', x: 75, width: 150, align: 'left' as const },
+      { label: 'HSN/SAC', x: 225, width: 55, align: 'left' as const },
+      { label: 'Qty', x: 280, width: 30, align: 'right' as const },
+      { label: 'Rate', x: 315, width: 55, align: 'right' as const },
+      { label: 'Taxable', x: 375, width: 60, align: 'right' as const },
+      { label: 'GST', x: 440, width: 30, align: 'right' as const },
+      { label: 'Amount', x: 475, width: 65, align: 'right' as const },
+    ];
+
+    const drawHeader = () => {
+      doc
+        .rect(50, yPosition, 495, 22)
+        .fillAndStroke('#4F46E5', '#4F46E5');
+
+      doc.fontSize(8).font('Helvetica-Bold').fillColor('#FFFFFF');
+      columns.forEach((column) =>
+        doc.text(column.label, column.x, yPosition + 7, { width: column.width, align: column.align }),
+      );
+
+      yPosition += 22;
+    };
+
+    drawHeader();
+
+    bill.items.forEach((item, index) => {
+      if (yPosition > 720) {
+        doc.addPage();
+        yPosition = 50;
+        drawHeader();
+      }
+
+      const rowColor = index % 2 === 0 ? '#F9FAFB' : '#FFFFFF';
+
+      doc
+        .rect(50, yPosition, 495, 22)
+        .fillAndStroke(rowColor, '#E5E7EB');
+
+      const values = [
+        String(index + 1),
+        item.description,
+        item.hsnSacCode || '-',
+        String(item.quantity),
+        this.formatAmount(item.unitPrice),
+        this.formatAmount(item.total - item.taxAmount),
+        `${this.formatRate(item.taxRate)}%`,
+        this.formatAmount(item.total),
+      ];
+
+      doc.fontSize(8).font('Helvetica').fillColor('#1F2937');
+      columns.forEach((column, col) =>
+        doc.text(values[col], column.x, yPosition + 7, {
+          width: column.width,
+          align: column.align,
+          height: 10,
+          ellipsis: true,
+        }),
+      );
+
+      yPosition += 22;
+    });
+
+    // ========== TOTALS ==========
+    yPosition = this.ensureSpace(doc, yPosition + 10, 90);
+
+    const totalRows: Array<[string, number]> = [
+      ['Gross Amount', breakdown.grandTotal + breakdown.discount],
+      ...(breakdown.discount > 0 ? [['Less: Discount', -breakdown.discount] as [string, number]] : []),
+      ['Taxable Value', breakdown.subtotal],
+      ['Total GST', breakdown.totalTax],
+    ];
+
+    doc.fontSize(9).font('Helvetica').fillColor('#374151');
+    totalRows.forEach(([label, value]) => {
+      doc
+        .text(label, 345, yPosition, { width: 120 })
+        .text(this.formatAmount(value), 465, yPosition, { width: 75, align: 'right' });
+      yPosition += 14;
+    });
+
+    doc
+      .fontSize(11)
+      .font('Helvetica-Bold')
+      .fillColor('#1F2937')
+      .text('Invoice Total', 345, yPosition + 4, { width: 120 })
+      .text(`Rs. ${this.formatAmount(bill.total)}`, 445, yPosition + 4, { width: 95, align: 'right' });
+
+    yPosition += 24;
+
+    doc
+      .fontSize(9)
+      .font('Helvetica-Oblique')
+      .fillColor('#374151')
+      .text(amountInWords(bill.total), 50, yPosition, { width: 495 });
+
+    yPosition += 25;
+
+    // ========== GST SUMMARY (per rate slab) ==========
+    yPosition = this.ensureSpace(doc, yPosition, 40 + slabs.length * 16);
+
+    doc
+      .fontSize(11)
+      .font('Helvetica-Bold')
+      .fillColor('#1F2937')
+      .text('GST SUMMARY', 50, yPosition);
+
+    yPosition += 18;
+
+    const slabColumns = isInterState
+      ? ['GST Rate', 'Taxable Value', 'IGST', 'Total Tax']
+      : ['GST Rate', 'Taxable Value', 'CGST', 'SGST', 'Total Tax'];
+    const slabWidth = 495 / slabColumns.length;
+
+    doc
+      .rect(50, yPosition, 495, 18)
+      .fillAndStroke('#EEF2FF', '#C7D2FE');
+
+    doc.fontSize(8).font('Helvetica-Bold').fillColor('#1F2937');
+    slabColumns.forEach((label, col) =>
+      doc.text(label, 55 + col * slabWidth, yPosition + 5, { width: slabWidth - 10, align: col === 0 ? 'left' : 'right' }),
+    );
+
+    yPosition += 18;
+
+    slabs.forEach((slab) => {
+      const values = isInterState
+        ? [slab.igst]
+        : [slab.cgst, slab.sgst];
+      const row = [
+        `${this.formatRate(slab.taxRate)}%`,
+        this.formatAmount(slab.taxableValue),
+        ...values.map((value) => `${this.formatAmount(value)} @ ${this.formatRate(isInterState ? slab.taxRate : slab.taxRate / 2)}%`),
+        this.formatAmount(slab.totalTax),
+      ];
+
+      doc
+        .rect(50, yPosition, 495, 16)
+        .stroke('#E5E7EB');
+
+      doc.fontSize(8).font('Helvetica').fillColor('#374151');
+      row.forEach((value, col) =>
+        doc.text(value, 55 + col * slabWidth, yPosition + 4, { width: slabWidth - 10, align: col === 0 ? 'left' : 'right' }),
+      );
+
+      yPosition += 16;
+    });
+
+    yPosition += 15;
+
+    // ========== PAYMENT SUMMARY ==========
+    yPosition = this.ensureSpace(doc, yPosition, 70 + bill.payments.length * 14);
+
+    doc
+      .fontSize(11)
+      .font('Helvetica-Bold')
+      .fillColor('#1F2937')
+      .text('PAYMENT SUMMARY', 50, yPosition);
+
+    yPosition += 18;
+
+    doc.fontSize(8).font('Helvetica').fillColor('#374151');
+
+    if (bill.payments.length === 0) {
+      doc.text('No payments received', 50, yPosition);
+      yPosition += 14;
+    }
+
+    bill.payments.forEach((payment) => {
+      doc
+        .text(payment.receiptNumber, 50, yPosition, { width: 100 })
+        .text(new Date(payment.recordedAt).toLocaleDateString('en-IN'), 150, yPosition, { width: 80 })
+        .text(payment.amount < 0 ? `${payment.mode} (refund)` : payment.mode, 230, yPosition, { width: 110 })
+        .text(payment.transactionId || '', 340, yPosition, { width: 120, height: 10, ellipsis: true })
+        .text(this.formatAmount(payment.amount), 465, yPosition, { width: 75, align: 'right' });
+      yPosition += 14;
+    });
+
+    yPosition += 4;
+
+    doc
+      .fontSize(9)
+      .font('Helvetica-Bold')
+      .fillColor('#1F2937')
+      .text('Amount Paid', 345, yPosition, { width: 120 })
+      .text(this.formatAmount(bill.paidAmount), 465, yPosition, { width: 75, align: 'right' });
+
+    if (bill.refundedAmount > 0) {
+      yPosition += 14;
+      doc
+        .text('Refunded', 345, yPosition, { width: 120 })
+        .text(this.formatAmount(bill.refundedAmount), 465, yPosition, { width: 75, align: 'right' });
+    }
+
+    yPosition += 14;
+
+    doc
+      .fillColor(bill.balance > 0 ? '#DC2626' : '#059669')
+      .text('Balance Due', 345, yPosition, { width: 120 })
+      .text(this.formatAmount(bill.balance), 465, yPosition, { width: 75, align: 'right' });
+
+    if (bill.creditBilling) {
+      yPosition += 18;
+      doc
+        .fontSize(8)
+        .font('Helvetica')
+        .fillColor('#6B7280')
+        .text(
+          `Insurance: ${bill.creditBilling.insuranceProvider} (Policy ${bill.creditBilling.policyNumber}), claim ${bill.creditBilling.status.toLowerCase().replace('_', ' ')}` +
+            (bill.creditBilling.insuranceShare != null
+              ? ` - insurer share Rs. ${this.formatAmount(bill.creditBilling.insuranceShare)}, patient share Rs. ${this.formatAmount(bill.creditBilling.patientShare || 0)}`
+              : ''),
+          50,
+          yPosition,
+          { width: 495 },
+        );
+    }
+
+    // ========== FOOTER ==========
+    doc
+      .fontSize(8)
+      .font('Helvetica-Oblique')
+      .fillColor('#9CA3AF')
+      .text(
+        'This is a computer-generated tax invoice and does not require a signature.',
+        50,
+        750,
+        { align: 'center', width: 495 },
+      );
+
+    // Finalize PDF
+    doc.end();
+  }
+
+  /**
+   * Large diagonal DUPLICATE mark behind the page content
+   */
+  private drawWatermark(doc: PDFKit.PDFDocument) {
+    doc.save();
+    doc
+      .rotate(-35, { origin: [297, 421] })
+      .fontSize(90)
+      .font('Helvetica-Bold')
+      .fillColor('#DC2626')
+      .fillOpacity(0.08)
+      .text('DUPLICATE', 60, 380, { width: 500, align: 'center', lineBreak: false });
+    doc.restore();
+  }
+
+  /**
+   * Start a new page if the next block would run into the footer
+   */
+  private ensureSpace(doc: PDFKit.PDFDocument, yPosition: number, needed: number): number {
+    if (yPosition + needed > 735) {
+      doc.addPage();
+      return 50;
+    }
+    return yPosition;
+  }
+
+  private formatAmount(amount: number): string {
+    return amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  }
+
+  private formatRate(rate: number): string {
+    return String(Math.round(rate * 10000) / 100);
+  }
+}
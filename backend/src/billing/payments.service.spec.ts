@@ -0,0 +1,280 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PaymentsService } from './payments.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { WorkflowService } from '../workflow/workflow.service';
+import { SequenceService } from '../sequence/sequence.service';
+import { NotFoundException, BadRequestException } from '@nestjs/common';
+
+describe('PaymentsService', () => {
+  let service: PaymentsService;
+  let prisma: any;
+  let workflowService: { completeBilling: jest.Mock };
+
+  // Mock data
+  const mockBill = {
+    id: 'bill-1',
+    visitId: 'visit-1',
+    billNumber: 'HMS/2024/0001',
+    total: 2444,
+    paidAmount: 0,
+    writtenOffAmount: 0,
+    balance: 2444,
+    status: 'PENDING',
+    paidAt: null,
+    visit: { id: 'visit-1', patientId: 'patient-1' },
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      billing: {
+        findUnique: jest.fn(),
+        findUniqueOrThrow: jest.fn(),
+        update: jest.fn(),
+      },
+      payment: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn().mockImplementation(({ data }) => Promise.resolve({ id: data.receiptNumber, ...data })),
+        aggregate: jest.fn(),
+        findMany: jest.fn(),
+      },
+      refund: {
+        aggregate: jest.fn().mockResolvedValue({ _sum: { amount: null } }),
+      },
+      outstandingBill: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        upsert: jest.fn(),
+      },
+      visit: {
+        findUnique: jest.fn(),
+      },
+      creditBilling: {
+        findUnique: jest.fn().mockResolvedValue(null),
+      },
+    };
+    // Row locks (SELECT ... FOR UPDATE)
+    prisma.$queryRaw = jest.fn().mockResolvedValue([]);
+    // Interactive transactions run against the same mock client
+    prisma.$transaction = jest.fn((callback) => callback(prisma));
+
+    workflowService = { completeBilling: jest.fn() };
+
+    // Consecutive receipt numbers from the RECEIPT series
+    let receiptCounter = 0;
+    const sequenceService = {
+      next: jest.fn(() => Promise.resolve(`RCP/2024-25/${String(++receiptCounter).padStart(4, '0')}`)),
+      nextMany: jest.fn((_name: string, count: number) =>
+        Promise.all(Array.from({ length: count }, () => sequenceService.next())),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: WorkflowService, useValue: workflowService },
+        { provide: SequenceService, useValue: sequenceService },
+      ],
+    }).compile();
+
+    service = module.get<PaymentsService>(PaymentsService);
+  });
+
+  // Billing row after recalculation
+  const withPaid = (paidAmount: number) => {
+    prisma.billing.findUnique.mockResolvedValue(mockBill);
+    prisma.billing.findUniqueOrThrow.mockResolvedValue(mockBill);
+    prisma.payment.aggregate.mockResolvedValue({ _sum: { amount: paidAmount } });
+    prisma.billing.update.mockImplementation(({ data }) =>
+      Promise.resolve({ ...mockBill, ...data, items: [] }),
+    );
+  };
+
+  describe('recordPayment', () => {
+    it('should record a split-tender payment with one receipt per tender', async () => {
+      withPaid(2444);
+      prisma.visit.findUnique.mockResolvedValue({ id: 'visit-1', stage: 'BILLING_PENDING' });
+
+      const result = await service.recordPayment(
+        'bill-1',
+        {
+          tenders: [
+            { mode: 'CASH', amount: 2000 },
+            { mode: 'UPI', amount: 444, transactionId: 'UTR123' },
+          ],
+        } as any,
+        'user-1',
+      );
+
+      expect(result.payments).toHaveLength(2);
+      expect(result.payments.map((p: any) => p.receiptNumber)).toEqual([
+        'RCP/2024-25/0001',
+        'RCP/2024-25/0002',
+      ]);
+      expect(result.bill.status).toBe('PAID');
+      expect(result.bill.balance).toBe(0);
+    });
+
+    it('should complete the visit workflow when the bill is paid in full', async () => {
+      withPaid(2444);
+      prisma.visit.findUnique.mockResolvedValue({ id: 'visit-1', stage: 'BILLING_PENDING' });
+
+      await service.recordPayment(
+        'bill-1',
+        { tenders: [{ mode: 'CASH', amount: 2444 }] } as any,
+        'user-1',
+      );
+
+      expect(workflowService.completeBilling).toHaveBeenCalledWith('visit-1', 'user-1');
+      // Settled in one go: no dues row needed
+      expect(prisma.outstandingBill.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should mark a part payment as PARTIAL and track the outstanding balance', async () => {
+      withPaid(1000);
+
+      const result = await service.recordPayment(
+        'bill-1',
+        { tenders: [{ mode: 'CARD', amount: 1000, cardLast4: '4242' }] } as any,
+        'user-1',
+      );
+
+      expect(result.bill.status).toBe('PARTIAL');
+      expect(result.bill.balance).toBe(1444);
+      expect(workflowService.completeBilling).not.toHaveBeenCalled();
+      expect(prisma.outstandingBill.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({
+            patientId: 'patient-1',
+            outstandingAmount: 1444,
+            status: 'PARTIAL',
+          }),
+        }),
+      );
+    });
+
+    it('should complete the visit once only the insurer share remains', async () => {
+      withPaid(444);
+      prisma.creditBilling.findUnique.mockResolvedValue({
+        billingId: 'bill-1',
+        status: 'PARTIALLY_APPROVED',
+        insuranceShare: 2000,
+        patientShare: 444,
+      });
+      prisma.visit.findUnique.mockResolvedValue({ id: 'visit-1', stage: 'BILLING_PENDING' });
+
+      const result = await service.recordPayment(
+        'bill-1',
+        { tenders: [{ mode: 'CASH', amount: 444 }] } as any,
+        'user-1',
+      );
+
+      expect(result.bill.status).toBe('PARTIAL');
+      expect(workflowService.completeBilling).toHaveBeenCalledWith('visit-1', 'user-1');
+    });
+
+    it('should throw BadRequestException if payment exceeds balance', async () => {
+      withPaid(0);
+
+      await expect(
+        service.recordPayment(
+          'bill-1',
+          { tenders: [{ mode: 'CASH', amount: 3000 }] } as any,
+          'user-1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.payment.create).not.toHaveBeenCalled();
+    });
+
+    it('should lock the bill row before checking the balance', async () => {
+      withPaid(0);
+
+      await expect(
+        service.recordPayment(
+          'bill-1',
+          { tenders: [{ mode: 'CASH', amount: 3000 }] } as any,
+          'user-1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+      expect(prisma.$queryRaw.mock.calls[0][0].join('?')).toContain('FOR UPDATE');
+      expect(prisma.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+        prisma.billing.findUnique.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should reject a recalculation that leaves the bill overpaid', async () => {
+      withPaid(3000);
+
+      await expect(service.recalculateBalance(prisma, 'bill-1')).rejects.toThrow(
+        'would be overpaid',
+      );
+      expect(prisma.billing.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException for UPI without transaction ID', async () => {
+      await expect(
+        service.recordPayment(
+          'bill-1',
+          { tenders: [{ mode: 'UPI', amount: 100 }] } as any,
+          'user-1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw BadRequestException if bill is already paid', async () => {
+      prisma.billing.findUnique.mockResolvedValue({ ...mockBill, status: 'PAID', balance: 0 });
+
+      await expect(
+        service.recordPayment(
+          'bill-1',
+          { tenders: [{ mode: 'CASH', amount: 100 }] } as any,
+          'user-1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw BadRequestException if bill has been written off', async () => {
+      prisma.billing.findUnique.mockResolvedValue({
+        ...mockBill,
+        status: 'WRITTEN_OFF',
+        writtenOffAmount: 1444,
+        balance: 0,
+      });
+
+      await expect(
+        service.recordPayment(
+          'bill-1',
+          { tenders: [{ mode: 'CASH', amount: 100 }] } as any,
+          'user-1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.payment.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException if bill not found', async () => {
+      prisma.billing.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.recordPayment(
+          'bill-x',
+          { tenders: [{ mode: 'CASH', amount: 100 }] } as any,
+          'user-1',
+        ),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('recalculateBalance', () => {
+    it('should close the bill as WRITTEN_OFF when a write-off clears the balance', async () => {
+      withPaid(1000);
+      prisma.billing.findUniqueOrThrow.mockResolvedValue({ ...mockBill, writtenOffAmount: 1444 });
+
+      const bill = await service.recalculateBalance(prisma, 'bill-1');
+
+      expect(bill.balance).toBe(0);
+      expect(bill.status).toBe('WRITTEN_OFF');
+      expect(bill.paidAt).toBeNull();
+    });
+  });
+});
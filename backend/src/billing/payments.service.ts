@@ -0,0 +1,399 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import {
+  Prisma,
+  BillingStatus,
+  CreditStatus,
+  OutstandingStatus,
+  PaymentMode,
+  PaymentStatus,
+  PatientStage,
+  RefundStatus,
+  SequenceName,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { WorkflowService } from '../workflow/workflow.service';
+import { SequenceService } from '../sequence/sequence.service';
+import { RecordPaymentDto, PaymentTenderDto } from './dto/record-payment.dto';
+
+/**
+ * PaymentsService - Payment collection
+ *
+ * Handles settling bills at the billing counter:
+ * 1. Records split-tender payments (cash, card, UPI, insurance) with receipt numbers
+ * 2. Recalculates paid amount, refunds, balance and status (PENDING → PARTIAL → PAID,
+ *    or WRITTEN_OFF once an approved write-off clears the rest)
+ * 3. Keeps the OutstandingBill row in sync with the remaining balance
+ * 4. Completes the visit workflow once the bill is paid in full
+ *    (or only the approved insurer share is left, for TPA bills)
+ */
+@Injectable()
+export class PaymentsService {
+  // Modes that can be collected at the counter
+  private readonly COUNTER_MODES: PaymentMode[] = [
+    PaymentMode.CASH,
+    PaymentMode.CARD,
+    PaymentMode.UPI,
+    PaymentMode.INSURANCE,
+  ];
+
+  constructor(
+    private prisma: PrismaService,
+    private workflowService: WorkflowService,
+    private sequenceService: SequenceService,
+  ) {}
+
+  /**
+   * ⭐ Record payment against a bill (one or more tenders)
+   */
+  async recordPayment(billId: string, dto: RecordPaymentDto, recordedBy: string) {
+    dto.tenders.forEach((tender) => this.validateTender(tender));
+
+    const tendered = this.round(
+      dto.tenders.reduce((sum, tender) => sum + tender.amount, 0),
+    );
+
+    const { bill, payments } = await this.prisma.$transaction(async (tx) => {
+      // Lock the bill so concurrent tenders can't both pass the balance check
+      await tx.$queryRaw`SELECT "id" FROM "billings" WHERE "id" = ${billId} FOR UPDATE`;
+
+      const bill = await tx.billing.findUnique({
+        where: { id: billId },
+      });
+
+      if (!bill) {
+        throw new NotFoundException(`Bill with ID ${billId} not found`);
+      }
+
+      if (bill.status === BillingStatus.CANCELLED) {
+        throw new BadRequestException(`Bill ${bill.billNumber} is cancelled`);
+      }
+
+      if (bill.status === BillingStatus.PAID) {
+        throw new BadRequestException(`Bill ${bill.billNumber} is already paid`);
+      }
+
+      if (bill.status === BillingStatus.WRITTEN_OFF) {
+        throw new BadRequestException(`Bill ${bill.billNumber} has been written off`);
+      }
+
+      if (tendered > this.round(bill.balance)) {
+        throw new BadRequestException(
+          `Payment of ₹${tendered} exceeds balance of ₹${bill.balance} on ${bill.billNumber}`,
+        );
+      }
+
+      // Create one payment row (and receipt) per tender
+      const receiptNumbers = await this.sequenceService.nextMany(
+        SequenceName.RECEIPT,
+        dto.tenders.length,
+        tx,
+      );
+      const payments = [];
+
+      for (const [index, tender] of dto.tenders.entries()) {
+        payments.push(
+          await tx.payment.create({
+            data: {
+              billingId: bill.id,
+              receiptNumber: receiptNumbers[index],
+              amount: tender.amount,
+              mode: tender.mode,
+              transactionId: tender.transactionId,
+              upiId: tender.upiId,
+              cardLast4: tender.cardLast4,
+              remarks: tender.remarks,
+              status: PaymentStatus.SUCCESS,
+              recordedBy,
+            },
+          }),
+        );
+      }
+
+      const updatedBill = await this.recalculateBalance(tx, bill.id);
+
+      return { bill: updatedBill, payments };
+    });
+
+    console.log(
+      `✅ Payment ₹${tendered} recorded on ${bill.billNumber} (${payments.map((p) => p.mode).join(' + ')}), balance ₹${bill.balance}`,
+    );
+
+    await this.completeVisitIfSettled(bill, recordedBy);
+
+    return { bill, payments };
+  }
+
+  /**
+   * Close the patient's visit once they owe nothing more
+   * For insurance bills, only the insurer receivable may remain open
+   */
+  async completeVisitIfSettled(
+    bill: { id: string; visitId: string; status: BillingStatus; balance: number },
+    completedBy: string,
+  ) {
+    if (bill.status !== BillingStatus.PAID) {
+      const credit = await this.prisma.creditBilling.findUnique({
+        where: { billingId: bill.id },
+      });
+
+      const insurerCovers =
+        (credit?.status === CreditStatus.APPROVED ||
+          credit?.status === CreditStatus.PARTIALLY_APPROVED) &&
+        this.round(bill.balance) <= this.round(credit.insuranceShare || 0);
+
+      if (!insurerCovers) {
+        return;
+      }
+    }
+
+    const visit = await this.prisma.visit.findUnique({
+      where: { id: bill.visitId },
+    });
+
+    if (visit?.stage === PatientStage.BILLING_PENDING) {
+      await this.workflowService.completeBilling(visit.id, completedBy);
+    }
+  }
+
+  /**
+   * Recompute paid amount, balance and status from successful payments
+   * (less refunds and write-offs) and keep the OutstandingBill row in sync
+   */
+  async recalculateBalance(tx: Prisma.TransactionClient, billId: string) {
+    const bill = await tx.billing.findUniqueOrThrow({
+      where: { id: billId },
+      include: { visit: true },
+    });
+
+    const paid = await tx.payment.aggregate({
+      _sum: { amount: true },
+      where: {
+        billingId: billId,
+        status: PaymentStatus.SUCCESS,
+      },
+    });
+
+    const refunded = await tx.refund.aggregate({
+      _sum: { amount: true },
+      where: {
+        billingId: billId,
+        status: RefundStatus.PROCESSED,
+      },
+    });
+
+    const paidAmount = this.round(paid._sum.amount || 0);
+    const refundedAmount = this.round(refunded._sum.amount || 0);
+    const balance = this.round(
+      bill.total - refundedAmount - bill.writtenOffAmount - paidAmount,
+    );
+
+    // Payments are checked against the locked balance, so this means the books are wrong
+    if (balance < 0) {
+      throw new ConflictException(
+        `Bill ${bill.billNumber} would be overpaid by ₹${-balance}`,
+      );
+    }
+
+    const status =
+      balance === 0
+        ? bill.writtenOffAmount > 0
+          ? BillingStatus.WRITTEN_OFF
+          : BillingStatus.PAID
+        : paidAmount > 0
+          ? BillingStatus.PARTIAL
+          : BillingStatus.PENDING;
+
+    const updated = await tx.billing.update({
+      where: { id: billId },
+      data: {
+        paidAmount,
+        refundedAmount,
+        balance,
+        status,
+        paidAt: status === BillingStatus.PAID ? bill.paidAt || new Date() : null,
+      },
+      include: { items: true },
+    });
+
+    await this.syncOutstandingBill(tx, updated, bill.visit.patientId);
+
+    return updated;
+  }
+
+  /**
+   * Record the negative payment entry for a processed refund
+   * Paid back in the original payment's mode (cash when not linked)
+   */
+  async recordRefundPayment(
+    tx: Prisma.TransactionClient,
+    refund: { id: string; billingId: string; paymentId: string | null; amount: number; reason: string },
+    processedBy: string,
+  ) {
+    const originalPayment = refund.paymentId
+      ? await tx.payment.findUnique({ where: { id: refund.paymentId } })
+      : null;
+
+    const receiptNumber = await this.sequenceService.next(SequenceName.RECEIPT, tx);
+
+    return tx.payment.create({
+      data: {
+        billingId: refund.billingId,
+        receiptNumber,
+        amount: -refund.amount,
+        mode: originalPayment?.mode || PaymentMode.CASH,
+        transactionId: originalPayment?.transactionId,
+        upiId: originalPayment?.upiId,
+        cardLast4: originalPayment?.cardLast4,
+        status: PaymentStatus.SUCCESS,
+        recordedBy: processedBy,
+        remarks: `Refund ${refund.id}: ${refund.reason}`,
+      },
+    });
+  }
+
+  /**
+   * Record the insurer's settlement of a TPA claim as an INSURANCE payment
+   */
+  async recordClaimSettlement(
+    tx: Prisma.TransactionClient,
+    settlement: { billingId: string; amount: number; transactionId: string; remarks?: string },
+    recordedBy: string,
+  ) {
+    const receiptNumber = await this.sequenceService.next(SequenceName.RECEIPT, tx);
+
+    return tx.payment.create({
+      data: {
+        billingId: settlement.billingId,
+        receiptNumber,
+        amount: settlement.amount,
+        mode: PaymentMode.INSURANCE,
+        transactionId: settlement.transactionId,
+        status: PaymentStatus.SUCCESS,
+        recordedBy,
+        remarks: settlement.remarks,
+      },
+    });
+  }
+
+  /**
+   * Get all payments for a bill
+   */
+  async getPaymentsForBill(billId: string) {
+    const bill = await this.prisma.billing.findUnique({
+      where: { id: billId },
+    });
+
+    if (!bill) {
+      throw new NotFoundException(`Bill with ID ${billId} not found`);
+    }
+
+    return this.prisma.payment.findMany({
+      where: { billingId: billId },
+      orderBy: { recordedAt: 'asc' },
+    });
+  }
+
+  /**
+   * Get payment by receipt number
+   */
+  async getPaymentByReceipt(receiptNumber: string) {
+    const payment = await this.prisma.payment.findUnique({
+      where: { receiptNumber },
+      include: {
+        billing: {
+          select: {
+            id: true,
+            billNumber: true,
+            total: true,
+            balance: true,
+            status: true,
+          },
+        },
+      },
+    });
+
+    if (!payment) {
+      throw new NotFoundException(`Receipt ${receiptNumber} not found`);
+    }
+
+    return payment;
+  }
+
+  /**
+   * Mode-specific checks for a tender
+   */
+  private validateTender(tender: PaymentTenderDto) {
+    if (!this.COUNTER_MODES.includes(tender.mode)) {
+      throw new BadRequestException(
+        `${tender.mode} payments cannot be recorded at the counter`,
+      );
+    }
+
+    if (tender.mode === PaymentMode.CARD && !tender.cardLast4) {
+      throw new BadRequestException('cardLast4 is required for card payments');
+    }
+
+    if (tender.mode === PaymentMode.UPI && !tender.transactionId) {
+      throw new BadRequestException('transactionId (UTR) is required for UPI payments');
+    }
+
+    if (tender.mode === PaymentMode.INSURANCE && !tender.transactionId) {
+      throw new BadRequestException(
+        'transactionId (claim reference) is required for insurance payments',
+      );
+    }
+  }
+
+  /**
+   * Mirror the bill balance into OutstandingBill
+   * ACTIVE: nothing paid yet, PARTIAL: part paid, SETTLED: fully paid
+   */
+  private async syncOutstandingBill(
+    tx: Prisma.TransactionClient,
+    bill: { id: string; balance: number; paidAmount: number },
+    patientId: string,
+  ) {
+    const status =
+      bill.balance === 0
+        ? OutstandingStatus.SETTLED
+        : bill.paidAmount > 0
+          ? OutstandingStatus.PARTIAL
+          : OutstandingStatus.ACTIVE;
+
+    const existing = await tx.outstandingBill.findUnique({
+      where: { billingId: bill.id },
+    });
+
+    // Written-off dues stay written off; bills paid in one go need no row
+    if (existing?.status === OutstandingStatus.WRITTEN_OFF) {
+      return;
+    }
+    if (!existing && status === OutstandingStatus.SETTLED) {
+      return;
+    }
+
+    await tx.outstandingBill.upsert({
+      where: { billingId: bill.id },
+      create: {
+        billingId: bill.id,
+        patientId,
+        outstandingAmount: bill.balance,
+        status,
+      },
+      update: {
+        outstandingAmount: bill.balance,
+        status,
+        settledAt: status === OutstandingStatus.SETTLED ? new Date() : null,
+      },
+    });
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
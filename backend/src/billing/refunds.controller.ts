@@ -0,0 +1,98 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { RefundsService } from './refunds.service';
+import { RequestRefundDto } from './dto/request-refund.dto';
+import { RejectRequestDto } from './dto/reject-request.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+/**
+ * RefundsController
+ *
+ * Endpoints:
+ * - POST /api/billing/refunds - Raise refund request (BILLING)
+ * - GET /api/billing/refunds/open - Requests awaiting approval or payout
+ * - GET /api/billing/refunds/bill/:billId - Refunds on a bill
+ * - PATCH /api/billing/refunds/:id/approve - Approve (ADMIN)
+ * - PATCH /api/billing/refunds/:id/reject - Reject with reason (ADMIN)
+ * - POST /api/billing/refunds/:id/process - Pay out approved refund (BILLING)
+ */
+@Controller('billing/refunds')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class RefundsController {
+  constructor(private readonly refundsService: RefundsService) {}
+
+  /**
+   * Raise a refund request
+   * POST /api/billing/refunds
+   */
+  @Post()
+  @Roles(UserRole.BILLING, UserRole.ADMIN)
+  async requestRefund(@Body() dto: RequestRefundDto, @CurrentUser() user: any) {
+    return this.refundsService.requestRefund(dto, user.id);
+  }
+
+  /**
+   * Get refunds awaiting approval or payout
+   * GET /api/billing/refunds/open
+   */
+  @Get('open')
+  @Roles(UserRole.BILLING, UserRole.ADMIN)
+  async getOpenRefunds() {
+    return this.refundsService.getOpenRefunds();
+  }
+
+  /**
+   * Get all refunds on a bill
+   * GET /api/billing/refunds/bill/:billId
+   */
+  @Get('bill/:billId')
+  @Roles(UserRole.BILLING, UserRole.ADMIN)
+  async getRefundsForBill(@Param('billId') billId: string) {
+    return this.refundsService.getRefundsForBill(billId);
+  }
+
+  /**
+   * Approve refund
+   * PATCH /api/billing/refunds/:id/approve
+   */
+  @Patch(':id/approve')
+  @Roles(UserRole.ADMIN)
+  async approveRefund(@Param('id') refundId: string, @CurrentUser() user: any) {
+    return this.refundsService.approveRefund(refundId, user.id);
+  }
+
+  /**
+   * Reject refund
+   * PATCH /api/billing/refunds/:id/reject
+   */
+  @Patch(':id/reject')
+  @Roles(UserRole.ADMIN)
+  async rejectRefund(
+    @Param('id') refundId: string,
+    @Body() dto: RejectRequestDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.refundsService.rejectRefund(refundId, user.id, dto.reason);
+  }
+
+  /**
+   * ⭐ Pay out an approved refund (records a negative payment)
+   * POST /api/billing/refunds/:id/process
+   */
+  @Post(':id/process')
+  @Roles(UserRole.BILLING, UserRole.ADMIN)
+  async processRefund(@Param('id') refundId: string, @CurrentUser() user: any) {
+    return this.refundsService.processRefund(refundId, user.id);
+  }
+}
@@ -0,0 +1,310 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { BillingStatus, PaymentStatus, RefundStatus, SequenceName } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { QueueGateway } from '../events/queue.gateway';
+import { PaymentsService } from './payments.service';
+import { SequenceService } from '../sequence/sequence.service';
+import { RequestRefundDto } from './dto/request-refund.dto';
+
+/**
+ * RefundsService - Refund approval workflow
+ *
+ * 1. BILLING staff raise a refund request against collected payments
+ * 2. ADMIN approves or rejects it (with a reason)
+ * 3. BILLING processes approved refunds: a refund note is issued, a negative
+ *    payment entry is recorded and the refunded amount is no longer payable
+ * 4. The requester is notified of every decision in real time
+ */
+@Injectable()
+export class RefundsService {
+  constructor(
+    private prisma: PrismaService,
+    private paymentsService: PaymentsService,
+    private queueGateway: QueueGateway,
+    private sequenceService: SequenceService,
+  ) {}
+
+  /**
+   * Raise a refund request
+   */
+  async requestRefund(dto: RequestRefundDto, requestedBy: string) {
+    const bill = await this.prisma.billing.findUnique({
+      where: { id: dto.billId },
+    });
+
+    if (!bill) {
+      throw new NotFoundException(`Bill with ID ${dto.billId} not found`);
+    }
+
+    if (bill.status === BillingStatus.CANCELLED) {
+      throw new BadRequestException(`Bill ${bill.billNumber} is cancelled`);
+    }
+
+    // Money already promised back by open requests cannot be refunded twice
+    const openRefunds = await this.prisma.refund.aggregate({
+      _sum: { amount: true },
+      where: {
+        billingId: bill.id,
+        status: { in: [RefundStatus.PENDING, RefundStatus.APPROVED] },
+      },
+    });
+    const refundable = bill.paidAmount - (openRefunds._sum.amount || 0);
+
+    if (dto.amount > refundable) {
+      throw new BadRequestException(
+        `Refund of ₹${dto.amount} exceeds refundable amount of ₹${Math.max(refundable, 0)} on ${bill.billNumber}`,
+      );
+    }
+
+    if (dto.paymentId) {
+      await this.validateAgainstPayment(dto.paymentId, bill.id, dto.amount);
+    }
+
+    const refund = await this.prisma.refund.create({
+      data: {
+        billingId: bill.id,
+        paymentId: dto.paymentId,
+        amount: dto.amount,
+        reason: dto.reason,
+        requestedBy,
+      },
+    });
+
+    console.log(`✅ Refund of ₹${dto.amount} requested on ${bill.billNumber}`);
+
+    return refund;
+  }
+
+  /**
+   * Approve a refund (ready to be paid out)
+   */
+  async approveRefund(refundId: string, approvedBy: string) {
+    const refund = await this.getRefund(refundId);
+    this.assertReviewable(refund, approvedBy);
+
+    // Guard against a concurrent approve/reject of the same request
+    const { count } = await this.prisma.refund.updateMany({
+      where: { id: refundId, status: RefundStatus.PENDING },
+      data: {
+        status: RefundStatus.APPROVED,
+        approvedBy,
+        approvedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('Refund is no longer pending');
+    }
+
+    const updated = await this.getRefundWithBill(refundId);
+
+    this.queueGateway.notifyUser(refund.requestedBy, {
+      type: 'refund_approved',
+      message: `Refund of ₹${refund.amount} on ${updated.billing.billNumber} approved`,
+      data: { refundId, billId: refund.billingId },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Reject a refund with a reason
+   */
+  async rejectRefund(refundId: string, rejectedBy: string, reason: string) {
+    const refund = await this.getRefund(refundId);
+    this.assertReviewable(refund, rejectedBy);
+
+    const { count } = await this.prisma.refund.updateMany({
+      where: { id: refundId, status: RefundStatus.PENDING },
+      data: {
+        status: RefundStatus.REJECTED,
+        approvedBy: rejectedBy,
+        approvedAt: new Date(),
+        rejectionReason: reason,
+      },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('Refund is no longer pending');
+    }
+
+    const updated = await this.getRefundWithBill(refundId);
+
+    this.queueGateway.notifyUser(refund.requestedBy, {
+      type: 'refund_rejected',
+      message: `Refund of ₹${refund.amount} on ${updated.billing.billNumber} rejected: ${reason}`,
+      data: { refundId, billId: refund.billingId, reason },
+    });
+
+    return updated;
+  }
+
+  /**
+   * ⭐ Pay out an approved refund
+   * Records a negative payment and recalculates the bill
+   */
+  async processRefund(refundId: string, processedBy: string) {
+    const refund = await this.getRefund(refundId);
+
+    if (refund.status !== RefundStatus.APPROVED) {
+      throw new BadRequestException(
+        `Only approved refunds can be processed (refund is ${refund.status.toLowerCase()})`,
+      );
+    }
+
+    const { bill, payment, refundNoteNumber } = await this.prisma.$transaction(async (tx) => {
+      const refundNoteNumber = await this.sequenceService.next(SequenceName.REFUND_NOTE, tx);
+
+      // APPROVED -> PROCESSED first, so a double submit pays out only once
+      const { count } = await tx.refund.updateMany({
+        where: { id: refundId, status: RefundStatus.APPROVED },
+        data: {
+          status: RefundStatus.PROCESSED,
+          refundNoteNumber,
+          processedBy,
+          processedAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        throw new BadRequestException('Refund has already been processed');
+      }
+
+      const payment = await this.paymentsService.recordRefundPayment(
+        tx,
+        refund,
+        processedBy,
+      );
+
+      const bill = await this.paymentsService.recalculateBalance(
+        tx,
+        refund.billingId,
+      );
+
+      return { bill, payment, refundNoteNumber };
+    });
+
+    console.log(
+      `✅ Refund ₹${refund.amount} processed on ${bill.billNumber} (${refundNoteNumber}, ${payment.receiptNumber})`,
+    );
+
+    this.queueGateway.notifyUser(refund.requestedBy, {
+      type: 'refund_processed',
+      message: `Refund of ₹${refund.amount} on ${bill.billNumber} paid out (${refundNoteNumber})`,
+      data: { refundId, billId: bill.id, refundNoteNumber, receiptNumber: payment.receiptNumber },
+    });
+
+    return { bill, payment, refundNoteNumber };
+  }
+
+  /**
+   * Get refunds awaiting approval or payout
+   */
+  async getOpenRefunds() {
+    return this.prisma.refund.findMany({
+      where: {
+        status: { in: [RefundStatus.PENDING, RefundStatus.APPROVED] },
+      },
+      include: {
+        billing: {
+          select: {
+            id: true,
+            billNumber: true,
+            total: true,
+            paidAmount: true,
+          },
+        },
+      },
+      orderBy: { requestedAt: 'asc' },
+    });
+  }
+
+  /**
+   * Get all refunds on a bill
+   */
+  async getRefundsForBill(billId: string) {
+    return this.prisma.refund.findMany({
+      where: { billingId: billId },
+      orderBy: { requestedAt: 'desc' },
+    });
+  }
+
+  /**
+   * A refund cannot exceed what is left of the original payment
+   */
+  private async validateAgainstPayment(
+    paymentId: string,
+    billId: string,
+    amount: number,
+  ) {
+    const payment = await this.prisma.payment.findUnique({
+      where: { id: paymentId },
+    });
+
+    if (
+      !payment ||
+      payment.billingId !== billId ||
+      payment.status !== PaymentStatus.SUCCESS ||
+      payment.amount <= 0
+    ) {
+      throw new BadRequestException(`Payment ${paymentId} is not refundable on this bill`);
+    }
+
+    const alreadyRefunded = await this.prisma.refund.aggregate({
+      _sum: { amount: true },
+      where: {
+        paymentId,
+        status: { not: RefundStatus.REJECTED },
+      },
+    });
+    const remaining = payment.amount - (alreadyRefunded._sum.amount || 0);
+
+    if (amount > remaining) {
+      throw new BadRequestException(
+        `Refund of ₹${amount} exceeds ₹${remaining} remaining on receipt ${payment.receiptNumber}`,
+      );
+    }
+  }
+
+  private async getRefundWithBill(refundId: string) {
+    return this.prisma.refund.findUniqueOrThrow({
+      where: { id: refundId },
+      include: {
+        billing: { select: { billNumber: true } },
+      },
+    });
+  }
+
+  private async getRefund(refundId: string) {
+    const refund = await this.prisma.refund.findUnique({
+      where: { id: refundId },
+    });
+
+    if (!refund) {
+      throw new NotFoundException(`Refund with ID ${refundId} not found`);
+    }
+
+    return refund;
+  }
+
+  /**
+   * Only pending refunds can be reviewed, and never by the requester
+   */
+  private assertReviewable(
+    refund: { status: RefundStatus; requestedBy: string },
+    reviewerId: string,
+  ) {
+    if (refund.status !== RefundStatus.PENDING) {
+      throw new BadRequestException(`Refund is already ${refund.status.toLowerCase()}`);
+    }
+
+    if (refund.requestedBy === reviewerId) {
+      throw new ForbiddenException('You cannot review your own refund request');
+    }
+  }
+}
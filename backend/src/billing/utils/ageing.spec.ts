@@ -0,0 +1,35 @@
+import { daysOutstanding, getAgeingBucket, emptyAgeingBuckets } from './ageing';
+
+describe('Ageing', () => {
+  const asOf = new Date('2024-06-30T12:00:00Z');
+  const daysAgo = (days: number) => new Date(asOf.getTime() - days * 24 * 60 * 60 * 1000);
+
+  describe('daysOutstanding', () => {
+    it('should count whole days', () => {
+      expect(daysOutstanding(daysAgo(10), asOf)).toBe(10);
+      expect(daysOutstanding(new Date('2024-06-30T00:00:00Z'), asOf)).toBe(0);
+    });
+
+    it('should never be negative', () => {
+      expect(daysOutstanding(daysAgo(-5), asOf)).toBe(0);
+    });
+  });
+
+  describe('getAgeingBucket', () => {
+    it('should place amounts in the correct bucket at the boundaries', () => {
+      expect(getAgeingBucket(daysAgo(0), asOf)).toBe('0-30');
+      expect(getAgeingBucket(daysAgo(30), asOf)).toBe('0-30');
+      expect(getAgeingBucket(daysAgo(31), asOf)).toBe('31-60');
+      expect(getAgeingBucket(daysAgo(60), asOf)).toBe('31-60');
+      expect(getAgeingBucket(daysAgo(61), asOf)).toBe('61-90');
+      expect(getAgeingBucket(daysAgo(90), asOf)).toBe('61-90');
+      expect(getAgeingBucket(daysAgo(91), asOf)).toBe('90+');
+    });
+  });
+
+  describe('emptyAgeingBuckets', () => {
+    it('should start every bucket at zero', () => {
+      expect(emptyAgeingBuckets()).toEqual({ '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 });
+    });
+  });
+});
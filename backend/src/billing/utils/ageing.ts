@@ -0,0 +1,38 @@
+/**
+ * Ageing buckets for receivables (TPA claims, patient dues)
+ *
+ * Standard buckets by days outstanding:
+ * - 0-30, 31-60, 61-90, 90+
+ */
+
+export const AGEING_BUCKETS = ['0-30', '31-60', '61-90', '90+'] as const;
+
+export type AgeingBucket = (typeof AGEING_BUCKETS)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whole days between two dates (never negative)
+ */
+export function daysOutstanding(since: Date, asOf: Date = new Date()): number {
+  return Math.max(Math.floor((asOf.getTime() - since.getTime()) / DAY_MS), 0);
+}
+
+/**
+ * Bucket for an amount outstanding since a date
+ */
+export function getAgeingBucket(since: Date, asOf: Date = new Date()): AgeingBucket {
+  const days = daysOutstanding(since, asOf);
+
+  if (days <= 30) return '0-30';
+  if (days <= 60) return '31-60';
+  if (days <= 90) return '61-90';
+  return '90+';
+}
+
+/**
+ * Empty bucket totals, ready to accumulate into
+ */
+export function emptyAgeingBuckets(): Record<AgeingBucket, number> {
+  return { '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 };
+}
@@ -0,0 +1,40 @@
+import { numberToWords, amountInWords } from './amount-in-words';
+
+describe('Amount in words', () => {
+  describe('numberToWords', () => {
+    it('should convert small numbers', () => {
+      expect(numberToWords(0)).toBe('Zero');
+      expect(numberToWords(7)).toBe('Seven');
+      expect(numberToWords(15)).toBe('Fifteen');
+      expect(numberToWords(40)).toBe('Forty');
+      expect(numberToWords(99)).toBe('Ninety Nine');
+    });
+
+    it('should use Indian numbering (lakh, crore)', () => {
+      expect(numberToWords(2444)).toBe('Two Thousand Four Hundred Forty Four');
+      expect(numberToWords(100000)).toBe('One Lakh');
+      expect(numberToWords(1250000)).toBe('Twelve Lakh Fifty Thousand');
+      expect(numberToWords(12345678)).toBe(
+        'One Crore Twenty Three Lakh Forty Five Thousand Six Hundred Seventy Eight',
+      );
+    });
+
+    it('should throw error for fractional or negative numbers', () => {
+      expect(() => numberToWords(1.5)).toThrow();
+      expect(() => numberToWords(-1)).toThrow();
+    });
+  });
+
+  describe('amountInWords', () => {
+    it('should print rupees only for whole amounts', () => {
+      expect(amountInWords(590)).toBe('Rupees Five Hundred Ninety Only');
+    });
+
+    it('should include paise', () => {
+      expect(amountInWords(2444.5)).toBe(
+        'Rupees Two Thousand Four Hundred Forty Four and Fifty Paise Only',
+      );
+      expect(amountInWords(0.05)).toBe('Rupees Zero and Five Paise Only');
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Amount in words for invoices (Indian numbering: thousand, lakh, crore)
+ *
+ * Example: 2444.50 → "Rupees Two Thousand Four Hundred Forty Four and Fifty Paise Only"
+ */
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine',
+  'Ten', 'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen',
+  'Seventeen', 'Eighteen', 'Nineteen',
+];
+
+const TENS = [
+  '', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety',
+];
+
+// Largest unit first: 1,23,45,678 = 1 crore, 23 lakh, 45 thousand, 678
+const UNITS: Array<[number, string]> = [
+  [10000000, 'Crore'],
+  [100000, 'Lakh'],
+  [1000, 'Thousand'],
+  [100, 'Hundred'],
+];
+
+/**
+ * Words for a whole number (0 → "Zero")
+ */
+export function numberToWords(value: number): string {
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error('Only non-negative whole numbers can be converted to words');
+  }
+
+  if (value === 0) {
+    return 'Zero';
+  }
+
+  return convert(value);
+}
+
+/**
+ * Rupees and paise in words, as printed on a tax invoice
+ */
+export function amountInWords(amount: number): string {
+  if (amount < 0) {
+    throw new Error('Amount cannot be negative');
+  }
+
+  const totalPaise = Math.round(amount * 100);
+  const rupees = Math.floor(totalPaise / 100);
+  const paise = totalPaise % 100;
+
+  const words = [`Rupees ${numberToWords(rupees)}`];
+  if (paise > 0) {
+    words.push(`and ${numberToWords(paise)} Paise`);
+  }
+
+  return `${words.join(' ')} Only`;
+}
+
+function convert(value: number): string {
+  if (value < 20) {
+    return ONES[value];
+  }
+
+  if (value < 100) {
+    return [TENS[Math.floor(value / 10)], ONES[value % 10]].filter(Boolean).join(' ');
+  }
+
+  for (const [size, name] of UNITS) {
+    if (value >= size) {
+      // Above 99 crore the crore count itself is spelled out ("One Hundred Crore")
+      const head = `${convert(Math.floor(value / size))} ${name}`;
+      const rest = value % size;
+      return rest ? `${head} ${convert(rest)}` : head;
+    }
+  }
+
+  return '';
+}
@@ -201,6 +201,83 @@ describe('TaxCalculator', () => {
     });
   });
 
+  describe('summarizeBySlab', () => {
+    const items = () =>
+      calculator.generateTaxBreakdown([
+        { description: 'Consultation', quantity: 1, unitPrice: 300, taxRate: 0.18, isTaxInclusive: false },
+        { description: 'CBC Test', quantity: 1, unitPrice: 500, taxRate: 0.18, isTaxInclusive: false },
+        { description: 'Paracetamol 500mg', quantity: 15, unitPrice: 100, taxRate: 0.12, isTaxInclusive: true },
+      ]).items;
+
+    it('should group taxable value and tax by rate slab', () => {
+      const slabs = calculator.summarizeBySlab(items(), false);
+
+      expect(slabs.map((slab) => slab.taxRate)).toEqual([0.12, 0.18]);
+      expect(slabs[1].taxableValue).toBe(800);
+      expect(slabs[1].totalTax).toBe(144);
+      expect(slabs[1].cgst).toBe(72);
+      expect(slabs[1].sgst).toBe(72);
+      expect(slabs[1].igst).toBe(0);
+
+      // CGST + SGST always adds back up to the slab tax
+      expect(slabs[0].cgst + slabs[0].sgst).toBeCloseTo(slabs[0].totalTax, 2);
+    });
+
+    it('should put the whole slab tax in IGST for inter-state supply', () => {
+      const slabs = calculator.summarizeBySlab(items(), true);
+
+      expect(slabs[1].igst).toBe(144);
+      expect(slabs[1].cgst).toBe(0);
+      expect(slabs[1].sgst).toBe(0);
+    });
+  });
+
+  describe('applyDiscount', () => {
+    const breakdown = () =>
+      calculator.generateTaxBreakdown([
+        { description: 'CBC Test', quantity: 1, unitPrice: 500, taxRate: 0.18, isTaxInclusive: false },
+        { description: 'Paracetamol 500mg', quantity: 15, unitPrice: 100, taxRate: 0.12, isTaxInclusive: true },
+      ]);
+
+    it('should apportion discount by line total and recompute tax', () => {
+      // Total ₹2090, 10% discount = ₹209
+      const result = calculator.applyDiscount(breakdown(), 209);
+
+      expect(result.items[0].lineTotal).toBe(531);
+      expect(result.items[0].baseAmount).toBe(450);
+      expect(result.items[0].taxAmount).toBe(81);
+
+      expect(result.items[1].lineTotal).toBe(1350);
+      expect(result.items[1].baseAmount).toBeCloseTo(1205.36, 2);
+      expect(result.items[1].taxAmount).toBeCloseTo(144.64, 2);
+
+      expect(result.grandTotal).toBe(1881);
+      expect(result.discount).toBe(209);
+      expect(result.subtotal + result.totalTax).toBeCloseTo(result.grandTotal, 2);
+    });
+
+    it('should make line shares add up to the discount exactly', () => {
+      const original = breakdown();
+      const result = calculator.applyDiscount(original, 100);
+
+      expect(result.grandTotal).toBeCloseTo(original.grandTotal - 100, 2);
+    });
+
+    it('should leave the bill unchanged for zero discount', () => {
+      const original = breakdown();
+      const result = calculator.applyDiscount(original, 0);
+
+      expect(result.grandTotal).toBe(original.grandTotal);
+      expect(result.totalTax).toBeCloseTo(original.totalTax, 2);
+    });
+
+    it('should throw error when discount exceeds the bill total', () => {
+      expect(() => {
+        calculator.applyDiscount(breakdown(), 5000);
+      }).toThrow('Discount cannot exceed the bill total');
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle very small amounts without rounding errors', () => {
       const price = 0.5;
@@ -10,6 +10,9 @@
  * - General medicines: 12%
  * - Healthcare services (Lab, Consultation): 18%
  * - Some exempted items: 0%
+ *
+ * Rates are not decided here: each item's rate comes from the tariff
+ * (Medicine/LabTest gstRate, TariffRevision).
  */
 
 export interface TaxBreakdown {
@@ -42,12 +45,33 @@ export interface CompleteTaxBreakdown {
   grandTotal: number;    // Final bill amount
 }
 
+export interface DiscountedTaxBreakdown extends CompleteTaxBreakdown {
+  discount: number;      // Discount applied to the grand total
+}
+
 export interface GSTSplit {
   cgst: number;  // Central GST (intra-state)
   sgst: number;  // State GST (intra-state)
   igst: number;  // Integrated GST (inter-state)
 }
 
+export interface GSTSlabSummary extends GSTSplit {
+  taxRate: number;       // Slab: 0.05, 0.12, 0.18
+  taxableValue: number;  // Sum of base amounts in the slab
+  totalTax: number;
+}
+
+export interface StoredBillItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  taxRate: number;
+  isTaxInclusive: boolean;
+  taxAmount: number;
+  total: number;
+}
+
 export class TaxCalculator {
   /**
    * Calculate tax from MRP that already includes tax (Pharmacy)
@@ -155,6 +179,75 @@ export class TaxCalculator {
     };
   }
 
+  /**
+   * Apply a bill-level discount and recompute tax
+   *
+   * The discount is apportioned across line items in proportion to their
+   * line totals. GST is then charged on the reduced value, so each line's
+   * discounted total is split back into base + tax at its own rate.
+   *
+   * Example: CBC ₹590 (18% excl.) + Paracetamol ₹1500 (12% incl.), discount ₹209
+   *          CBC share = 209 × 590/2090 = ₹59 → ₹531 = ₹450 base + ₹81 tax
+   *          Paracetamol share = ₹150 → ₹1350 = ₹1205.36 base + ₹144.64 tax
+   */
+  applyDiscount(
+    breakdown: CompleteTaxBreakdown,
+    discount: number,
+  ): DiscountedTaxBreakdown {
+    if (discount < 0) {
+      throw new Error('Discount cannot be negative');
+    }
+    if (discount > breakdown.grandTotal) {
+      throw new Error('Discount cannot exceed the bill total');
+    }
+
+    const items: BillItemBreakdown[] = [];
+    let subtotal = 0;
+    let totalTax = 0;
+    let grandTotal = 0;
+    let apportioned = 0;
+
+    breakdown.items.forEach((item, index) => {
+      // Last line absorbs the rounding remainder so shares add up exactly
+      const share =
+        index === breakdown.items.length - 1
+          ? this.roundToTwoDecimals(discount - apportioned)
+          : this.roundToTwoDecimals(
+              breakdown.grandTotal > 0
+                ? (discount * item.lineTotal) / breakdown.grandTotal
+                : 0,
+            );
+      apportioned += share;
+
+      // Undiscounted lines keep their original (per-unit rounded) split
+      if (share === 0) {
+        items.push(item);
+        subtotal += item.baseAmount;
+        totalTax += item.taxAmount;
+        grandTotal += item.lineTotal;
+        return;
+      }
+
+      const lineTotal = this.roundToTwoDecimals(item.lineTotal - share);
+      const baseAmount = this.roundToTwoDecimals(lineTotal / (1 + item.taxRate));
+      const taxAmount = this.roundToTwoDecimals(lineTotal - baseAmount);
+
+      items.push({ ...item, baseAmount, taxAmount, lineTotal });
+
+      subtotal += baseAmount;
+      totalTax += taxAmount;
+      grandTotal += lineTotal;
+    });
+
+    return {
+      items,
+      subtotal: this.roundToTwoDecimals(subtotal),
+      totalTax: this.roundToTwoDecimals(totalTax),
+      grandTotal: this.roundToTwoDecimals(grandTotal),
+      discount: this.roundToTwoDecimals(discount),
+    };
+  }
+
   /**
    * Split GST into CGST + SGST (intra-state) or IGST (inter-state)
    *
@@ -181,19 +274,62 @@ export class TaxCalculator {
   }
 
   /**
-   * Get standard GST rates for different item types
+   * Summarize tax per GST rate slab (for the tax invoice)
+   *
+   * Example: ₹1205.36 @ 12% + ₹450 @ 18% (intra-state)
+   *          12%: taxable ₹1205.36, CGST ₹72.32, SGST ₹72.32
+   *          18%: taxable ₹450, CGST ₹40.50, SGST ₹40.50
    */
-  static getStandardGSTRate(itemType: 'ESSENTIAL_MEDICINE' | 'MEDICINE' | 'SERVICE'): number {
-    switch (itemType) {
-      case 'ESSENTIAL_MEDICINE':
-        return 0.05; // 5% GST
-      case 'MEDICINE':
-        return 0.12; // 12% GST
-      case 'SERVICE':
-        return 0.18; // 18% GST for healthcare services
-      default:
-        return 0.18;
+  summarizeBySlab(items: BillItemBreakdown[], isInterState: boolean): GSTSlabSummary[] {
+    const slabs = new Map<number, { taxableValue: number; totalTax: number }>();
+
+    for (const item of items) {
+      const slab = slabs.get(item.taxRate) || { taxableValue: 0, totalTax: 0 };
+      slab.taxableValue += item.baseAmount;
+      slab.totalTax += item.taxAmount;
+      slabs.set(item.taxRate, slab);
     }
+
+    return [...slabs.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([taxRate, slab]) => {
+        const totalTax = this.roundToTwoDecimals(slab.totalTax);
+        const split = this.splitGST(totalTax, isInterState);
+
+        return {
+          taxRate,
+          taxableValue: this.roundToTwoDecimals(slab.taxableValue),
+          totalTax,
+          cgst: split.cgst,
+          // SGST takes the odd paisa so CGST + SGST = tax exactly
+          sgst: isInterState ? 0 : this.roundToTwoDecimals(totalTax - split.cgst),
+          igst: split.igst,
+        };
+      });
+  }
+
+  /**
+   * Rebuild a gross tax breakdown from stored BillingItem rows
+   */
+  breakdownFromItems(items: StoredBillItem[]): CompleteTaxBreakdown {
+    const lines = items.map((item) => ({
+      description: item.description,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      taxRate: item.taxRate,
+      isTaxInclusive: item.isTaxInclusive,
+      amount: item.amount,
+      baseAmount: this.roundToTwoDecimals(item.total - item.taxAmount),
+      taxAmount: item.taxAmount,
+      lineTotal: item.total,
+    }));
+
+    return {
+      items: lines,
+      subtotal: this.roundToTwoDecimals(lines.reduce((sum, line) => sum + line.baseAmount, 0)),
+      totalTax: this.roundToTwoDecimals(lines.reduce((sum, line) => sum + line.taxAmount, 0)),
+      grandTotal: this.roundToTwoDecimals(lines.reduce((sum, line) => sum + line.lineTotal, 0)),
+    };
   }
 
   // Private helper methods
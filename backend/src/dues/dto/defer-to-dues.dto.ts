@@ -0,0 +1,14 @@
+import { IsString, IsOptional, IsDateString } from 'class-validator';
+
+/**
+ * DTO for letting a patient leave with an unpaid balance
+ */
+export class DeferToDuesDto {
+  @IsDateString()
+  @IsOptional()
+  dueDate?: string; // Defaults to 30 days from today
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+}
@@ -0,0 +1,22 @@
+import { IsString, IsOptional, IsEnum, IsDateString } from 'class-validator';
+import { FollowUpOutcome } from '@prisma/client';
+
+/**
+ * DTO for logging a collection call against a due
+ */
+export class LogFollowUpDto {
+  @IsEnum(FollowUpOutcome)
+  outcome: FollowUpOutcome;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+
+  @IsDateString()
+  @IsOptional()
+  promisedDate?: string; // Becomes the new due date
+
+  @IsDateString()
+  @IsOptional()
+  nextFollowUpDate?: string;
+}
@@ -0,0 +1,10 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+
+/**
+ * DTO for requesting a bad-debt write-off
+ */
+export class RequestWriteOffDto {
+  @IsString()
+  @IsNotEmpty()
+  reason: string; // "Patient deceased", "Unreachable for 6 months"
+}
@@ -0,0 +1,173 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { DuesService } from './dues.service';
+import { DeferToDuesDto } from './dto/defer-to-dues.dto';
+import { LogFollowUpDto } from './dto/log-follow-up.dto';
+import { RequestWriteOffDto } from './dto/request-write-off.dto';
+import { RecordPaymentDto } from '../billing/dto/record-payment.dto';
+import { RejectRequestDto } from '../billing/dto/reject-request.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+/**
+ * DuesController
+ *
+ * Endpoints:
+ * - POST /api/dues/bill/:billId - Move unpaid balance to dues (BILLING)
+ * - GET /api/dues?overdue=true - Open dues
+ * - GET /api/dues/follow-ups/due - Dues to call today
+ * - GET /api/dues/patient/:patientId - Patient's dues across visits
+ * - POST /api/dues/:id/follow-ups - Log follow-up call
+ * - GET /api/dues/:id/follow-ups - Follow-up history
+ * - POST /api/dues/:id/payments - Record (partial) settlement
+ * - POST /api/dues/:id/write-off - Request write-off (BILLING)
+ * - GET /api/dues/write-offs/pending - Write-offs awaiting approval
+ * - PATCH /api/dues/write-offs/:id/approve - Approve write-off (ADMIN)
+ * - PATCH /api/dues/write-offs/:id/reject - Reject write-off (ADMIN)
+ */
+@Controller('dues')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class DuesController {
+  constructor(private readonly duesService: DuesService) {}
+
+  /**
+   * ⭐ Let patient leave with unpaid balance
+   * POST /api/dues/bill/:billId
+   */
+  @Post('bill/:billId')
+  @Roles(UserRole.BILLING, UserRole.ADMIN)
+  async deferToDues(
+    @Param('billId') billId: string,
+    @Body() dto: DeferToDuesDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.duesService.deferToDues(billId, dto, user.id);
+  }
+
+  /**
+   * Get open dues
+   * GET /api/dues?overdue=true
+   */
+  @Get()
+  @Roles(UserRole.BILLING, UserRole.ADMIN)
+  async getOpenDues(@Query('overdue') overdue?: string) {
+    return this.duesService.getOpenDues(overdue === 'true');
+  }
+
+  /**
+   * Get dues with a follow-up call due today
+   * GET /api/dues/follow-ups/due
+   */
+  @Get('follow-ups/due')
+  @Roles(UserRole.BILLING, UserRole.ADMIN)
+  async getFollowUpsDue() {
+    return this.duesService.getFollowUpsDue();
+  }
+
+  /**
+   * Get write-offs awaiting approval
+   * GET /api/dues/write-offs/pending
+   */
+  @Get('write-offs/pending')
+  @Roles(UserRole.ADMIN)
+  async getPendingWriteOffs() {
+    return this.duesService.getPendingWriteOffs();
+  }
+
+  /**
+   * Approve write-off
+   * PATCH /api/dues/write-offs/:id/approve
+   */
+  @Patch('write-offs/:id/approve')
+  @Roles(UserRole.ADMIN)
+  async approveWriteOff(@Param('id') writeOffId: string, @CurrentUser() user: any) {
+    return this.duesService.approveWriteOff(writeOffId, user.id);
+  }
+
+  /**
+   * Reject write-off
+   * PATCH /api/dues/write-offs/:id/reject
+   */
+  @Patch('write-offs/:id/reject')
+  @Roles(UserRole.ADMIN)
+  async rejectWriteOff(
+    @Param('id') writeOffId: string,
+    @Body() dto: RejectRequestDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.duesService.rejectWriteOff(writeOffId, user.id, dto.reason);
+  }
+
+  /**
+   * Get patient's dues across visits
+   * GET /api/dues/patient/:patientId
+   */
+  @Get('patient/:patientId')
+  @Roles(UserRole.BILLING, UserRole.RECEPTIONIST, UserRole.ADMIN)
+  async getPatientDues(@Param('patientId') patientId: string) {
+    return this.duesService.getPatientDues(patientId);
+  }
+
+  /**
+   * Log follow-up call
+   * POST /api/dues/:id/follow-ups
+   */
+  @Post(':id/follow-ups')
+  @Roles(UserRole.BILLING, UserRole.ADMIN)
+  async logFollowUp(
+    @Param('id') dueId: string,
+    @Body() dto: LogFollowUpDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.duesService.logFollowUp(dueId, dto, user.id);
+  }
+
+  /**
+   * Get follow-up history
+   * GET /api/dues/:id/follow-ups
+   */
+  @Get(':id/follow-ups')
+  @Roles(UserRole.BILLING, UserRole.ADMIN)
+  async getFollowUps(@Param('id') dueId: string) {
+    return this.duesService.getFollowUps(dueId);
+  }
+
+  /**
+   * Record (partial) settlement of a due
+   * POST /api/dues/:id/payments
+   */
+  @Post(':id/payments')
+  @Roles(UserRole.BILLING, UserRole.ADMIN)
+  async recordDuesPayment(
+    @Param('id') dueId: string,
+    @Body() dto: RecordPaymentDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.duesService.recordDuesPayment(dueId, dto, user.id);
+  }
+
+  /**
+   * Request write-off of remaining balance
+   * POST /api/dues/:id/write-off
+   */
+  @Post(':id/write-off')
+  @Roles(UserRole.BILLING, UserRole.ADMIN)
+  async requestWriteOff(
+    @Param('id') dueId: string,
+    @Body() dto: RequestWriteOffDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.duesService.requestWriteOff(dueId, dto, user.id);
+  }
+}
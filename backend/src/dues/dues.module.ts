@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { DuesController } from './dues.controller';
+import { DuesService } from './dues.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { BillingModule } from '../billing/billing.module';
+import { WorkflowModule } from '../workflow/workflow.module';
+import { EventsModule } from '../events/events.module';
+
+@Module({
+  imports: [PrismaModule, BillingModule, WorkflowModule, EventsModule],
+  controllers: [DuesController],
+  providers: [DuesService],
+  exports: [DuesService],
+})
+export class DuesModule {}
@@ -0,0 +1,517 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import {
+  BillingStatus,
+  CreditStatus,
+  OutstandingStatus,
+  PatientStage,
+  WriteOffStatus,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { QueueGateway } from '../events/queue.gateway';
+import { WorkflowService } from '../workflow/workflow.service';
+import { PaymentsService } from '../billing/payments.service';
+import { RecordPaymentDto } from '../billing/dto/record-payment.dto';
+import { AgeingBucket, getAgeingBucket } from '../billing/utils/ageing';
+import { DeferToDuesDto } from './dto/defer-to-dues.dto';
+import { LogFollowUpDto } from './dto/log-follow-up.dto';
+import { RequestWriteOffDto } from './dto/request-write-off.dto';
+
+/**
+ * One unpaid bill in a patient's dues summary
+ */
+export interface PatientDue {
+  id: string;
+  billId: string;
+  billNumber: string;
+  visitId: string;
+  billedAt: Date;
+  outstandingAmount: number;
+  patientDue: number; // Excludes the approved insurer share
+  dueDate: Date | null;
+  nextFollowUpDate: Date | null;
+  ageing: AgeingBucket;
+  status: OutstandingStatus;
+}
+
+export interface PatientDuesSummary {
+  patientId: string;
+  totalDue: number;
+  dues: PatientDue[];
+}
+
+/**
+ * DuesService - Outstanding dues ledger
+ *
+ * Handles balances patients leave without paying:
+ * 1. Moves an unpaid bill to dues (with a due date) and closes the visit
+ * 2. Lists a patient's dues across visits, with ageing
+ * 3. Logs follow-up calls and schedules the next one
+ * 4. Records partial settlements through PaymentsService
+ * 5. Write-offs: BILLING requests, ADMIN approves or rejects
+ */
+@Injectable()
+export class DuesService {
+  private readonly OPEN: OutstandingStatus[] = [
+    OutstandingStatus.ACTIVE,
+    OutstandingStatus.PARTIAL,
+  ];
+
+  private readonly DEFAULT_CREDIT_DAYS = 30;
+
+  private readonly dueInclude = {
+    billing: {
+      select: {
+        id: true,
+        billNumber: true,
+        visitId: true,
+        total: true,
+        balance: true,
+        generatedAt: true,
+        creditBilling: {
+          select: { status: true, insuranceShare: true },
+        },
+      },
+    },
+  };
+
+  constructor(
+    private prisma: PrismaService,
+    private paymentsService: PaymentsService,
+    private workflowService: WorkflowService,
+    private queueGateway: QueueGateway,
+  ) {}
+
+  /**
+   * ⭐ Let the patient leave with an unpaid balance
+   * Opens (or updates) the dues entry and completes the visit
+   */
+  async deferToDues(billId: string, dto: DeferToDuesDto, performedBy: string) {
+    const bill = await this.prisma.billing.findUnique({
+      where: { id: billId },
+      include: { visit: true },
+    });
+
+    if (!bill) {
+      throw new NotFoundException(`Bill with ID ${billId} not found`);
+    }
+
+    const closed: BillingStatus[] = [BillingStatus.PAID, BillingStatus.WRITTEN_OFF, BillingStatus.CANCELLED];
+    if (closed.includes(bill.status)) {
+      throw new BadRequestException(
+        `Bill ${bill.billNumber} is ${bill.status.toLowerCase().replace('_', ' ')}; nothing to move to dues`,
+      );
+    }
+
+    const dueDate = dto.dueDate
+      ? new Date(dto.dueDate)
+      : new Date(Date.now() + this.DEFAULT_CREDIT_DAYS * 24 * 60 * 60 * 1000);
+
+    const due = await this.prisma.outstandingBill.upsert({
+      where: { billingId: bill.id },
+      create: {
+        billingId: bill.id,
+        patientId: bill.visit.patientId,
+        outstandingAmount: bill.balance,
+        status: bill.paidAmount > 0 ? OutstandingStatus.PARTIAL : OutstandingStatus.ACTIVE,
+        dueDate,
+        nextFollowUpDate: dueDate,
+        followUpNotes: dto.notes,
+      },
+      update: {
+        dueDate,
+        nextFollowUpDate: dueDate,
+        followUpNotes: dto.notes,
+      },
+    });
+
+    if (bill.visit.stage === PatientStage.BILLING_PENDING) {
+      await this.workflowService.transitionVisit(
+        bill.visitId,
+        PatientStage.COMPLETED,
+        performedBy,
+        `Balance ₹${bill.balance} moved to outstanding dues`,
+      );
+    }
+
+    console.log(`✅ ${bill.billNumber} moved to dues: ₹${bill.balance} due ${dueDate.toDateString()}`);
+
+    return due;
+  }
+
+  /**
+   * Get all open dues, oldest first
+   */
+  async getOpenDues(overdueOnly = false) {
+    const dues = await this.prisma.outstandingBill.findMany({
+      where: {
+        status: { in: this.OPEN },
+        ...(overdueOnly && { dueDate: { lt: new Date() } }),
+      },
+      include: this.dueInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return this.withPatients(dues);
+  }
+
+  /**
+   * Get dues whose follow-up call is due today (or missed)
+   */
+  async getFollowUpsDue() {
+    const endOfDay = new Date(new Date().setHours(23, 59, 59, 999));
+
+    const dues = await this.prisma.outstandingBill.findMany({
+      where: {
+        status: { in: this.OPEN },
+        nextFollowUpDate: { lte: endOfDay },
+      },
+      include: this.dueInclude,
+      orderBy: { nextFollowUpDate: 'asc' },
+    });
+
+    return this.withPatients(dues);
+  }
+
+  /**
+   * ⭐ A patient's open dues across all visits
+   */
+  async getPatientDues(patientId: string): Promise<PatientDuesSummary> {
+    const dues = await this.prisma.outstandingBill.findMany({
+      where: {
+        patientId,
+        status: { in: this.OPEN },
+      },
+      include: this.dueInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const rows: PatientDue[] = dues.map((due) => ({
+      id: due.id,
+      billId: due.billing.id,
+      billNumber: due.billing.billNumber,
+      visitId: due.billing.visitId,
+      billedAt: due.billing.generatedAt,
+      outstandingAmount: due.outstandingAmount,
+      patientDue: this.patientDue(due),
+      dueDate: due.dueDate,
+      nextFollowUpDate: due.nextFollowUpDate,
+      ageing: getAgeingBucket(due.billing.generatedAt),
+      status: due.status,
+    }));
+
+    return {
+      patientId,
+      totalDue: this.round(rows.reduce((sum, row) => sum + row.patientDue, 0)),
+      dues: rows.filter((row) => row.patientDue > 0),
+    };
+  }
+
+  /**
+   * Total patient-payable dues for several patients (for search results)
+   */
+  async getDueTotals(patientIds: string[]): Promise<Map<string, number>> {
+    const dues = await this.prisma.outstandingBill.findMany({
+      where: {
+        patientId: { in: patientIds },
+        status: { in: this.OPEN },
+      },
+      include: this.dueInclude,
+    });
+
+    const totals = new Map<string, number>();
+    for (const due of dues) {
+      totals.set(
+        due.patientId,
+        this.round((totals.get(due.patientId) || 0) + this.patientDue(due)),
+      );
+    }
+
+    return totals;
+  }
+
+  /**
+   * Log a follow-up call
+   * A promised payment date becomes the new due date
+   */
+  async logFollowUp(dueId: string, dto: LogFollowUpDto, calledBy: string) {
+    const due = await this.getOpenDue(dueId);
+
+    const [followUp] = await this.prisma.$transaction([
+      this.prisma.duesFollowUp.create({
+        data: {
+          outstandingBillId: due.id,
+          outcome: dto.outcome,
+          notes: dto.notes,
+          promisedDate: dto.promisedDate ? new Date(dto.promisedDate) : null,
+          nextFollowUpDate: dto.nextFollowUpDate ? new Date(dto.nextFollowUpDate) : null,
+          calledBy,
+        },
+      }),
+      this.prisma.outstandingBill.update({
+        where: { id: due.id },
+        data: {
+          lastFollowUpDate: new Date(),
+          nextFollowUpDate: dto.nextFollowUpDate ? new Date(dto.nextFollowUpDate) : null,
+          followUpNotes: dto.notes,
+          dueDate: dto.promisedDate ? new Date(dto.promisedDate) : due.dueDate,
+        },
+      }),
+    ]);
+
+    return followUp;
+  }
+
+  /**
+   * Get follow-up history for a due
+   */
+  async getFollowUps(dueId: string) {
+    return this.prisma.duesFollowUp.findMany({
+      where: { outstandingBillId: dueId },
+      orderBy: { calledAt: 'desc' },
+    });
+  }
+
+  /**
+   * Record a (partial) settlement of a due
+   * Balance and dues status are updated by PaymentsService
+   */
+  async recordDuesPayment(dueId: string, dto: RecordPaymentDto, recordedBy: string) {
+    const due = await this.getOpenDue(dueId);
+
+    const { bill, payments } = await this.paymentsService.recordPayment(
+      due.billingId,
+      dto,
+      recordedBy,
+    );
+
+    const updated = await this.prisma.outstandingBill.findUnique({
+      where: { id: due.id },
+    });
+
+    return { due: updated, bill, payments };
+  }
+
+  /**
+   * Request a write-off of the remaining balance
+   */
+  async requestWriteOff(dueId: string, dto: RequestWriteOffDto, requestedBy: string) {
+    const due = await this.getOpenDue(dueId);
+
+    const pending = await this.prisma.duesWriteOff.findFirst({
+      where: {
+        outstandingBillId: due.id,
+        status: WriteOffStatus.PENDING,
+      },
+    });
+
+    if (pending) {
+      throw new BadRequestException('A write-off request is already pending for this due');
+    }
+
+    const writeOff = await this.prisma.duesWriteOff.create({
+      data: {
+        outstandingBillId: due.id,
+        amount: due.outstandingAmount,
+        reason: dto.reason,
+        requestedBy,
+      },
+    });
+
+    console.log(`✅ Write-off of ₹${due.outstandingAmount} requested on due ${due.id}`);
+
+    return writeOff;
+  }
+
+  /**
+   * ⭐ Approve a write-off (due and bill are closed as WRITTEN_OFF)
+   */
+  async approveWriteOff(writeOffId: string, approvedBy: string) {
+    const writeOff = await this.getPendingWriteOff(writeOffId, approvedBy);
+    const due = await this.getOpenDue(writeOff.outstandingBillId);
+
+    const { updated, amount } = await this.prisma.$transaction(async (tx) => {
+      // Lock the bill so a payment can't land between reading and clearing the balance
+      await tx.$queryRaw`SELECT "id" FROM "billings" WHERE "id" = ${due.billingId} FOR UPDATE`;
+
+      const bill = await tx.billing.findUniqueOrThrow({
+        where: { id: due.billingId },
+      });
+
+      // Payments received since the request reduce the amount written off
+      const amount = this.round(bill.balance);
+
+      if (amount <= 0) {
+        throw new BadRequestException(`Bill ${bill.billNumber} has no balance left to write off`);
+      }
+
+      // Only one reviewer can decide a pending write-off
+      const { count } = await tx.duesWriteOff.updateMany({
+        where: { id: writeOffId, status: WriteOffStatus.PENDING },
+        data: {
+          status: WriteOffStatus.APPROVED,
+          amount,
+          approvedBy,
+          approvedAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        throw new BadRequestException('Write-off is no longer pending');
+      }
+
+      await tx.outstandingBill.update({
+        where: { id: due.id },
+        data: {
+          status: OutstandingStatus.WRITTEN_OFF,
+          nextFollowUpDate: null,
+          settledAt: new Date(),
+        },
+      });
+
+      // Bill stops accepting payments once its balance is written off
+      await tx.billing.update({
+        where: { id: bill.id },
+        data: { writtenOffAmount: this.round(bill.writtenOffAmount + amount) },
+      });
+      await this.paymentsService.recalculateBalance(tx, bill.id);
+
+      const updated = await tx.duesWriteOff.findUniqueOrThrow({
+        where: { id: writeOffId },
+      });
+
+      return { updated, amount };
+    });
+
+    console.log(`✅ Due ${due.id} written off: ₹${amount}`);
+
+    this.queueGateway.notifyUser(writeOff.requestedBy, {
+      type: 'write_off_approved',
+      message: `Write-off of ₹${amount} approved`,
+      data: { writeOffId, dueId: due.id },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Reject a write-off with a reason
+   */
+  async rejectWriteOff(writeOffId: string, rejectedBy: string, reason: string) {
+    const writeOff = await this.getPendingWriteOff(writeOffId, rejectedBy);
+
+    const { count } = await this.prisma.duesWriteOff.updateMany({
+      where: { id: writeOffId, status: WriteOffStatus.PENDING },
+      data: {
+        status: WriteOffStatus.REJECTED,
+        approvedBy: rejectedBy,
+        approvedAt: new Date(),
+        rejectionReason: reason,
+      },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('Write-off is no longer pending');
+    }
+
+    this.queueGateway.notifyUser(writeOff.requestedBy, {
+      type: 'write_off_rejected',
+      message: `Write-off of ₹${writeOff.amount} rejected: ${reason}`,
+      data: { writeOffId, dueId: writeOff.outstandingBillId, reason },
+    });
+
+    return this.prisma.duesWriteOff.findUnique({
+      where: { id: writeOffId },
+    });
+  }
+
+  /**
+   * Get write-offs awaiting approval
+   */
+  async getPendingWriteOffs() {
+    return this.prisma.duesWriteOff.findMany({
+      where: { status: WriteOffStatus.PENDING },
+      include: {
+        outstandingBill: { include: this.dueInclude },
+      },
+      orderBy: { requestedAt: 'asc' },
+    });
+  }
+
+  /**
+   * What the patient (not the insurer) still owes on a due
+   */
+  private patientDue(due: {
+    outstandingAmount: number;
+    billing: { creditBilling: { status: CreditStatus; insuranceShare: number | null } | null };
+  }): number {
+    const claim = due.billing.creditBilling;
+    const insurerReceivable =
+      claim?.status === CreditStatus.APPROVED ||
+      claim?.status === CreditStatus.PARTIALLY_APPROVED
+        ? claim.insuranceShare || 0
+        : 0;
+
+    return Math.max(this.round(due.outstandingAmount - insurerReceivable), 0);
+  }
+
+  /**
+   * OutstandingBill has no patient relation; attach patient details
+   */
+  private async withPatients<T extends { patientId: string }>(dues: T[]) {
+    const patients = await this.prisma.patient.findMany({
+      where: { id: { in: [...new Set(dues.map((due) => due.patientId))] } },
+      select: { id: true, uhid: true, name: true, mobile: true },
+    });
+    const byId = new Map(patients.map((patient) => [patient.id, patient]));
+
+    return dues.map((due) => ({ ...due, patient: byId.get(due.patientId) }));
+  }
+
+  private async getOpenDue(dueId: string) {
+    const due = await this.prisma.outstandingBill.findUnique({
+      where: { id: dueId },
+    });
+
+    if (!due) {
+      throw new NotFoundException(`Outstanding due with ID ${dueId} not found`);
+    }
+
+    if (!this.OPEN.includes(due.status)) {
+      throw new BadRequestException(`Due is already ${due.status.toLowerCase().replace('_', ' ')}`);
+    }
+
+    return due;
+  }
+
+  /**
+   * Load a pending write-off, blocking self-approval
+   */
+  private async getPendingWriteOff(writeOffId: string, reviewerId: string) {
+    const writeOff = await this.prisma.duesWriteOff.findUnique({
+      where: { id: writeOffId },
+    });
+
+    if (!writeOff) {
+      throw new NotFoundException(`Write-off with ID ${writeOffId} not found`);
+    }
+
+    if (writeOff.status !== WriteOffStatus.PENDING) {
+      throw new BadRequestException(`Write-off is already ${writeOff.status.toLowerCase()}`);
+    }
+
+    if (writeOff.requestedBy === reviewerId) {
+      throw new ForbiddenException('You cannot review your own write-off request');
+    }
+
+    return writeOff;
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -1,7 +1,9 @@
 import { Module } from '@nestjs/common';
 import { QueueGateway } from './queue.gateway';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
+  imports: [AuthModule],
   providers: [QueueGateway],
   exports: [QueueGateway],
 })
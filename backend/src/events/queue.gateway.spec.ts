@@ -0,0 +1,64 @@
+import { JwtService } from '@nestjs/jwt';
+import { QueueGateway } from './queue.gateway';
+
+describe('QueueGateway', () => {
+  const jwtService = new JwtService({ secret: 'test-secret' });
+  let prisma: any;
+  let gateway: QueueGateway;
+
+  const socket = (token?: string) =>
+    ({
+      id: 'socket-1',
+      handshake: { auth: token ? { token } : {} },
+      join: jest.fn(),
+    }) as any;
+
+  beforeEach(() => {
+    prisma = {
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ id: 'user-1', isActive: true }),
+      },
+    };
+    gateway = new QueueGateway(jwtService, prisma);
+  });
+
+  describe('handleUserSubscribe', () => {
+    it('should join the room of the user in the handshake token', async () => {
+      const client = socket(jwtService.sign({ sub: 'user-1', username: 'u', role: 'BILLING' }));
+
+      const result = await gateway.handleUserSubscribe(client);
+
+      expect(result.success).toBe(true);
+      expect(client.join).toHaveBeenCalledWith('user:user-1');
+    });
+
+    it('should refuse sockets without a token', async () => {
+      const client = socket();
+
+      const result = await gateway.handleUserSubscribe(client);
+
+      expect(result.success).toBe(false);
+      expect(client.join).not.toHaveBeenCalled();
+    });
+
+    it('should refuse tokens signed with another secret', async () => {
+      const forged = new JwtService({ secret: 'other' }).sign({ sub: 'user-2', username: 'x', role: 'ADMIN' });
+      const client = socket(forged);
+
+      const result = await gateway.handleUserSubscribe(client);
+
+      expect(result.success).toBe(false);
+      expect(client.join).not.toHaveBeenCalled();
+    });
+
+    it('should refuse inactive users', async () => {
+      prisma.user.findUnique.mockResolvedValue({ id: 'user-1', isActive: false });
+      const client = socket(jwtService.sign({ sub: 'user-1', username: 'u', role: 'BILLING' }));
+
+      const result = await gateway.handleUserSubscribe(client);
+
+      expect(result.success).toBe(false);
+      expect(client.join).not.toHaveBeenCalled();
+    });
+  });
+});
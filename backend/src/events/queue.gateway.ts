@@ -7,6 +7,9 @@ import {
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
 import { Logger } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { PrismaService } from '../prisma/prisma.service';
+import { JwtPayload } from '../auth/jwt.strategy';
 
 @WebSocketGateway({
   cors: {
@@ -20,6 +23,11 @@ export class QueueGateway implements OnGatewayConnection, OnGatewayDisconnect {
 
   private logger = new Logger('QueueGateway');
 
+  constructor(
+    private jwtService: JwtService,
+    private prisma: PrismaService,
+  ) {}
+
   handleConnection(client: Socket) {
     this.logger.log(`Client connected: ${client.id}`);
   }
@@ -34,6 +42,7 @@ export class QueueGateway implements OnGatewayConnection, OnGatewayDisconnect {
   broadcastQueueUpdate(event: {
     type: 'patient_added' | 'patient_updated' | 'patient_removed' | 'stage_changed';
     patientId: string;
+    visitId?: string;
     patientToken?: number;
     stage?: string;
     doctorId?: string;
@@ -51,6 +60,36 @@ export class QueueGateway implements OnGatewayConnection, OnGatewayDisconnect {
     this.server.to(`doctor:${doctorId}`).emit('doctor:update', event);
   }
 
+  /**
+   * Notify a specific user (e.g. approval decisions on their requests)
+   */
+  notifyUser(
+    userId: string,
+    event: {
+      type: string;
+      message: string;
+      data?: any;
+    },
+  ) {
+    this.logger.log(`Notifying user ${userId}: ${event.type}`);
+    this.server.to(`user:${userId}`).emit('user:notification', event);
+  }
+
+  /**
+   * Alert everyone watching a department queue (e.g. "lab")
+   */
+  broadcastToQueue(
+    queueType: string,
+    event: {
+      type: string;
+      message: string;
+      data?: any;
+    },
+  ) {
+    this.logger.log(`Alerting ${queueType} queue: ${event.type}`);
+    this.server.to(`queue:${queueType}`).emit('queue:alert', event);
+  }
+
   /**
    * Subscribe to doctor-specific updates
    */
@@ -71,6 +110,24 @@ export class QueueGateway implements OnGatewayConnection, OnGatewayDisconnect {
     return { success: true };
   }
 
+  /**
+   * Subscribe to notifications addressed to the authenticated user
+   * The room comes from the JWT sent in the handshake, never from the payload
+   */
+  @SubscribeMessage('subscribe:user')
+  async handleUserSubscribe(client: Socket) {
+    const userId = await this.authenticate(client);
+
+    if (!userId) {
+      this.logger.warn(`Client ${client.id} refused user notifications: not authenticated`);
+      return { success: false, message: 'Authentication required' };
+    }
+
+    client.join(`user:${userId}`);
+    this.logger.log(`User ${userId} subscribed to notifications`);
+    return { success: true };
+  }
+
   /**
    * Subscribe to specific queue (vitals, lab, pharmacy, etc.)
    */
@@ -80,4 +137,27 @@ export class QueueGateway implements OnGatewayConnection, OnGatewayDisconnect {
     this.logger.log(`Client subscribed to ${payload.queueType} queue`);
     return { success: true };
   }
+
+  /**
+   * Resolve the socket's user from its handshake token (same rules as JwtStrategy)
+   */
+  private async authenticate(client: Socket): Promise<string | null> {
+    const token = client.handshake.auth?.token;
+    if (!token) {
+      return null;
+    }
+
+    try {
+      const payload = this.jwtService.verify<JwtPayload>(token, {
+        ignoreExpiration: true,
+      });
+      const user = await this.prisma.user.findUnique({
+        where: { id: payload.sub },
+        select: { id: true, isActive: true },
+      });
+      return user?.isActive ? user.id : null;
+    } catch {
+      return null;
+    }
+  }
 }
@@ -0,0 +1,80 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { CriticalAlertService } from './critical-alert.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AcknowledgeCriticalAlertDto } from './dto/acknowledge-critical-alert.dto';
+
+/**
+ * CriticalAlertController
+ *
+ * Endpoints:
+ * - GET /api/lab/critical-alerts/open - Unacknowledged alerts (doctors see their own)
+ * - GET /api/lab/critical-alerts/log?from=2024-07-01&to=2024-07-31 - Notification log
+ * - POST /api/lab/critical-alerts/:id/acknowledge - Read-back acknowledgement
+ */
+@Controller('lab/critical-alerts')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class CriticalAlertController {
+  constructor(private readonly criticalAlertService: CriticalAlertService) {}
+
+  /**
+   * ⭐ Open critical alerts
+   * GET /api/lab/critical-alerts/open
+   */
+  @Get('open')
+  @Roles(UserRole.DOCTOR, UserRole.LAB_TECH, UserRole.PATHOLOGIST, UserRole.ADMIN)
+  async getOpenAlerts(@CurrentUser() user: any) {
+    const doctorId = user.role === UserRole.DOCTOR ? user.id : undefined;
+    return this.criticalAlertService.getOpenAlerts(doctorId);
+  }
+
+  /**
+   * Critical result notification log
+   * GET /api/lab/critical-alerts/log?from=2024-07-01&to=2024-07-31
+   *
+   * Defaults to the last 30 days
+   */
+  @Get('log')
+  @Roles(UserRole.LAB_TECH, UserRole.PATHOLOGIST, UserRole.ADMIN)
+  async getAlertLog(
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    const end = to ? new Date(`${to}T23:59:59.999`) : new Date();
+    const start = from
+      ? new Date(`${from}T00:00:00`)
+      : new Date(end.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+      throw new BadRequestException('from/to must be valid dates (YYYY-MM-DD), from before to');
+    }
+
+    return this.criticalAlertService.getAlertLog(start, end);
+  }
+
+  /**
+   * ⭐ Acknowledge a critical result by reading the value back
+   * POST /api/lab/critical-alerts/:id/acknowledge
+   */
+  @Post(':id/acknowledge')
+  @Roles(UserRole.DOCTOR, UserRole.ADMIN)
+  async acknowledge(
+    @Param('id') alertId: string,
+    @Body() dto: AcknowledgeCriticalAlertDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.criticalAlertService.acknowledge(alertId, dto, user);
+  }
+}
@@ -0,0 +1,299 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, ResultFlag, UserRole } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { QueueGateway } from '../events/queue.gateway';
+import { AcknowledgeCriticalAlertDto } from './dto/acknowledge-critical-alert.dto';
+
+const ALERT_INCLUDE = {
+  labOrder: {
+    select: {
+      id: true,
+      visitId: true,
+      test: { select: { name: true } },
+      patient: { select: { id: true, name: true, uhid: true } },
+    },
+  },
+  analyte: { select: { id: true, code: true, name: true } },
+  doctor: { select: { id: true, name: true } },
+  acknowledgedBy: { select: { id: true, name: true } },
+} satisfies Prisma.CriticalAlertInclude;
+
+type AlertWithDetails = Prisma.CriticalAlertGetPayload<{ include: typeof ALERT_INCLUDE }>;
+
+/**
+ * CriticalAlertService - Critical (panic) value notification
+ *
+ * 1. A result past its critical limit raises an alert, pushed as a blocking
+ *    event to the ordering doctor's doctor:<id> room
+ * 2. The doctor acknowledges by reading the value back; who and when is recorded
+ * 3. Background check every LAB_CRITICAL_CHECK_INTERVAL_MS escalates alerts
+ *    not acknowledged within LAB_CRITICAL_ESCALATION_MINUTES to ADMIN users
+ */
+@Injectable()
+export class CriticalAlertService implements OnModuleInit, OnModuleDestroy {
+  private timer: NodeJS.Timeout;
+  private readonly escalationMinutes: number;
+
+  constructor(
+    private prisma: PrismaService,
+    private queueGateway: QueueGateway,
+    private config: ConfigService,
+  ) {
+    this.escalationMinutes = Number(this.config.get('LAB_CRITICAL_ESCALATION_MINUTES') || 15);
+  }
+
+  onModuleInit() {
+    const interval = Number(this.config.get('LAB_CRITICAL_CHECK_INTERVAL_MS') || 60000);
+
+    this.timer = setInterval(() => {
+      this.checkEscalations().catch((err) =>
+        console.error('❌ Critical alert escalation check failed:', err),
+      );
+    }, interval);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * ⭐ Raise alerts for an order's critical results
+   * A value already alerted for the same analyte is not alerted again
+   */
+  async raiseAlerts(labOrderId: string) {
+    const order = await this.prisma.labOrder.findUnique({
+      where: { id: labOrderId },
+      include: {
+        results: {
+          where: { flag: { in: [ResultFlag.CRITICAL_LOW, ResultFlag.CRITICAL_HIGH] } },
+        },
+        criticalAlerts: { select: { analyteId: true, value: true } },
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Lab order not found');
+    }
+
+    const raised: AlertWithDetails[] = [];
+
+    for (const result of order.results) {
+      if (result.value === null) continue;
+
+      const alreadyAlerted = order.criticalAlerts.some(
+        (alert) => alert.analyteId === result.analyteId && alert.value === result.value,
+      );
+      if (alreadyAlerted) continue;
+
+      const limit =
+        result.flag === ResultFlag.CRITICAL_LOW ? result.criticalLow : result.criticalHigh;
+
+      const alert = await this.prisma.criticalAlert.create({
+        data: {
+          labOrderId,
+          analyteId: result.analyteId,
+          value: result.value,
+          unit: result.unit,
+          flag: result.flag,
+          limit: limit!,
+          doctorId: order.doctorId,
+        },
+        include: ALERT_INCLUDE,
+      });
+
+      this.pushToDoctor(alert);
+      raised.push(alert);
+
+      console.log(
+        `🚨 Critical ${alert.analyte.name} ${alert.value} ${alert.unit || ''} for ${alert.labOrder.patient.name} sent to Dr. ${alert.doctor.name}`,
+      );
+    }
+
+    return raised;
+  }
+
+  /**
+   * Unacknowledged alerts, oldest first (a doctor only sees their own)
+   */
+  async getOpenAlerts(doctorId?: string) {
+    return this.prisma.criticalAlert.findMany({
+      where: {
+        acknowledgedAt: null,
+        ...(doctorId && { doctorId }),
+      },
+      include: ALERT_INCLUDE,
+      orderBy: { raisedAt: 'asc' },
+    });
+  }
+
+  /**
+   * Notification log for a period: raised, acknowledged, escalated
+   */
+  async getAlertLog(from: Date, to: Date) {
+    const alerts = await this.prisma.criticalAlert.findMany({
+      where: { raisedAt: { gte: from, lte: to } },
+      include: ALERT_INCLUDE,
+      orderBy: { raisedAt: 'desc' },
+    });
+
+    return alerts.map((alert) => ({
+      ...alert,
+      minutesToAcknowledge: alert.acknowledgedAt
+        ? Math.round((alert.acknowledgedAt.getTime() - alert.raisedAt.getTime()) / 60000)
+        : null,
+    }));
+  }
+
+  /**
+   * ⭐ Acknowledge a critical result with read-back
+   * The ordering doctor, or an ADMIN once escalated
+   */
+  async acknowledge(
+    alertId: string,
+    dto: AcknowledgeCriticalAlertDto,
+    user: { id: string; role: UserRole },
+  ) {
+    const alert = await this.prisma.criticalAlert.findUnique({
+      where: { id: alertId },
+      include: ALERT_INCLUDE,
+    });
+
+    if (!alert) {
+      throw new NotFoundException('Critical alert not found');
+    }
+
+    if (alert.acknowledgedAt) {
+      throw new BadRequestException(
+        `Already acknowledged by ${alert.acknowledgedBy?.name} at ${alert.acknowledgedAt.toISOString()}`,
+      );
+    }
+
+    if (user.role !== UserRole.ADMIN && alert.doctorId !== user.id) {
+      throw new ForbiddenException('Only the ordering doctor can acknowledge this result');
+    }
+
+    if (Math.abs(dto.readBackValue - alert.value) > 1e-9) {
+      throw new BadRequestException(
+        `Read-back ${dto.readBackValue} does not match the reported ${alert.analyte.name} value`,
+      );
+    }
+
+    // Guarded so two acknowledgements can't both be recorded
+    const now = new Date();
+    const { count } = await this.prisma.criticalAlert.updateMany({
+      where: { id: alertId, acknowledgedAt: null },
+      data: {
+        acknowledgedById: user.id,
+        acknowledgedAt: now,
+        readBackValue: dto.readBackValue,
+      },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('Critical alert was acknowledged by another user');
+    }
+
+    this.queueGateway.broadcastToQueue('lab', {
+      type: 'critical_result_acknowledged',
+      message: `Critical ${alert.analyte.name} for ${alert.labOrder.patient.name} acknowledged`,
+      data: { alertId, labOrderId: alert.labOrderId },
+    });
+
+    console.log(`✅ Critical alert ${alertId} acknowledged by ${user.id}`);
+
+    return this.prisma.criticalAlert.findUnique({
+      where: { id: alertId },
+      include: ALERT_INCLUDE,
+    });
+  }
+
+  /**
+   * ⭐ Escalate alerts not acknowledged in time to every active ADMIN
+   * Each alert is escalated once
+   */
+  async checkEscalations(now: Date = new Date()) {
+    const cutoff = new Date(now.getTime() - this.escalationMinutes * 60000);
+
+    const overdue = await this.prisma.criticalAlert.findMany({
+      where: {
+        acknowledgedAt: null,
+        escalatedAt: null,
+        raisedAt: { lte: cutoff },
+      },
+      include: ALERT_INCLUDE,
+    });
+
+    if (overdue.length === 0) {
+      return;
+    }
+
+    const admins = await this.prisma.user.findMany({
+      where: { role: UserRole.ADMIN, isActive: true },
+      select: { id: true },
+    });
+
+    // Leave the alerts pending so they escalate once an admin exists
+    if (admins.length === 0) {
+      console.log(`⚠️ ${overdue.length} critical alert(s) overdue but no active ADMIN to escalate to`);
+      return;
+    }
+
+    for (const alert of overdue) {
+      await this.prisma.criticalAlert.update({
+        where: { id: alert.id },
+        data: { escalatedAt: now },
+      });
+
+      const message =
+        `Unacknowledged critical ${alert.analyte.name} ${alert.value} ${alert.unit || ''} for ` +
+        `${alert.labOrder.patient.name} (${alert.labOrder.patient.uhid}), Dr. ${alert.doctor.name} ` +
+        `not responding for ${this.escalationMinutes} min`;
+
+      admins.forEach((admin) =>
+        this.queueGateway.notifyUser(admin.id, {
+          type: 'critical_result_escalated',
+          message,
+          data: this.alertData(alert),
+        }),
+      );
+
+      // Remind the doctor as well
+      this.pushToDoctor(alert);
+
+      console.log(`⚠️ Critical alert ${alert.id} escalated to ${admins.length} admin(s)`);
+    }
+  }
+
+  private pushToDoctor(alert: AlertWithDetails) {
+    this.queueGateway.broadcastToDoctor(alert.doctorId, {
+      type: 'critical_result',
+      blocking: true,
+      message:
+        `CRITICAL: ${alert.analyte.name} ${alert.value} ${alert.unit || ''} for ` +
+        `${alert.labOrder.patient.name} (${alert.labOrder.patient.uhid})`,
+      data: this.alertData(alert),
+    });
+  }
+
+  private alertData(alert: AlertWithDetails) {
+    return {
+      alertId: alert.id,
+      labOrderId: alert.labOrderId,
+      visitId: alert.labOrder.visitId,
+      patientId: alert.labOrder.patient.id,
+      analyte: alert.analyte.name,
+      value: alert.value,
+      unit: alert.unit,
+      flag: alert.flag,
+      limit: alert.limit,
+    };
+  }
+}
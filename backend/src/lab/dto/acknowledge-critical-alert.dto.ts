@@ -0,0 +1,9 @@
+import { IsNumber } from 'class-validator';
+
+/**
+ * DTO for acknowledging a critical result by reading the value back
+ */
+export class AcknowledgeCriticalAlertDto {
+  @IsNumber()
+  readBackValue: number; // Must match the reported value
+}
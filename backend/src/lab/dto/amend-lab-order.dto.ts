@@ -0,0 +1,29 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsArray,
+  ArrayNotEmpty,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { LabResultEntryDto } from './update-lab-order.dto';
+
+/**
+ * DTO for amending a released result (creates a new version)
+ */
+export class AmendLabOrderDto {
+  @IsString()
+  @IsNotEmpty()
+  reason: string; // Printed on the amended report
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => LabResultEntryDto)
+  results: LabResultEntryDto[];
+
+  @IsOptional()
+  @IsString()
+  remarks?: string;
+}
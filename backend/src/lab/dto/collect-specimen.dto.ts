@@ -0,0 +1,17 @@
+import { IsString, IsOptional, IsArray } from 'class-validator';
+
+/**
+ * DTO for one draw covering a patient's pending orders of one sample type
+ */
+export class CollectSpecimenDto {
+  @IsString()
+  patientId: string;
+
+  @IsString()
+  sampleType: string; // "Blood", "Urine" - as on the collection worklist
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  orderIds?: string[]; // Defaults to every pending order of this sample type
+}
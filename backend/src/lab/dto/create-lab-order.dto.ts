@@ -1,18 +1,25 @@
-import { IsUUID, IsString, IsOptional, IsArray } from 'class-validator';
+import { IsUUID, IsString, IsOptional, IsArray, IsEnum } from 'class-validator';
+import { LabPriority } from '@prisma/client';
 
 export class CreateLabOrderDto {
-  @IsUUID()
-  patientId: string;
+  @IsString()
+  visitId: string; // Lab orders belong to the encounter, not the patient
 
+  @IsOptional()
   @IsArray()
   @IsUUID('4', { each: true })
-  testIds: string[]; // Array of lab test IDs
+  testIds?: string[]; // Array of lab test IDs
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  panelIds?: string[]; // Panels/profiles, expanded into their component tests
 
   @IsOptional()
   @IsString()
   clinicalNotes?: string; // Doctor's clinical notes for lab technician
 
   @IsOptional()
-  @IsString()
-  urgency?: 'ROUTINE' | 'URGENT' | 'STAT'; // Priority level
+  @IsEnum(LabPriority)
+  urgency?: LabPriority; // Defaults to ROUTINE; STAT alerts the lab
 }
@@ -0,0 +1,44 @@
+import {
+  IsString,
+  IsOptional,
+  IsArray,
+  IsNumber,
+  ArrayMinSize,
+  Min,
+  Max,
+} from 'class-validator';
+
+/**
+ * DTO for a lab panel / profile (admin only)
+ */
+export class CreateLabPanelDto {
+  @IsString()
+  name: string; // "Basic Health Checkup"
+
+  @IsString()
+  @IsOptional()
+  code?: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  price: number; // Package price, tax exclusive
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  gstRate?: number; // Defaults to 0.18
+
+  @IsString()
+  @IsOptional()
+  hsnSacCode?: string;
+
+  @IsArray()
+  @ArrayMinSize(2)
+  @IsString({ each: true })
+  testIds: string[]; // Component tests, in report order
+}
@@ -0,0 +1,14 @@
+import { IsString, IsOptional, IsEnum } from 'class-validator';
+import { SpecimenRejectionReason } from '@prisma/client';
+
+/**
+ * DTO for rejecting a specimen at the bench (triggers recollection)
+ */
+export class RejectSpecimenDto {
+  @IsEnum(SpecimenRejectionReason)
+  reason: SpecimenRejectionReason;
+
+  @IsString()
+  @IsOptional()
+  notes?: string; // Required when reason is OTHER
+}
@@ -0,0 +1,19 @@
+import { IsNumber, IsOptional, IsString } from 'class-validator';
+
+/**
+ * DTO for configuring an analyte's critical (panic) limits
+ * Applies to every reference range of the analyte unless rangeId is given
+ */
+export class UpdateCriticalLimitsDto {
+  @IsOptional()
+  @IsNumber()
+  criticalLow?: number | null; // null clears the limit
+
+  @IsOptional()
+  @IsNumber()
+  criticalHigh?: number | null;
+
+  @IsOptional()
+  @IsString()
+  rangeId?: string;
+}
@@ -1,20 +1,39 @@
-import { IsOptional, IsString, IsEnum } from 'class-validator';
+import {
+  IsOptional,
+  IsString,
+  IsEnum,
+  IsArray,
+  IsNumber,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
 import { LabStatus } from '@prisma/client';
 
+export class LabResultEntryDto {
+  @IsString()
+  analyteId: string;
+
+  @IsOptional()
+  @IsNumber()
+  value?: number; // Numeric result, flagged against the reference range
+
+  @IsOptional()
+  @IsString()
+  textValue?: string; // Qualitative result (e.g. "Nil", "Trace")
+}
+
 export class UpdateLabOrderDto {
   @IsOptional()
   @IsEnum(LabStatus)
   status?: LabStatus;
 
   @IsOptional()
-  @IsString()
-  results?: string;
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => LabResultEntryDto)
+  results?: LabResultEntryDto[];
 
   @IsOptional()
   @IsString()
   remarks?: string;
-
-  @IsOptional()
-  @IsString()
-  performedBy?: string;
 }
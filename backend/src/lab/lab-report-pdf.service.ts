@@ -0,0 +1,499 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import PDFDocument from 'pdfkit';
+import { Response } from 'express';
+import { LabStatus, ResultFlag } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { groupReportSections } from './utils/report-sections';
+
+const FLAG_LABELS: Record<ResultFlag, string> = {
+  NORMAL: '',
+  LOW: 'L',
+  HIGH: 'H',
+  CRITICAL_LOW: 'LL',
+  CRITICAL_HIGH: 'HH',
+};
+
+interface PreviousValue {
+  value: number | null;
+  textValue: string | null;
+  flag: ResultFlag;
+  completedAt: Date | null;
+}
+
+/**
+ * LabReportPdfService - Patient lab report
+ *
+ * Renders a visit's released lab work for handing to the patient:
+ * 1. Patient, referring doctor and sample details
+ * 2. Results against the reference range snapshot, abnormal values highlighted
+ * 3. Previous value of the same analyte for the patient (cumulative trend)
+ * 4. Lab technician who performed each test, pathologist who verified it
+ * 5. Amended results carry the version and reason
+ */
+@Injectable()
+export class LabReportPdfService {
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+  ) {}
+
+  /**
+   * ⭐ Generate lab report PDF for a visit
+   */
+  async generateLabReportPDF(visitId: string, res: Response) {
+    const visit = await this.prisma.visit.findUnique({
+      where: { id: visitId },
+      include: {
+        patient: true,
+        labOrders: {
+          where: { status: LabStatus.RELEASED },
+          include: {
+            test: true,
+            panelOrder: {
+              include: {
+                panel: {
+                  select: {
+                    name: true,
+                    tests: { select: { testId: true, displayOrder: true } },
+                  },
+                },
+              },
+            },
+            specimen: true,
+            doctor: { select: { name: true, specialty: true } },
+            performedBy: { select: { id: true, name: true } },
+            verifiedBy: { select: { id: true, name: true } },
+            amendments: {
+              select: { version: true, reason: true },
+              orderBy: { version: 'desc' },
+              take: 1,
+            },
+            results: {
+              include: { analyte: true },
+              orderBy: { analyte: { displayOrder: 'asc' } },
+            },
+          },
+        },
+      },
+    });
+
+    if (!visit) {
+      throw new NotFoundException(`Visit with ID ${visitId} not found`);
+    }
+
+    if (visit.labOrders.length === 0) {
+      throw new BadRequestException('No released lab results to report for this visit');
+    }
+
+    const patient = visit.patient;
+    const orders = visit.labOrders;
+    const sections = groupReportSections(orders);
+    // "Previous" means before this report, also when an old report is reprinted
+    const completedAt = orders
+      .map((order) => order.completedAt)
+      .filter((date): date is Date => !!date)
+      .sort((a, b) => a.getTime() - b.getTime());
+    const reportedFrom = completedAt[0] || visit.arrivedAt;
+    const previousValues = await this.getPreviousValues(
+      patient.id,
+      visitId,
+      reportedFrom,
+      orders.flatMap((order) => order.results.map((result) => result.analyteId)),
+    );
+
+    const hospital = {
+      name: this.config.get('HOSPITAL_NAME') || 'HMS Hospital',
+      address: this.config.get('HOSPITAL_ADDRESS') || '123 Medical Street, Healthcare City',
+      phone: this.config.get('HOSPITAL_PHONE') || '+1 (555) 123-4567',
+    };
+
+    const specimens = [
+      ...new Map(
+        orders
+          .filter((order) => order.specimen)
+          .map((order) => [order.specimen!.id, order.specimen!]),
+      ).values(),
+    ];
+    const referringDoctors = [...new Set(orders.map((order) => `Dr. ${order.doctor.name}`))];
+    const reportedAt = orders.reduce<Date | null>(
+      (latest, order) =>
+        order.releasedAt && (!latest || order.releasedAt > latest) ? order.releasedAt : latest,
+      null,
+    );
+
+    // Create PDF document
+    const doc = new PDFDocument({
+      size: 'A4',
+      margins: { top: 50, bottom: 50, left: 50, right: 50 },
+    });
+
+    // Set response headers
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename=lab_report_${patient.uhid}_${visit.token}.pdf`,
+    );
+
+    // Pipe PDF to response
+    doc.pipe(res);
+
+    // ========== HEADER ==========
+    doc
+      .fontSize(22)
+      .font('Helvetica-Bold')
+      .fillColor('#4F46E5')
+      .text(hospital.name, 50, 50);
+
+    doc
+      .fontSize(9)
+      .font('Helvetica')
+      .fillColor('#6B7280')
+      .text(hospital.address, 50, 78)
+      .text(`Phone: ${hospital.phone}`, 50, 91);
+
+    doc
+      .fontSize(16)
+      .font('Helvetica-Bold')
+      .fillColor('#1F2937')
+      .text('LABORATORY REPORT', 305, 50, { width: 240, align: 'right' });
+
+    doc
+      .strokeColor('#E5E7EB')
+      .lineWidth(1)
+      .moveTo(50, 112)
+      .lineTo(545, 112)
+      .stroke();
+
+    // ========== PATIENT & SAMPLE INFO ==========
+    let yPosition = 125;
+
+    doc
+      .rect(50, yPosition, 240, 85)
+      .fillAndStroke('#F3F4F6', '#E5E7EB');
+
+    doc
+      .fontSize(10)
+      .font('Helvetica-Bold')
+      .fillColor('#1F2937')
+      .text('PATIENT', 60, yPosition + 10);
+
+    doc
+      .fontSize(9)
+      .font('Helvetica')
+      .fillColor('#374151')
+      .text(`${patient.name} (${patient.uhid})`, 60, yPosition + 27)
+      .text(`Age: ${patient.age} | Gender: ${patient.gender}`, 60, yPosition + 41)
+      .text(`Token: #${visit.token} | Visit: ${this.formatDate(visit.arrivedAt)}`, 60, yPosition + 55)
+      .text(`Referred by: ${referringDoctors.join(', ')}`, 60, yPosition + 69, {
+        width: 220,
+        height: 12,
+        ellipsis: true,
+      });
+
+    doc
+      .rect(305, yPosition, 240, 85)
+      .fillAndStroke('#EEF2FF', '#C7D2FE');
+
+    doc
+      .fontSize(10)
+      .font('Helvetica-Bold')
+      .fillColor('#1F2937')
+      .text('SAMPLE', 315, yPosition + 10);
+
+    const sampleLines = specimens.length
+      ? specimens.map(
+          (specimen) =>
+            `${specimen.sampleId} (${specimen.sampleType}) collected ${this.formatDateTime(specimen.collectedAt)}` +
+            (specimen.receivedAt ? `, received ${this.formatDateTime(specimen.receivedAt)}` : ''),
+        )
+      : ['No specimen recorded'];
+
+    doc
+      .fontSize(8)
+      .font('Helvetica')
+      .fillColor('#374151')
+      .text(sampleLines.join('\n'), 315, yPosition + 27, { width: 220, height: 42, ellipsis: true })
+      .fontSize(9)
+      .text(`Reported: ${reportedAt ? this.formatDateTime(reportedAt) : '-'}`, 315, yPosition + 69);
+
+    yPosition += 105;
+
+    // ========== RESULTS ==========
+    const columns = [
+      { label: 'Investigation', x: 55, width: 150, align: 'left' as const },
+      { label: 'Result', x: 205, width: 70, align: 'right' as const },
+      { label: '', x: 279, width: 20, align: 'left' as const },
+      { label: 'Unit', x: 300, width: 55, align: 'left' as const },
+      { label: 'Reference Range', x: 355, width: 85, align: 'left' as const },
+      { label: 'Previous', x: 440, width: 100, align: 'left' as const },
+    ];
+
+    const drawHeader = () => {
+      doc
+        .rect(50, yPosition, 495, 20)
+        .fillAndStroke('#4F46E5', '#4F46E5');
+
+      doc.fontSize(8).font('Helvetica-Bold').fillColor('#FFFFFF');
+      columns.forEach((column) =>
+        doc.text(column.label, column.x, yPosition + 6, { width: column.width, align: column.align }),
+      );
+
+      yPosition += 20;
+    };
+
+    // Continue the results table on a new page when a row won't fit
+    const ensureRowSpace = (needed: number) => {
+      if (yPosition + needed > 720) {
+        doc.addPage();
+        yPosition = 50;
+        drawHeader();
+      }
+    };
+
+    drawHeader();
+
+    for (const section of sections) {
+      // Keep the heading with at least its first few rows
+      ensureRowSpace(22 + 3 * 16);
+
+      // Section heading (panel name or standalone test)
+      doc
+        .fontSize(10)
+        .font('Helvetica-Bold')
+        .fillColor('#1F2937')
+        .text(section.heading.toUpperCase(), 55, yPosition + 6);
+
+      yPosition += 22;
+
+      for (const order of section.orders) {
+        // Panel components carry their own test name under the panel heading
+        if (section.panelOrderId) {
+          ensureRowSpace(16);
+          doc
+            .fontSize(9)
+            .font('Helvetica-Bold')
+            .fillColor('#4F46E5')
+            .text(order.test.name, 55, yPosition + 2);
+          yPosition += 16;
+        }
+
+        order.results.forEach((result, index) => {
+          ensureRowSpace(16);
+
+          const abnormal = result.flag !== ResultFlag.NORMAL;
+          const critical =
+            result.flag === ResultFlag.CRITICAL_LOW || result.flag === ResultFlag.CRITICAL_HIGH;
+
+          if (critical) {
+            doc.rect(50, yPosition, 495, 16).fill('#FEE2E2');
+          } else if (index % 2 === 0) {
+            doc.rect(50, yPosition, 495, 16).fill('#F9FAFB');
+          }
+
+          const previous = previousValues.get(result.analyteId);
+
+          doc.fontSize(8).font('Helvetica').fillColor('#1F2937');
+          doc.text(result.analyte.name, columns[0].x + 8, yPosition + 4, {
+            width: columns[0].width - 8,
+            height: 10,
+            ellipsis: true,
+          });
+
+          doc
+            .font(abnormal ? 'Helvetica-Bold' : 'Helvetica')
+            .fillColor(abnormal ? '#DC2626' : '#1F2937')
+            .text(this.formatValue(result.value, result.textValue), columns[1].x, yPosition + 4, {
+              width: columns[1].width,
+              align: 'right',
+            })
+            .text(FLAG_LABELS[result.flag], columns[2].x, yPosition + 4, { width: columns[2].width });
+
+          doc
+            .font('Helvetica')
+            .fillColor('#374151')
+            .text(result.unit || result.analyte.unit || '', columns[3].x, yPosition + 4, {
+              width: columns[3].width,
+            })
+            .text(this.formatRange(result.referenceLow, result.referenceHigh), columns[4].x, yPosition + 4, {
+              width: columns[4].width,
+            });
+
+          if (previous) {
+            doc
+              .fillColor(previous.flag !== ResultFlag.NORMAL ? '#DC2626' : '#6B7280')
+              .text(
+                `${this.formatValue(previous.value, previous.textValue)} ${FLAG_LABELS[previous.flag]}`.trim() +
+                  (previous.completedAt ? ` (${this.formatDate(previous.completedAt)})` : ''),
+                columns[5].x,
+                yPosition + 4,
+                { width: columns[5].width, height: 10, ellipsis: true },
+              );
+          } else {
+            doc.fillColor('#9CA3AF').text('-', columns[5].x, yPosition + 4, { width: columns[5].width });
+          }
+
+          yPosition += 16;
+        });
+
+        // Who ran and who verified the test, plus any remarks
+        ensureRowSpace(14);
+        doc
+          .fontSize(7)
+          .font('Helvetica-Oblique')
+          .fillColor('#6B7280')
+          .text(
+            `Performed by: ${order.performedBy?.name || '-'}  |  Verified by: ${order.verifiedBy?.name || '-'}` +
+              (order.verifiedAt ? ` (${this.formatDateTime(order.verifiedAt)})` : '') +
+              (order.remarks ? `  |  Remarks: ${order.remarks}` : ''),
+            63,
+            yPosition + 2,
+            { width: 477, height: 10, ellipsis: true },
+          );
+        yPosition += 14;
+
+        const [amendment] = order.amendments;
+        if (amendment) {
+          ensureRowSpace(14);
+          doc
+            .font('Helvetica-Bold')
+            .fillColor('#DC2626')
+            .text(`AMENDED (version ${amendment.version}): ${amendment.reason}`, 63, yPosition + 2, {
+              width: 477,
+              height: 10,
+              ellipsis: true,
+            });
+          yPosition += 14;
+        }
+      }
+
+      yPosition += 6;
+    }
+
+    // ========== LEGEND ==========
+    yPosition = this.ensureSpace(doc, yPosition + 6, 20);
+
+    doc
+      .fontSize(7)
+      .font('Helvetica')
+      .fillColor('#6B7280')
+      .text(
+        'H / L: above / below reference range   HH / LL: critical value   Previous: last reported value for this patient',
+        50,
+        yPosition,
+        { width: 495 },
+      );
+
+    // ========== SIGNATURES ==========
+    yPosition = this.ensureSpace(doc, yPosition + 30, 70);
+
+    const technicians = [
+      ...new Set(orders.filter((order) => order.performedBy).map((order) => order.performedBy!.name)),
+    ];
+    const pathologists = [
+      ...new Set(orders.filter((order) => order.verifiedBy).map((order) => order.verifiedBy!.name)),
+    ];
+
+    doc
+      .fontSize(9)
+      .font('Helvetica')
+      .fillColor('#374151')
+      .text('_________________________', 50, yPosition)
+      .text('_________________________', 320, yPosition);
+
+    doc
+      .fontSize(8)
+      .fillColor('#6B7280')
+      .text(technicians.join(', ') || '-', 50, yPosition + 16, { width: 200 })
+      .text('Lab Technician', 50, yPosition + 28)
+      .text(pathologists.join(', ') || '-', 320, yPosition + 16, { width: 225 })
+      .text('Pathologist (verified & released)', 320, yPosition + 28);
+
+    // ========== FOOTER ==========
+    doc
+      .fontSize(8)
+      .font('Helvetica-Oblique')
+      .fillColor('#9CA3AF')
+      .text(
+        'Results relate only to the sample tested. Please correlate clinically.',
+        50,
+        750,
+        { align: 'center', width: 495 },
+      );
+
+    // Finalize PDF
+    doc.end();
+  }
+
+  /**
+   * Latest earlier value per analyte from the patient's other orders,
+   * completed before this report
+   */
+  private async getPreviousValues(
+    patientId: string,
+    visitId: string,
+    before: Date,
+    analyteIds: string[],
+  ): Promise<Map<string, PreviousValue>> {
+    const history = await this.prisma.labResult.findMany({
+      where: {
+        analyteId: { in: analyteIds },
+        labOrder: {
+          patientId,
+          visitId: { not: visitId },
+          status: LabStatus.RELEASED,
+          completedAt: { lt: before },
+        },
+      },
+      include: {
+        labOrder: { select: { completedAt: true } },
+      },
+      orderBy: { labOrder: { completedAt: 'desc' } },
+    });
+
+    const previous = new Map<string, PreviousValue>();
+    for (const result of history) {
+      if (!previous.has(result.analyteId)) {
+        previous.set(result.analyteId, {
+          value: result.value,
+          textValue: result.textValue,
+          flag: result.flag,
+          completedAt: result.labOrder.completedAt,
+        });
+      }
+    }
+
+    return previous;
+  }
+
+  /**
+   * Start a new page if the next block would run into the footer
+   */
+  private ensureSpace(doc: PDFKit.PDFDocument, yPosition: number, needed: number): number {
+    if (yPosition + needed > 720) {
+      doc.addPage();
+      return 50;
+    }
+    return yPosition;
+  }
+
+  private formatValue(value: number | null, textValue: string | null): string {
+    if (value != null) return String(value);
+    return textValue || '-';
+  }
+
+  private formatRange(low: number | null, high: number | null): string {
+    if (low != null && high != null) return `${low} - ${high}`;
+    if (low != null) return `>= ${low}`;
+    if (high != null) return `<= ${high}`;
+    return '-';
+  }
+
+  private formatDate(date: Date): string {
+    return new Date(date).toLocaleDateString('en-IN');
+  }
+
+  private formatDateTime(date: Date): string {
+    return new Date(date).toLocaleString('en-IN', { dateStyle: 'short', timeStyle: 'short' });
+  }
+}
@@ -7,8 +7,11 @@ import {
   Param,
   Query,
   UseGuards,
+  Res,
 } from '@nestjs/common';
+import { Response } from 'express';
 import { LabService } from './lab.service';
+import { LabReportPdfService } from './lab-report-pdf.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
@@ -16,11 +19,17 @@ import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { UserRole } from '@prisma/client';
 import { CreateLabOrderDto } from './dto/create-lab-order.dto';
 import { UpdateLabOrderDto } from './dto/update-lab-order.dto';
+import { AmendLabOrderDto } from './dto/amend-lab-order.dto';
+import { UpdateCriticalLimitsDto } from './dto/update-critical-limits.dto';
+import { CreateLabPanelDto } from './dto/create-lab-panel.dto';
 
 @Controller('lab')
 @UseGuards(JwtAuthGuard, RolesGuard)
 export class LabController {
-  constructor(private readonly labService: LabService) { }
+  constructor(
+    private readonly labService: LabService,
+    private readonly labReportPdfService: LabReportPdfService,
+  ) { }
 
   /**
    * Get all available lab tests
@@ -50,7 +59,35 @@ export class LabController {
   }
 
   /**
-   * ⭐ Create lab order for patient
+   * Get active lab panels / profiles
+   * GET /api/lab/panels
+   */
+  @Get('panels')
+  async getAllPanels() {
+    return this.labService.getAllPanels();
+  }
+
+  /**
+   * Get lab panel by ID
+   * GET /api/lab/panels/:id
+   */
+  @Get('panels/:id')
+  async getPanel(@Param('id') panelId: string) {
+    return this.labService.getPanelById(panelId);
+  }
+
+  /**
+   * Create lab panel (admin only)
+   * POST /api/lab/panels
+   */
+  @Post('panels')
+  @Roles(UserRole.ADMIN)
+  async createLabPanel(@Body() dto: CreateLabPanelDto) {
+    return this.labService.createLabPanel(dto);
+  }
+
+  /**
+   * ⭐ Create lab order for patient (tests and/or panels)
    * POST /api/lab/orders
    */
   @Post('orders')
@@ -67,6 +104,7 @@ export class LabController {
    * GET /api/lab/orders/:id
    */
   @Get('orders/:id')
+  @Roles(UserRole.LAB_TECH, UserRole.PATHOLOGIST, UserRole.ADMIN)
   async getLabOrder(@Param('id') orderId: string) {
     return this.labService.getLabOrderById(orderId);
   }
@@ -80,6 +118,37 @@ export class LabController {
     return this.labService.getPatientLabOrders(patientId);
   }
 
+  /**
+   * Get all lab orders raised during a visit
+   * GET /api/lab/orders/visit/:visitId
+   */
+  @Get('orders/visit/:visitId')
+  async getVisitLabOrders(@Param('visitId') visitId: string) {
+    return this.labService.getVisitLabOrders(visitId);
+  }
+
+  /**
+   * Get visit lab report, results grouped under panel headings
+   * GET /api/lab/orders/visit/:visitId/report
+   */
+  @Get('orders/visit/:visitId/report')
+  async getVisitLabReport(@Param('visitId') visitId: string) {
+    return this.labService.getVisitLabReport(visitId);
+  }
+
+  /**
+   * ⭐ Download printable lab report with previous values
+   * GET /api/lab/orders/visit/:visitId/report/pdf
+   */
+  @Get('orders/visit/:visitId/report/pdf')
+  @Roles(UserRole.DOCTOR, UserRole.LAB_TECH, UserRole.PATHOLOGIST, UserRole.RECEPTIONIST, UserRole.ADMIN)
+  async downloadVisitLabReport(
+    @Param('visitId') visitId: string,
+    @Res() res: Response,
+  ) {
+    return this.labReportPdfService.generateLabReportPDF(visitId, res);
+  }
+
   /**
    * Get pending lab orders (for lab technicians)
    * GET /api/lab/orders/queue/pending
@@ -101,18 +170,28 @@ export class LabController {
   }
 
   /**
-   * Get completed lab orders for review
+   * Get entered results awaiting verification
+   * GET /api/lab/orders/queue/verification
+   */
+  @Get('orders/queue/verification')
+  @Roles(UserRole.PATHOLOGIST, UserRole.ADMIN)
+  async getVerificationQueue() {
+    return this.labService.getVerificationQueue();
+  }
+
+  /**
+   * Get released lab orders for review
    * GET /api/lab/orders/queue/completed
    */
   @Get('orders/queue/completed')
-  @Roles(UserRole.DOCTOR, UserRole.LAB_TECH, UserRole.ADMIN)
+  @Roles(UserRole.DOCTOR, UserRole.LAB_TECH, UserRole.PATHOLOGIST, UserRole.ADMIN)
   async getCompletedOrders(@CurrentUser() user: any) {
     const doctorId = user.role === UserRole.DOCTOR ? user.id : undefined;
     return this.labService.getCompletedLabOrders(doctorId);
   }
 
   /**
-   * Update lab order (status, results)
+   * Update lab order (status, analyte results, remarks)
    * PATCH /api/lab/orders/:id
    */
   @Patch('orders/:id')
@@ -120,8 +199,58 @@ export class LabController {
   async updateLabOrder(
     @Param('id') orderId: string,
     @Body() updateDto: UpdateLabOrderDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.labService.updateLabOrder(orderId, updateDto, user.id);
+  }
+
+  /**
+   * ⭐ Verify entered results and release them (second user)
+   * POST /api/lab/orders/:id/verify
+   */
+  @Post('orders/:id/verify')
+  @Roles(UserRole.PATHOLOGIST)
+  async verifyLabOrder(
+    @Param('id') orderId: string,
+    @CurrentUser() user: any,
+  ) {
+    return this.labService.verifyLabOrder(orderId, user.id);
+  }
+
+  /**
+   * ⭐ Amend a released result (reason required, previous version kept)
+   * POST /api/lab/orders/:id/amend
+   */
+  @Post('orders/:id/amend')
+  @Roles(UserRole.PATHOLOGIST)
+  async amendLabOrder(
+    @Param('id') orderId: string,
+    @Body() amendDto: AmendLabOrderDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.labService.amendLabOrder(orderId, amendDto, user.id);
+  }
+
+  /**
+   * Get amendment history of a lab order
+   * GET /api/lab/orders/:id/amendments
+   */
+  @Get('orders/:id/amendments')
+  async getLabOrderAmendments(@Param('id') orderId: string) {
+    return this.labService.getLabOrderAmendments(orderId);
+  }
+
+  /**
+   * Configure critical limits of an analyte (admin only)
+   * PATCH /api/lab/analytes/:id/critical-limits
+   */
+  @Patch('analytes/:id/critical-limits')
+  @Roles(UserRole.ADMIN)
+  async updateCriticalLimits(
+    @Param('id') analyteId: string,
+    @Body() dto: UpdateCriticalLimitsDto,
   ) {
-    return this.labService.updateLabOrder(orderId, updateDto);
+    return this.labService.updateCriticalLimits(analyteId, dto);
   }
 
   /**
@@ -139,6 +268,8 @@ export class LabController {
       category: string;     // REQUIRED
       sampleType: string;   // REQUIRED
       tat: number;          // REQUIRED
+      gstRate?: number;     // Defaults to 0.18
+      hsnSacCode?: string;  // SAC code
     },
   ) {
     return this.labService.createLabTest(data);
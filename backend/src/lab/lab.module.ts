@@ -1,10 +1,28 @@
 import { Module } from '@nestjs/common';
 import { LabController } from './lab.controller';
+import { SpecimenController } from './specimen.controller';
+import { TatController } from './tat.controller';
+import { CriticalAlertController } from './critical-alert.controller';
 import { LabService } from './lab.service';
+import { SpecimenService } from './specimen.service';
+import { SpecimenLabelService } from './specimen-label.service';
+import { LabReportPdfService } from './lab-report-pdf.service';
+import { TatService } from './tat.service';
+import { CriticalAlertService } from './critical-alert.service';
+import { SequenceModule } from '../sequence/sequence.module';
+import { EventsModule } from '../events/events.module';
 
 @Module({
-  controllers: [LabController],
-  providers: [LabService],
+  imports: [SequenceModule, EventsModule],
+  controllers: [LabController, SpecimenController, TatController, CriticalAlertController],
+  providers: [
+    LabService,
+    SpecimenService,
+    SpecimenLabelService,
+    LabReportPdfService,
+    TatService,
+    CriticalAlertService,
+  ],
   exports: [LabService],
 })
 export class LabModule {}
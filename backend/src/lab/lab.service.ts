@@ -1,12 +1,71 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { QueueGateway } from '../events/queue.gateway';
+import { CriticalAlertService } from './critical-alert.service';
 import { CreateLabOrderDto } from './dto/create-lab-order.dto';
-import { UpdateLabOrderDto } from './dto/update-lab-order.dto';
-import { LabStatus } from '@prisma/client';
+import { UpdateLabOrderDto, LabResultEntryDto } from './dto/update-lab-order.dto';
+import { AmendLabOrderDto } from './dto/amend-lab-order.dto';
+import { CreateLabPanelDto } from './dto/create-lab-panel.dto';
+import { UpdateCriticalLimitsDto } from './dto/update-critical-limits.dto';
+import { LabStatus, LabPriority, ResultFlag, Prisma } from '@prisma/client';
+import { ResultFlagger } from './utils/result-flagger';
+import { groupReportSections } from './utils/report-sections';
+
+// Panel heading for an order, with the panel's test order for report grouping
+const PANEL_ORDER_INCLUDE = {
+  include: {
+    panel: {
+      select: {
+        id: true,
+        name: true,
+        tests: { select: { testId: true, displayOrder: true } },
+      },
+    },
+  },
+} satisfies Prisma.LabPanelOrderDefaultArgs;
+
+// What result entry needs: reference ranges to flag against, results already recorded
+const RESULT_ENTRY_INCLUDE = {
+  patient: true,
+  test: {
+    include: {
+      analytes: {
+        include: { referenceRanges: true },
+      },
+    },
+  },
+  results: true,
+} satisfies Prisma.LabOrderInclude;
+
+// Statuses results can be entered in: the sample is collected, nothing released yet
+const RESULT_ENTRY_STATUSES: LabStatus[] = [
+  LabStatus.COLLECTED,
+  LabStatus.IN_PROGRESS,
+  LabStatus.COMPLETED,
+];
+
+// Clinician-facing views only show results once a second user has released them
+const RELEASED_RESULTS = {
+  where: { labOrder: { status: LabStatus.RELEASED } },
+  include: { analyte: true },
+  orderBy: { analyte: { displayOrder: 'asc' } },
+} satisfies Prisma.LabOrder$resultsArgs;
 
 @Injectable()
 export class LabService {
-  constructor(private prisma: PrismaService) {}
+  private resultFlagger: ResultFlagger;
+
+  constructor(
+    private prisma: PrismaService,
+    private queueGateway: QueueGateway,
+    private criticalAlertService: CriticalAlertService,
+  ) {
+    this.resultFlagger = new ResultFlagger();
+  }
 
   /**
    * Get all available lab tests
@@ -52,20 +111,29 @@ export class LabService {
   }
 
   /**
-   * ⭐ Create lab order for patient
+   * ⭐ Create lab order for a visit
+   * Panels expand into one order per component test
    */
   async createLabOrder(createDto: CreateLabOrderDto, doctorId: string) {
-    const { patientId, testIds, clinicalNotes, urgency } = createDto;
+    const { visitId, testIds = [], panelIds = [], clinicalNotes, urgency } = createDto;
 
-    // Verify patient exists
-    const patient = await this.prisma.patient.findUnique({
-      where: { id: patientId },
+    if (testIds.length === 0 && panelIds.length === 0) {
+      throw new BadRequestException('Select at least one lab test or panel');
+    }
+
+    // Verify visit exists
+    const visit = await this.prisma.visit.findUnique({
+      where: { id: visitId },
+      include: { patient: true },
     });
 
-    if (!patient) {
-      throw new NotFoundException('Patient not found');
+    if (!visit) {
+      throw new NotFoundException('Visit not found');
     }
 
+    const patient = visit.patient;
+    const priority = urgency || LabPriority.ROUTINE;
+
     // Verify all tests exist
     const tests = await this.prisma.labTest.findMany({
       where: {
@@ -79,97 +147,485 @@ export class LabService {
       throw new NotFoundException('One or more lab tests not found');
     }
 
-    // Calculate total cost
-    const totalCost = tests.reduce((sum, test) => sum + test.price, 0);
+    // Verify all panels exist
+    const panels = await this.prisma.labPanel.findMany({
+      where: {
+        id: { in: panelIds },
+        isActive: true,
+      },
+      include: {
+        tests: {
+          include: { test: true },
+          orderBy: { displayOrder: 'asc' },
+        },
+      },
+    });
+
+    if (panels.length !== panelIds.length) {
+      throw new NotFoundException('One or more lab panels not found');
+    }
+
+    // Each test once per request, either on its own or within one panel
+    const orderedAs = new Map<string, string>();
+    const claim = (test: { id: string; name: string }, source: string) => {
+      if (orderedAs.has(test.id)) {
+        throw new BadRequestException(
+          `${test.name} is ordered twice (${orderedAs.get(test.id)} and ${source})`,
+        );
+      }
+      orderedAs.set(test.id, source);
+    };
+    tests.forEach((test) => claim(test, 'as a single test'));
+    panels.forEach((panel) => panel.tests.forEach(({ test }) => claim(test, panel.name)));
+
+    // Calculate total cost (panels at their package price)
+    const totalCost =
+      tests.reduce((sum, test) => sum + test.price, 0) +
+      panels.reduce((sum, panel) => sum + panel.price, 0);
+
+    // Create lab orders (one for each test, panel components linked to their panel order)
+    const orders = await this.prisma.$transaction(async (tx) => {
+      const created = [];
 
-    // Create lab orders (one for each test )
-    const orders = await Promise.all(
-      testIds.map((testId) =>
-        this.prisma.labOrder.create({
-          data: {
-            patientId,
-            testId,
+      for (const test of tests) {
+        created.push(
+          await this.createOrder(tx, {
+            visitId,
+            patientId: patient.id,
+            testId: test.id,
             doctorId,
-            status: LabStatus.PENDING,
+            priority,
             clinicalNotes,
-          },
-          include: {
-            test: true,
-            doctor: {
-              select: {
-                id: true,
-                name: true,
-                specialty: true,
-              },
-            },
-            patient: {
-              select: {
-                id: true,
-                name: true,
-                token: true,
-              },
-            },
-          },
-        }),
-      ),
-    );
+          }),
+        );
+      }
+
+      for (const panel of panels) {
+        const panelOrder = await tx.labPanelOrder.create({
+          data: { visitId, panelId: panel.id, doctorId },
+        });
+
+        for (const { test } of panel.tests) {
+          created.push(
+            await this.createOrder(tx, {
+              visitId,
+              patientId: patient.id,
+              testId: test.id,
+              doctorId,
+              priority,
+              clinicalNotes,
+              panelOrderId: panelOrder.id,
+            }),
+          );
+        }
+      }
+
+      return created;
+    });
 
     console.log(
-      `✅ Created ${orders.length} lab orders for patient ${patient.name}`,
+      `✅ Created ${orders.length} ${priority} lab orders for patient ${patient.name}${panels.length ? ` (${panels.length} panel(s))` : ''}`,
     );
 
+    // STAT orders cannot wait for the next queue refresh
+    if (priority === LabPriority.STAT) {
+      const names = [...tests.map((test) => test.name), ...panels.map((panel) => panel.name)];
+
+      this.queueGateway.broadcastToQueue('lab', {
+        type: 'lab_stat_order',
+        message: `STAT: ${names.join(', ')} for ${patient.name} (token #${visit.token})`,
+        data: {
+          visitId,
+          patientId: patient.id,
+          orderIds: orders.map((order) => order.id),
+        },
+      });
+    }
+
     return {
       orders,
       totalCost,
       summary: {
-        patientId,
+        visitId,
+        patientId: patient.id,
         patientName: patient.name,
         testCount: orders.length,
+        panels: panels.map((panel) => panel.name),
         totalCost,
-        urgency: urgency || 'ROUTINE',
+        urgency: priority,
       },
     };
   }
 
+  private createOrder(
+    tx: Prisma.TransactionClient,
+    data: Prisma.LabOrderUncheckedCreateInput,
+  ) {
+    return tx.labOrder.create({
+      data: { ...data, status: LabStatus.PENDING },
+      include: {
+        test: true,
+        panelOrder: PANEL_ORDER_INCLUDE,
+        doctor: {
+          select: {
+            id: true,
+            name: true,
+            specialty: true,
+          },
+        },
+        patient: {
+          select: {
+            id: true,
+            uhid: true,
+            name: true,
+          },
+        },
+        visit: {
+          select: {
+            id: true,
+            token: true,
+          },
+        },
+      },
+    });
+  }
+
   /**
-   * Update lab order (results, status)
+   * ⭐ Update lab order (status, structured results, remarks)
+   * Each result is flagged against the reference range for the patient's age/gender
+   *
+   * COMPLETED means entered and awaiting verification; released results
+   * change only by amendment
    */
-  async updateLabOrder(orderId: string, updateDto: UpdateLabOrderDto) {
+  async updateLabOrder(
+    orderId: string,
+    updateDto: UpdateLabOrderDto,
+    performedById: string,
+  ) {
     const order = await this.prisma.labOrder.findUnique({
       where: { id: orderId },
+      include: RESULT_ENTRY_INCLUDE,
     });
 
     if (!order) {
       throw new NotFoundException('Lab order not found');
     }
 
-    const updated = await this.prisma.labOrder.update({
+    // Collection issues a sample ID, so it goes through the specimen worklist
+    if (updateDto.status === LabStatus.COLLECTED) {
+      throw new BadRequestException(
+        'Collect samples from the specimen worklist (POST /api/lab/specimens/collect)',
+      );
+    }
+
+    if (updateDto.status === LabStatus.RELEASED) {
+      throw new BadRequestException(
+        `Results are released by verification (POST /api/lab/orders/${orderId}/verify)`,
+      );
+    }
+
+    if (order.status === LabStatus.RELEASED) {
+      throw new BadRequestException(
+        `Released results can only be changed by amendment (POST /api/lab/orders/${orderId}/amend)`,
+      );
+    }
+
+    const results = this.buildResults(order, updateDto.results || []);
+    const entersResults = !!updateDto.status || results.length > 0;
+
+    // Work on an order starts from its collected sample (sample ID, TAT collection time)
+    if (entersResults && order.status === LabStatus.PENDING) {
+      throw new BadRequestException(
+        'Collect the sample from the specimen worklist before entering results',
+      );
+    }
+
+    if (updateDto.status === LabStatus.COMPLETED) {
+      const recorded = new Set([
+        ...results.map((r) => r.analyteId),
+        ...order.results.map((r) => r.analyteId),
+      ]);
+      const missing = order.test.analytes.filter((a) => !recorded.has(a.id));
+
+      if (missing.length > 0) {
+        throw new BadRequestException(
+          `Results missing for: ${missing.map((a) => a.name).join(', ')}`,
+        );
+      }
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      // Guarded on status so an edit racing verification (or collection) can't slip through
+      const { count } = await tx.labOrder.updateMany({
+        where: {
+          id: orderId,
+          status: entersResults
+            ? { in: RESULT_ENTRY_STATUSES }
+            : { notIn: [LabStatus.RELEASED] },
+        },
+        data: {
+          status: updateDto.status,
+          remarks: updateDto.remarks,
+          // The performer is whoever entered results; remarks alone don't change it
+          ...(results.length > 0 && { performedById }),
+          completedAt:
+            updateDto.status === LabStatus.COMPLETED ? new Date() : undefined,
+        },
+      });
+
+      if (count === 0) {
+        throw new BadRequestException(
+          'Lab order was released or changed while saving, please reload ' +
+            `(released results change by amendment: POST /api/lab/orders/${orderId}/amend)`,
+        );
+      }
+
+      for (const result of results) {
+        await tx.labResult.upsert({
+          where: {
+            labOrderId_analyteId: {
+              labOrderId: orderId,
+              analyteId: result.analyteId,
+            },
+          },
+          create: { labOrderId: orderId, ...result },
+          update: result,
+        });
+      }
+    });
+
+    // Critical values go to the ordering doctor at entry, ahead of verification
+    if (results.some((r) => this.resultFlagger.isCritical(r.flag))) {
+      await this.criticalAlertService.raiseAlerts(orderId);
+    }
+
+    return this.getLabOrderById(orderId);
+  }
+
+  /**
+   * ⭐ Verify entered results and release them to the ordering doctor
+   *
+   * The verifier must not be the technician who entered the results
+   */
+  async verifyLabOrder(orderId: string, verifiedById: string) {
+    const order = await this.prisma.labOrder.findUnique({
       where: { id: orderId },
+      include: {
+        test: { select: { name: true } },
+        patient: { select: { name: true } },
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Lab order not found');
+    }
+
+    if (order.status !== LabStatus.COMPLETED) {
+      throw new BadRequestException(
+        `Only completed results can be verified (order is ${order.status})`,
+      );
+    }
+
+    if (order.performedById === verifiedById) {
+      throw new BadRequestException(
+        'Results must be verified by someone other than the technician who entered them',
+      );
+    }
+
+    // Guarded on status and performer so a concurrent edit or second verifier can't slip through
+    const now = new Date();
+    const { count } = await this.prisma.labOrder.updateMany({
+      where: {
+        id: orderId,
+        status: LabStatus.COMPLETED,
+        NOT: { performedById: verifiedById },
+      },
       data: {
-        ...updateDto,
-        completedAt:
-          updateDto.status === LabStatus.COMPLETED ? new Date() : undefined,
+        status: LabStatus.RELEASED,
+        verifiedById,
+        verifiedAt: now,
+        releasedAt: now,
       },
-      include: {
-        test: true,
-        doctor: {
-          select: {
-            id: true,
-            name: true,
-            specialty: true,
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('Lab order changed while verifying, please reload');
+    }
+
+    this.queueGateway.notifyUser(order.doctorId, {
+      type: 'lab_results_released',
+      message: `${order.test.name} results for ${order.patient.name} are ready`,
+      data: { labOrderId: orderId, visitId: order.visitId },
+    });
+
+    console.log(`✅ ${order.test.name} for ${order.patient.name} verified and released`);
+
+    return this.getLabOrderById(orderId);
+  }
+
+  /**
+   * ⭐ Amend a released result
+   *
+   * Snapshots the current values as the superseded version, applies the
+   * corrections and bumps the version; the amender authorises the new version
+   */
+  async amendLabOrder(orderId: string, amendDto: AmendLabOrderDto, amendedById: string) {
+    const order = await this.prisma.labOrder.findUnique({
+      where: { id: orderId },
+      include: RESULT_ENTRY_INCLUDE,
+    });
+
+    if (!order) {
+      throw new NotFoundException('Lab order not found');
+    }
+
+    if (order.status !== LabStatus.RELEASED) {
+      throw new BadRequestException(
+        'Only released results are amended; correct unreleased results directly',
+      );
+    }
+
+    const results = this.buildResults(order, amendDto.results);
+    const version = order.version + 1;
+    const now = new Date();
+
+    await this.prisma.$transaction(async (tx) => {
+      // Version check: two amendments of the same version can't both apply
+      const { count } = await tx.labOrder.updateMany({
+        where: { id: orderId, version: order.version },
+        data: {
+          version,
+          remarks: amendDto.remarks ?? order.remarks,
+          verifiedById: amendedById,
+          verifiedAt: now,
+          releasedAt: now,
+        },
+      });
+
+      if (count === 0) {
+        throw new BadRequestException('Lab order was amended by another user, please reload');
+      }
+
+      await tx.labOrderAmendment.create({
+        data: {
+          labOrderId: orderId,
+          version,
+          reason: amendDto.reason,
+          previousRemarks: order.remarks,
+          amendedById,
+          amendedAt: now,
+          previousResults: {
+            create: order.results.map((result) => ({
+              analyteId: result.analyteId,
+              value: result.value,
+              textValue: result.textValue,
+              unit: result.unit,
+              referenceLow: result.referenceLow,
+              referenceHigh: result.referenceHigh,
+              flag: result.flag,
+            })),
           },
         },
-        patient: {
-          select: {
-            id: true,
-            name: true,
-            token: true,
+      });
+
+      for (const result of results) {
+        await tx.labResult.upsert({
+          where: {
+            labOrderId_analyteId: {
+              labOrderId: orderId,
+              analyteId: result.analyteId,
+            },
           },
+          create: { labOrderId: orderId, ...result },
+          update: result,
+        });
+      }
+    });
+
+    if (results.some((r) => this.resultFlagger.isCritical(r.flag))) {
+      await this.criticalAlertService.raiseAlerts(orderId);
+    }
+
+    this.queueGateway.notifyUser(order.doctorId, {
+      type: 'lab_results_amended',
+      message: `${order.test.name} results for ${order.patient.name} amended: ${amendDto.reason}`,
+      data: { labOrderId: orderId, visitId: order.visitId, version },
+    });
+
+    console.log(`⚠️ ${order.test.name} for ${order.patient.name} amended to version ${version}`);
+
+    return this.getLabOrderById(orderId);
+  }
+
+  /**
+   * Amendment history of a lab order, oldest first
+   */
+  async getLabOrderAmendments(orderId: string) {
+    const order = await this.prisma.labOrder.findUnique({
+      where: { id: orderId },
+      select: { id: true, version: true },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Lab order not found');
+    }
+
+    const amendments = await this.prisma.labOrderAmendment.findMany({
+      where: { labOrderId: orderId },
+      include: {
+        amendedBy: { select: { id: true, name: true } },
+        previousResults: {
+          include: { analyte: true },
+          orderBy: { analyte: { displayOrder: 'asc' } },
         },
       },
+      orderBy: { version: 'asc' },
     });
 
-    return updated;
+    return { labOrderId: orderId, currentVersion: order.version, amendments };
+  }
+
+  /**
+   * Map entered values to results flagged against the patient's reference range
+   */
+  private buildResults(
+    order: Prisma.LabOrderGetPayload<{ include: typeof RESULT_ENTRY_INCLUDE }>,
+    entries: LabResultEntryDto[],
+  ) {
+    return entries.map((entry) => {
+      const analyte = order.test.analytes.find((a) => a.id === entry.analyteId);
+
+      if (!analyte) {
+        throw new BadRequestException(
+          `Analyte ${entry.analyteId} does not belong to ${order.test.name}`,
+        );
+      }
+
+      if (entry.value === undefined && !entry.textValue) {
+        throw new BadRequestException(`No result entered for ${analyte.name}`);
+      }
+
+      const range = this.resultFlagger.selectRange(
+        analyte.referenceRanges,
+        order.patient.age,
+        order.patient.gender,
+      );
+
+      return {
+        analyteId: analyte.id,
+        value: entry.value ?? null,
+        textValue: entry.textValue ?? null,
+        unit: analyte.unit,
+        referenceLow: range?.low ?? null,
+        referenceHigh: range?.high ?? null,
+        criticalLow: range?.criticalLow ?? null,
+        criticalHigh: range?.criticalHigh ?? null,
+        flag:
+          entry.value !== undefined
+            ? this.resultFlagger.flagValue(entry.value, range)
+            : ResultFlag.NORMAL,
+      };
+    });
   }
 
   /**
@@ -179,7 +635,31 @@ export class LabService {
     const order = await this.prisma.labOrder.findUnique({
       where: { id: orderId },
       include: {
-        test: true,
+        test: {
+          include: {
+            analytes: {
+              include: { referenceRanges: true },
+              orderBy: { displayOrder: 'asc' },
+            },
+          },
+        },
+        panelOrder: PANEL_ORDER_INCLUDE,
+        results: {
+          include: { analyte: true },
+          orderBy: { analyte: { displayOrder: 'asc' } },
+        },
+        performedBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        verifiedBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
         doctor: {
           select: {
             id: true,
@@ -190,7 +670,15 @@ export class LabService {
         patient: {
           select: {
             id: true,
+            uhid: true,
             name: true,
+            age: true,
+            gender: true,
+          },
+        },
+        visit: {
+          select: {
+            id: true,
             token: true,
           },
         },
@@ -212,6 +700,44 @@ export class LabService {
       where: { patientId },
       include: {
         test: true,
+        panelOrder: PANEL_ORDER_INCLUDE,
+        results: RELEASED_RESULTS,
+        verifiedBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        doctor: {
+          select: {
+            id: true,
+            name: true,
+            specialty: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+  }
+
+  /**
+   * Get lab orders raised during a visit
+   */
+  async getVisitLabOrders(visitId: string) {
+    return this.prisma.labOrder.findMany({
+      where: { visitId },
+      include: {
+        test: true,
+        panelOrder: PANEL_ORDER_INCLUDE,
+        results: RELEASED_RESULTS,
+        verifiedBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
         doctor: {
           select: {
             id: true,
@@ -226,6 +752,18 @@ export class LabService {
     });
   }
 
+  /**
+   * ⭐ Visit lab report: results grouped under panel headings
+   */
+  async getVisitLabReport(visitId: string) {
+    const orders = await this.getVisitLabOrders(visitId);
+
+    return {
+      visitId,
+      sections: groupReportSections(orders),
+    };
+  }
+
   /**
    * Get pending lab orders (for lab technicians)
    */
@@ -239,7 +777,13 @@ export class LabService {
         patient: {
           select: {
             id: true,
+            uhid: true,
             name: true,
+          },
+        },
+        visit: {
+          select: {
+            id: true,
             token: true,
           },
         },
@@ -251,9 +795,8 @@ export class LabService {
           },
         },
       },
-      orderBy: {
-        createdAt: 'asc', // FIFO
-      },
+      // STAT → URGENT → ROUTINE, FIFO within a priority
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
     });
   }
 
@@ -270,38 +813,95 @@ export class LabService {
         patient: {
           select: {
             id: true,
+            uhid: true,
             name: true,
+          },
+        },
+        visit: {
+          select: {
+            id: true,
             token: true,
           },
         },
       },
-      orderBy: {
-        createdAt: 'asc',
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Get entered results awaiting verification (for pathologists)
+   */
+  async getVerificationQueue() {
+    return this.prisma.labOrder.findMany({
+      where: {
+        status: LabStatus.COMPLETED,
       },
+      include: {
+        test: true,
+        panelOrder: PANEL_ORDER_INCLUDE,
+        results: {
+          include: { analyte: true },
+          orderBy: { analyte: { displayOrder: 'asc' } },
+        },
+        performedBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        patient: {
+          select: {
+            id: true,
+            uhid: true,
+            name: true,
+            age: true,
+            gender: true,
+          },
+        },
+        visit: {
+          select: {
+            id: true,
+            token: true,
+          },
+        },
+      },
+      // STAT → URGENT → ROUTINE, oldest entry first
+      orderBy: [{ priority: 'asc' }, { completedAt: 'asc' }],
     });
   }
 
   /**
-   * Get completed lab orders for doctor review
+   * Get released lab orders for doctor review
    */
   async getCompletedLabOrders(doctorId?: string) {
     const where = doctorId
       ? {
-          status: LabStatus.COMPLETED,
+          status: LabStatus.RELEASED,
           doctorId,
         }
       : {
-          status: LabStatus.COMPLETED,
+          status: LabStatus.RELEASED,
         };
 
     return this.prisma.labOrder.findMany({
       where,
       include: {
         test: true,
+        panelOrder: PANEL_ORDER_INCLUDE,
+        results: {
+          include: { analyte: true },
+          orderBy: { analyte: { displayOrder: 'asc' } },
+        },
         patient: {
           select: {
             id: true,
+            uhid: true,
             name: true,
+          },
+        },
+        visit: {
+          select: {
+            id: true,
             token: true,
           },
         },
@@ -314,8 +914,142 @@ export class LabService {
         },
       },
       orderBy: {
-        completedAt: 'desc',
+        releasedAt: 'desc',
+      },
+    });
+  }
+
+  /**
+   * Get active lab panels with their component tests
+   */
+  async getAllPanels() {
+    return this.prisma.labPanel.findMany({
+      where: { isActive: true },
+      include: {
+        tests: {
+          include: { test: true },
+          orderBy: { displayOrder: 'asc' },
+        },
       },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /**
+   * Get lab panel by ID
+   */
+  async getPanelById(panelId: string) {
+    const panel = await this.prisma.labPanel.findUnique({
+      where: { id: panelId },
+      include: {
+        tests: {
+          include: { test: true },
+          orderBy: { displayOrder: 'asc' },
+        },
+      },
+    });
+
+    if (!panel) {
+      throw new NotFoundException('Lab panel not found');
+    }
+
+    return panel;
+  }
+
+  /**
+   * Create lab panel (admin only)
+   * Component tests keep the order given, which is the report order
+   */
+  async createLabPanel(dto: CreateLabPanelDto) {
+    const { testIds, ...panel } = dto;
+
+    if (new Set(testIds).size !== testIds.length) {
+      throw new BadRequestException('A test can only appear once in a panel');
+    }
+
+    const tests = await this.prisma.labTest.findMany({
+      where: { id: { in: testIds } },
+    });
+
+    if (tests.length !== testIds.length) {
+      throw new NotFoundException('One or more lab tests not found');
+    }
+
+    const created = await this.prisma.labPanel.create({
+      data: {
+        ...panel,
+        tests: {
+          create: testIds.map((testId, displayOrder) => ({ testId, displayOrder })),
+        },
+      },
+    });
+
+    const separatePrice = tests.reduce((sum, test) => sum + test.price, 0);
+    console.log(
+      `✅ Created lab panel ${created.name}: ${tests.length} tests at ₹${created.price} (₹${separatePrice} separately)`,
+    );
+
+    return this.getPanelById(created.id);
+  }
+
+  /**
+   * ⭐ Configure an analyte's critical limits (admin only)
+   * Critical limits must sit outside the normal range they belong to
+   */
+  async updateCriticalLimits(analyteId: string, dto: UpdateCriticalLimitsDto) {
+    const analyte = await this.prisma.labAnalyte.findUnique({
+      where: { id: analyteId },
+      include: { referenceRanges: true },
+    });
+
+    if (!analyte) {
+      throw new NotFoundException('Lab analyte not found');
+    }
+
+    const ranges = dto.rangeId
+      ? analyte.referenceRanges.filter((range) => range.id === dto.rangeId)
+      : analyte.referenceRanges;
+
+    if (ranges.length === 0) {
+      throw new BadRequestException(
+        dto.rangeId
+          ? `Reference range ${dto.rangeId} does not belong to ${analyte.name}`
+          : `${analyte.name} has no reference ranges to set critical limits on`,
+      );
+    }
+
+    for (const range of ranges) {
+      const criticalLow = dto.criticalLow !== undefined ? dto.criticalLow : range.criticalLow;
+      const criticalHigh = dto.criticalHigh !== undefined ? dto.criticalHigh : range.criticalHigh;
+
+      if (criticalLow != null && range.low != null && criticalLow > range.low) {
+        throw new BadRequestException(
+          `Critical low ${criticalLow} is inside the normal range of ${analyte.name} (low ${range.low})`,
+        );
+      }
+
+      if (criticalHigh != null && range.high != null && criticalHigh < range.high) {
+        throw new BadRequestException(
+          `Critical high ${criticalHigh} is inside the normal range of ${analyte.name} (high ${range.high})`,
+        );
+      }
+    }
+
+    await this.prisma.labReferenceRange.updateMany({
+      where: { id: { in: ranges.map((range) => range.id) } },
+      data: {
+        criticalLow: dto.criticalLow,
+        criticalHigh: dto.criticalHigh,
+      },
+    });
+
+    console.log(
+      `✅ Critical limits for ${analyte.name} updated on ${ranges.length} range(s)`,
+    );
+
+    return this.prisma.labAnalyte.findUnique({
+      where: { id: analyteId },
+      include: { referenceRanges: true },
     });
   }
 
@@ -330,6 +1064,8 @@ async createLabTest(data: {
   category: string;
   sampleType: string;
   tat: number; // turnaround time in minutes
+  gstRate?: number; // defaults to 18%
+  hsnSacCode?: string;
 }) {
   return this.prisma.labTest.create({
     data,
@@ -0,0 +1,129 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Res,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { UserRole } from '@prisma/client';
+import { SpecimenService } from './specimen.service';
+import { SpecimenLabelService } from './specimen-label.service';
+import { CollectSpecimenDto } from './dto/collect-specimen.dto';
+import { RejectSpecimenDto } from './dto/reject-specimen.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+/**
+ * SpecimenController
+ *
+ * Endpoints:
+ * - GET /api/lab/specimens/worklist - Pending draws grouped by patient and sample type
+ * - POST /api/lab/specimens/collect - Collect specimen, issue sample ID
+ * - GET /api/lab/specimens/labels?sampleIds=a,b - Barcode labels PDF
+ * - GET /api/lab/specimens/in-transit - Collected, not yet received
+ * - GET /api/lab/specimens/:sampleId - Look up by barcode
+ * - POST /api/lab/specimens/:sampleId/receive - Scan in at the bench (LAB_TECH)
+ * - POST /api/lab/specimens/:sampleId/reject - Reject, request recollection (LAB_TECH)
+ */
+@Controller('lab/specimens')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class SpecimenController {
+  constructor(
+    private readonly specimenService: SpecimenService,
+    private readonly specimenLabelService: SpecimenLabelService,
+  ) {}
+
+  /**
+   * ⭐ Phlebotomy worklist
+   * GET /api/lab/specimens/worklist
+   */
+  @Get('worklist')
+  @Roles(UserRole.LAB_TECH, UserRole.NURSE, UserRole.ADMIN)
+  async getWorklist() {
+    return this.specimenService.getCollectionWorklist();
+  }
+
+  /**
+   * ⭐ Collect specimen for a patient's pending orders of one sample type
+   * POST /api/lab/specimens/collect
+   *
+   * Body: { "patientId": "...", "sampleType": "Blood" }
+   */
+  @Post('collect')
+  @Roles(UserRole.LAB_TECH, UserRole.NURSE, UserRole.ADMIN)
+  async collect(@Body() dto: CollectSpecimenDto, @CurrentUser() user: any) {
+    return this.specimenService.collectSpecimen(dto, user.id);
+  }
+
+  /**
+   * Print barcode labels
+   * GET /api/lab/specimens/labels?sampleIds=2407090001,2407090002
+   */
+  @Get('labels')
+  @Roles(UserRole.LAB_TECH, UserRole.NURSE, UserRole.ADMIN)
+  async printLabels(@Query('sampleIds') sampleIds: string, @Res() res: Response) {
+    const ids = (sampleIds || '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean);
+
+    if (ids.length === 0) {
+      throw new BadRequestException('sampleIds is required');
+    }
+
+    return this.specimenLabelService.generateLabelsPDF(ids, res);
+  }
+
+  /**
+   * Specimens awaiting receipt at the bench
+   * GET /api/lab/specimens/in-transit
+   */
+  @Get('in-transit')
+  @Roles(UserRole.LAB_TECH, UserRole.ADMIN)
+  async getInTransit() {
+    return this.specimenService.getInTransit();
+  }
+
+  /**
+   * Look up specimen by barcode
+   * GET /api/lab/specimens/:sampleId
+   */
+  @Get(':sampleId')
+  @Roles(UserRole.LAB_TECH, UserRole.NURSE, UserRole.DOCTOR, UserRole.ADMIN)
+  async getSpecimen(@Param('sampleId') sampleId: string) {
+    return this.specimenService.getSpecimen(sampleId);
+  }
+
+  /**
+   * ⭐ Scan-to-receive
+   * POST /api/lab/specimens/:sampleId/receive
+   */
+  @Post(':sampleId/receive')
+  @Roles(UserRole.LAB_TECH, UserRole.ADMIN)
+  async receive(@Param('sampleId') sampleId: string, @CurrentUser() user: any) {
+    return this.specimenService.receiveSpecimen(sampleId, user.id);
+  }
+
+  /**
+   * Reject specimen and request recollection
+   * POST /api/lab/specimens/:sampleId/reject
+   *
+   * Body: { "reason": "HEMOLYZED", "notes": "..." }
+   */
+  @Post(':sampleId/reject')
+  @Roles(UserRole.LAB_TECH, UserRole.ADMIN)
+  async reject(
+    @Param('sampleId') sampleId: string,
+    @Body() dto: RejectSpecimenDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.specimenService.rejectSpecimen(sampleId, dto, user.id);
+  }
+}
@@ -0,0 +1,346 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  LabStatus,
+  LabPriority,
+  SequenceName,
+  SpecimenStatus,
+  SpecimenRejectionReason,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SequenceService } from '../sequence/sequence.service';
+import { QueueGateway } from '../events/queue.gateway';
+import { CollectSpecimenDto } from './dto/collect-specimen.dto';
+import { RejectSpecimenDto } from './dto/reject-specimen.dto';
+
+// Tests performed on the patient, not on a drawn sample
+const NON_SPECIMEN_TYPES = ['Imaging'];
+
+/**
+ * One draw on the collection worklist
+ */
+export interface WorklistDraw {
+  sampleType: string;
+  priority: LabPriority; // Most urgent order in the draw
+  orders: Array<{
+    id: string;
+    testName: string;
+    priority: LabPriority;
+    visitToken: number;
+    orderedAt: Date;
+  }>;
+  recollection: boolean; // A previous specimen was rejected
+  rejectionReason: SpecimenRejectionReason | null;
+}
+
+export interface WorklistPatient {
+  patient: { id: string; uhid: string; name: string; age: number; gender: string };
+  priority: LabPriority;
+  waitingSince: Date;
+  draws: WorklistDraw[];
+}
+
+/**
+ * SpecimenService - Sample collection & receipt
+ *
+ * Specimen lifecycle:
+ * 1. Worklist: a patient's pending orders grouped by LabTest.sampleType
+ * 2. Collect: one specimen (barcode sample ID) covers the whole group
+ *    LabOrder PENDING → COLLECTED
+ * 3. Receive: scanned in at the bench, LabOrder COLLECTED → IN_PROGRESS
+ * 4. Reject: LabOrder back to PENDING, flagged for recollection on the worklist;
+ *    the ordering doctor is notified
+ */
+@Injectable()
+export class SpecimenService {
+  constructor(
+    private prisma: PrismaService,
+    private sequenceService: SequenceService,
+    private queueGateway: QueueGateway,
+  ) {}
+
+  /**
+   * ⭐ Phlebotomy worklist
+   * STAT patients first, then by how long they have waited
+   */
+  async getCollectionWorklist(): Promise<WorklistPatient[]> {
+    const orders = await this.prisma.labOrder.findMany({
+      where: {
+        status: LabStatus.PENDING,
+        test: { sampleType: { notIn: NON_SPECIMEN_TYPES } },
+      },
+      include: {
+        test: { select: { name: true, sampleType: true } },
+        patient: {
+          select: { id: true, uhid: true, name: true, age: true, gender: true },
+        },
+        visit: { select: { token: true } },
+        specimen: { select: { status: true, rejectionReason: true } },
+      },
+      // A patient's (and a draw's) first order is its most urgent
+      orderBy: [{ priority: 'asc' }, { orderedAt: 'asc' }],
+    });
+
+    const patients = new Map<string, WorklistPatient>();
+
+    for (const order of orders) {
+      let entry = patients.get(order.patientId);
+      if (!entry) {
+        entry = {
+          patient: order.patient,
+          priority: order.priority,
+          waitingSince: order.orderedAt,
+          draws: [],
+        };
+        patients.set(order.patientId, entry);
+      }
+
+      if (order.orderedAt < entry.waitingSince) {
+        entry.waitingSince = order.orderedAt;
+      }
+
+      let draw = entry.draws.find((d) => d.sampleType === order.test.sampleType);
+      if (!draw) {
+        draw = {
+          sampleType: order.test.sampleType,
+          priority: order.priority,
+          orders: [],
+          recollection: false,
+          rejectionReason: null,
+        };
+        entry.draws.push(draw);
+      }
+
+      draw.orders.push({
+        id: order.id,
+        testName: order.test.name,
+        priority: order.priority,
+        visitToken: order.visit.token,
+        orderedAt: order.orderedAt,
+      });
+
+      if (order.specimen?.status === SpecimenStatus.REJECTED) {
+        draw.recollection = true;
+        draw.rejectionReason = order.specimen.rejectionReason;
+      }
+    }
+
+    return Array.from(patients.values());
+  }
+
+  /**
+   * ⭐ Collect one specimen for a patient's pending orders of a sample type
+   * Issues the barcode sample ID from the SAMPLE number series
+   */
+  async collectSpecimen(dto: CollectSpecimenDto, collectedBy: string) {
+    const specimen = await this.prisma.$transaction(async (tx) => {
+      const orders = await tx.labOrder.findMany({
+        where: {
+          patientId: dto.patientId,
+          status: LabStatus.PENDING,
+          test: { sampleType: dto.sampleType },
+          ...(dto.orderIds && { id: { in: dto.orderIds } }),
+        },
+        include: {
+          specimen: { include: { replacedBy: { select: { id: true } } } },
+        },
+      });
+
+      if (dto.orderIds && orders.length !== dto.orderIds.length) {
+        throw new BadRequestException(
+          `All orders must be pending ${dto.sampleType} orders of this patient`,
+        );
+      }
+
+      if (orders.length === 0) {
+        throw new BadRequestException(
+          `No pending ${dto.sampleType} orders to collect for this patient`,
+        );
+      }
+
+      // Link the recollection to the specimen it replaces
+      const rejected = orders
+        .map((order) => order.specimen)
+        .filter(
+          (specimen): specimen is NonNullable<typeof specimen> =>
+            specimen?.status === SpecimenStatus.REJECTED && !specimen.replacedBy,
+        )
+        .sort((a, b) => b.rejectedAt!.getTime() - a.rejectedAt!.getTime())[0];
+
+      const sampleId = await this.sequenceService.next(SequenceName.SAMPLE, tx);
+      const collectedAt = new Date();
+
+      const created = await tx.specimen.create({
+        data: {
+          sampleId,
+          patientId: dto.patientId,
+          sampleType: dto.sampleType,
+          collectedBy,
+          collectedAt,
+          replacesId: rejected?.id,
+        },
+      });
+
+      // Guarded on status so a concurrent collection can't relabel the same orders
+      const { count } = await tx.labOrder.updateMany({
+        where: {
+          id: { in: orders.map((order) => order.id) },
+          status: LabStatus.PENDING,
+        },
+        data: {
+          specimenId: created.id,
+          status: LabStatus.COLLECTED,
+          collectedAt,
+        },
+      });
+
+      if (count !== orders.length) {
+        throw new BadRequestException(
+          'Some of these orders were collected by another user, please reload the worklist',
+        );
+      }
+
+      return created;
+    });
+
+    console.log(
+      `✅ Specimen ${specimen.sampleId} (${specimen.sampleType}) collected${specimen.replacesId ? ' (recollection)' : ''}`,
+    );
+
+    return this.getSpecimen(specimen.sampleId);
+  }
+
+  /**
+   * Look up a specimen by its barcode
+   */
+  async getSpecimen(sampleId: string) {
+    const specimen = await this.prisma.specimen.findUnique({
+      where: { sampleId },
+      include: {
+        patient: {
+          select: { id: true, uhid: true, name: true, age: true, gender: true },
+        },
+        orders: {
+          include: { test: { select: { id: true, name: true } } },
+        },
+        replaces: {
+          select: { sampleId: true, rejectionReason: true, rejectionNotes: true },
+        },
+      },
+    });
+
+    if (!specimen) {
+      throw new NotFoundException(`Specimen ${sampleId} not found`);
+    }
+
+    return specimen;
+  }
+
+  /**
+   * Specimens collected but not yet received at the bench
+   */
+  async getInTransit() {
+    return this.prisma.specimen.findMany({
+      where: { status: SpecimenStatus.COLLECTED },
+      include: {
+        patient: { select: { id: true, uhid: true, name: true } },
+        orders: { include: { test: { select: { name: true } } } },
+      },
+      orderBy: { collectedAt: 'asc' },
+    });
+  }
+
+  /**
+   * ⭐ Scan a specimen in at the bench
+   */
+  async receiveSpecimen(sampleId: string, receivedBy: string) {
+    const specimen = await this.getSpecimen(sampleId);
+
+    if (specimen.status !== SpecimenStatus.COLLECTED) {
+      throw new BadRequestException(
+        `Specimen ${sampleId} is already ${specimen.status.toLowerCase()}`,
+      );
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.specimen.update({
+        where: { id: specimen.id },
+        data: {
+          status: SpecimenStatus.RECEIVED,
+          receivedBy,
+          receivedAt: new Date(),
+        },
+      }),
+      this.prisma.labOrder.updateMany({
+        where: { specimenId: specimen.id, status: LabStatus.COLLECTED },
+        data: { status: LabStatus.IN_PROGRESS },
+      }),
+    ]);
+
+    console.log(`✅ Specimen ${sampleId} received`);
+
+    return this.getSpecimen(sampleId);
+  }
+
+  /**
+   * ⭐ Reject a specimen and request recollection
+   * Orders return to the collection worklist flagged as recollection
+   */
+  async rejectSpecimen(sampleId: string, dto: RejectSpecimenDto, rejectedBy: string) {
+    const specimen = await this.getSpecimen(sampleId);
+
+    if (specimen.status === SpecimenStatus.REJECTED) {
+      throw new BadRequestException(`Specimen ${sampleId} is already rejected`);
+    }
+
+    if (dto.reason === SpecimenRejectionReason.OTHER && !dto.notes) {
+      throw new BadRequestException('Notes are required when the reason is OTHER');
+    }
+
+    if (
+      specimen.orders.some(
+        (order) => order.status === LabStatus.COMPLETED || order.status === LabStatus.RELEASED,
+      )
+    ) {
+      throw new BadRequestException(
+        `Specimen ${sampleId} already has completed results and cannot be rejected`,
+      );
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.specimen.update({
+        where: { id: specimen.id },
+        data: {
+          status: SpecimenStatus.REJECTED,
+          rejectedBy,
+          rejectedAt: new Date(),
+          rejectionReason: dto.reason,
+          rejectionNotes: dto.notes,
+        },
+      }),
+      this.prisma.labOrder.updateMany({
+        where: { specimenId: specimen.id },
+        data: { status: LabStatus.PENDING, collectedAt: null },
+      }),
+    ]);
+
+    const reason = dto.reason.replace(/_/g, ' ').toLowerCase();
+    const tests = specimen.orders.map((order) => order.test.name).join(', ');
+    const doctorIds = [...new Set(specimen.orders.map((order) => order.doctorId))];
+
+    doctorIds.forEach((doctorId) =>
+      this.queueGateway.notifyUser(doctorId, {
+        type: 'specimen_recollection',
+        message: `${specimen.sampleType} sample for ${specimen.patient.name} rejected (${reason}) - recollection requested for ${tests}`,
+        data: { sampleId, patientId: specimen.patientId },
+      }),
+    );
+
+    console.log(`⚠️ Specimen ${sampleId} rejected (${reason}), recollection requested`);
+
+    return this.getSpecimen(sampleId);
+  }
+}
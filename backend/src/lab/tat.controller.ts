@@ -0,0 +1,58 @@
+import {
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { TatService } from './tat.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+/**
+ * TatController
+ *
+ * Endpoints:
+ * - GET /api/lab/tat/open - Open orders with due time, most urgent first
+ * - GET /api/lab/tat/compliance?from=2024-07-01&to=2024-07-31 - Compliance report
+ */
+@Controller('lab/tat')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.LAB_TECH, UserRole.ADMIN)
+export class TatController {
+  constructor(private readonly tatService: TatService) {}
+
+  /**
+   * ⭐ Open orders with TAT status
+   * GET /api/lab/tat/open
+   */
+  @Get('open')
+  async getOpenOrders() {
+    return this.tatService.getOpenOrders();
+  }
+
+  /**
+   * TAT compliance per test, category and lab technician
+   * GET /api/lab/tat/compliance?from=2024-07-01&to=2024-07-31
+   *
+   * Defaults to the last 30 days
+   */
+  @Get('compliance')
+  async getComplianceReport(
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    const end = to ? new Date(`${to}T23:59:59.999`) : new Date();
+    const start = from
+      ? new Date(`${from}T00:00:00`)
+      : new Date(end.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+      throw new BadRequestException('from/to must be valid dates (YYYY-MM-DD), from before to');
+    }
+
+    return this.tatService.getComplianceReport(start, end);
+  }
+}
@@ -0,0 +1,248 @@
+import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LabStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { QueueGateway } from '../events/queue.gateway';
+import { tatSnapshot, TatSnapshot } from './utils/tat';
+
+const OPEN_STATUSES = [LabStatus.PENDING, LabStatus.COLLECTED, LabStatus.IN_PROGRESS];
+
+/**
+ * TAT compliance for one test, category or technician
+ */
+export interface TatComplianceRow {
+  key: string;
+  label: string;
+  completed: number;
+  withinTat: number;
+  compliancePercent: number;
+  averageMinutes: number;
+  worstMinutes: number;
+}
+
+export interface TatComplianceReport {
+  from: Date;
+  to: Date;
+  overall: TatComplianceRow;
+  byTest: TatComplianceRow[];
+  byCategory: TatComplianceRow[];
+  byTechnician: TatComplianceRow[];
+}
+
+/**
+ * TatService - Lab turnaround time
+ *
+ * 1. Open orders with due time and TAT status (ON_TRACK / DUE_SOON / BREACHED)
+ * 2. Background check every LAB_TAT_CHECK_INTERVAL_MS: pushes one warning
+ *    (inside LAB_TAT_WARNING_MINUTES) and one breach alert per order
+ *    to the lab queue and the ordering doctor
+ * 3. Compliance reports per test, category and lab technician
+ */
+@Injectable()
+export class TatService implements OnModuleInit, OnModuleDestroy {
+  private timer: NodeJS.Timeout;
+  private readonly warningMinutes: number;
+
+  constructor(
+    private prisma: PrismaService,
+    private queueGateway: QueueGateway,
+    private config: ConfigService,
+  ) {
+    this.warningMinutes = Number(this.config.get('LAB_TAT_WARNING_MINUTES') || 15);
+  }
+
+  onModuleInit() {
+    const interval = Number(this.config.get('LAB_TAT_CHECK_INTERVAL_MS') || 60000);
+
+    this.timer = setInterval(() => {
+      this.checkBreaches().catch((err) =>
+        console.error('❌ Lab TAT check failed:', err),
+      );
+    }, interval);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * ⭐ Open orders with their TAT position, most urgent first
+   */
+  async getOpenOrders() {
+    const now = new Date();
+    const orders = await this.prisma.labOrder.findMany({
+      where: { status: { in: OPEN_STATUSES } },
+      include: {
+        test: { select: { id: true, name: true, category: true, tat: true } },
+        patient: { select: { id: true, uhid: true, name: true } },
+        visit: { select: { token: true } },
+      },
+    });
+
+    return orders
+      .map((order) => ({
+        ...order,
+        tat: this.snapshot(order, now),
+      }))
+      .sort((a, b) => a.tat.dueAt.getTime() - b.tat.dueAt.getTime());
+  }
+
+  /**
+   * ⭐ Push alerts for orders about to breach or breached
+   * Each alert is sent once per order
+   */
+  async checkBreaches(now: Date = new Date()) {
+    const orders = await this.prisma.labOrder.findMany({
+      where: {
+        status: { in: OPEN_STATUSES },
+        tatBreachSentAt: null,
+      },
+      include: {
+        test: { select: { name: true, tat: true } },
+        patient: { select: { name: true, uhid: true } },
+      },
+    });
+
+    for (const order of orders) {
+      const tat = this.snapshot(order, now);
+
+      if (tat.status === 'BREACHED') {
+        await this.prisma.labOrder.update({
+          where: { id: order.id },
+          data: { tatBreachSentAt: now },
+        });
+        this.alert(order, 'lab_tat_breach',
+          `TAT breached: ${order.test.name} for ${order.patient.name} (${order.patient.uhid}) was due ${this.formatTime(tat.dueAt)}`,
+          tat,
+        );
+      } else if (tat.status === 'DUE_SOON' && !order.tatWarningSentAt) {
+        await this.prisma.labOrder.update({
+          where: { id: order.id },
+          data: { tatWarningSentAt: now },
+        });
+        this.alert(order, 'lab_tat_warning',
+          `${order.test.name} for ${order.patient.name} (${order.patient.uhid}) due in ${tat.remainingMinutes} min`,
+          tat,
+        );
+      }
+    }
+  }
+
+  /**
+   * ⭐ TAT compliance for orders completed in a period
+   */
+  async getComplianceReport(from: Date, to: Date): Promise<TatComplianceReport> {
+    const orders = await this.prisma.labOrder.findMany({
+      where: {
+        status: { in: [LabStatus.COMPLETED, LabStatus.RELEASED] },
+        completedAt: { gte: from, lte: to },
+      },
+      include: {
+        test: { select: { id: true, name: true, category: true, tat: true } },
+        performedBy: { select: { id: true, name: true } },
+      },
+    });
+
+    const rows = orders.map((order) => ({
+      order,
+      tat: this.snapshot(order, to),
+    }));
+
+    return {
+      from,
+      to,
+      overall: this.summarize('ALL', 'All tests', rows),
+      byTest: this.groupBy(rows, (row) => [row.order.test.id, row.order.test.name]),
+      byCategory: this.groupBy(rows, (row) => [row.order.test.category, row.order.test.category]),
+      byTechnician: this.groupBy(rows, (row) =>
+        row.order.performedBy
+          ? [row.order.performedBy.id, row.order.performedBy.name]
+          : ['UNASSIGNED', 'Not recorded'],
+      ),
+    };
+  }
+
+  private snapshot(
+    order: {
+      orderedAt: Date;
+      collectedAt: Date | null;
+      completedAt: Date | null;
+      test: { tat: number };
+    },
+    now: Date,
+  ): TatSnapshot {
+    return tatSnapshot(
+      {
+        orderedAt: order.orderedAt,
+        collectedAt: order.collectedAt,
+        completedAt: order.completedAt,
+        tatMinutes: order.test.tat,
+      },
+      now,
+      this.warningMinutes,
+    );
+  }
+
+  private alert(
+    order: { id: string; doctorId: string; patientId: string },
+    type: string,
+    message: string,
+    tat: TatSnapshot,
+  ) {
+    const event = {
+      type,
+      message,
+      data: { orderId: order.id, patientId: order.patientId, dueAt: tat.dueAt },
+    };
+
+    this.queueGateway.broadcastToQueue('lab', event);
+    // Ordering doctor hears it on the doctor console channel
+    this.queueGateway.broadcastToDoctor(order.doctorId, event);
+
+    console.log(`⚠️ ${message}`);
+  }
+
+  private groupBy<T extends { tat: TatSnapshot }>(
+    rows: T[],
+    keyOf: (row: T) => [string, string],
+  ): TatComplianceRow[] {
+    const groups = new Map<string, { label: string; rows: T[] }>();
+
+    for (const row of rows) {
+      const [key, label] = keyOf(row);
+      const group = groups.get(key) || { label, rows: [] };
+      group.rows.push(row);
+      groups.set(key, group);
+    }
+
+    return Array.from(groups.entries())
+      .map(([key, group]) => this.summarize(key, group.label, group.rows))
+      .sort((a, b) => a.compliancePercent - b.compliancePercent);
+  }
+
+  private summarize(
+    key: string,
+    label: string,
+    rows: Array<{ tat: TatSnapshot }>,
+  ): TatComplianceRow {
+    const completed = rows.length;
+    const withinTat = rows.filter((row) => row.tat.status === 'MET').length;
+    const minutes = rows.map((row) => row.tat.elapsedMinutes);
+
+    return {
+      key,
+      label,
+      completed,
+      withinTat,
+      compliancePercent: completed ? Math.round((withinTat / completed) * 1000) / 10 : 100,
+      averageMinutes: completed
+        ? Math.round(minutes.reduce((sum, m) => sum + m, 0) / completed)
+        : 0,
+      worstMinutes: completed ? Math.max(...minutes) : 0,
+    };
+  }
+
+  private formatTime(date: Date): string {
+    return date.toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' });
+  }
+}
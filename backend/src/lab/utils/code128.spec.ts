@@ -0,0 +1,37 @@
+import { encodeCode128, code128Widths } from './code128';
+
+describe('Code128', () => {
+  it('should encode text in code set B with a weighted checksum', () => {
+    // 104 + 48×1 + 42×2 + 42×3 + 17×4 + 18×5 + 19×6 + 35×7 = 879 → 879 mod 103 = 55
+    expect(encodeCode128('PJJ123C')).toEqual([104, 48, 42, 42, 17, 18, 19, 35, 55, 106]);
+  });
+
+  it('should pack even-length numbers into code set C', () => {
+    // 2407090001 → 24 07 09 00 01
+    const codes = encodeCode128('2407090001');
+
+    expect(codes[0]).toBe(105);
+    expect(codes.slice(1, 6)).toEqual([24, 7, 9, 0, 1]);
+    expect(codes[6]).toBe((105 + 24 * 1 + 7 * 2 + 9 * 3 + 0 * 4 + 1 * 5) % 103);
+    expect(codes[7]).toBe(106);
+  });
+
+  it('should fall back to code set B for odd-length numbers', () => {
+    expect(encodeCode128('123')[0]).toBe(104);
+  });
+
+  it('should produce 11 modules per symbol plus a 13-module stop', () => {
+    const widths = code128Widths('PJJ123C');
+    const modules = widths.reduce((sum, width) => sum + width, 0);
+
+    // start + 7 data + checksum = 9 symbols
+    expect(modules).toBe(9 * 11 + 13);
+    // Starts and ends with a bar
+    expect(widths.length % 2).toBe(1);
+  });
+
+  it('should reject values that cannot be encoded', () => {
+    expect(() => encodeCode128('')).toThrow();
+    expect(() => encodeCode128('ñ')).toThrow();
+  });
+});
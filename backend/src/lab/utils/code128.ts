@@ -0,0 +1,70 @@
+/**
+ * Code128 barcode encoder for specimen labels
+ *
+ * 1. Numeric values of even length use code set C (two digits per symbol,
+ *    so a 10-digit sample ID stays short enough for a tube label)
+ * 2. Everything else uses code set B (printable ASCII 32-127)
+ * 3. Output is the bar/space module widths, starting with a bar,
+ *    ready to be drawn by the PDF renderer
+ */
+
+// Bar/space widths for symbol values 0-106 (106 = stop, includes the final bar)
+const PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+
+const START_B = 104;
+const START_C = 105;
+const STOP = 106;
+
+/**
+ * Symbol values for a barcode: start, data, checksum, stop
+ */
+export function encodeCode128(value: string): number[] {
+  if (!value) {
+    throw new Error('Cannot encode an empty barcode');
+  }
+
+  let codes: number[];
+
+  if (/^(\d\d)+$/.test(value)) {
+    codes = [START_C];
+    for (let i = 0; i < value.length; i += 2) {
+      codes.push(parseInt(value.slice(i, i + 2), 10));
+    }
+  } else {
+    codes = [START_B];
+    for (const char of value) {
+      const code = char.charCodeAt(0);
+      if (code < 32 || code > 127) {
+        throw new Error(`Character "${char}" cannot be encoded in Code128`);
+      }
+      codes.push(code - 32);
+    }
+  }
+
+  // Checksum: start value + sum of (position × value), mod 103
+  const checksum =
+    codes.reduce((sum, code, index) => sum + code * Math.max(index, 1), 0) % 103;
+
+  return [...codes, checksum, STOP];
+}
+
+/**
+ * Module widths (bar, space, bar, ...) for a barcode
+ */
+export function code128Widths(value: string): number[] {
+  return encodeCode128(value).flatMap((code) =>
+    PATTERNS[code].split('').map(Number),
+  );
+}
@@ -0,0 +1,53 @@
+import { groupReportSections, ReportableOrder } from './report-sections';
+
+describe('groupReportSections', () => {
+  const panel = {
+    name: 'Basic Health Checkup',
+    tests: [
+      { testId: 'cbc', displayOrder: 0 },
+      { testId: 'fbs', displayOrder: 1 },
+      { testId: 'lipid', displayOrder: 2 },
+    ],
+  };
+  const panelOrder = { id: 'po-1', panel };
+
+  const order = (
+    id: string,
+    testId: string,
+    minute: number,
+    inPanel: boolean,
+  ): ReportableOrder => ({
+    id,
+    orderedAt: new Date(2024, 6, 9, 10, minute),
+    test: { id: testId, name: testId.toUpperCase() },
+    panelOrder: inPanel ? panelOrder : null,
+  });
+
+  it('should put panel components under the panel heading in panel order', () => {
+    const sections = groupReportSections([
+      order('o3', 'lipid', 0, true),
+      order('o1', 'cbc', 0, true),
+      order('o2', 'fbs', 0, true),
+    ]);
+
+    expect(sections).toHaveLength(1);
+    expect(sections[0].heading).toBe('Basic Health Checkup');
+    expect(sections[0].panelOrderId).toBe('po-1');
+    expect(sections[0].orders.map((o) => o.id)).toEqual(['o1', 'o2', 'o3']);
+  });
+
+  it('should give standalone tests their own section in order raised', () => {
+    const sections = groupReportSections([
+      order('o9', 'tsh', 5, false),
+      order('o1', 'cbc', 1, true),
+      order('o0', 'urine', 0, false),
+    ]);
+
+    expect(sections.map((s) => s.heading)).toEqual([
+      'URINE',
+      'Basic Health Checkup',
+      'TSH',
+    ]);
+    expect(sections[0].panelOrderId).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Lab report sections
+ *
+ * Groups a visit's lab orders for result reporting:
+ * 1. Components of an ordered panel sit under the panel heading,
+ *    in the panel's display order
+ * 2. Tests ordered on their own get a section each
+ * 3. Sections follow the order they were raised in
+ */
+
+export interface ReportableOrder {
+  id: string;
+  orderedAt: Date;
+  test: { id: string; name: string };
+  panelOrder?: {
+    id: string;
+    panel: {
+      name: string;
+      tests: Array<{ testId: string; displayOrder: number }>;
+    };
+  } | null;
+}
+
+export interface ReportSection<T extends ReportableOrder> {
+  heading: string;
+  panelOrderId: string | null;
+  orders: T[];
+}
+
+export function groupReportSections<T extends ReportableOrder>(orders: T[]): ReportSection<T>[] {
+  const sections: ReportSection<T>[] = [];
+  const panelSections = new Map<string, ReportSection<T>>();
+
+  const sorted = [...orders].sort((a, b) => a.orderedAt.getTime() - b.orderedAt.getTime());
+
+  for (const order of sorted) {
+    if (!order.panelOrder) {
+      sections.push({ heading: order.test.name, panelOrderId: null, orders: [order] });
+      continue;
+    }
+
+    let section = panelSections.get(order.panelOrder.id);
+    if (!section) {
+      section = {
+        heading: order.panelOrder.panel.name,
+        panelOrderId: order.panelOrder.id,
+        orders: [],
+      };
+      panelSections.set(order.panelOrder.id, section);
+      sections.push(section);
+    }
+    section.orders.push(order);
+  }
+
+  // Components in the panel's own order
+  for (const section of panelSections.values()) {
+    const position = new Map(
+      section.orders[0].panelOrder!.panel.tests.map((t) => [t.testId, t.displayOrder]),
+    );
+    section.orders.sort(
+      (a, b) => (position.get(a.test.id) ?? 0) - (position.get(b.test.id) ?? 0),
+    );
+  }
+
+  return sections;
+}
@@ -0,0 +1,102 @@
+import { Gender, ResultFlag } from '@prisma/client';
+import { ResultFlagger, ReferenceRangeInput } from './result-flagger';
+
+describe('ResultFlagger', () => {
+  let flagger: ResultFlagger;
+
+  // Hemoglobin (g/dL)
+  const hbMale: ReferenceRangeInput = {
+    gender: Gender.M,
+    minAgeYears: 18,
+    maxAgeYears: 150,
+    low: 13,
+    high: 17,
+    criticalLow: 7,
+    criticalHigh: 20,
+  };
+  const hbFemale: ReferenceRangeInput = {
+    ...hbMale,
+    gender: Gender.F,
+    low: 12,
+    high: 15,
+  };
+  const hbChild: ReferenceRangeInput = {
+    gender: null,
+    minAgeYears: 0,
+    maxAgeYears: 17,
+    low: 11,
+    high: 14,
+    criticalLow: 7,
+    criticalHigh: 20,
+  };
+  const hbAnyAdult: ReferenceRangeInput = {
+    ...hbChild,
+    minAgeYears: 0,
+    maxAgeYears: 150,
+    low: 12,
+    high: 17,
+  };
+
+  beforeEach(() => {
+    flagger = new ResultFlagger();
+  });
+
+  describe('selectRange', () => {
+    const ranges = [hbAnyAdult, hbMale, hbFemale, hbChild];
+
+    it('should prefer the gender-specific range', () => {
+      expect(flagger.selectRange(ranges, 40, Gender.F)).toBe(hbFemale);
+      expect(flagger.selectRange(ranges, 40, Gender.M)).toBe(hbMale);
+    });
+
+    it('should prefer the narrower age band', () => {
+      expect(flagger.selectRange(ranges, 10, Gender.M)).toBe(hbChild);
+    });
+
+    it('should fall back to the all-gender range', () => {
+      expect(flagger.selectRange(ranges, 40, Gender.OTHER)).toBe(hbAnyAdult);
+    });
+
+    it('should return null when no range covers the patient', () => {
+      expect(flagger.selectRange([hbMale], 10, Gender.M)).toBeNull();
+    });
+  });
+
+  describe('flagValue', () => {
+    it('should flag values within range as NORMAL', () => {
+      expect(flagger.flagValue(14.5, hbMale)).toBe(ResultFlag.NORMAL);
+      expect(flagger.flagValue(13, hbMale)).toBe(ResultFlag.NORMAL);
+      expect(flagger.flagValue(17, hbMale)).toBe(ResultFlag.NORMAL);
+    });
+
+    it('should flag LOW and HIGH outside the normal range', () => {
+      expect(flagger.flagValue(12.9, hbMale)).toBe(ResultFlag.LOW);
+      expect(flagger.flagValue(17.1, hbMale)).toBe(ResultFlag.HIGH);
+    });
+
+    it('should flag critical values before normal limits', () => {
+      expect(flagger.flagValue(6.5, hbMale)).toBe(ResultFlag.CRITICAL_LOW);
+      expect(flagger.flagValue(7, hbMale)).toBe(ResultFlag.CRITICAL_LOW);
+      expect(flagger.flagValue(21, hbMale)).toBe(ResultFlag.CRITICAL_HIGH);
+    });
+
+    it('should handle one-sided ranges', () => {
+      const ldl = { ...hbAnyAdult, low: null, high: 100, criticalLow: null, criticalHigh: null };
+
+      expect(flagger.flagValue(20, ldl)).toBe(ResultFlag.NORMAL);
+      expect(flagger.flagValue(160, ldl)).toBe(ResultFlag.HIGH);
+    });
+
+    it('should return NORMAL when no range is configured', () => {
+      expect(flagger.flagValue(999, null)).toBe(ResultFlag.NORMAL);
+    });
+  });
+
+  describe('isCritical', () => {
+    it('should only treat critical flags as critical', () => {
+      expect(flagger.isCritical(ResultFlag.CRITICAL_LOW)).toBe(true);
+      expect(flagger.isCritical(ResultFlag.CRITICAL_HIGH)).toBe(true);
+      expect(flagger.isCritical(ResultFlag.HIGH)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Result Flagger for lab analytes
+ *
+ * 1. Picks the reference range that applies to the patient
+ *    (gender-specific ranges win over "all genders", narrower age bands win over wider)
+ * 2. Flags a numeric value against that range:
+ *    - CRITICAL_LOW / CRITICAL_HIGH: outside the critical limits (needs immediate attention)
+ *    - LOW / HIGH: outside the normal range
+ *    - NORMAL: within range, or no range configured
+ */
+
+import { Gender, ResultFlag } from '@prisma/client';
+
+export interface ReferenceRangeInput {
+  gender: Gender | null;
+  minAgeYears: number;
+  maxAgeYears: number;
+  low: number | null;
+  high: number | null;
+  criticalLow: number | null;
+  criticalHigh: number | null;
+}
+
+export class ResultFlagger {
+  /**
+   * Select the most specific range for a patient
+   * Returns null when no range covers the patient's age/gender
+   */
+  selectRange<T extends ReferenceRangeInput>(
+    ranges: T[],
+    age: number,
+    gender: Gender,
+  ): T | null {
+    const candidates = ranges.filter(
+      (range) =>
+        age >= range.minAgeYears &&
+        age <= range.maxAgeYears &&
+        (range.gender === null || range.gender === gender),
+    );
+
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    return candidates.sort((a, b) => {
+      // Gender-specific ranges first
+      if ((a.gender === null) !== (b.gender === null)) {
+        return a.gender === null ? 1 : -1;
+      }
+      // Then the narrowest age band
+      return (a.maxAgeYears - a.minAgeYears) - (b.maxAgeYears - b.minAgeYears);
+    })[0];
+  }
+
+  /**
+   * Flag a numeric value against a reference range
+   * Critical limits are checked before normal limits
+   */
+  flagValue(value: number, range: ReferenceRangeInput | null): ResultFlag {
+    if (!range) {
+      return ResultFlag.NORMAL;
+    }
+
+    if (range.criticalLow !== null && value <= range.criticalLow) {
+      return ResultFlag.CRITICAL_LOW;
+    }
+
+    if (range.criticalHigh !== null && value >= range.criticalHigh) {
+      return ResultFlag.CRITICAL_HIGH;
+    }
+
+    if (range.low !== null && value < range.low) {
+      return ResultFlag.LOW;
+    }
+
+    if (range.high !== null && value > range.high) {
+      return ResultFlag.HIGH;
+    }
+
+    return ResultFlag.NORMAL;
+  }
+
+  /**
+   * Whether a flag needs the doctor's attention
+   */
+  isCritical(flag: ResultFlag): boolean {
+    return (
+      flag === ResultFlag.CRITICAL_LOW || flag === ResultFlag.CRITICAL_HIGH
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { tatDueAt, tatSnapshot } from './tat';
+
+describe('TAT', () => {
+  const orderedAt = new Date('2024-07-09T09:00:00');
+  const collectedAt = new Date('2024-07-09T09:30:00');
+  const at = (time: string) => new Date(`2024-07-09T${time}:00`);
+
+  it('should start the clock at collection when the sample is drawn', () => {
+    expect(tatDueAt({ orderedAt, collectedAt, tatMinutes: 60 })).toEqual(at('10:30'));
+  });
+
+  it('should run from the order time until the sample is drawn', () => {
+    expect(tatDueAt({ orderedAt, collectedAt: null, tatMinutes: 60 })).toEqual(at('10:00'));
+  });
+
+  it('should classify open orders against the warning window', () => {
+    const order = { orderedAt, collectedAt, completedAt: null, tatMinutes: 60 };
+
+    expect(tatSnapshot(order, at('10:00'), 15).status).toBe('ON_TRACK');
+    expect(tatSnapshot(order, at('10:15'), 15).status).toBe('DUE_SOON');
+    expect(tatSnapshot(order, at('10:31'), 15)).toMatchObject({
+      status: 'BREACHED',
+      elapsedMinutes: 61,
+      remainingMinutes: -1,
+    });
+  });
+
+  it('should judge completed orders by completion time', () => {
+    const base = { orderedAt, collectedAt, tatMinutes: 60 };
+
+    expect(tatSnapshot({ ...base, completedAt: at('10:30') }, at('12:00')).status).toBe('MET');
+    expect(tatSnapshot({ ...base, completedAt: at('10:45') }, at('12:00'))).toMatchObject({
+      status: 'MISSED',
+      elapsedMinutes: 75,
+    });
+  });
+});
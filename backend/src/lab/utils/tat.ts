@@ -0,0 +1,71 @@
+/**
+ * Turnaround time (TAT) for lab orders
+ *
+ * 1. The clock starts at sample collection; orders not yet collected
+ *    run from the time they were ordered (so a missed draw also breaches)
+ * 2. Due time = start + LabTest.tat minutes
+ * 3. Open orders are ON_TRACK, DUE_SOON (inside the warning window) or BREACHED;
+ *    completed orders either MET or MISSED their TAT
+ */
+
+export type TatStatus = 'ON_TRACK' | 'DUE_SOON' | 'BREACHED' | 'MET' | 'MISSED';
+
+export interface TatInput {
+  orderedAt: Date;
+  collectedAt: Date | null;
+  completedAt: Date | null;
+  tatMinutes: number;
+}
+
+export interface TatSnapshot {
+  startedAt: Date;
+  dueAt: Date;
+  elapsedMinutes: number;
+  remainingMinutes: number; // Negative once breached
+  status: TatStatus;
+}
+
+const MINUTE = 60 * 1000;
+
+/**
+ * When the TAT clock starts
+ */
+export function tatStart(order: Pick<TatInput, 'orderedAt' | 'collectedAt'>): Date {
+  return order.collectedAt || order.orderedAt;
+}
+
+/**
+ * When the result is due
+ */
+export function tatDueAt(order: Pick<TatInput, 'orderedAt' | 'collectedAt' | 'tatMinutes'>): Date {
+  return new Date(tatStart(order).getTime() + order.tatMinutes * MINUTE);
+}
+
+/**
+ * TAT position of an order at a point in time
+ */
+export function tatSnapshot(
+  order: TatInput,
+  now: Date = new Date(),
+  warningMinutes = 15,
+): TatSnapshot {
+  const startedAt = tatStart(order);
+  const dueAt = tatDueAt(order);
+  const end = order.completedAt || now;
+
+  const elapsedMinutes = Math.round((end.getTime() - startedAt.getTime()) / MINUTE);
+  const remainingMinutes = Math.round((dueAt.getTime() - end.getTime()) / MINUTE);
+
+  let status: TatStatus;
+  if (order.completedAt) {
+    status = order.completedAt <= dueAt ? 'MET' : 'MISSED';
+  } else if (now > dueAt) {
+    status = 'BREACHED';
+  } else if (dueAt.getTime() - now.getTime() <= warningMinutes * MINUTE) {
+    status = 'DUE_SOON';
+  } else {
+    status = 'ON_TRACK';
+  }
+
+  return { startedAt, dueAt, elapsedMinutes, remainingMinutes, status };
+}
@@ -29,51 +29,57 @@ export class PatientsController {
     );
   }
 
-  // Get patient details
-  @Get(':id')
-  async getPatient(@Param('id') id: string) {
-    return this.patientsService.getPatientById(id);
-  }
-
-  // Get all patients (admin)
-  @Get()
+  // Get all visits (admin)
+  @Get('visits')
   @Roles(UserRole.ADMIN, UserRole.RECEPTIONIST)
-  async getAllPatients(
+  async getAllVisits(
     @Query('stage') stage?: PatientStage,
     @Query('status') status?: string,
   ) {
-    return this.patientsService.getAllPatients({
+    return this.patientsService.getAllVisits({
       stage,
       status: status as any,
     });
   }
 
-  // Lock patient to doctor
-  @Patch(':id/lock')
+  // Get visit (encounter) details
+  @Get('visits/:visitId')
+  async getVisit(@Param('visitId') visitId: string) {
+    return this.patientsService.getVisitById(visitId);
+  }
+
+  // Lock visit to doctor
+  @Patch('visits/:visitId/lock')
   @Roles(UserRole.DOCTOR)
-  async lockPatient(
-    @Param('id') patientId: string,
+  async lockVisit(
+    @Param('visitId') visitId: string,
     @CurrentUser() user: any,
   ) {
-    return this.patientsService.lockPatientToDoctor(patientId, user.id);
+    return this.patientsService.lockVisitToDoctor(visitId, user.id);
   }
 
-  // Update patient stage
-  @Patch(':id/stage')
+  // Update visit stage
+  @Patch('visits/:visitId/stage')
   async updateStage(
-    @Param('id') patientId: string,
+    @Param('visitId') visitId: string,
     @Body('stage') stage: PatientStage,
     @Body('reason') reason?: string,
     @CurrentUser() user?: any,
   ) {
-    return this.patientsService.updatePatientStage(
-      patientId,
+    return this.patientsService.updateVisitStage(
+      visitId,
       stage,
       user?.id,
       reason,
     );
   }
 
+  // Get patient details with visit history
+  @Get(':id')
+  async getPatient(@Param('id') id: string) {
+    return this.patientsService.getPatientById(id);
+  }
+
   // Get queue statistics
   @Get('stats/queue')
   @Roles(UserRole.ADMIN, UserRole.DOCTOR, UserRole.RECEPTIONIST)
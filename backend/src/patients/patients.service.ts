@@ -5,6 +5,7 @@ import {
   PatientStatus,
   DoctorSpecialty,
   UserRole,
+  LabStatus,
 } from '@prisma/client';
 import { QueueGateway } from '../events/queue.gateway';
 
@@ -15,30 +16,45 @@ export class PatientsService {
     private queueGateway: QueueGateway,
   ) {}
 
-  // ⭐ KEY METHOD: Get queue for doctor
+  // ⭐ KEY METHOD: Get queue for doctor (one entry per visit)
   async getQueueForDoctor(
     doctorId: string,
     specialty: DoctorSpecialty,
   ) {
     // GENERAL doctors: See shared queue (doctorId IS NULL)
-    // SPECIALISTS: See only their assigned patients
+    // SPECIALISTS: See only their assigned visits
+    // Both: See their own visits returning from lab for review
+    const reviewStages = [
+      PatientStage.DOCTOR_PENDING,
+      PatientStage.DOCTOR_REVIEW_PENDING,
+    ];
+
     const whereCondition =
       specialty === DoctorSpecialty.GENERAL
         ? {
-            doctorId: null,
-            consultationType: DoctorSpecialty.GENERAL,
-            stage: PatientStage.DOCTOR_PENDING,
             status: PatientStatus.IN_PROGRESS,
+            OR: [
+              {
+                doctorId: null,
+                consultationType: DoctorSpecialty.GENERAL,
+                stage: PatientStage.DOCTOR_PENDING,
+              },
+              {
+                doctorId: doctorId,
+                stage: { in: reviewStages },
+              },
+            ],
           }
         : {
             doctorId: doctorId,
-            stage: PatientStage.DOCTOR_PENDING,
+            stage: { in: reviewStages },
             status: PatientStatus.IN_PROGRESS,
           };
 
-    return this.prisma.patient.findMany({
+    return this.prisma.visit.findMany({
       where: whereCondition,
       include: {
+        patient: true,
         vitals: true,
         doctor: {
           select: {
@@ -49,16 +65,76 @@ export class PatientsService {
         },
       },
       orderBy: {
-        registeredAt: 'asc', // FIFO: First come, first served
+        arrivedAt: 'asc', // FIFO: First come, first served
       },
     });
   }
 
-  // Get patient by ID with full details
+  // Get patient by ID with longitudinal history (all visits)
   async getPatientById(patientId: string) {
     const patient = await this.prisma.patient.findUnique({
       where: { id: patientId },
       include: {
+        visits: {
+          include: {
+            vitals: true,
+            prescriptions: {
+              include: {
+                items: {
+                  include: {
+                    medicine: true,
+                  },
+                },
+              },
+            },
+            labOrders: {
+              include: {
+                test: true,
+              },
+            },
+            doctor: {
+              select: {
+                id: true,
+                name: true,
+                specialty: true,
+              },
+            },
+          },
+          orderBy: {
+            arrivedAt: 'desc',
+          },
+        },
+      },
+    });
+
+    if (!patient) {
+      throw new NotFoundException('Patient not found');
+    }
+
+    return patient;
+  }
+
+  // Get visit by ID with full encounter details (+ previous prescriptions)
+  async getVisitById(visitId: string) {
+    const visit = await this.prisma.visit.findUnique({
+      where: { id: visitId },
+      include: {
+        patient: {
+          include: {
+            prescriptions: {
+              include: {
+                items: {
+                  include: {
+                    medicine: true,
+                  },
+                },
+              },
+              orderBy: {
+                createdAt: 'desc',
+              },
+            },
+          },
+        },
         vitals: true,
         prescriptions: {
           include: {
@@ -72,6 +148,15 @@ export class PatientsService {
         labOrders: {
           include: {
             test: true,
+            panelOrder: {
+              include: { panel: { select: { id: true, name: true } } },
+            },
+            // Unverified results stay with the lab
+            results: {
+              where: { labOrder: { status: LabStatus.RELEASED } },
+              include: { analyte: true },
+              orderBy: { analyte: { displayOrder: 'asc' } },
+            },
           },
         },
         doctor: {
@@ -90,24 +175,24 @@ export class PatientsService {
       },
     });
 
-    if (!patient) {
-      throw new NotFoundException('Patient not found');
+    if (!visit) {
+      throw new NotFoundException('Visit not found');
     }
 
-    return patient;
+    return visit;
   }
 
-  // Get all patients (for admin/reports)
-  async getAllPatients(filters?: {
+  // Get all visits (for admin/reports)
+  async getAllVisits(filters?: {
     stage?: PatientStage;
     status?: PatientStatus;
     date?: Date;
   }) {
-    return this.prisma.patient.findMany({
+    return this.prisma.visit.findMany({
       where: {
         stage: filters?.stage,
         status: filters?.status,
-        registeredAt: filters?.date
+        arrivedAt: filters?.date
           ? {
               gte: new Date(filters.date.setHours(0, 0, 0, 0)),
               lt: new Date(filters.date.setHours(23, 59, 59, 999)),
@@ -115,6 +200,7 @@ export class PatientsService {
           : undefined,
       },
       include: {
+        patient: true,
         vitals: {
           select: {
             chiefComplaint: true,
@@ -127,30 +213,30 @@ export class PatientsService {
         },
       },
       orderBy: {
-        registeredAt: 'desc',
+        arrivedAt: 'desc',
       },
     });
   }
 
-  // Update patient stage (workflow transition)
-  async updatePatientStage(
-    patientId: string,
+  // Update visit stage (workflow transition)
+  async updateVisitStage(
+    visitId: string,
     toStage: PatientStage,
     performedBy?: string,
     reason?: string,
   ) {
-    const patient = await this.prisma.patient.findUnique({
-      where: { id: patientId },
+    const visit = await this.prisma.visit.findUnique({
+      where: { id: visitId },
     });
 
-    if (!patient) {
-      throw new NotFoundException('Patient not found');
+    if (!visit) {
+      throw new NotFoundException('Visit not found');
     }
 
-    // Update patient and log state history
+    // Update visit and log state history
     const updated = await this.prisma.$transaction([
-      this.prisma.patient.update({
-        where: { id: patientId },
+      this.prisma.visit.update({
+        where: { id: visitId },
         data: {
           stage: toStage,
           completedAt:
@@ -163,8 +249,9 @@ export class PatientsService {
       }),
       this.prisma.patientStateHistory.create({
         data: {
-          patientId,
-          fromStage: patient.stage,
+          visitId,
+          patientId: visit.patientId,
+          fromStage: visit.stage,
           toStage,
           performedBy,
           reason,
@@ -175,7 +262,8 @@ export class PatientsService {
     // Broadcast stage change event
     this.queueGateway.broadcastQueueUpdate({
       type: 'stage_changed',
-      patientId: updated[0].id,
+      patientId: updated[0].patientId,
+      visitId: updated[0].id,
       patientToken: updated[0].token,
       stage: toStage,
       doctorId: updated[0].doctorId,
@@ -185,30 +273,31 @@ export class PatientsService {
     return updated[0];
   }
 
-  // Lock patient to doctor (when doctor selects from general queue)
-  async lockPatientToDoctor(patientId: string, doctorId: string) {
-    const patient = await this.prisma.patient.findUnique({
-      where: { id: patientId },
+  // Lock visit to doctor (when doctor selects from general queue)
+  async lockVisitToDoctor(visitId: string, doctorId: string) {
+    const visit = await this.prisma.visit.findUnique({
+      where: { id: visitId },
     });
 
-    if (!patient) {
-      throw new NotFoundException('Patient not found');
+    if (!visit) {
+      throw new NotFoundException('Visit not found');
     }
 
-    // Only lock if patient is in general queue (doctorId is null)
-    if (patient.doctorId !== null) {
+    // Only lock if visit is in general queue (doctorId is null)
+    if (visit.doctorId !== null) {
       throw new Error('Patient already assigned to a doctor');
     }
 
-    const updated = await this.prisma.patient.update({
-      where: { id: patientId },
+    const updated = await this.prisma.visit.update({
+      where: { id: visitId },
       data: { doctorId },
     });
 
     // Broadcast patient assignment event
     this.queueGateway.broadcastQueueUpdate({
       type: 'patient_updated',
-      patientId: updated.id,
+      patientId: updated.patientId,
+      visitId: updated.id,
       patientToken: updated.token,
       doctorId: updated.doctorId,
       data: updated,
@@ -220,37 +309,37 @@ export class PatientsService {
   // Get queue statistics
   async getQueueStats() {
     const stats = await Promise.all([
-      this.prisma.patient.count({
+      this.prisma.visit.count({
         where: {
           stage: PatientStage.VITALS_PENDING,
           status: PatientStatus.IN_PROGRESS,
         },
       }),
-      this.prisma.patient.count({
+      this.prisma.visit.count({
         where: {
           stage: PatientStage.DOCTOR_PENDING,
           status: PatientStatus.IN_PROGRESS,
         },
       }),
-      this.prisma.patient.count({
+      this.prisma.visit.count({
         where: {
           stage: PatientStage.LAB_PENDING,
           status: PatientStatus.IN_PROGRESS,
         },
       }),
-      this.prisma.patient.count({
+      this.prisma.visit.count({
         where: {
           stage: PatientStage.PHARMACY_PENDING,
           status: PatientStatus.IN_PROGRESS,
         },
       }),
-      this.prisma.patient.count({
+      this.prisma.visit.count({
         where: {
           stage: PatientStage.BILLING_PENDING,
           status: PatientStatus.IN_PROGRESS,
         },
       }),
-      this.prisma.patient.count({
+      this.prisma.visit.count({
         where: {
           status: PatientStatus.COMPLETED,
           completedAt: {
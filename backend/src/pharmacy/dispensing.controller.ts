@@ -0,0 +1,75 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { DispensingService } from './dispensing.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { DispensePrescriptionDto } from './dto/dispense-prescription.dto';
+
+/**
+ * DispensingController
+ *
+ * Endpoints:
+ * - GET /api/pharmacy/prescriptions/pending - Pharmacy queue
+ * - GET /api/pharmacy/prescriptions/:id - Prescription with dispense history
+ * - POST /api/pharmacy/prescriptions/:id/dispense - Dispense (partial/substitute)
+ * - GET /api/pharmacy/prescriptions/equivalents/:medicineId - Substitutable brands
+ */
+@Controller('pharmacy/prescriptions')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class DispensingController {
+  constructor(private readonly dispensingService: DispensingService) {}
+
+  /**
+   * ⭐ Pharmacy queue: undispensed prescriptions
+   * GET /api/pharmacy/prescriptions/pending
+   */
+  @Get('pending')
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN)
+  async getPendingPrescriptions() {
+    return this.dispensingService.getPendingPrescriptions();
+  }
+
+  /**
+   * Equivalent brands for substitution
+   * GET /api/pharmacy/prescriptions/equivalents/:medicineId
+   */
+  @Get('equivalents/:medicineId')
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN)
+  async getEquivalentMedicines(@Param('medicineId') medicineId: string) {
+    return this.dispensingService.getEquivalentMedicines(medicineId);
+  }
+
+  /**
+   * Prescription with items and dispense records
+   * GET /api/pharmacy/prescriptions/:id
+   */
+  @Get(':id')
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN)
+  async getPrescription(@Param('id') prescriptionId: string) {
+    return this.dispensingService.getPrescription(prescriptionId);
+  }
+
+  /**
+   * ⭐ Dispense a prescription
+   * POST /api/pharmacy/prescriptions/:id/dispense
+   * Body: { items: [{ prescriptionItemId, quantity, substituteMedicineId? }], closePrescription? }
+   */
+  @Post(':id/dispense')
+  @Roles(UserRole.PHARMACIST)
+  async dispensePrescription(
+    @Param('id') prescriptionId: string,
+    @Body() dto: DispensePrescriptionDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.dispensingService.dispensePrescription(prescriptionId, dto, user.id);
+  }
+}
@@ -0,0 +1,302 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Medicine, PatientStage, PatientStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { WorkflowService } from '../workflow/workflow.service';
+import { StockService, StockInfo } from './stock.service';
+import { DispensePrescriptionDto } from './dto/dispense-prescription.dto';
+
+const PRESCRIPTION_INCLUDE = {
+  patient: { select: { id: true, name: true, uhid: true } },
+  doctor: { select: { id: true, name: true } },
+  visit: { select: { id: true, token: true, stage: true } },
+  items: {
+    include: {
+      medicine: true,
+      dispenseRecords: {
+        include: {
+          medicine: { select: { id: true, name: true, strength: true } },
+          dispensedBy: { select: { id: true, name: true } },
+        },
+        orderBy: { dispensedAt: 'asc' },
+      },
+    },
+  },
+} satisfies Prisma.PrescriptionInclude;
+
+/**
+ * DispensingService - Prescription-level dispensing
+ *
+ * 1. Pharmacist dispenses any quantity up to what is outstanding per item
+ * 2. An item may be filled with an equivalent brand (same generic, strength, form)
+ * 3. Stock is taken FIFO by expiry under row locks, in one serializable
+ *    transaction; each batch used is recorded against the item
+ * 4. An item closes when fully dispensed, or when the pharmacist closes the
+ *    prescription short; the prescription is dispensed once every item is closed
+ * 5. When every prescription of the visit is dispensed, the visit moves to billing
+ */
+@Injectable()
+export class DispensingService {
+  constructor(
+    private prisma: PrismaService,
+    private stockService: StockService,
+    private workflowService: WorkflowService,
+  ) {}
+
+  /**
+   * ⭐ Pharmacy queue: prescriptions not yet dispensed, oldest first
+   */
+  async getPendingPrescriptions() {
+    return this.prisma.prescription.findMany({
+      where: {
+        dispensedAt: null,
+        visit: { status: PatientStatus.IN_PROGRESS },
+      },
+      include: PRESCRIPTION_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Prescription with items, outstanding quantities and dispense history
+   */
+  async getPrescription(prescriptionId: string) {
+    const prescription = await this.prisma.prescription.findUnique({
+      where: { id: prescriptionId },
+      include: PRESCRIPTION_INCLUDE,
+    });
+
+    if (!prescription) {
+      throw new NotFoundException(`Prescription ${prescriptionId} not found`);
+    }
+
+    return prescription;
+  }
+
+  /**
+   * Equivalent brands of a medicine (same generic name, strength and form)
+   * with stock status, for substitution
+   */
+  async getEquivalentMedicines(medicineId: string): Promise<StockInfo[]> {
+    const medicine = await this.prisma.medicine.findUnique({
+      where: { id: medicineId },
+    });
+
+    if (!medicine) {
+      throw new NotFoundException(`Medicine ${medicineId} not found`);
+    }
+
+    if (!medicine.genericName) {
+      return [];
+    }
+
+    const equivalents = await this.prisma.medicine.findMany({
+      where: {
+        id: { not: medicineId },
+        isActive: true,
+        genericName: { equals: medicine.genericName, mode: 'insensitive' },
+        strength: { equals: medicine.strength, mode: 'insensitive' },
+        type: { equals: medicine.type, mode: 'insensitive' },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return Promise.all(
+      equivalents.map((equivalent) => this.stockService.getStockStatus(equivalent.id)),
+    );
+  }
+
+  /**
+   * ⭐ Dispense a prescription (partial quantities and substitution allowed)
+   */
+  async dispensePrescription(
+    prescriptionId: string,
+    dto: DispensePrescriptionDto,
+    pharmacistId: string,
+  ) {
+    const prescription = await this.getPrescription(prescriptionId);
+
+    if (prescription.dispensedAt) {
+      throw new BadRequestException('Prescription has already been dispensed');
+    }
+
+    if (dto.items.length === 0 && !dto.closePrescription) {
+      throw new BadRequestException('Nothing to dispense');
+    }
+
+    // 1. Validate every line before touching stock
+    const lines: { itemId: string; prescribed: number; medicine: Medicine; quantity: number }[] = [];
+    const seen = new Set<string>();
+
+    for (const entry of dto.items) {
+      const item = prescription.items.find((i) => i.id === entry.prescriptionItemId);
+
+      if (!item) {
+        throw new BadRequestException(
+          `Item ${entry.prescriptionItemId} is not on this prescription`,
+        );
+      }
+
+      if (seen.has(item.id)) {
+        throw new BadRequestException(`${item.medicine.name} is listed more than once`);
+      }
+      seen.add(item.id);
+
+      if (item.dispensed) {
+        throw new BadRequestException(`${item.medicine.name} has already been dispensed`);
+      }
+
+      const outstanding = item.quantity - item.dispensedQuantity;
+      if (entry.quantity > outstanding) {
+        throw new BadRequestException(
+          `${item.medicine.name}: only ${outstanding} left to dispense, got ${entry.quantity}`,
+        );
+      }
+
+      let medicine: Medicine = item.medicine;
+
+      if (entry.substituteMedicineId && entry.substituteMedicineId !== item.medicineId) {
+        const substitute = await this.prisma.medicine.findUnique({
+          where: { id: entry.substituteMedicineId },
+        });
+
+        if (!substitute || !substitute.isActive) {
+          throw new NotFoundException(`Medicine ${entry.substituteMedicineId} not found`);
+        }
+
+        if (!this.isEquivalent(item.medicine, substitute)) {
+          throw new BadRequestException(
+            `${substitute.name} is not an equivalent of ${item.medicine.name} ` +
+              `(generic name, strength and form must match)`,
+          );
+        }
+
+        medicine = substitute;
+      }
+
+      if (entry.quantity > 0) {
+        lines.push({ itemId: item.id, prescribed: item.quantity, medicine, quantity: entry.quantity });
+      }
+    }
+
+    // 2. Take stock, record batches and close items in one serializable
+    // transaction; medicines are locked in id order so two prescriptions
+    // sharing medicines can't deadlock
+    lines.sort((a, b) => a.medicine.id.localeCompare(b.medicine.id));
+    const medicineIds = lines.map((line) => line.medicine.id);
+
+    const closed = await this.stockService.runStockTransaction(medicineIds, async (tx) => {
+      for (const line of lines) {
+        // Re-checked under the transaction: another pharmacist may have dispensed meanwhile
+        const { count } = await tx.prescriptionItem.updateMany({
+          where: {
+            id: line.itemId,
+            dispensed: false,
+            dispensedQuantity: { lte: line.prescribed - line.quantity },
+          },
+          data: { dispensedQuantity: { increment: line.quantity } },
+        });
+
+        if (count === 0) {
+          throw new BadRequestException(
+            `${line.medicine.name} was dispensed by another user, please reload`,
+          );
+        }
+
+        const taken = await this.stockService.takeStock(tx, line.medicine.id, line.quantity, {
+          performedById: pharmacistId,
+          referenceType: 'PRESCRIPTION',
+          referenceId: prescriptionId,
+        });
+
+        await tx.dispenseRecord.createMany({
+          data: taken.allocations.map((allocation) => ({
+            prescriptionItemId: line.itemId,
+            medicineId: line.medicine.id,
+            batchId: allocation.batchId,
+            batchNumber: allocation.batchNumber,
+            quantity: allocation.quantity,
+            dispensedById: pharmacistId,
+          })),
+        });
+
+        await tx.prescriptionItem.updateMany({
+          where: { id: line.itemId, dispensedQuantity: { gte: line.prescribed } },
+          data: { dispensed: true },
+        });
+      }
+
+      // Closing short: whatever is still outstanding won't be dispensed
+      if (dto.closePrescription) {
+        await tx.prescriptionItem.updateMany({
+          where: { prescriptionId, dispensed: false },
+          data: { dispensed: true },
+        });
+      }
+
+      const open = await tx.prescriptionItem.count({
+        where: { prescriptionId, dispensed: false },
+      });
+
+      if (open > 0) {
+        return false;
+      }
+
+      // Guarded so a concurrent request can't close the prescription twice
+      const { count } = await tx.prescription.updateMany({
+        where: { id: prescriptionId, dispensedAt: null },
+        data: { dispensedAt: new Date() },
+      });
+
+      if (count === 0) {
+        throw new BadRequestException('Prescription was dispensed by another user');
+      }
+
+      return true;
+    });
+
+    console.log(
+      `✅ Prescription ${prescriptionId}: dispensed ${lines.length} item(s)` +
+        (closed ? ', prescription closed' : ''),
+    );
+
+    // 3. Visit leaves the pharmacy once all its prescriptions are dispensed
+    if (closed) {
+      await this.completeVisitIfDispensed(prescription.visitId, pharmacistId);
+    }
+
+    return this.getPrescription(prescriptionId);
+  }
+
+  private async completeVisitIfDispensed(visitId: string, pharmacistId: string) {
+    const visit = await this.prisma.visit.findUnique({
+      where: { id: visitId },
+      include: { prescriptions: { select: { dispensedAt: true } } },
+    });
+
+    if (!visit || visit.prescriptions.some((p) => !p.dispensedAt)) {
+      return;
+    }
+
+    if (visit.stage === PatientStage.PHARMACY_PENDING) {
+      await this.workflowService.completePharmacy(visitId, pharmacistId);
+    } else {
+      // Parallel routing: lab completion / review skips pharmacy once nothing is left to dispense
+      console.log(`⚠️ Token ${visit.token} dispensed while in ${visit.stage}, stage left as is`);
+    }
+  }
+
+  private isEquivalent(prescribed: Medicine, substitute: Medicine): boolean {
+    const same = (a?: string | null, b?: string | null) =>
+      !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+    return (
+      same(prescribed.genericName, substitute.genericName) &&
+      same(prescribed.strength, substitute.strength) &&
+      same(prescribed.type, substitute.type)
+    );
+  }
+}
@@ -0,0 +1,10 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+
+/**
+ * DTO for quarantining or writing off a stock batch
+ */
+export class BatchReasonDto {
+  @IsString()
+  @IsNotEmpty()
+  reason: string; // e.g. "Expired", "Damaged in transit", "Manufacturer recall"
+}
@@ -0,0 +1,38 @@
+import {
+  IsString,
+  IsInt,
+  Min,
+  IsOptional,
+  IsBoolean,
+  IsArray,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class DispenseItemDto {
+  @IsString()
+  prescriptionItemId: string;
+
+  @IsInt()
+  @Min(0)
+  quantity: number; // May be less than prescribed (partial dispense)
+
+  @IsOptional()
+  @IsString()
+  substituteMedicineId?: string; // Equivalent brand (same generic, strength, form)
+}
+
+/**
+ * DTO for dispensing a prescription
+ * Items not listed are left as they are
+ */
+export class DispensePrescriptionDto {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => DispenseItemDto)
+  items: DispenseItemDto[];
+
+  @IsOptional()
+  @IsBoolean()
+  closePrescription?: boolean; // Close short: remaining quantities won't be dispensed
+}
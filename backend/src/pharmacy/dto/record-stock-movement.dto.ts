@@ -0,0 +1,42 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsInt,
+  IsIn,
+} from 'class-validator';
+import { StockMovementType } from '@prisma/client';
+
+// Receipts, dispenses and expiry write-offs have their own endpoints
+export const MANUAL_MOVEMENT_TYPES = [
+  StockMovementType.RETURN,
+  StockMovementType.ADJUSTMENT,
+  StockMovementType.TRANSFER_IN,
+  StockMovementType.TRANSFER_OUT,
+] as const;
+
+/**
+ * DTO for a manual stock movement against one batch
+ */
+export class RecordStockMovementDto {
+  @IsIn(MANUAL_MOVEMENT_TYPES)
+  type: (typeof MANUAL_MOVEMENT_TYPES)[number];
+
+  @IsString()
+  batchId: string;
+
+  @IsInt()
+  quantity: number; // Units moved; signed only for ADJUSTMENT (+ found, - missing)
+
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+
+  @IsOptional()
+  @IsString()
+  referenceType?: string; // e.g. TRANSFER_NOTE, PRESCRIPTION
+
+  @IsOptional()
+  @IsString()
+  referenceId?: string;
+}
@@ -0,0 +1,16 @@
+import { IsInt, IsOptional, Min } from 'class-validator';
+
+/**
+ * DTO for a medicine's reorder thresholds (only the fields sent are changed)
+ */
+export class UpdateReorderSettingsDto {
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  reorderLevel?: number; // LOW_STOCK at or below this
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  safetyStock?: number; // Buffer added to suggested orders
+}
@@ -0,0 +1,98 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { ExpiryService } from './expiry.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { BatchReasonDto } from './dto/batch-reason.dto';
+import { EXPIRY_WINDOWS, ExpiryWindow } from './utils/expiry';
+
+/**
+ * ExpiryController
+ *
+ * Endpoints:
+ * - GET /api/pharmacy/expiry/report?days=90 - Near-expiry (30/60/90 days) with stock value
+ * - GET /api/pharmacy/expiry/quarantine - Quarantined batches
+ * - POST /api/pharmacy/expiry/batches/:id/quarantine - Take a batch out of sellable stock
+ * - POST /api/pharmacy/expiry/batches/:id/release - Return a quarantined batch to stock
+ * - POST /api/pharmacy/expiry/batches/:id/write-off - Write off a quarantined batch
+ */
+@Controller('pharmacy/expiry')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ExpiryController {
+  constructor(private readonly expiryService: ExpiryService) {}
+
+  /**
+   * ⭐ Near-expiry report
+   * GET /api/pharmacy/expiry/report?days=90
+   */
+  @Get('report')
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN)
+  async getNearExpiryReport(@Query('days') days?: string) {
+    const window = days ? Number(days) : 90;
+
+    if (!EXPIRY_WINDOWS.includes(window as ExpiryWindow)) {
+      throw new BadRequestException(`days must be one of ${EXPIRY_WINDOWS.join(', ')}`);
+    }
+
+    return this.expiryService.getNearExpiryReport(window as ExpiryWindow);
+  }
+
+  /**
+   * Quarantined batches
+   * GET /api/pharmacy/expiry/quarantine
+   */
+  @Get('quarantine')
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN)
+  async getQuarantinedBatches() {
+    return this.expiryService.getQuarantinedBatches();
+  }
+
+  /**
+   * ⭐ Quarantine a batch
+   * POST /api/pharmacy/expiry/batches/:id/quarantine
+   */
+  @Post('batches/:id/quarantine')
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN)
+  async quarantineBatch(
+    @Param('id') batchId: string,
+    @Body() dto: BatchReasonDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.expiryService.quarantineBatch(batchId, dto.reason, user.id);
+  }
+
+  /**
+   * Release a quarantined batch
+   * POST /api/pharmacy/expiry/batches/:id/release
+   */
+  @Post('batches/:id/release')
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN)
+  async releaseBatch(@Param('id') batchId: string) {
+    return this.expiryService.releaseBatch(batchId);
+  }
+
+  /**
+   * ⭐ Write off a quarantined batch
+   * POST /api/pharmacy/expiry/batches/:id/write-off
+   */
+  @Post('batches/:id/write-off')
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN)
+  async writeOffBatch(
+    @Param('id') batchId: string,
+    @Body() dto: BatchReasonDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.expiryService.writeOffBatch(batchId, dto.reason, user.id);
+  }
+}
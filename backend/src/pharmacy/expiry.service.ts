@@ -0,0 +1,332 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BatchStatus, Prisma, StockMovementType } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { QueueGateway } from '../events/queue.gateway';
+import { StockService } from './stock.service';
+import {
+  EXPIRY_WINDOWS,
+  ExpiryWindow,
+  daysToExpiry,
+  expiryWindow,
+  isExpired,
+} from './utils/expiry';
+
+const BATCH_INCLUDE = {
+  medicine: { select: { id: true, name: true, strength: true, sellingPrice: true } },
+  quarantinedBy: { select: { id: true, name: true } },
+} satisfies Prisma.MedicineStockInclude;
+
+type BatchWithMedicine = Prisma.MedicineStockGetPayload<{ include: typeof BATCH_INCLUDE }>;
+
+/**
+ * ExpiryService - Near-expiry and expired stock
+ *
+ * 1. Near-expiry report in 30/60/90-day windows with stock value
+ *    (purchase rate, or selling price when the rate wasn't captured)
+ * 2. Quarantine takes a batch out of sellable stock; it can be released
+ *    (if not expired) or written off, which empties it through the ledger
+ * 3. Background check every PHARMACY_EXPIRY_CHECK_INTERVAL_MS (daily) quarantines
+ *    expired batches and alerts the pharmacy queue about them and about batches
+ *    expiring within PHARMACY_EXPIRY_ALERT_DAYS
+ */
+@Injectable()
+export class ExpiryService implements OnModuleInit, OnModuleDestroy {
+  private timer: NodeJS.Timeout;
+  private readonly alertDays: number;
+
+  constructor(
+    private prisma: PrismaService,
+    private stockService: StockService,
+    private queueGateway: QueueGateway,
+    private config: ConfigService,
+  ) {
+    this.alertDays = Number(this.config.get('PHARMACY_EXPIRY_ALERT_DAYS') || 30);
+  }
+
+  onModuleInit() {
+    const interval = Number(this.config.get('PHARMACY_EXPIRY_CHECK_INTERVAL_MS') || 86400000);
+
+    this.timer = setInterval(() => {
+      this.checkExpiries().catch((err) =>
+        console.error('❌ Expiry check failed:', err),
+      );
+    }, interval);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * ⭐ Near-expiry report: sellable batches expiring within `days`,
+   * grouped into 30/60/90-day windows, plus expired stock still on hand
+   */
+  async getNearExpiryReport(days: ExpiryWindow = 90, now: Date = new Date()) {
+    const horizon = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+    const [nearExpiry, expired] = await Promise.all([
+      this.prisma.medicineStock.findMany({
+        where: {
+          status: BatchStatus.AVAILABLE,
+          quantity: { gt: 0 },
+          expiryDate: { gt: now, lt: horizon },
+        },
+        include: BATCH_INCLUDE,
+        orderBy: { expiryDate: 'asc' },
+      }),
+      this.prisma.medicineStock.findMany({
+        where: {
+          status: { not: BatchStatus.WRITTEN_OFF },
+          quantity: { gt: 0 },
+          expiryDate: { lte: now },
+        },
+        include: BATCH_INCLUDE,
+        orderBy: { expiryDate: 'asc' },
+      }),
+    ]);
+
+    const windows = EXPIRY_WINDOWS.filter((window) => window <= days).map((window) => {
+      const batches = nearExpiry
+        .filter((batch) => expiryWindow(batch.expiryDate, now) === window)
+        .map((batch) => this.reportRow(batch, now));
+
+      return { window, ...this.summarize(batches), batches };
+    });
+
+    const expiredRows = expired.map((batch) => this.reportRow(batch, now));
+
+    return {
+      generatedAt: now,
+      days,
+      windows,
+      expired: { ...this.summarize(expiredRows), batches: expiredRows },
+    };
+  }
+
+  /**
+   * Quarantined batches awaiting release or write-off
+   */
+  async getQuarantinedBatches() {
+    const batches = await this.prisma.medicineStock.findMany({
+      where: { status: BatchStatus.QUARANTINED },
+      include: BATCH_INCLUDE,
+      orderBy: { quarantinedAt: 'asc' },
+    });
+
+    return batches.map((batch) => this.reportRow(batch));
+  }
+
+  /**
+   * ⭐ Quarantine a batch (no longer sellable; quantity unchanged)
+   */
+  async quarantineBatch(batchId: string, reason: string, userId: string) {
+    const batch = await this.getBatch(batchId);
+
+    const { count } = await this.prisma.medicineStock.updateMany({
+      where: { id: batchId, status: BatchStatus.AVAILABLE },
+      data: {
+        status: BatchStatus.QUARANTINED,
+        quarantinedAt: new Date(),
+        quarantineReason: reason,
+        quarantinedById: userId,
+      },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException(`Batch ${batch.batchNumber} is ${batch.status.toLowerCase()}`);
+    }
+
+    await this.stockService.invalidateCache(batch.medicineId);
+
+    console.log(`⚠️ Batch ${batch.batchNumber} of ${batch.medicine.name} quarantined: ${reason}`);
+
+    return this.getBatch(batchId);
+  }
+
+  /**
+   * Release a quarantined batch back to sellable stock (not once expired)
+   */
+  async releaseBatch(batchId: string) {
+    const batch = await this.getBatch(batchId);
+
+    if (isExpired(batch.expiryDate)) {
+      throw new BadRequestException(
+        `Batch ${batch.batchNumber} expired on ${batch.expiryDate.toDateString()}; write it off instead`,
+      );
+    }
+
+    const { count } = await this.prisma.medicineStock.updateMany({
+      where: { id: batchId, status: BatchStatus.QUARANTINED },
+      data: {
+        status: BatchStatus.AVAILABLE,
+        quarantinedAt: null,
+        quarantineReason: null,
+        quarantinedById: null,
+      },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException(`Batch ${batch.batchNumber} is not quarantined`);
+    }
+
+    await this.stockService.invalidateCache(batch.medicineId);
+
+    console.log(`✅ Batch ${batch.batchNumber} of ${batch.medicine.name} released`);
+
+    return this.getBatch(batchId);
+  }
+
+  /**
+   * ⭐ Write off a quarantined batch: its remaining quantity leaves stock
+   * as an EXPIRY_WRITE_OFF movement in the ledger
+   */
+  async writeOffBatch(batchId: string, reason: string, userId: string) {
+    const batch = await this.getBatch(batchId);
+
+    const writtenOff = await this.stockService.runStockTransaction([batch.medicineId], async (tx) => {
+      const { count } = await tx.medicineStock.updateMany({
+        where: { id: batchId, status: BatchStatus.QUARANTINED },
+        data: { status: BatchStatus.WRITTEN_OFF },
+      });
+
+      if (count === 0) {
+        throw new BadRequestException(
+          `Batch ${batch.batchNumber} must be quarantined before it is written off`,
+        );
+      }
+
+      const { quantity } = await tx.medicineStock.findUniqueOrThrow({ where: { id: batchId } });
+
+      if (quantity > 0) {
+        await this.stockService.changeBatch(tx, batchId, -quantity, {
+          type: StockMovementType.EXPIRY_WRITE_OFF,
+          performedById: userId,
+          reason,
+        });
+      }
+
+      return quantity;
+    });
+
+    const value = writtenOff * this.unitValue(batch);
+
+    console.log(
+      `✅ Wrote off ${writtenOff} of ${batch.medicine.name} batch ${batch.batchNumber} (₹${value.toFixed(2)}): ${reason}`,
+    );
+
+    return { ...(await this.getBatch(batchId)), writtenOffQuantity: writtenOff, writtenOffValue: value };
+  }
+
+  /**
+   * ⭐ Daily expiry check
+   * Quarantines batches that have expired and alerts the pharmacy queue
+   */
+  async checkExpiries(now: Date = new Date()) {
+    const alertHorizon = new Date(now.getTime() + this.alertDays * 24 * 60 * 60 * 1000);
+
+    const [expired, expiringSoon] = await Promise.all([
+      this.prisma.medicineStock.findMany({
+        where: {
+          status: BatchStatus.AVAILABLE,
+          quantity: { gt: 0 },
+          expiryDate: { lte: now },
+        },
+        include: BATCH_INCLUDE,
+      }),
+      this.prisma.medicineStock.findMany({
+        where: {
+          status: BatchStatus.AVAILABLE,
+          quantity: { gt: 0 },
+          expiryDate: { gt: now, lte: alertHorizon },
+        },
+        include: BATCH_INCLUDE,
+        orderBy: { expiryDate: 'asc' },
+      }),
+    ]);
+
+    if (expired.length > 0) {
+      await this.prisma.medicineStock.updateMany({
+        where: { id: { in: expired.map((batch) => batch.id) }, status: BatchStatus.AVAILABLE },
+        data: {
+          status: BatchStatus.QUARANTINED,
+          quarantinedAt: now,
+          quarantineReason: 'Expired',
+        },
+      });
+
+      const medicineIds = [...new Set(expired.map((batch) => batch.medicineId))];
+      await Promise.all(medicineIds.map((id) => this.stockService.invalidateCache(id)));
+    }
+
+    if (expired.length === 0 && expiringSoon.length === 0) {
+      return;
+    }
+
+    const message =
+      `${expired.length} expired batch(es) quarantined, ` +
+      `${expiringSoon.length} batch(es) expiring within ${this.alertDays} days`;
+
+    this.queueGateway.broadcastToQueue('pharmacy', {
+      type: 'expiry_alert',
+      message,
+      data: {
+        expired: expired.map((batch) => this.reportRow(batch, now)),
+        expiringSoon: expiringSoon.map((batch) => this.reportRow(batch, now)),
+      },
+    });
+
+    console.log(`⚠️ ${message}`);
+  }
+
+  private async getBatch(batchId: string) {
+    const batch = await this.prisma.medicineStock.findUnique({
+      where: { id: batchId },
+      include: BATCH_INCLUDE,
+    });
+
+    if (!batch) {
+      throw new NotFoundException(`Stock batch ${batchId} not found`);
+    }
+
+    return batch;
+  }
+
+  private unitValue(batch: BatchWithMedicine): number {
+    return batch.costPrice ?? batch.medicine.sellingPrice;
+  }
+
+  private reportRow(batch: BatchWithMedicine, now: Date = new Date()) {
+    const unitValue = this.unitValue(batch);
+
+    return {
+      batchId: batch.id,
+      medicineId: batch.medicineId,
+      medicineName: batch.medicine.name,
+      strength: batch.medicine.strength,
+      batchNumber: batch.batchNumber,
+      expiryDate: batch.expiryDate,
+      daysToExpiry: daysToExpiry(batch.expiryDate, now),
+      status: batch.status,
+      quarantineReason: batch.quarantineReason,
+      quarantinedBy: batch.quarantinedBy,
+      quantity: batch.quantity,
+      unitValue,
+      stockValue: Math.round(batch.quantity * unitValue * 100) / 100,
+    };
+  }
+
+  private summarize(rows: { quantity: number; stockValue: number }[]) {
+    return {
+      batchCount: rows.length,
+      quantity: rows.reduce((sum, row) => sum + row.quantity, 0),
+      stockValue: Math.round(rows.reduce((sum, row) => sum + row.stockValue, 0) * 100) / 100,
+    };
+  }
+}
@@ -2,6 +2,7 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
   Body,
   Param,
   Query,
@@ -12,10 +13,12 @@ import { StockService } from './stock.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { UserRole } from '@prisma/client';
 import { SearchMedicineDto } from './dto/search-medicine.dto';
 import { DispenseMedicineDto } from './dto/dispense-medicine.dto';
 import { BulkStockCheckDto } from './dto/bulk-stock-check.dto';
+import { UpdateReorderSettingsDto } from './dto/update-reorder-settings.dto';
 
 @Controller('pharmacy')
 @UseGuards(JwtAuthGuard, RolesGuard)
@@ -80,8 +83,11 @@ export class PharmacyController {
    */
   @Post('dispense')
   @Roles(UserRole.PHARMACIST)
-  async dispenseMedicine(@Body() dispenseDto: DispenseMedicineDto) {
-    return this.pharmacyService.dispenseMedicine(dispenseDto);
+  async dispenseMedicine(
+    @Body() dispenseDto: DispenseMedicineDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.pharmacyService.dispenseMedicine(dispenseDto, user.id);
   }
 
   /**
@@ -97,7 +103,7 @@ export class PharmacyController {
   }
 
   /**
-   * Get low stock alerts
+   * Get low stock alerts with days of cover and suggested reorder quantity
    * GET /api/pharmacy/alerts/low-stock
    */
   @Get('alerts/low-stock')
@@ -126,6 +132,20 @@ export class PharmacyController {
     return this.pharmacyService.getMedicineBatches(medicineId);
   }
 
+  /**
+   * Set reorder level and safety stock
+   * PATCH /api/pharmacy/medicines/:id/reorder-settings
+   * Body: { reorderLevel?, safetyStock? }
+   */
+  @Patch('medicines/:id/reorder-settings')
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN)
+  async updateReorderSettings(
+    @Param('id') medicineId: string,
+    @Body() dto: UpdateReorderSettingsDto,
+  ) {
+    return this.pharmacyService.updateReorderSettings(medicineId, dto);
+  }
+
   /**
    * Create new medicine (admin only)
    * POST /api/pharmacy/medicines
@@ -144,6 +164,8 @@ async createMedicine(
     strength: string;     // REQUIRED
     mrp: number;          // REQUIRED
     sellingPrice: number; // REQUIRED
+    gstRate?: number;     // Defaults to 0.12
+    hsnSacCode?: string;  // HSN code
   },
 ) {
   return this.pharmacyService.createMedicine(data);
@@ -165,12 +187,17 @@ async createMedicine(
       expiryDate: string;
       costPrice: number;
       supplierId?: string;
+      invoiceNumber?: string; // Supplier invoice, kept as the ledger reference
     },
+    @CurrentUser() user: any,
   ) {
-    return this.pharmacyService.addStockBatch({
-      ...data,
-      expiryDate: new Date(data.expiryDate),
-    });
+    return this.pharmacyService.addStockBatch(
+      {
+        ...data,
+        expiryDate: new Date(data.expiryDate),
+      },
+      user.id,
+    );
   }
 
   /**
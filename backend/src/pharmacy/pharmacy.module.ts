@@ -1,11 +1,33 @@
 import { Module } from '@nestjs/common';
 import { PharmacyController } from './pharmacy.controller';
+import { DispensingController } from './dispensing.controller';
+import { StockLedgerController } from './stock-ledger.controller';
+import { ExpiryController } from './expiry.controller';
 import { PharmacyService } from './pharmacy.service';
+import { DispensingService } from './dispensing.service';
+import { StockLedgerService } from './stock-ledger.service';
+import { ExpiryService } from './expiry.service';
+import { ReorderService } from './reorder.service';
 import { StockService } from './stock.service';
+import { WorkflowModule } from '../workflow/workflow.module';
+import { EventsModule } from '../events/events.module';
 
 @Module({
-  controllers: [PharmacyController],
-  providers: [PharmacyService, StockService],
+  imports: [WorkflowModule, EventsModule],
+  controllers: [
+    PharmacyController,
+    DispensingController,
+    StockLedgerController,
+    ExpiryController,
+  ],
+  providers: [
+    PharmacyService,
+    DispensingService,
+    StockLedgerService,
+    ExpiryService,
+    ReorderService,
+    StockService,
+  ],
   exports: [PharmacyService, StockService],
 })
 export class PharmacyModule {}
@@ -1,18 +1,17 @@
-import {
-  Injectable,
-  NotFoundException,
-  BadRequestException,
-} from '@nestjs/common';
+import { Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { StockService, StockInfo } from './stock.service';
+import { ReorderService, ReorderSuggestion } from './reorder.service';
 import { SearchMedicineDto } from './dto/search-medicine.dto';
 import { DispenseMedicineDto } from './dto/dispense-medicine.dto';
+import { UpdateReorderSettingsDto } from './dto/update-reorder-settings.dto';
 
 @Injectable()
 export class PharmacyService {
   constructor(
     private prisma: PrismaService,
     private stockService: StockService,
+    private reorderService: ReorderService,
   ) {}
 
   /**
@@ -20,7 +19,7 @@ export class PharmacyService {
    */
   async searchMedicines(
     searchDto: SearchMedicineDto,
-  ): Promise<StockInfo[]> {
+  ): Promise<(StockInfo & { type: string; strength: string })[]> {
     const { q, limit } = searchDto;
 
     // Search by name (case-insensitive, partial match)
@@ -38,8 +37,13 @@ export class PharmacyService {
     });
 
     // Get stock status for each medicine (Redis-cached)
+    // Type and strength let the prescription builder default the sig
     const medicinesWithStock = await Promise.all(
-      medicines.map((medicine) => this.stockService.getStockStatus(medicine.id)),
+      medicines.map(async (medicine) => ({
+        ...(await this.stockService.getStockStatus(medicine.id)),
+        type: medicine.type,
+        strength: medicine.strength,
+      })),
     );
 
     return medicinesWithStock;
@@ -77,86 +81,37 @@ export class PharmacyService {
 
   /**
    * ⭐ FIFO Batch Dispensing (First-Expiry, First-Out)
+   * One serializable transaction with the batch rows locked, so two
+   * pharmacists can't both take the last units
    */
   async dispenseMedicine(
     dispenseDto: DispenseMedicineDto,
+    performedById: string,
   ): Promise<{
     success: boolean;
     dispensed: number;
     remaining: number;
     batchesUsed: string[];
   }> {
-    const { medicineId, quantity, patientId, prescriptionId, dispensedBy } =
-      dispenseDto;
+    const { medicineId, quantity, prescriptionId } = dispenseDto;
 
-    // 1. Check sufficient stock
-    const stockCheck = await this.stockService.hasSufficientStock(
-      medicineId,
-      quantity,
+    const taken = await this.stockService.runStockTransaction([medicineId], (tx) =>
+      this.stockService.takeStock(tx, medicineId, quantity, {
+        performedById,
+        ...(prescriptionId && { referenceType: 'PRESCRIPTION', referenceId: prescriptionId }),
+      }),
     );
 
-    if (!stockCheck.sufficient) {
-      throw new BadRequestException(
-        `Insufficient stock. Required: ${quantity}, Available: ${stockCheck.available}`,
-      );
-    }
-
-    // 2. Get batches sorted by expiry (FIFO)
-    const batches = await this.prisma.medicineStock.findMany({
-      where: {
-        medicineId,
-        quantity: {
-          gt: 0,
-        },
-      },
-      orderBy: {
-        expiryDate: 'asc', // First expiry first
-      },
-    });
-
-    let remainingToDispense = quantity;
-    const batchesUsed: string[] = [];
-
-    // 3. Dispense from batches (FIFO)
-    for (const batch of batches) {
-      if (remainingToDispense === 0) break;
-
-      const quantityFromBatch = Math.min(batch.quantity, remainingToDispense);
-
-      // Update batch quantity
-      await this.prisma.medicineStock.update({
-        where: { id: batch.id },
-        data: {
-          quantity: batch.quantity - quantityFromBatch,
-        },
-      });
-
-      batchesUsed.push(batch.batchNumber);
-      remainingToDispense -= quantityFromBatch;
-    }
-
-    // 4. Update medicine currentStock (denormalized field)
-    const medicine = await this.prisma.medicine.update({
-      where: { id: medicineId },
-      data: {
-        currentStock: {
-          decrement: quantity,
-        },
-      },
-    });
+    const batchesUsed = taken.allocations.map((allocation) => allocation.batchNumber);
 
-    // 5. Invalidate Redis cache
-    await this.stockService.invalidateCache(medicineId);
-
-    // 6. Log transaction (optional - for audit)
     console.log(
-      `✅ Dispensed ${quantity} units of ${medicine.name} from batches: ${batchesUsed.join(', ')}`,
+      `✅ Dispensed ${quantity} units of ${taken.medicineName} from batches: ${batchesUsed.join(', ')}`,
     );
 
     return {
       success: true,
       dispensed: quantity,
-      remaining: medicine.currentStock,
+      remaining: taken.remaining,
       batchesUsed,
     };
   }
@@ -202,10 +157,29 @@ export class PharmacyService {
   }
 
   /**
-   * Get low stock alerts
+   * Get low stock alerts with days of cover and a suggested reorder quantity,
+   * shortest cover first
    */
-  async getLowStockAlerts(): Promise<StockInfo[]> {
-    return this.stockService.getLowStockMedicines();
+  async getLowStockAlerts(): Promise<ReorderSuggestion[]> {
+    const suggestions = await this.reorderService.getReorderSuggestions(
+      await this.stockService.getLowStockMedicines(),
+    );
+
+    return suggestions.sort(
+      (a, b) => (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity),
+    );
+  }
+
+  /**
+   * Reorder suggestions for everything low or out of stock (for purchase orders)
+   */
+  async getReorderSuggestions(): Promise<ReorderSuggestion[]> {
+    const [lowStock, outOfStock] = await Promise.all([
+      this.stockService.getLowStockMedicines(),
+      this.stockService.getOutOfStockMedicines(),
+    ]);
+
+    return this.reorderService.getReorderSuggestions([...outOfStock, ...lowStock]);
   }
 
   /**
@@ -234,6 +208,8 @@ export class PharmacyService {
   strength: string;
   mrp: number;
   sellingPrice: number;
+  gstRate?: number; // defaults to 12%
+  hsnSacCode?: string;
 }) {
   return this.prisma.medicine.create({
     data: {
@@ -244,36 +220,71 @@ export class PharmacyService {
 }
 
   /**
-   * Add stock batch (when new stock arrives)
+   * Set a medicine's reorder level and safety stock
    */
-  async addStockBatch(data: {
-    medicineId: string;
-    batchNumber: string;
-    quantity: number;
-    expiryDate: Date;
-    costPrice: number;
-    supplierId?: string;
-  }) {
-    // 1. Create batch
-    const batch = await this.prisma.medicineStock.create({
-      data,
-    });
+  async updateReorderSettings(medicineId: string, dto: UpdateReorderSettingsDto) {
+    const medicine = await this.prisma.medicine.findUnique({ where: { id: medicineId } });
 
-    // 2. Update medicine currentStock
-    await this.prisma.medicine.update({
-      where: { id: data.medicineId },
-      data: {
-        currentStock: {
-          increment: data.quantity,
-        },
-      },
+    if (!medicine) {
+      throw new NotFoundException(`Medicine ${medicineId} not found`);
+    }
+
+    const updated = await this.prisma.medicine.update({
+      where: { id: medicineId },
+      data: dto,
+      select: { id: true, name: true, reorderLevel: true, safetyStock: true },
     });
 
-    // 3. Invalidate cache
-    await this.stockService.invalidateCache(data.medicineId);
+    // Stock status is cached with the old thresholds
+    await this.stockService.invalidateCache(medicineId);
+
+    console.log(
+      `✅ ${updated.name} reorder level ${updated.reorderLevel}, safety stock ${updated.safetyStock}`,
+    );
+
+    return updated;
+  }
+
+  /**
+   * Add stock batch (when new stock arrives)
+   * Recorded in the stock ledger as a RECEIPT
+   * Supplier deliveries normally come in through a goods-receipt note instead
+   */
+  async addStockBatch(
+    data: {
+      medicineId: string;
+      batchNumber: string;
+      quantity: number;
+      expiryDate: Date;
+      costPrice: number;
+      supplierId?: string;
+      invoiceNumber?: string;
+    },
+    performedById: string,
+  ) {
+    const { medicineId, batchNumber, quantity, expiryDate, costPrice, supplierId, invoiceNumber } =
+      data;
+
+    if (supplierId) {
+      const supplier = await this.prisma.supplier.findUnique({ where: { id: supplierId } });
+      if (!supplier) {
+        throw new NotFoundException(`Supplier ${supplierId} not found`);
+      }
+    }
+
+    const batch = await this.stockService.runStockTransaction([medicineId], (tx) =>
+      this.stockService.receiveStock(
+        tx,
+        { medicineId, batchNumber, quantity, expiryDate, costPrice, supplierId },
+        {
+          performedById,
+          ...(invoiceNumber && { referenceType: 'SUPPLIER_INVOICE', referenceId: invoiceNumber }),
+        },
+      ),
+    );
 
     console.log(
-      `✅ Added ${data.quantity} units to medicine ${data.medicineId} (Batch: ${data.batchNumber})`,
+      `✅ Added ${quantity} units to medicine ${medicineId} (Batch: ${batchNumber})`,
     );
 
     return batch;
@@ -289,7 +300,7 @@ export class PharmacyService {
         expiryDate: 'asc',
       },
       include: {
-       // supplier: true,
+        supplier: { select: { id: true, name: true } },
       },
     });
   }
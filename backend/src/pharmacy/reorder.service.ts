@@ -0,0 +1,157 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  GoodsReceiptStatus,
+  PurchaseOrderStatus,
+  StockMovementType,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { StockInfo } from './stock.service';
+import { daysOfCover, suggestReorderQuantity } from './utils/reorder';
+
+export interface ReorderSuggestion extends StockInfo {
+  reorderLevel: number;
+  safetyStock: number;
+  avgDailyConsumption: number; // Units dispensed per day over the consumption window
+  daysOfCover: number | null;  // null when nothing has been dispensed
+  onOrder: number;             // Outstanding on open purchase orders
+  supplierId: string | null;   // Supplier who last delivered it
+  supplierName: string | null;
+  leadTimeDays: number;
+  lastPurchaseRate: number | null;
+  suggestedQuantity: number;
+}
+
+// Purchase orders still expecting goods
+const OPEN_ORDER_STATUSES: PurchaseOrderStatus[] = [
+  PurchaseOrderStatus.DRAFT,
+  PurchaseOrderStatus.ORDERED,
+  PurchaseOrderStatus.PARTIALLY_RECEIVED,
+];
+
+/**
+ * ReorderService - Reorder suggestions
+ *
+ * For each medicine:
+ * 1. Average daily consumption from DISPENSE movements over the last
+ *    PHARMACY_CONSUMPTION_DAYS (default 90)
+ * 2. Lead time from the supplier who last delivered it (a posted GRN, else
+ *    the newest batch), or PHARMACY_DEFAULT_LEAD_TIME_DAYS
+ * 3. Suggested quantity covers lead time + PHARMACY_REORDER_REVIEW_DAYS of
+ *    demand plus safety stock, net of stock and open purchase orders
+ */
+@Injectable()
+export class ReorderService {
+  private readonly consumptionDays: number;
+  private readonly reviewDays: number;
+  private readonly defaultLeadTimeDays: number;
+
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+  ) {
+    this.consumptionDays = Number(this.config.get('PHARMACY_CONSUMPTION_DAYS') || 90);
+    this.reviewDays = Number(this.config.get('PHARMACY_REORDER_REVIEW_DAYS') || 14);
+    this.defaultLeadTimeDays = Number(this.config.get('PHARMACY_DEFAULT_LEAD_TIME_DAYS') || 7);
+  }
+
+  /**
+   * ⭐ Add consumption, days of cover and a suggested order to stock alerts
+   */
+  async getReorderSuggestions(
+    alerts: StockInfo[],
+    now: Date = new Date(),
+  ): Promise<ReorderSuggestion[]> {
+    const medicineIds = alerts.map((alert) => alert.medicineId);
+    const since = new Date(now.getTime() - this.consumptionDays * 24 * 60 * 60 * 1000);
+
+    const [medicines, dispensed, openItems, lastReceipts, lastBatches] = await Promise.all([
+      this.prisma.medicine.findMany({
+        where: { id: { in: medicineIds } },
+        select: { id: true, reorderLevel: true, safetyStock: true },
+      }),
+      this.prisma.stockMovement.groupBy({
+        by: ['medicineId'],
+        where: {
+          medicineId: { in: medicineIds },
+          type: StockMovementType.DISPENSE,
+          createdAt: { gte: since, lte: now },
+        },
+        _sum: { quantity: true },
+      }),
+      this.prisma.purchaseOrderItem.findMany({
+        where: {
+          medicineId: { in: medicineIds },
+          purchaseOrder: { status: { in: OPEN_ORDER_STATUSES } },
+        },
+        select: { medicineId: true, quantity: true, receivedQuantity: true },
+      }),
+      this.prisma.goodsReceiptItem.findMany({
+        where: {
+          medicineId: { in: medicineIds },
+          goodsReceipt: { status: GoodsReceiptStatus.POSTED, supplier: { isActive: true } },
+        },
+        select: {
+          medicineId: true,
+          purchaseRate: true,
+          goodsReceipt: {
+            select: { supplier: { select: { id: true, name: true, leadTimeDays: true } } },
+          },
+        },
+        orderBy: { goodsReceipt: { postedAt: 'desc' } },
+      }),
+      this.prisma.medicineStock.findMany({
+        where: { medicineId: { in: medicineIds }, supplier: { isActive: true } },
+        select: {
+          medicineId: true,
+          supplier: { select: { id: true, name: true, leadTimeDays: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    return alerts.flatMap((alert) => {
+      const medicine = medicines.find((med) => med.id === alert.medicineId);
+      if (!medicine) return [];
+
+      // DISPENSE movements are negative
+      const units = -(dispensed.find((row) => row.medicineId === medicine.id)?._sum.quantity || 0);
+      const avgDailyConsumption = units / this.consumptionDays;
+
+      const onOrder = openItems
+        .filter((item) => item.medicineId === medicine.id)
+        .reduce((sum, item) => sum + Math.max(item.quantity - item.receivedQuantity, 0), 0);
+
+      const lastReceipt = lastReceipts.find((item) => item.medicineId === medicine.id);
+      const supplier =
+        lastReceipt?.goodsReceipt.supplier ||
+        lastBatches.find((batch) => batch.medicineId === medicine.id)?.supplier ||
+        null;
+      const leadTimeDays = supplier?.leadTimeDays ?? this.defaultLeadTimeDays;
+
+      return [
+        {
+          ...alert,
+          reorderLevel: medicine.reorderLevel,
+          safetyStock: medicine.safetyStock,
+          avgDailyConsumption: Math.round(avgDailyConsumption * 100) / 100,
+          daysOfCover: daysOfCover(alert.currentStock, avgDailyConsumption),
+          onOrder,
+          supplierId: supplier?.id || null,
+          supplierName: supplier?.name || null,
+          leadTimeDays,
+          lastPurchaseRate: lastReceipt?.purchaseRate ?? null,
+          suggestedQuantity: suggestReorderQuantity({
+            stock: alert.currentStock,
+            onOrder,
+            reorderLevel: medicine.reorderLevel,
+            safetyStock: medicine.safetyStock,
+            avgDailyConsumption,
+            leadTimeDays,
+            reviewDays: this.reviewDays,
+          }),
+        },
+      ];
+    });
+  }
+}
@@ -0,0 +1,91 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { StockLedgerService } from './stock-ledger.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RecordStockMovementDto } from './dto/record-stock-movement.dto';
+
+/**
+ * StockLedgerController
+ *
+ * Endpoints:
+ * - POST /api/pharmacy/stock/movements - Return, adjustment or transfer
+ * - GET /api/pharmacy/stock/card/:medicineId?from=2024-07-01&to=2024-07-31 - Stock card
+ * - GET /api/pharmacy/stock/reconciliation - currentStock vs batch sum drift
+ * - POST /api/pharmacy/stock/reconciliation/:medicineId/resync - Reset currentStock
+ */
+@Controller('pharmacy/stock')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class StockLedgerController {
+  constructor(private readonly stockLedgerService: StockLedgerService) {}
+
+  /**
+   * ⭐ Record a manual stock movement
+   * POST /api/pharmacy/stock/movements
+   * Body: { type, batchId, quantity, reason, referenceType?, referenceId? }
+   */
+  @Post('movements')
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN)
+  async recordMovement(
+    @Body() dto: RecordStockMovementDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.stockLedgerService.recordMovement(dto, user.id);
+  }
+
+  /**
+   * ⭐ Stock card for one medicine
+   * GET /api/pharmacy/stock/card/:medicineId?from=2024-07-01&to=2024-07-31
+   *
+   * Defaults to the last 30 days
+   */
+  @Get('card/:medicineId')
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN)
+  async getStockCard(
+    @Param('medicineId') medicineId: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    const end = to ? new Date(`${to}T23:59:59.999`) : new Date();
+    const start = from
+      ? new Date(`${from}T00:00:00`)
+      : new Date(end.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+      throw new BadRequestException('from/to must be valid dates (YYYY-MM-DD), from before to');
+    }
+
+    return this.stockLedgerService.getStockCard(medicineId, start, end);
+  }
+
+  /**
+   * Run stock reconciliation now
+   * GET /api/pharmacy/stock/reconciliation
+   */
+  @Get('reconciliation')
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN)
+  async reconcile() {
+    return this.stockLedgerService.reconcile();
+  }
+
+  /**
+   * Reset a drifted medicine's currentStock to its batch sum
+   * POST /api/pharmacy/stock/reconciliation/:medicineId/resync
+   */
+  @Post('reconciliation/:medicineId/resync')
+  @Roles(UserRole.ADMIN)
+  async resyncMedicine(@Param('medicineId') medicineId: string) {
+    return this.stockLedgerService.resyncMedicine(medicineId);
+  }
+}
@@ -0,0 +1,218 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BatchStatus, StockMovementType, UserRole } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { QueueGateway } from '../events/queue.gateway';
+import { StockService } from './stock.service';
+import { RecordStockMovementDto } from './dto/record-stock-movement.dto';
+
+export interface StockDrift {
+  medicineId: string;
+  medicineName: string;
+  currentStock: number;
+  batchTotal: number;
+  drift: number; // currentStock - batchTotal
+}
+
+/**
+ * StockLedgerService - Stock movement ledger
+ *
+ * 1. Every change to a batch quantity (receipt, dispense, return, adjustment,
+ *    expiry write-off, transfer) writes an append-only StockMovement row with
+ *    the user, reason, reference document and resulting balance
+ * 2. Stock card: per-medicine movements for a period with opening/closing balance
+ * 3. Background check every STOCK_RECONCILE_INTERVAL_MS flags medicines whose
+ *    denormalized currentStock differs from the sum of their batches
+ */
+@Injectable()
+export class StockLedgerService implements OnModuleInit, OnModuleDestroy {
+  private timer: NodeJS.Timeout;
+
+  constructor(
+    private prisma: PrismaService,
+    private stockService: StockService,
+    private queueGateway: QueueGateway,
+    private config: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    const interval = Number(this.config.get('STOCK_RECONCILE_INTERVAL_MS') || 3600000);
+
+    this.timer = setInterval(() => {
+      this.reconcile().catch((err) =>
+        console.error('❌ Stock reconciliation failed:', err),
+      );
+    }, interval);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * ⭐ Record a manual movement (return, adjustment, transfer)
+   */
+  async recordMovement(dto: RecordStockMovementDto, performedById: string) {
+    if (dto.quantity === 0) {
+      throw new BadRequestException('Quantity cannot be zero');
+    }
+
+    if (dto.type !== StockMovementType.ADJUSTMENT && dto.quantity < 0) {
+      throw new BadRequestException(`${dto.type} quantity must be positive`);
+    }
+
+    const batch = await this.prisma.medicineStock.findUnique({
+      where: { id: dto.batchId },
+    });
+
+    if (!batch) {
+      throw new NotFoundException(`Stock batch ${dto.batchId} not found`);
+    }
+
+    if (batch.status === BatchStatus.WRITTEN_OFF) {
+      throw new BadRequestException(`Batch ${batch.batchNumber} has been written off`);
+    }
+
+    const quantity = dto.type === StockMovementType.TRANSFER_OUT ? -dto.quantity : dto.quantity;
+
+    const updated = await this.stockService.runStockTransaction([batch.medicineId], (tx) =>
+      this.stockService.changeBatch(tx, batch.id, quantity, {
+        type: dto.type,
+        performedById,
+        reason: dto.reason,
+        referenceType: dto.referenceType,
+        referenceId: dto.referenceId,
+      }),
+    );
+
+    console.log(
+      `✅ ${dto.type} ${quantity > 0 ? '+' : ''}${quantity} on batch ${batch.batchNumber}: ${dto.reason}`,
+    );
+
+    return updated;
+  }
+
+  /**
+   * ⭐ Stock card: movements of one medicine in a period
+   * Opening balance is the balance after the last movement before the period
+   */
+  async getStockCard(medicineId: string, from: Date, to: Date) {
+    const medicine = await this.prisma.medicine.findUnique({
+      where: { id: medicineId },
+      select: { id: true, name: true, strength: true, type: true, currentStock: true },
+    });
+
+    if (!medicine) {
+      throw new NotFoundException(`Medicine ${medicineId} not found`);
+    }
+
+    const [previous, movements] = await Promise.all([
+      this.prisma.stockMovement.findFirst({
+        where: { medicineId, createdAt: { lt: from } },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      }),
+      this.prisma.stockMovement.findMany({
+        where: { medicineId, createdAt: { gte: from, lte: to } },
+        include: { performedBy: { select: { id: true, name: true } } },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      }),
+    ]);
+
+    const openingBalance = previous?.balanceAfter ?? 0;
+    const closingBalance = movements.length
+      ? movements[movements.length - 1].balanceAfter
+      : openingBalance;
+
+    // Net quantity per movement type for the period
+    const totals = Object.fromEntries(
+      Object.values(StockMovementType).map((type) => [type, 0]),
+    ) as Record<StockMovementType, number>;
+    movements.forEach((movement) => (totals[movement.type] += movement.quantity));
+
+    return {
+      medicine,
+      from,
+      to,
+      openingBalance,
+      totalIn: movements.filter((m) => m.quantity > 0).reduce((sum, m) => sum + m.quantity, 0),
+      totalOut: movements.filter((m) => m.quantity < 0).reduce((sum, m) => sum - m.quantity, 0),
+      closingBalance,
+      totals,
+      movements,
+    };
+  }
+
+  /**
+   * ⭐ Find medicines whose currentStock has drifted from their batch sum
+   * and flag them to the pharmacy queue and every active ADMIN
+   */
+  async reconcile(): Promise<StockDrift[]> {
+    const rows = await this.prisma.$queryRaw<
+      Array<{ id: string; name: string; currentStock: number; batchTotal: number }>
+    >`
+      SELECT m."id", m."name", m."currentStock",
+             COALESCE(SUM(s."quantity"), 0)::int AS "batchTotal"
+      FROM "medicines" m
+      LEFT JOIN "medicine_stock" s ON s."medicineId" = m."id"
+      GROUP BY m."id"
+      HAVING m."currentStock" <> COALESCE(SUM(s."quantity"), 0)
+      ORDER BY m."name"
+    `;
+
+    const drifts: StockDrift[] = rows.map((row) => ({
+      medicineId: row.id,
+      medicineName: row.name,
+      currentStock: row.currentStock,
+      batchTotal: row.batchTotal,
+      drift: row.currentStock - row.batchTotal,
+    }));
+
+    if (drifts.length === 0) {
+      return drifts;
+    }
+
+    const message =
+      `Stock drift on ${drifts.length} medicine(s): ` +
+      drifts
+        .map((d) => `${d.medicineName} shows ${d.currentStock}, batches hold ${d.batchTotal}`)
+        .join('; ');
+
+    this.queueGateway.broadcastToQueue('pharmacy', {
+      type: 'stock_drift',
+      message,
+      data: drifts,
+    });
+
+    const admins = await this.prisma.user.findMany({
+      where: { role: UserRole.ADMIN, isActive: true },
+      select: { id: true },
+    });
+    admins.forEach((admin) =>
+      this.queueGateway.notifyUser(admin.id, { type: 'stock_drift', message, data: drifts }),
+    );
+
+    console.log(`⚠️ ${message}`);
+
+    return drifts;
+  }
+
+  /**
+   * Reset a drifted medicine's currentStock to its batch sum
+   * Batch quantities (and so the ledger) are left untouched
+   */
+  async resyncMedicine(medicineId: string) {
+    const balance = await this.stockService.runStockTransaction([medicineId], (tx) =>
+      this.stockService.syncCurrentStock(tx, medicineId),
+    );
+
+    console.log(`✅ Medicine ${medicineId} currentStock reset to batch total ${balance}`);
+
+    return { medicineId, currentStock: balance };
+  }
+}
@@ -0,0 +1,340 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import { BatchStatus, Prisma } from '@prisma/client';
+import { StockService } from './stock.service';
+import { PharmacyService } from './pharmacy.service';
+import { ReorderService } from './reorder.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+/**
+ * In-memory model of the stock rows and the medicine lock
+ * - SELECT ... FROM "medicines" holds a lock on the medicine until the
+ *   transaction ends
+ * - The batch SELECT applies the status, expiry and ORDER BY clauses only
+ *   when StockService's SQL contains them, so dropping one fails the specs
+ * - Writes are kept per transaction and applied on commit, dropped on rollback
+ * - Every call yields, so concurrent transactions interleave
+ *
+ * These are unit tests of how StockService orders its locks, reads and
+ * writes. No test here (or elsewhere in the repo) runs concurrent dispensing
+ * against PostgreSQL; that stock never goes negative under real concurrency
+ * rests on the FOR UPDATE locks these specs check are taken, not on a test.
+ */
+interface BatchRow {
+  id: string;
+  medicineId: string;
+  batchNumber: string;
+  quantity: number;
+  expiryDate: Date;
+  status: BatchStatus;
+}
+
+type MovementRow = Prisma.StockMovementUncheckedCreateInput;
+
+interface FakeTx {
+  $queryRaw(strings: TemplateStringsArray, ...values: unknown[]): Promise<unknown[]>;
+  medicineStock: {
+    update(args: { where: { id: string }; data: { quantity: { decrement: number } } }): Promise<void>;
+    aggregate(args: { where: { medicineId: string } }): Promise<{ _sum: { quantity: number } }>;
+  };
+  medicine: {
+    update(args: { where: { id: string }; data: { currentStock: number } }): Promise<void>;
+  };
+  stockMovement: {
+    create(args: { data: MovementRow }): Promise<void>;
+  };
+}
+
+type TransactionOptions = { isolationLevel?: Prisma.TransactionIsolationLevel };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysFromNow = (days: number) => new Date(Date.now() + days * DAY_MS);
+
+function createStockDb(batches: BatchRow[]) {
+  const committed = new Map(batches.map((batch) => [batch.id, { ...batch }]));
+  const currentStock = new Map<string, number>();
+  const movements: MovementRow[] = [];
+  const queries: string[] = [];
+  const locks = new Map<string, Promise<void>>();
+  const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+  const lock = async (key: string) => {
+    const held = locks.get(key) || Promise.resolve();
+    let release!: () => void;
+    const next = new Promise<void>((resolve) => (release = resolve));
+    locks.set(key, held.then(() => next));
+    await held;
+    return release;
+  };
+
+  const $transaction = jest.fn(
+    async (fn: (tx: FakeTx) => Promise<unknown>, _options?: TransactionOptions): Promise<unknown> => {
+      const releases: (() => void)[] = [];
+      const writes = new Map<string, number>();
+      const stockWrites = new Map<string, number>();
+      const movementWrites: MovementRow[] = [];
+      const quantityOf = (id: string) => writes.get(id) ?? committed.get(id)!.quantity;
+
+      const tx: FakeTx = {
+        $queryRaw: async (strings, ...values) => {
+          await tick();
+          const sql = strings.join('?');
+          const medicineId = values[0] as string;
+          queries.push(sql);
+
+          if (sql.includes('FROM "medicines"')) {
+            releases.push(await lock(medicineId));
+            return [{ id: medicineId, name: `Medicine ${medicineId}` }];
+          }
+
+          let rows = [...committed.values()].filter(
+            (batch) => batch.medicineId === medicineId && quantityOf(batch.id) > 0,
+          );
+
+          if (sql.includes(`"status" = 'AVAILABLE'`)) {
+            rows = rows.filter((batch) => batch.status === BatchStatus.AVAILABLE);
+          }
+          if (sql.includes('"expiryDate" > ?')) {
+            const now = values[1] as Date;
+            rows = rows.filter((batch) => batch.expiryDate > now);
+          }
+          if (sql.includes('ORDER BY "expiryDate" ASC')) {
+            rows = [...rows].sort((a, b) => a.expiryDate.getTime() - b.expiryDate.getTime());
+          }
+
+          return rows.map((batch) => ({ ...batch, quantity: quantityOf(batch.id) }));
+        },
+        medicineStock: {
+          update: async ({ where, data }) => {
+            await tick();
+            writes.set(where.id, quantityOf(where.id) - data.quantity.decrement);
+          },
+          aggregate: async ({ where }) => {
+            await tick();
+            const sum = [...committed.values()]
+              .filter((batch) => batch.medicineId === where.medicineId)
+              .reduce((total, batch) => total + quantityOf(batch.id), 0);
+            return { _sum: { quantity: sum } };
+          },
+        },
+        medicine: {
+          update: async ({ where, data }) => {
+            await tick();
+            stockWrites.set(where.id, data.currentStock);
+          },
+        },
+        stockMovement: {
+          create: async ({ data }) => {
+            await tick();
+            movementWrites.push(data);
+          },
+        },
+      };
+
+      try {
+        const result = await fn(tx);
+        writes.forEach((quantity, id) => (committed.get(id)!.quantity = quantity));
+        stockWrites.forEach((stock, id) => currentStock.set(id, stock));
+        movements.push(...movementWrites);
+        return result;
+      } finally {
+        releases.forEach((release) => release());
+      }
+    },
+  );
+
+  return {
+    prisma: { $transaction },
+    quantity: (id: string) => committed.get(id)!.quantity,
+    currentStock: (medicineId: string) => currentStock.get(medicineId),
+    movements,
+    queries,
+  };
+}
+
+describe('StockService', () => {
+  let stockService: StockService;
+  let pharmacyService: PharmacyService;
+  let db: ReturnType<typeof createStockDb>;
+  let invalidateCache: jest.SpyInstance;
+
+  const setup = async (prisma: object) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StockService,
+        PharmacyService,
+        ReorderService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    stockService = module.get<StockService>(StockService);
+    pharmacyService = module.get<PharmacyService>(PharmacyService);
+    invalidateCache = jest.spyOn(stockService, 'invalidateCache').mockResolvedValue();
+  };
+
+  beforeEach(async () => {
+    // Listed latest-expiry first: FEFO order has to come from the query
+    db = createStockDb([
+      { id: 'b2', medicineId: 'med-1', batchNumber: 'B2', quantity: 12, expiryDate: daysFromNow(180), status: BatchStatus.AVAILABLE },
+      { id: 'b1', medicineId: 'med-1', batchNumber: 'B1', quantity: 8, expiryDate: daysFromNow(30), status: BatchStatus.AVAILABLE },
+    ]);
+    await setup(db.prisma);
+  });
+
+  describe('Dispensing under the medicine lock (in-memory model)', () => {
+    it('should lock the medicine row before reading its batches', async () => {
+      await pharmacyService.dispenseMedicine({ medicineId: 'med-1', quantity: 3 }, 'pharmacist-1');
+
+      expect(db.queries).toHaveLength(2);
+      expect(db.queries[0]).toMatch(/FROM "medicines"[\s\S]*FOR UPDATE/);
+      expect(db.queries[1]).toMatch(/FROM "medicine_stock"[\s\S]*FOR UPDATE/);
+    });
+
+    it('should skip expired and quarantined batches even when they expire first', async () => {
+      db = createStockDb([
+        { id: 'b0', medicineId: 'med-1', batchNumber: 'B0', quantity: 5, expiryDate: daysFromNow(-1), status: BatchStatus.AVAILABLE },
+        { id: 'bq', medicineId: 'med-1', batchNumber: 'BQ', quantity: 5, expiryDate: daysFromNow(10), status: BatchStatus.QUARANTINED },
+        { id: 'b2', medicineId: 'med-1', batchNumber: 'B2', quantity: 12, expiryDate: daysFromNow(180), status: BatchStatus.AVAILABLE },
+        { id: 'b1', medicineId: 'med-1', batchNumber: 'B1', quantity: 8, expiryDate: daysFromNow(30), status: BatchStatus.AVAILABLE },
+      ]);
+      await setup(db.prisma);
+
+      const result = await pharmacyService.dispenseMedicine({ medicineId: 'med-1', quantity: 10 }, 'pharmacist-1');
+
+      expect(result.batchesUsed).toEqual(['B1', 'B2']);
+      expect(db.quantity('b0')).toBe(5);
+      expect(db.quantity('bq')).toBe(5);
+
+      // Held but unsellable stock doesn't count towards the request
+      await expect(
+        pharmacyService.dispenseMedicine({ medicineId: 'med-1', quantity: 11 }, 'pharmacist-1'),
+      ).rejects.toThrow('Required: 11, Available: 10');
+    });
+
+    it('should not oversell when interleaved requests wait on the lock', async () => {
+      // 10 pharmacists x 3 units against 20 in stock
+      const results = await Promise.allSettled(
+        Array.from({ length: 10 }, () =>
+          pharmacyService.dispenseMedicine({ medicineId: 'med-1', quantity: 3 }, 'pharmacist-1'),
+        ),
+      );
+
+      const succeeded = results.filter((r) => r.status === 'fulfilled');
+      const failed = results.filter((r) => r.status === 'rejected');
+
+      expect(succeeded).toHaveLength(6);
+      expect(failed).toHaveLength(4);
+      failed.forEach((r) =>
+        expect((r as PromiseRejectedResult).reason).toBeInstanceOf(BadRequestException),
+      );
+
+      expect(db.quantity('b1')).toBe(0);
+      expect(db.quantity('b2')).toBe(2);
+      expect(db.currentStock('med-1')).toBe(2);
+
+      // Ledger holds exactly the committed dispenses
+      expect(db.movements.reduce((sum, m) => sum + m.quantity, 0)).toBe(-18);
+      expect(Math.min(...db.movements.map((m) => m.balanceAfter))).toBe(2);
+    });
+
+    it('should take the earliest expiring batch first across queued requests', async () => {
+      const [first, second] = await Promise.all([
+        pharmacyService.dispenseMedicine({ medicineId: 'med-1', quantity: 5 }, 'pharmacist-1'),
+        pharmacyService.dispenseMedicine({ medicineId: 'med-1', quantity: 5 }, 'pharmacist-1'),
+      ]);
+
+      expect(first.batchesUsed).toEqual(['B1']);
+      expect(second.batchesUsed).toEqual(['B1', 'B2']);
+      expect(second.remaining).toBe(10);
+    });
+
+    it('should write one DISPENSE movement per batch with the running balance', async () => {
+      await pharmacyService.dispenseMedicine(
+        { medicineId: 'med-1', quantity: 10, prescriptionId: 'rx-1' },
+        'pharmacist-1',
+      );
+
+      expect(db.movements).toEqual([
+        expect.objectContaining({
+          batchNumber: 'B1',
+          type: 'DISPENSE',
+          quantity: -8,
+          balanceAfter: 12,
+          performedById: 'pharmacist-1',
+          referenceType: 'PRESCRIPTION',
+          referenceId: 'rx-1',
+        }),
+        expect.objectContaining({ batchNumber: 'B2', quantity: -2, balanceAfter: 10 }),
+      ]);
+    });
+
+    it('should leave stock untouched when a request cannot be covered', async () => {
+      await expect(
+        pharmacyService.dispenseMedicine({ medicineId: 'med-1', quantity: 25 }, 'pharmacist-1'),
+      ).rejects.toThrow('Required: 25, Available: 20');
+
+      expect(db.quantity('b1')).toBe(8);
+      expect(db.quantity('b2')).toBe(12);
+      expect(db.movements).toHaveLength(0);
+    });
+  });
+
+  describe('runStockTransaction', () => {
+    it('should run SERIALIZABLE and invalidate the cache after commit', async () => {
+      const order: string[] = [];
+      db.prisma.$transaction.mockImplementationOnce(async (fn, options) => {
+        expect(options).toEqual({ isolationLevel: 'Serializable' });
+        const result = await fn({} as FakeTx);
+        order.push('commit');
+        return result;
+      });
+      invalidateCache.mockImplementation(async () => {
+        order.push('invalidate');
+      });
+
+      await stockService.runStockTransaction(['med-1', 'med-1'], async () => 'done');
+
+      expect(order).toEqual(['commit', 'invalidate']);
+      expect(invalidateCache).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not invalidate the cache when the transaction rolls back', async () => {
+      await expect(
+        stockService.runStockTransaction(['med-1'], async () => {
+          throw new BadRequestException('nope');
+        }),
+      ).rejects.toThrow('nope');
+
+      expect(invalidateCache).not.toHaveBeenCalled();
+    });
+
+    it('should retry on a serialization failure', async () => {
+      const conflict = new Prisma.PrismaClientKnownRequestError('write conflict', {
+        code: 'P2034',
+        clientVersion: '5.22.0',
+      });
+      db.prisma.$transaction.mockRejectedValueOnce(conflict);
+
+      const result = await pharmacyService.dispenseMedicine({ medicineId: 'med-1', quantity: 2 }, 'pharmacist-1');
+
+      expect(db.prisma.$transaction).toHaveBeenCalledTimes(2);
+      expect(result.remaining).toBe(18);
+    });
+
+    it('should give up after repeated serialization failures', async () => {
+      const conflict = new Prisma.PrismaClientKnownRequestError('write conflict', {
+        code: 'P2034',
+        clientVersion: '5.22.0',
+      });
+      db.prisma.$transaction.mockRejectedValue(conflict);
+
+      await expect(
+        stockService.runStockTransaction(['med-1'], async () => 'never'),
+      ).rejects.toBe(conflict);
+      expect(db.prisma.$transaction).toHaveBeenCalledTimes(3);
+    });
+  });
+});
@@ -1,11 +1,21 @@
-import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import {
+  Injectable,
+  OnModuleInit,
+  OnModuleDestroy,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { Prisma, StockMovementType } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { createClient, RedisClientType } from 'redis';
+import { allocateFifo, AllocatableBatch, BatchAllocation } from './utils/fifo-allocation';
+import { isSellable, sellableBatchWhere } from './utils/expiry';
+import { needsReorder } from './utils/reorder';
 
 export enum StockStatus {
-  IN_STOCK = 'IN_STOCK',       // > 10 units
-  LOW_STOCK = 'LOW_STOCK',     // 1-10 units
+  IN_STOCK = 'IN_STOCK',       // Above the medicine's reorder level
+  LOW_STOCK = 'LOW_STOCK',     // 1 unit up to the reorder level (or safety stock)
   OUT_OF_STOCK = 'OUT_OF_STOCK', // 0 units
 }
 
@@ -22,11 +32,27 @@ export interface StockInfo {
   }[];
 }
 
+// Who moved stock, why, and against which document
+export interface MovementContext {
+  performedById: string;
+  reason?: string;
+  referenceType?: string;
+  referenceId?: string;
+}
+
+export interface StockTaken {
+  medicineId: string;
+  medicineName: string;
+  allocations: BatchAllocation[];
+  remaining: number; // Batch sum after the decrement
+}
+
 @Injectable()
 export class StockService implements OnModuleInit, OnModuleDestroy {
   private redisClient: RedisClientType;
   private readonly CACHE_TTL = 30; // 30 seconds cache
   private readonly CACHE_PREFIX = 'stock:';
+  private readonly MAX_TX_ATTEMPTS = 3; // Retries on serialization failure
 
   constructor(
     private prisma: PrismaService,
@@ -96,7 +122,8 @@ export class StockService implements OnModuleInit, OnModuleDestroy {
   }
 
   /**
-   * Calculate stock from database (sum all batches)
+   * Calculate stock from database (sum of sellable batches)
+   * Expired and quarantined batches are physically held but not sellable
    */
   private async calculateStockFromDB(medicineId: string): Promise<StockInfo> {
     const medicine = await this.prisma.medicine.findUnique({
@@ -112,20 +139,20 @@ export class StockService implements OnModuleInit, OnModuleDestroy {
       throw new Error(`Medicine ${medicineId} not found`);
     }
 
-    // Sum all batches (accurate stock)
-    const totalStock = medicine.stockBatches.reduce(
+    const sellable = medicine.stockBatches.filter((batch) => isSellable(batch));
+    const totalStock = sellable.reduce(
       (sum, batch) => sum + batch.quantity,
       0,
     );
 
-    // Determine status and indicator
+    // Status against the medicine's own reorder level and safety stock
     let status: StockStatus;
     let indicator: '🟢' | '🟡' | '🔴';
 
     if (totalStock === 0) {
       status = StockStatus.OUT_OF_STOCK;
       indicator = '🔴';
-    } else if (totalStock <= 10) {
+    } else if (needsReorder(totalStock, medicine)) {
       status = StockStatus.LOW_STOCK;
       indicator = '🟡';
     } else {
@@ -139,7 +166,7 @@ export class StockService implements OnModuleInit, OnModuleDestroy {
       currentStock: totalStock,
       status,
       indicator,
-      batches: medicine.stockBatches.map((batch) => ({
+      batches: sellable.map((batch) => ({
         batchNumber: batch.batchNumber,
         quantity: batch.quantity,
         expiryDate: batch.expiryDate,
@@ -165,33 +192,32 @@ export class StockService implements OnModuleInit, OnModuleDestroy {
   }
 
   /**
-   * Get low stock medicines (for alerts)
+   * Get low stock medicines (for alerts): sellable stock at or below
+   * each medicine's reorder level / safety stock
    */
   async getLowStockMedicines(): Promise<StockInfo[]> {
+    const totals = await this.sellableTotals();
     const medicines = await this.prisma.medicine.findMany({
-      where: {
-        currentStock: {
-          lte: 10,
-          gt: 0,
-        },
-      },
-      include: {
-        stockBatches: true,
-      },
+      where: { isActive: true, id: { in: [...totals.keys()] } },
+      select: { id: true, reorderLevel: true, safetyStock: true },
     });
 
-    return Promise.all(
-      medicines.map((med) => this.getStockStatus(med.id)),
-    );
+    const lowIds = medicines
+      .filter((med) => needsReorder(totals.get(med.id) || 0, med))
+      .map((med) => med.id);
+
+    return Promise.all(lowIds.map((id) => this.getStockStatus(id)));
   }
 
   /**
-   * Get out-of-stock medicines
+   * Get out-of-stock medicines (nothing sellable, even if expired stock is held)
    */
   async getOutOfStockMedicines(): Promise<StockInfo[]> {
+    const totals = await this.sellableTotals();
     const medicines = await this.prisma.medicine.findMany({
       where: {
-        currentStock: 0,
+        isActive: true,
+        id: { notIn: [...totals.keys()] },
       },
     });
 
@@ -200,8 +226,284 @@ export class StockService implements OnModuleInit, OnModuleDestroy {
     );
   }
 
+  // Sellable quantity per medicine (medicines with none are absent)
+  private async sellableTotals(): Promise<Map<string, number>> {
+    const groups = await this.prisma.medicineStock.groupBy({
+      by: ['medicineId'],
+      where: sellableBatchWhere(),
+      _sum: { quantity: true },
+    });
+
+    return new Map(groups.map((group) => [group.medicineId, group._sum.quantity || 0]));
+  }
+
+  /**
+   * ⭐ Run a stock-changing transaction
+   *
+   * 1. SERIALIZABLE isolation; a serialization failure (P2034) is retried,
+   *    so the losing request re-reads the stock the winner left behind
+   * 2. The cache of every touched medicine is invalidated only after commit,
+   *    so a reader can't re-cache a value from a transaction that rolled back
+   */
+  async runStockTransaction<T>(
+    medicineIds: string[],
+    fn: (tx: Prisma.TransactionClient) => Promise<T>,
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await this.prisma.$transaction(fn, {
+          isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+        });
+
+        await Promise.all(
+          [...new Set(medicineIds)].map((id) => this.invalidateCache(id)),
+        );
+
+        return result;
+      } catch (error) {
+        const conflict =
+          error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034';
+
+        if (!conflict || attempt >= this.MAX_TX_ATTEMPTS) {
+          throw error;
+        }
+
+        console.log(`⚠️ Stock transaction conflict, retrying (attempt ${attempt + 1})`);
+      }
+    }
+  }
+
+  /**
+   * ⭐ Take stock FIFO inside a stock transaction
+   *
+   * The medicine row and its batch rows are locked (SELECT ... FOR UPDATE)
+   * before reading quantities, so concurrent dispenses of the same medicine
+   * queue up instead of both seeing the same stock. currentStock is reset
+   * to the batch sum rather than decremented, so it can't drift.
+   * Only sellable batches (available, unexpired) are taken.
+   * Each batch used writes a DISPENSE movement to the stock ledger.
+   * Lock several medicines in a consistent order (e.g. by id) to avoid deadlocks.
+   */
+  async takeStock(
+    tx: Prisma.TransactionClient,
+    medicineId: string,
+    quantity: number,
+    movement: MovementContext,
+  ): Promise<StockTaken> {
+    const medicine = await this.lockMedicine(tx, medicineId);
+
+    const batches = await tx.$queryRaw<AllocatableBatch[]>`
+      SELECT "id", "batchNumber", "quantity", "expiryDate" FROM "medicine_stock"
+      WHERE "medicineId" = ${medicineId} AND "quantity" > 0
+        AND "status" = 'AVAILABLE' AND "expiryDate" > ${new Date()}
+      ORDER BY "expiryDate" ASC
+      FOR UPDATE
+    `;
+
+    const { allocations, allocated, shortfall } = allocateFifo(batches, quantity);
+
+    if (shortfall > 0) {
+      throw new BadRequestException(
+        `Insufficient stock of ${medicine.name}. Required: ${quantity}, Available: ${allocated}`,
+      );
+    }
+
+    let balance = await this.batchTotal(tx, medicineId);
+
+    for (const allocation of allocations) {
+      await tx.medicineStock.update({
+        where: { id: allocation.batchId },
+        data: { quantity: { decrement: allocation.quantity } },
+      });
+
+      balance -= allocation.quantity;
+      await this.recordMovement(tx, {
+        medicineId,
+        batchId: allocation.batchId,
+        batchNumber: allocation.batchNumber,
+        type: StockMovementType.DISPENSE,
+        quantity: -allocation.quantity,
+        balanceAfter: balance,
+        ...movement,
+      });
+    }
+
+    await tx.medicine.update({
+      where: { id: medicineId },
+      data: { currentStock: balance },
+    });
+
+    return {
+      medicineId,
+      medicineName: medicine.name,
+      allocations,
+      remaining: balance,
+    };
+  }
+
+  /**
+   * ⭐ Receive stock into a batch inside a stock transaction
+   * A batch number already on file is topped up (its expiry must match)
+   */
+  async receiveStock(
+    tx: Prisma.TransactionClient,
+    batch: {
+      medicineId: string;
+      batchNumber: string;
+      quantity: number;
+      expiryDate: Date;
+      costPrice?: number;
+      supplierId?: string;
+    },
+    movement: MovementContext & { type?: StockMovementType },
+  ) {
+    await this.lockMedicine(tx, batch.medicineId);
+
+    const existing = await tx.medicineStock.findUnique({
+      where: {
+        medicineId_batchNumber: {
+          medicineId: batch.medicineId,
+          batchNumber: batch.batchNumber,
+        },
+      },
+    });
+
+    if (existing && existing.expiryDate.getTime() !== batch.expiryDate.getTime()) {
+      throw new BadRequestException(
+        `Batch ${batch.batchNumber} is on file with expiry ${existing.expiryDate.toDateString()}`,
+      );
+    }
+
+    const received = existing
+      ? await tx.medicineStock.update({
+          where: { id: existing.id },
+          data: {
+            quantity: { increment: batch.quantity },
+            costPrice: batch.costPrice ?? existing.costPrice,
+          },
+        })
+      : await tx.medicineStock.create({ data: batch });
+
+    const balance = await this.syncCurrentStock(tx, batch.medicineId);
+
+    await this.recordMovement(tx, {
+      medicineId: batch.medicineId,
+      batchId: received.id,
+      batchNumber: received.batchNumber,
+      quantity: batch.quantity,
+      balanceAfter: balance,
+      ...movement,
+      type: movement.type || StockMovementType.RECEIPT,
+    });
+
+    return received;
+  }
+
+  /**
+   * ⭐ Change one batch by a signed quantity inside a stock transaction
+   * (returns, count adjustments, write-offs, transfers)
+   */
+  async changeBatch(
+    tx: Prisma.TransactionClient,
+    batchId: string,
+    quantity: number,
+    movement: MovementContext & { type: StockMovementType },
+  ) {
+    const batch = await tx.medicineStock.findUnique({ where: { id: batchId } });
+
+    if (!batch) {
+      throw new NotFoundException(`Stock batch ${batchId} not found`);
+    }
+
+    const medicine = await this.lockMedicine(tx, batch.medicineId);
+
+    const [locked] = await tx.$queryRaw<Array<{ quantity: number }>>`
+      SELECT "quantity" FROM "medicine_stock"
+      WHERE "id" = ${batchId}
+      FOR UPDATE
+    `;
+
+    if (locked.quantity + quantity < 0) {
+      throw new BadRequestException(
+        `${medicine.name} batch ${batch.batchNumber} has ${locked.quantity}, cannot take ${-quantity}`,
+      );
+    }
+
+    const updated = await tx.medicineStock.update({
+      where: { id: batchId },
+      data: { quantity: { increment: quantity } },
+    });
+
+    const balance = await this.syncCurrentStock(tx, batch.medicineId);
+
+    await this.recordMovement(tx, {
+      medicineId: batch.medicineId,
+      batchId,
+      batchNumber: batch.batchNumber,
+      quantity,
+      balanceAfter: balance,
+      ...movement,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Reset Medicine.currentStock to the sum of its batches
+   */
+  async syncCurrentStock(tx: Prisma.TransactionClient, medicineId: string): Promise<number> {
+    await this.lockMedicine(tx, medicineId);
+    const balance = await this.batchTotal(tx, medicineId);
+
+    await tx.medicine.update({
+      where: { id: medicineId },
+      data: { currentStock: balance },
+    });
+
+    return balance;
+  }
+
+  private async lockMedicine(tx: Prisma.TransactionClient, medicineId: string) {
+    const [medicine] = await tx.$queryRaw<Array<{ id: string; name: string }>>`
+      SELECT "id", "name" FROM "medicines"
+      WHERE "id" = ${medicineId}
+      FOR UPDATE
+    `;
+
+    if (!medicine) {
+      throw new NotFoundException(`Medicine ${medicineId} not found`);
+    }
+
+    return medicine;
+  }
+
+  private async batchTotal(tx: Prisma.TransactionClient, medicineId: string): Promise<number> {
+    const { _sum } = await tx.medicineStock.aggregate({
+      where: { medicineId },
+      _sum: { quantity: true },
+    });
+
+    return _sum.quantity || 0;
+  }
+
+  // Ledger rows are only ever created, never updated or deleted
+  private async recordMovement(
+    tx: Prisma.TransactionClient,
+    entry: MovementContext & {
+      medicineId: string;
+      batchId: string;
+      batchNumber: string;
+      type: StockMovementType;
+      quantity: number;
+      balanceAfter: number;
+    },
+  ) {
+    await tx.stockMovement.create({ data: entry });
+  }
+
   /**
    * Check if medicine has sufficient stock
+   * Advisory only (cached value); dispensing re-checks under lock
    */
   async hasSufficientStock(
     medicineId: string,
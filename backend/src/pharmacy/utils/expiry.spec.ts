@@ -0,0 +1,32 @@
+import { daysToExpiry, expiryWindow, isSellable } from './expiry';
+
+describe('Batch expiry', () => {
+  const now = new Date('2024-07-10T10:00:00');
+  const inDays = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+  it('should count whole days to expiry, negative once expired', () => {
+    expect(daysToExpiry(inDays(45), now)).toBe(45);
+    expect(daysToExpiry(inDays(-2), now)).toBe(-2);
+  });
+
+  it('should place batches in the first 30/60/90-day window', () => {
+    expect(expiryWindow(inDays(5), now)).toBe(30);
+    expect(expiryWindow(inDays(29), now)).toBe(30);
+    expect(expiryWindow(inDays(30), now)).toBe(60);
+    expect(expiryWindow(inDays(75), now)).toBe(90);
+    expect(expiryWindow(inDays(120), now)).toBeNull();
+  });
+
+  it('should leave expired batches out of the near-expiry windows', () => {
+    expect(expiryWindow(inDays(-1), now)).toBeNull();
+  });
+
+  it('should only sell available, unexpired batches with stock', () => {
+    const batch = { status: 'AVAILABLE' as const, quantity: 10, expiryDate: inDays(10) };
+
+    expect(isSellable(batch, now)).toBe(true);
+    expect(isSellable({ ...batch, expiryDate: now }, now)).toBe(false);
+    expect(isSellable({ ...batch, quantity: 0 }, now)).toBe(false);
+    expect(isSellable({ ...batch, status: 'QUARANTINED' }, now)).toBe(false);
+  });
+});
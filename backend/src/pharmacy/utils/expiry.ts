@@ -0,0 +1,61 @@
+/**
+ * Batch expiry rules
+ *
+ * 1. A batch is sellable while AVAILABLE, holding stock and not yet expired
+ *    (a batch expiring today is no longer sold)
+ * 2. Near-expiry windows are 30/60/90 days; each batch falls in the
+ *    first window that contains its expiry date
+ */
+
+import { BatchStatus, Prisma } from '@prisma/client';
+
+export const EXPIRY_WINDOWS = [30, 60, 90] as const;
+
+export type ExpiryWindow = (typeof EXPIRY_WINDOWS)[number];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Whole days from now until expiry; negative once expired
+ */
+export function daysToExpiry(expiryDate: Date, now: Date = new Date()): number {
+  return Math.floor((expiryDate.getTime() - now.getTime()) / DAY);
+}
+
+export function isExpired(expiryDate: Date, now: Date = new Date()): boolean {
+  return expiryDate.getTime() <= now.getTime();
+}
+
+export function isSellable(
+  batch: { status: BatchStatus; quantity: number; expiryDate: Date },
+  now: Date = new Date(),
+): boolean {
+  return (
+    batch.status === BatchStatus.AVAILABLE &&
+    batch.quantity > 0 &&
+    !isExpired(batch.expiryDate, now)
+  );
+}
+
+/**
+ * Prisma filter for sellable batches (same rule as isSellable)
+ */
+export function sellableBatchWhere(now: Date = new Date()): Prisma.MedicineStockWhereInput {
+  return {
+    status: BatchStatus.AVAILABLE,
+    quantity: { gt: 0 },
+    expiryDate: { gt: now },
+  };
+}
+
+/**
+ * Near-expiry window of a batch, or null when expired / further out than 90 days
+ */
+export function expiryWindow(expiryDate: Date, now: Date = new Date()): ExpiryWindow | null {
+  if (isExpired(expiryDate, now)) {
+    return null;
+  }
+
+  const days = daysToExpiry(expiryDate, now);
+  return EXPIRY_WINDOWS.find((window) => days < window) ?? null;
+}
@@ -0,0 +1,46 @@
+import { allocateFifo } from './fifo-allocation';
+
+describe('FIFO allocation', () => {
+  const batch = (id: string, quantity: number, expiry: string) => ({
+    id,
+    batchNumber: id.toUpperCase(),
+    quantity,
+    expiryDate: new Date(expiry),
+  });
+
+  it('should take from the earliest expiring batch first', () => {
+    const result = allocateFifo(
+      [batch('b2', 50, '2026-12-31'), batch('b1', 10, '2026-06-30')],
+      25,
+    );
+
+    expect(result.allocations).toEqual([
+      { batchId: 'b1', batchNumber: 'B1', quantity: 10 },
+      { batchId: 'b2', batchNumber: 'B2', quantity: 15 },
+    ]);
+    expect(result).toMatchObject({ allocated: 25, shortfall: 0 });
+  });
+
+  it('should skip empty batches', () => {
+    const result = allocateFifo(
+      [batch('b1', 0, '2026-01-31'), batch('b2', 5, '2026-06-30')],
+      5,
+    );
+
+    expect(result.allocations).toEqual([{ batchId: 'b2', batchNumber: 'B2', quantity: 5 }]);
+  });
+
+  it('should report what the batches cannot cover', () => {
+    const result = allocateFifo([batch('b1', 4, '2026-06-30')], 10);
+
+    expect(result).toMatchObject({ allocated: 4, shortfall: 6 });
+  });
+
+  it('should allocate nothing for a zero quantity', () => {
+    expect(allocateFifo([batch('b1', 4, '2026-06-30')], 0)).toEqual({
+      allocations: [],
+      allocated: 0,
+      shortfall: 0,
+    });
+  });
+});
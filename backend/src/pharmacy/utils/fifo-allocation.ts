@@ -0,0 +1,50 @@
+/**
+ * FIFO (first-expiry, first-out) batch allocation
+ *
+ * 1. Batches are consumed in expiry order, earliest first
+ * 2. Empty batches are skipped
+ * 3. Whatever the batches can't cover is returned as the shortfall;
+ *    callers decide whether a shortfall is an error
+ */
+
+export interface AllocatableBatch {
+  id: string;
+  batchNumber: string;
+  quantity: number;
+  expiryDate: Date;
+}
+
+export interface BatchAllocation {
+  batchId: string;
+  batchNumber: string;
+  quantity: number;
+}
+
+export interface FifoAllocation {
+  allocations: BatchAllocation[];
+  allocated: number;
+  shortfall: number;
+}
+
+export function allocateFifo(batches: AllocatableBatch[], quantity: number): FifoAllocation {
+  const ordered = [...batches]
+    .filter((batch) => batch.quantity > 0)
+    .sort((a, b) => a.expiryDate.getTime() - b.expiryDate.getTime());
+
+  const allocations: BatchAllocation[] = [];
+  let remaining = quantity;
+
+  for (const batch of ordered) {
+    if (remaining <= 0) break;
+
+    const take = Math.min(batch.quantity, remaining);
+    allocations.push({ batchId: batch.id, batchNumber: batch.batchNumber, quantity: take });
+    remaining -= take;
+  }
+
+  return {
+    allocations,
+    allocated: quantity - remaining,
+    shortfall: remaining,
+  };
+}
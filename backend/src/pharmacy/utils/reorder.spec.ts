@@ -0,0 +1,80 @@
+import {
+  daysOfCover,
+  lowStockThreshold,
+  needsReorder,
+  suggestReorderQuantity,
+} from './reorder';
+
+describe('Reorder rules', () => {
+  const base = {
+    stock: 4,
+    onOrder: 0,
+    reorderLevel: 10,
+    safetyStock: 0,
+    avgDailyConsumption: 0,
+    leadTimeDays: 7,
+    reviewDays: 14,
+  };
+
+  describe('needsReorder', () => {
+    it('should reorder at or below the reorder level', () => {
+      const thresholds = { reorderLevel: 10, safetyStock: 0 };
+
+      expect(needsReorder(11, thresholds)).toBe(false);
+      expect(needsReorder(10, thresholds)).toBe(true);
+      expect(needsReorder(0, thresholds)).toBe(true);
+    });
+
+    it('should use the safety stock when it is above the reorder level', () => {
+      const thresholds = { reorderLevel: 10, safetyStock: 25 };
+
+      expect(lowStockThreshold(thresholds)).toBe(25);
+      expect(needsReorder(20, thresholds)).toBe(true);
+    });
+  });
+
+  describe('daysOfCover', () => {
+    it('should divide stock by daily consumption', () => {
+      expect(daysOfCover(30, 4)).toBe(7);
+      expect(daysOfCover(0, 4)).toBe(0);
+    });
+
+    it('should be null without consumption', () => {
+      expect(daysOfCover(30, 0)).toBeNull();
+    });
+  });
+
+  describe('suggestReorderQuantity', () => {
+    it('should top up to twice the reorder level without history', () => {
+      expect(suggestReorderQuantity(base)).toBe(16);
+    });
+
+    it('should cover lead time and review period demand plus safety stock', () => {
+      // 5/day x (7 + 14) days = 105, + 20 safety = 125 target
+      const quantity = suggestReorderQuantity({
+        ...base,
+        avgDailyConsumption: 5,
+        safetyStock: 20,
+      });
+
+      expect(quantity).toBe(121);
+    });
+
+    it('should round part-units of demand up', () => {
+      // 0.5/day x 21 days = 10.5 -> 11; floor of 2 x 5 = 10 is lower
+      const quantity = suggestReorderQuantity({
+        ...base,
+        stock: 0,
+        reorderLevel: 5,
+        avgDailyConsumption: 0.5,
+      });
+
+      expect(quantity).toBe(11);
+    });
+
+    it('should net off stock already on order', () => {
+      expect(suggestReorderQuantity({ ...base, onOrder: 10 })).toBe(6);
+      expect(suggestReorderQuantity({ ...base, onOrder: 20 })).toBe(0);
+    });
+  });
+});
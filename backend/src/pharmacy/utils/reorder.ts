@@ -0,0 +1,50 @@
+/**
+ * Reorder rules
+ *
+ * 1. A medicine is low on stock once its sellable stock is at or below its
+ *    reorder level (or its safety stock, if that is set higher)
+ * 2. Suggested order: enough to cover average daily consumption over the
+ *    supplier lead time plus one review period, plus safety stock, less what
+ *    is in stock and on open orders. The target is never below twice the
+ *    reorder level, which is also what applies without dispensing history
+ * 3. Days of cover: sellable stock / average daily consumption
+ */
+
+export interface ReorderThresholds {
+  reorderLevel: number;
+  safetyStock: number;
+}
+
+export interface ReorderInput extends ReorderThresholds {
+  stock: number;
+  onOrder: number;
+  avgDailyConsumption: number;
+  leadTimeDays: number;
+  reviewDays: number;
+}
+
+export function lowStockThreshold(thresholds: ReorderThresholds): number {
+  return Math.max(thresholds.reorderLevel, thresholds.safetyStock);
+}
+
+export function needsReorder(stock: number, thresholds: ReorderThresholds): boolean {
+  return stock <= lowStockThreshold(thresholds);
+}
+
+/**
+ * Whole days the stock lasts at the current rate; null with no consumption
+ */
+export function daysOfCover(stock: number, avgDailyConsumption: number): number | null {
+  if (avgDailyConsumption <= 0) {
+    return null;
+  }
+
+  return Math.floor(stock / avgDailyConsumption);
+}
+
+export function suggestReorderQuantity(input: ReorderInput): number {
+  const demand = Math.ceil(input.avgDailyConsumption * (input.leadTimeDays + input.reviewDays));
+  const target = Math.max(demand + input.safetyStock, 2 * input.reorderLevel);
+
+  return Math.max(target - input.stock - input.onOrder, 0);
+}
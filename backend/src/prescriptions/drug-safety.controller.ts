@@ -0,0 +1,104 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  UseGuards,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { DrugSafetyService } from './drug-safety.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import {
+  CheckDrugSafetyDto,
+  CreateContraindicationDto,
+  CreateInteractionDto,
+} from './dto/drug-safety.dto';
+
+/**
+ * DrugSafetyController
+ *
+ * Endpoints:
+ * - POST /api/drug-safety/check - Interaction and allergy alerts for a draft prescription
+ * - GET /api/drug-safety/interactions - Interaction knowledge base
+ * - POST /api/drug-safety/interactions - Add or update an interaction
+ * - GET /api/drug-safety/contraindications - Allergy contraindications
+ * - POST /api/drug-safety/contraindications - Add or update a contraindication
+ */
+@Controller('drug-safety')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class DrugSafetyController {
+  constructor(
+    private readonly drugSafetyService: DrugSafetyService,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  /**
+   * ⭐ Check medicines against each other, active prescriptions and allergies
+   * POST /api/drug-safety/check
+   */
+  @Post('check')
+  @Roles(UserRole.DOCTOR)
+  async check(@Body() dto: CheckDrugSafetyDto) {
+    let patientId = dto.patientId;
+
+    if (dto.visitId) {
+      const visit = await this.prisma.visit.findUnique({
+        where: { id: dto.visitId },
+        select: { patientId: true },
+      });
+
+      if (!visit) {
+        throw new NotFoundException('Visit not found');
+      }
+
+      patientId = visit.patientId;
+    }
+
+    if (!patientId) {
+      throw new BadRequestException('visitId or patientId is required');
+    }
+
+    return this.drugSafetyService.checkPrescription(patientId, dto.medicineIds);
+  }
+
+  /**
+   * GET /api/drug-safety/interactions
+   */
+  @Get('interactions')
+  @Roles(UserRole.DOCTOR, UserRole.PHARMACIST, UserRole.ADMIN)
+  async getInteractions() {
+    return this.drugSafetyService.getInteractions();
+  }
+
+  /**
+   * POST /api/drug-safety/interactions
+   */
+  @Post('interactions')
+  @Roles(UserRole.ADMIN)
+  async upsertInteraction(@Body() dto: CreateInteractionDto) {
+    return this.drugSafetyService.upsertInteraction(dto);
+  }
+
+  /**
+   * GET /api/drug-safety/contraindications
+   */
+  @Get('contraindications')
+  @Roles(UserRole.DOCTOR, UserRole.PHARMACIST, UserRole.ADMIN)
+  async getContraindications() {
+    return this.drugSafetyService.getContraindications();
+  }
+
+  /**
+   * POST /api/drug-safety/contraindications
+   */
+  @Post('contraindications')
+  @Roles(UserRole.ADMIN)
+  async upsertContraindication(@Body() dto: CreateContraindicationDto) {
+    return this.drugSafetyService.upsertContraindication(dto);
+  }
+}
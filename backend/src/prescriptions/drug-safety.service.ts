@@ -0,0 +1,203 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { InteractionSeverity } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  ActiveDrug,
+  SafetyAlert,
+  checkDrugSafety,
+  interactionPair,
+  normalizeGeneric,
+  parseAllergies,
+} from './utils/drug-safety';
+import { CreateContraindicationDto, CreateInteractionDto } from './dto/drug-safety.dto';
+
+// Longest course we look back over for active prescriptions
+const ACTIVE_LOOKBACK_DAYS = 90;
+
+/**
+ * DrugSafetyService - Interaction and allergy checks when prescribing
+ *
+ * 1. Allergies: everything nurses have recorded in Vitals.allergies for the patient
+ * 2. Active prescriptions: items whose course (prescribed date + duration days)
+ *    hasn't ended yet
+ * 3. MAJOR alerts block the prescription unless the doctor documents an
+ *    override reason; every alert is stored against the prescription
+ */
+@Injectable()
+export class DrugSafetyService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * ⭐ Check medicines about to be prescribed for a patient
+   * @param excludePrescriptionId Don't treat this prescription's items as active
+   */
+  async checkPrescription(
+    patientId: string,
+    medicineIds: string[],
+    options: { excludePrescriptionId?: string; now?: Date } = {},
+  ) {
+    const now = options.now || new Date();
+    const since = new Date(now.getTime() - ACTIVE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+    const [medicines, vitals, recent, interactions, contraindications] = await Promise.all([
+      this.prisma.medicine.findMany({
+        where: { id: { in: medicineIds } },
+        select: { id: true, name: true, strength: true, genericName: true },
+      }),
+      this.prisma.vitals.findMany({
+        where: { patientId, allergies: { not: null } },
+        select: { allergies: true },
+      }),
+      this.prisma.prescription.findMany({
+        where: {
+          patientId,
+          createdAt: { gte: since },
+          ...(options.excludePrescriptionId && { id: { not: options.excludePrescriptionId } }),
+        },
+        select: {
+          id: true,
+          createdAt: true,
+          items: {
+            select: {
+              duration: true,
+              medicine: { select: { id: true, name: true, strength: true, genericName: true } },
+            },
+          },
+        },
+      }),
+      this.prisma.drugInteraction.findMany(),
+      this.prisma.drugContraindication.findMany(),
+    ]);
+
+    const missing = medicineIds.filter((id) => !medicines.some((med) => med.id === id));
+    if (missing.length > 0) {
+      throw new NotFoundException(`Medicine(s) not found: ${missing.join(', ')}`);
+    }
+
+    const label = (medicine: { name: string; strength: string | null }) =>
+      medicine.strength ? `${medicine.name} ${medicine.strength}` : medicine.name;
+
+    const activeDrugs: ActiveDrug[] = recent.flatMap((prescription) =>
+      prescription.items
+        .filter(
+          (item) =>
+            prescription.createdAt.getTime() + item.duration * 24 * 60 * 60 * 1000 > now.getTime(),
+        )
+        .map((item) => ({
+          prescriptionId: prescription.id,
+          medicineId: item.medicine.id,
+          medicineName: label(item.medicine),
+          genericName: item.medicine.genericName,
+        })),
+    );
+
+    const allergies = parseAllergies(vitals.map((v) => v.allergies));
+
+    const alerts = checkDrugSafety({
+      newDrugs: medicineIds.map((id) => {
+        const medicine = medicines.find((med) => med.id === id)!;
+        return { medicineId: id, medicineName: label(medicine), genericName: medicine.genericName };
+      }),
+      activeDrugs,
+      allergies,
+      interactions,
+      contraindications,
+    });
+
+    return {
+      allergies,
+      alerts,
+      requiresOverride: alerts.some((alert) => alert.severity === InteractionSeverity.MAJOR),
+    };
+  }
+
+  /**
+   * ⭐ Check before saving a prescription
+   * Throws on MAJOR alerts without an override reason; returns the alert rows to store
+   */
+  async assertSafeToPrescribe(
+    patientId: string,
+    medicineIds: string[],
+    override: { reason?: string; doctorId: string; excludePrescriptionId?: string },
+  ) {
+    const { alerts } = await this.checkPrescription(patientId, medicineIds, {
+      excludePrescriptionId: override.excludePrescriptionId,
+    });
+
+    const major = alerts.filter((alert) => alert.severity === InteractionSeverity.MAJOR);
+    const reason = override.reason?.trim();
+
+    if (major.length > 0 && !reason) {
+      throw new BadRequestException(
+        `Major drug safety alert(s) need an override reason: ${major
+          .map((alert) => `${alert.medicines} - ${alert.message}`)
+          .join('; ')}`,
+      );
+    }
+
+    if (major.length > 0) {
+      console.log(`⚠️ ${major.length} major drug safety alert(s) overridden by doctor ${override.doctorId}: ${reason}`);
+    }
+
+    return alerts.map((alert) => this.toAlertRow(alert, reason, override.doctorId));
+  }
+
+  async getInteractions() {
+    return this.prisma.drugInteraction.findMany({
+      orderBy: [{ genericA: 'asc' }, { genericB: 'asc' }],
+    });
+  }
+
+  async getContraindications() {
+    return this.prisma.drugContraindication.findMany({
+      orderBy: [{ allergen: 'asc' }, { genericName: 'asc' }],
+    });
+  }
+
+  /**
+   * Add or update an interaction (one row per generic pair)
+   */
+  async upsertInteraction(dto: CreateInteractionDto) {
+    const [genericA, genericB] = interactionPair(dto.genericA, dto.genericB);
+
+    if (genericA === genericB) {
+      throw new BadRequestException('An interaction needs two different generics');
+    }
+
+    const data = { severity: dto.severity, effect: dto.effect, management: dto.management };
+
+    return this.prisma.drugInteraction.upsert({
+      where: { genericA_genericB: { genericA, genericB } },
+      create: { genericA, genericB, ...data },
+      update: data,
+    });
+  }
+
+  /**
+   * Add or update an allergy contraindication
+   */
+  async upsertContraindication(dto: CreateContraindicationDto) {
+    const allergen = normalizeGeneric(dto.allergen);
+    const genericName = normalizeGeneric(dto.genericName);
+    const data = { severity: dto.severity, reaction: dto.reaction };
+
+    return this.prisma.drugContraindication.upsert({
+      where: { allergen_genericName: { allergen, genericName } },
+      create: { allergen, genericName, ...data },
+      update: data,
+    });
+  }
+
+  private toAlertRow(alert: SafetyAlert, reason: string | undefined, doctorId: string) {
+    const overridden = alert.severity === InteractionSeverity.MAJOR;
+
+    return {
+      type: alert.type,
+      severity: alert.severity,
+      medicines: alert.medicines,
+      message: alert.message,
+      overrideReason: overridden ? reason : null,
+      overriddenById: overridden ? doctorId : null,
+    };
+  }
+}
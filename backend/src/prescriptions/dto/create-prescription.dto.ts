@@ -1,21 +1,88 @@
-import { IsUUID, IsOptional, IsString, IsArray, ValidateNested,IsNumber } from 'class-validator';
+import {
+  IsOptional,
+  IsString,
+  IsArray,
+  ValidateNested,
+  IsNumber,
+  IsEnum,
+  IsInt,
+  Min,
+  Matches,
+} from 'class-validator';
 import { Type } from 'class-transformer';
+import {
+  DoseRoute,
+  DoseUnit,
+  DurationUnit,
+  FoodTiming,
+  FrequencyCode,
+} from '@prisma/client';
 
+/**
+ * A prescription line: the structured sig, or (older clients) free-text
+ * dosage/frequency/duration that is parsed into one
+ */
 export class PrescriptionItemDto {
-  @IsUUID()
+  @IsString()
   medicineId: string;
 
+  @IsOptional()
+  @IsNumber()
+  quantity?: number; // Ignored: calculated from the sig
+
+  // Structured sig
+  @IsOptional()
   @IsNumber()
-  quantity: number;
+  @Min(0.01)
+  doseAmount?: number; // e.g., 1, 0.5, 5
+
+  @IsOptional()
+  @IsEnum(DoseUnit)
+  doseUnit?: DoseUnit;
+
+  @IsOptional()
+  @IsEnum(FrequencyCode)
+  frequencyCode?: FrequencyCode;
+
+  @IsOptional()
+  @IsArray()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { each: true, message: 'customTimes must be HH:mm' })
+  customTimes?: string[]; // CUSTOM: e.g., ["08:00", "20:00"]
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  sosMaxPerDay?: number;
+
+  @IsOptional()
+  @IsEnum(DoseRoute)
+  route?: DoseRoute;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  durationValue?: number;
 
+  @IsOptional()
+  @IsEnum(DurationUnit)
+  durationUnit?: DurationUnit;
+
+  @IsOptional()
+  @IsEnum(FoodTiming)
+  foodTiming?: FoodTiming;
+
+  // Free text (older clients)
+  @IsOptional()
   @IsString()
-  dosage: string; // e.g., "1 tablet", "5ml"
+  dosage?: string; // e.g., "1 tablet", "5ml", "1-0-1"
 
+  @IsOptional()
   @IsString()
-  frequency: string; // e.g., "3 times daily", "Twice a day"
+  frequency?: string; // e.g., "3 times daily", "Twice a day", "SOS"
 
+  @IsOptional()
   @IsString()
-  duration: string; // e.g., "5 days", "2 weeks"
+  duration?: string; // e.g., "5 days", "2 weeks"
 
   @IsOptional()
   @IsString()
@@ -23,8 +90,8 @@ export class PrescriptionItemDto {
 }
 
 export class CreatePrescriptionDto {
-  @IsUUID()
-  patientId: string;
+  @IsString()
+  visitId: string; // Prescriptions belong to the encounter, not the patient
 
   @IsOptional()
   @IsString()
@@ -38,4 +105,15 @@ export class CreatePrescriptionDto {
   @ValidateNested({ each: true })
   @Type(() => PrescriptionItemDto)
   items: PrescriptionItemDto[];
+
+  @IsOptional()
+  @IsString()
+  overrideReason?: string; // Required when there are major interaction/allergy alerts
+}
+
+export class PreviewSigDto {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PrescriptionItemDto)
+  items: PrescriptionItemDto[];
 }
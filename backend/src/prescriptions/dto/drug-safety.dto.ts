@@ -0,0 +1,54 @@
+import { ArrayMinSize, IsArray, IsEnum, IsOptional, IsString, MinLength } from 'class-validator';
+import { InteractionSeverity } from '@prisma/client';
+
+export class CheckDrugSafetyDto {
+  @IsOptional()
+  @IsString()
+  visitId?: string; // Patient is taken from the visit
+
+  @IsOptional()
+  @IsString()
+  patientId?: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  medicineIds: string[];
+}
+
+export class CreateInteractionDto {
+  @IsString()
+  @MinLength(2)
+  genericA: string;
+
+  @IsString()
+  @MinLength(2)
+  genericB: string;
+
+  @IsEnum(InteractionSeverity)
+  severity: InteractionSeverity;
+
+  @IsString()
+  effect: string; // e.g. "Additive QT prolongation"
+
+  @IsOptional()
+  @IsString()
+  management?: string;
+}
+
+export class CreateContraindicationDto {
+  @IsString()
+  @MinLength(2)
+  allergen: string; // Substance or class, e.g. "penicillin", "nsaid"
+
+  @IsString()
+  @MinLength(2)
+  genericName: string;
+
+  @IsEnum(InteractionSeverity)
+  severity: InteractionSeverity;
+
+  @IsOptional()
+  @IsString()
+  reaction?: string;
+}
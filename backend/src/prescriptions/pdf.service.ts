@@ -2,6 +2,7 @@ import { Injectable } from '@nestjs/common';
 import PDFDocument from 'pdfkit';
 import { Response } from 'express';
 import { PrismaService } from '../prisma/prisma.service';
+import { formatSig, sigFromItem } from './utils/sig';
 
 @Injectable()
 export class PdfService {
@@ -15,7 +16,8 @@ export class PdfService {
     const prescription = await this.prisma.prescription.findUnique({
       where: { id: prescriptionId },
       include: {
-        patient: {
+        patient: true,
+        visit: {
           include: {
             vitals: true,
           },
@@ -43,7 +45,7 @@ export class PdfService {
     res.setHeader('Content-Type', 'application/pdf');
     res.setHeader(
       'Content-Disposition',
-      `attachment; filename=prescription_${prescription.patient.token}_${Date.now()}.pdf`,
+      `attachment; filename=prescription_${prescription.visit.token}_${Date.now()}.pdf`,
     );
 
     // Pipe PDF to response
@@ -107,7 +109,7 @@ export class PdfService {
       .text(`Name: ${prescription.patient.name}`, 60, yPosition + 30)
       .text(`Age: ${prescription.patient.age} | Gender: ${prescription.patient.gender}`, 60, yPosition + 45)
       .text(`Mobile: ${prescription.patient.mobile}`, 60, yPosition + 60)
-      .text(`Token: #${prescription.patient.token}`, 60, yPosition + 75);
+      .text(`Token: #${prescription.visit.token}`, 60, yPosition + 75);
 
     // Doctor Info Box
     doc
@@ -131,8 +133,8 @@ export class PdfService {
     yPosition += 120;
 
     // ========== VITALS (if available) ==========
-    if (prescription.patient.vitals) {
-      const vitals = prescription.patient.vitals;
+    if (prescription.visit.vitals) {
+      const vitals = prescription.visit.vitals;
 
       doc
         .fontSize(12)
@@ -203,6 +205,12 @@ export class PdfService {
     prescription.items.forEach((item, index) => {
       const rowColor = index % 2 === 0 ? '#F9FAFB' : '#FFFFFF';
 
+      // Structured sigs render as in the builder; older items print as written
+      const sig = sigFromItem(item);
+      const rendered = sig
+        ? formatSig(sig)
+        : { dosage: item.dosage, frequency: item.frequency || '', duration: `${item.duration} days`, text: null };
+
       doc
         .rect(50, yPosition, 495, 30)
         .fillAndStroke(rowColor, '#E5E7EB');
@@ -212,19 +220,20 @@ export class PdfService {
         .font('Helvetica')
         .fillColor('#1F2937')
         .text(item.medicine.name, 60, yPosition + 10, { width: 150 })
-        .text(item.dosage, 220, yPosition + 10, { width: 80 })
-        .text(String(item.frequency), 310, yPosition + 10, { width: 100 })
-        .text(String(item.duration), 420, yPosition + 10, { width: 100 });
+        .text(rendered.dosage, 220, yPosition + 10, { width: 80 })
+        .text(rendered.frequency, 310, yPosition + 10, { width: 100 })
+        .text(rendered.duration, 420, yPosition + 10, { width: 100 });
 
       yPosition += 30;
 
-      // Instructions (if any)
-      if (item.instructions) {
+      // Full sig and instructions (if any)
+      const note = [rendered.text, item.instructions].filter(Boolean).join(' - ');
+      if (note) {
         doc
           .fontSize(8)
           .font('Helvetica-Oblique')
           .fillColor('#6B7280')
-          .text(`Note: ${item.instructions}`, 60, yPosition, { width: 475 });
+          .text(rendered.text ? note : `Note: ${note}`, 60, yPosition, { width: 475 });
 
         yPosition += 20;
       }
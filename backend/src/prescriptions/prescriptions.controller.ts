@@ -16,7 +16,7 @@ import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { UserRole } from '@prisma/client';
-import { CreatePrescriptionDto } from './dto/create-prescription.dto';
+import { CreatePrescriptionDto, PreviewSigDto } from './dto/create-prescription.dto';
 import { AddPrescriptionItemDto } from './dto/add-item.dto';
 
 @Controller('prescriptions')
@@ -40,6 +40,16 @@ export class PrescriptionsController {
     return this.prescriptionsService.createPrescription(createDto, user.id);
   }
 
+  /**
+   * Render sigs and dispense quantities for the prescription builder
+   * POST /api/prescriptions/sig-preview
+   */
+  @Post('sig-preview')
+  @Roles(UserRole.DOCTOR)
+  async previewSigs(@Body() previewDto: PreviewSigDto) {
+    return this.prescriptionsService.previewSigs(previewDto.items);
+  }
+
   /**
    * Add item to existing prescription
    * POST /api/prescriptions/:id/items
@@ -49,10 +59,12 @@ export class PrescriptionsController {
   async addItem(
     @Param('id') prescriptionId: string,
     @Body() addItemDto: AddPrescriptionItemDto,
+    @CurrentUser() user: any,
   ) {
     return this.prescriptionsService.addPrescriptionItem(
       prescriptionId,
       addItemDto,
+      user.id,
     );
   }
 
@@ -84,6 +96,15 @@ export class PrescriptionsController {
     return this.prescriptionsService.getPatientPrescriptions(patientId);
   }
 
+  /**
+   * Get prescriptions written during a visit
+   * GET /api/prescriptions/visit/:visitId
+   */
+  @Get('visit/:visitId')
+  async getVisitPrescriptions(@Param('visitId') visitId: string) {
+    return this.prescriptionsService.getVisitPrescriptions(visitId);
+  }
+
   /**
    * Get all prescriptions created by logged-in doctor
    * GET /api/prescriptions/doctor/my-prescriptions
@@ -102,9 +123,16 @@ export class PrescriptionsController {
   @Roles(UserRole.DOCTOR)
   async repeatPrescription(
     @Param('id') prescriptionId: string,
+    @Body('visitId') visitId: string,
+    @Body('overrideReason') overrideReason: string | undefined,
     @CurrentUser() user: any,
   ) {
-    return this.prescriptionsService.repeatPrescription(prescriptionId, user.id);
+    return this.prescriptionsService.repeatPrescription(
+      prescriptionId,
+      visitId,
+      user.id,
+      overrideReason,
+    );
   }
 
   /**
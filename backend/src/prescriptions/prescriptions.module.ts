@@ -2,12 +2,14 @@ import { Module } from '@nestjs/common';
 import { PrescriptionsController } from './prescriptions.controller';
 import { PrescriptionsService } from './prescriptions.service';
 import { PdfService } from './pdf.service';
+import { DrugSafetyService } from './drug-safety.service';
+import { DrugSafetyController } from './drug-safety.controller';
 import { PharmacyModule } from '../pharmacy/pharmacy.module';
 
 @Module({
   imports: [PharmacyModule], // Import for StockService
-  controllers: [PrescriptionsController],
-  providers: [PrescriptionsService, PdfService],
+  controllers: [PrescriptionsController, DrugSafetyController],
+  providers: [PrescriptionsService, PdfService, DrugSafetyService],
   exports: [PrescriptionsService],
 })
 export class PrescriptionsModule {}
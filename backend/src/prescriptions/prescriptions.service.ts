@@ -3,9 +3,19 @@ import {
   NotFoundException,
   BadRequestException,
 } from '@nestjs/common';
+import { DurationUnit, FoodTiming, FrequencyCode } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { StockService } from '../pharmacy/stock.service';
-import { CreatePrescriptionDto } from './dto/create-prescription.dto';
+import { DrugSafetyService } from './drug-safety.service';
+import {
+  Sig,
+  calculateDispenseQuantity,
+  durationInDays,
+  formatSig,
+  parseLegacySig,
+  sigDefaults,
+} from './utils/sig';
+import { CreatePrescriptionDto, PrescriptionItemDto } from './dto/create-prescription.dto';
 import { AddPrescriptionItemDto } from './dto/add-item.dto';
 
 @Injectable()
@@ -13,124 +23,154 @@ export class PrescriptionsService {
   constructor(
     private prisma: PrismaService,
     private stockService: StockService,
+    private drugSafetyService: DrugSafetyService,
   ) { }
 
   /**
-   * ⭐ Auto-calculate quantity from dosage, frequency, and duration
-   * Examples:
-   * - "1 tablet" + "3 times daily" + "5 days" = 15 tablets
-   * - "2 tablets" + "Twice a day" + "7 days" = 28 tablets
-   * - "5ml" + "Once daily" + "10 days" = 50ml
+   * ⭐ Resolve each line's sig and the quantity to dispense
+   * Free-text lines are parsed into a sig; quantity comes from the sig and
+   * the medicine's type and strength (see utils/sig)
    */
-  private calculateQuantity(
-    dosage: string,
-    frequency: string,
-    duration: string,
-  ): number {
-    // Extract numeric values
-    const dosageMatch = dosage.match(/(\d+)/);
-    const frequencyMatch = frequency.match(/(\d+)/);
-    const durationMatch = duration.match(/(\d+)/);
-
-    if (!dosageMatch || !durationMatch) {
-      throw new BadRequestException(
-        'Unable to calculate quantity. Ensure dosage and duration contain numbers.',
-      );
+  private async buildItems(items: PrescriptionItemDto[]) {
+    const medicines = await this.prisma.medicine.findMany({
+      where: { id: { in: items.map((item) => item.medicineId) } },
+      select: { id: true, name: true, type: true, strength: true },
+    });
+
+    return items.map((item) => {
+      const medicine = medicines.find((med) => med.id === item.medicineId);
+      if (!medicine) {
+        throw new NotFoundException(`Medicine ${item.medicineId} not found`);
+      }
+
+      const sig = this.resolveSig(item, medicine);
+      const dispense = calculateDispenseQuantity(sig, medicine);
+      if (!dispense) {
+        throw new BadRequestException(
+          `${medicine.name}: a dose in ${sig.doseUnit.toLowerCase()} can't be dispensed as ${medicine.type} ${medicine.strength}`,
+        );
+      }
+
+      const rendered = formatSig(sig);
+
+      return {
+        medicineName: medicine.name,
+        unit: dispense.unit,
+        rendered,
+        data: {
+          medicineId: medicine.id,
+          dosage: rendered.dosage,
+          frequency: rendered.frequency,
+          duration: durationInDays(sig),
+          quantity: dispense.quantity,
+          instructions: item.instructions,
+          doseAmount: sig.doseAmount,
+          doseUnit: sig.doseUnit,
+          frequencyCode: sig.frequencyCode,
+          customTimes: sig.customTimes || [],
+          sosMaxPerDay: sig.sosMaxPerDay ?? null,
+          route: sig.route,
+          durationValue: sig.durationValue,
+          durationUnit: sig.durationUnit,
+          foodTiming: sig.foodTiming,
+        },
+      };
+    });
+  }
+
+  private resolveSig(item: PrescriptionItemDto, medicine: { name: string; type: string; strength: string }): Sig {
+    if (item.doseAmount && item.doseUnit && item.frequencyCode && item.durationValue) {
+      if (item.frequencyCode === FrequencyCode.CUSTOM && !item.customTimes?.length) {
+        throw new BadRequestException(`${medicine.name}: list the times for a custom frequency`);
+      }
+
+      return {
+        doseAmount: item.doseAmount,
+        doseUnit: item.doseUnit,
+        frequencyCode: item.frequencyCode,
+        customTimes: item.frequencyCode === FrequencyCode.CUSTOM ? item.customTimes : [],
+        sosMaxPerDay: item.frequencyCode === FrequencyCode.SOS ? item.sosMaxPerDay : null,
+        route: item.route || sigDefaults(medicine.type).route,
+        durationValue: item.durationValue,
+        durationUnit: item.durationUnit || DurationUnit.DAYS,
+        foodTiming: item.foodTiming || FoodTiming.ANY,
+      };
     }
 
-    const dosageAmount = parseInt(dosageMatch[1]);
-    const durationDays = parseInt(durationMatch[1]);
-
-    // Parse frequency
-    let timesPerDay = 1;
-    if (frequencyMatch) {
-      timesPerDay = parseInt(frequencyMatch[1]);
-    } else if (frequency.toLowerCase().includes('twice')) {
-      timesPerDay = 2;
-    } else if (frequency.toLowerCase().includes('thrice') || frequency.toLowerCase().includes('three')) {
-      timesPerDay = 3;
-    } else if (frequency.toLowerCase().includes('four')) {
-      timesPerDay = 4;
+    if (item.dosage && item.duration) {
+      const sig = parseLegacySig(
+        { dosage: item.dosage, frequency: item.frequency, duration: item.duration },
+        medicine,
+      );
+
+      if (!sig) {
+        throw new BadRequestException(
+          `${medicine.name}: couldn't read "${item.dosage}, ${item.frequency || ''}, ${item.duration}"; use a structured dose, frequency and duration`,
+        );
+      }
+
+      return sig;
     }
 
-    // Calculate total quantity
-    const totalQuantity = dosageAmount * timesPerDay * durationDays;
+    throw new BadRequestException(`${medicine.name}: dose, frequency and duration are required`);
+  }
 
-    return totalQuantity;
+  /**
+   * Render sigs and quantities for the prescription builder
+   */
+  async previewSigs(items: PrescriptionItemDto[]) {
+    const built = await this.buildItems(items);
+
+    return built.map((item) => ({
+      medicineId: item.data.medicineId,
+      ...item.rendered,
+      quantity: item.data.quantity,
+      unit: item.unit,
+    }));
   }
 
   /**
    * Create prescription with items
+   * Checked for stock, then for interactions and allergies
    */
   async createPrescription(
     createDto: CreatePrescriptionDto,
     doctorId: string,
   ) {
-    const { patientId, diagnosis, notes, items } = createDto;
+    const { visitId, diagnosis, notes, items, overrideReason } = createDto;
 
-    // Verify patient exists
-    const patient = await this.prisma.patient.findUnique({
-      where: { id: patientId },
+    // Verify visit exists
+    const visit = await this.prisma.visit.findUnique({
+      where: { id: visitId },
+      include: { patient: true },
     });
 
-    if (!patient) {
-      throw new NotFoundException('Patient not found');
+    if (!visit) {
+      throw new NotFoundException('Visit not found');
     }
 
-    // Calculate quantities for all items
-    // 2️⃣ Build Prisma items (safe)
-    const itemsWithQuantity = items.map((item) => {
-      const durationStr = item.duration;            // string for calculation ("5 days" or "5")
-      const durationNum = parseInt(item.duration);  // number for Prisma (5)
-
-      const quantity = this.calculateQuantity(
-        item.dosage,
-        item.frequency,
-        durationStr,  // calculateQuantity expects string
-      );
-
-      return {
-        dosage: item.dosage,
-        frequency: item.frequency,
-        duration: durationNum,  // Prisma expects Int
-        quantity,
-        instructions: item.instructions,
-        medicine: {
-          connect: { id: item.medicineId },
-        },
-      };
-    });
-
+    // Sig and quantity for all items
+    const builtItems = await this.buildItems(items);
 
     // Check stock availability for all items
     const stockChecks = await Promise.all(
-      items.map((item) =>
-        this.stockService.hasSufficientStock(item.medicineId, item.quantity),
+      builtItems.map((item) =>
+        this.stockService.hasSufficientStock(item.data.medicineId, item.data.quantity),
       ),
     );
 
-    const insufficientItems = items
+    const insufficientItems = builtItems
       .map((item, index) => ({
         item,
-        quantity: itemsWithQuantity[index].quantity,
         stockCheck: stockChecks[index],
       }))
       .filter((x) => !x.stockCheck.sufficient);
 
     if (insufficientItems.length > 0) {
-      // Get medicine names for error message
-      const medicineDetails = await Promise.all(
-        insufficientItems.map((x) =>
-          this.prisma.medicine.findUnique({
-            where: { id: x.item.medicineId },
-          }),
-        ),
-      );
-
       const errorMessage = insufficientItems
         .map(
-          (x, index) =>
-            `${medicineDetails[index]?.name}: Required ${x.item.quantity}, Available ${x.stockCheck.available}`,
+          (x) =>
+            `${x.item.medicineName}: Required ${x.item.data.quantity} ${x.item.unit}, Available ${x.stockCheck.available}`,
         )
         .join('; ');
 
@@ -139,15 +179,26 @@ export class PrescriptionsService {
       );
     }
 
+    // Interactions and allergies (major alerts need an override reason)
+    const safetyAlerts = await this.drugSafetyService.assertSafeToPrescribe(
+      visit.patientId,
+      [...new Set(items.map((item) => item.medicineId))],
+      { reason: overrideReason, doctorId },
+    );
+
     // Create prescription with items in transaction
     const prescription = await this.prisma.prescription.create({
       data: {
-        patientId,
+        visitId,
+        patientId: visit.patientId,
         doctorId,
         diagnosis,
         notes,
         items: {
-          create: itemsWithQuantity,
+          create: builtItems.map((item) => item.data),
+        },
+        safetyAlerts: {
+          create: safetyAlerts,
         },
       },
       include: {
@@ -166,14 +217,21 @@ export class PrescriptionsService {
         patient: {
           select: {
             id: true,
+            uhid: true,
             name: true,
+          },
+        },
+        visit: {
+          select: {
+            id: true,
             token: true,
           },
         },
+        safetyAlerts: true,
       },
     });
 
-    console.log(`✅ Prescription created for patient ${patient.name} by doctor ${doctorId}`);
+    console.log(`✅ Prescription created for patient ${visit.patient.name} (token #${visit.token}) by doctor ${doctorId}`);
 
     return prescription;
   }
@@ -184,6 +242,7 @@ export class PrescriptionsService {
   async addPrescriptionItem(
     prescriptionId: string,
     addItemDto: AddPrescriptionItemDto,
+    doctorId: string,
   ) {
     // Verify prescription exists
     const prescription = await this.prisma.prescription.findUnique({
@@ -194,38 +253,40 @@ export class PrescriptionsService {
       throw new NotFoundException('Prescription not found');
     }
 
-    // Calculate quantity
-    const quantity = this.calculateQuantity(
-      addItemDto.dosage,
-      addItemDto.frequency,
-      addItemDto.duration,
-    );
+    // Sig and quantity
+    const { overrideReason, ...itemDto } = addItemDto;
+    const [built] = await this.buildItems([itemDto]);
 
     // Check stock
     const stockCheck = await this.stockService.hasSufficientStock(
-      addItemDto.medicineId,
-      quantity,
+      built.data.medicineId,
+      built.data.quantity,
     );
 
     if (!stockCheck.sufficient) {
-      const medicine = await this.prisma.medicine.findUnique({
-        where: { id: addItemDto.medicineId },
-      });
       throw new BadRequestException(
-        `Insufficient stock for ${medicine?.name}. Required: ${quantity}, Available: ${stockCheck.available}`,
+        `Insufficient stock for ${built.medicineName}. Required: ${built.data.quantity} ${built.unit}, Available: ${stockCheck.available}`,
       );
     }
 
+    // Interactions with the rest of this prescription and active ones, and allergies
+    const safetyAlerts = await this.drugSafetyService.assertSafeToPrescribe(
+      prescription.patientId,
+      [addItemDto.medicineId],
+      { reason: overrideReason, doctorId },
+    );
+
+    if (safetyAlerts.length > 0) {
+      await this.prisma.prescriptionSafetyAlert.createMany({
+        data: safetyAlerts.map((alert) => ({ ...alert, prescriptionId })),
+      });
+    }
+
     // Add item
     const item = await this.prisma.prescriptionItem.create({
       data: {
         prescriptionId,
-        medicineId: addItemDto.medicineId,
-        dosage: addItemDto.dosage,
-        frequency: addItemDto.frequency,
-        duration: Number(addItemDto.duration),
-        quantity,
-        instructions: addItemDto.instructions,
+        ...built.data,
       },
       include: {
         medicine: true,
@@ -276,10 +337,19 @@ export class PrescriptionsService {
         patient: {
           select: {
             id: true,
+            uhid: true,
             name: true,
+          },
+        },
+        visit: {
+          select: {
+            id: true,
             token: true,
           },
         },
+        safetyAlerts: {
+          include: { overriddenBy: { select: { id: true, name: true } } },
+        },
       },
     });
 
@@ -318,6 +388,32 @@ export class PrescriptionsService {
     return prescriptions;
   }
 
+  /**
+   * Get prescriptions written during a visit
+   */
+  async getVisitPrescriptions(visitId: string) {
+    return this.prisma.prescription.findMany({
+      where: { visitId },
+      include: {
+        items: {
+          include: {
+            medicine: true,
+          },
+        },
+        doctor: {
+          select: {
+            id: true,
+            name: true,
+            specialty: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+  }
+
   /**
    * Get all prescriptions created by a doctor
    */
@@ -333,7 +429,13 @@ export class PrescriptionsService {
         patient: {
           select: {
             id: true,
+            uhid: true,
             name: true,
+          },
+        },
+        visit: {
+          select: {
+            id: true,
             token: true,
           },
         },
@@ -348,8 +450,14 @@ export class PrescriptionsService {
 
   /**
    * ⭐ Repeat previous prescription (one-click feature)
+   * The copy is attached to the patient's current visit
    */
-  async repeatPrescription(originalPrescriptionId: string, doctorId: string) {
+  async repeatPrescription(
+    originalPrescriptionId: string,
+    visitId: string,
+    doctorId: string,
+    overrideReason?: string,
+  ) {
     // Get original prescription
     const original = await this.prisma.prescription.findUnique({
       where: { id: originalPrescriptionId },
@@ -362,6 +470,20 @@ export class PrescriptionsService {
       throw new NotFoundException('Original prescription not found');
     }
 
+    const visit = await this.prisma.visit.findUnique({
+      where: { id: visitId },
+    });
+
+    if (!visit) {
+      throw new NotFoundException('Visit not found');
+    }
+
+    if (visit.patientId !== original.patientId) {
+      throw new BadRequestException(
+        'Prescription can only be repeated for the same patient',
+      );
+    }
+
     // Create new prescription with same items
     const items = original.items.map((item) => ({
       medicineId: item.medicineId,
@@ -370,6 +492,15 @@ export class PrescriptionsService {
       duration: item.duration,
       quantity: item.quantity,
       instructions: item.instructions,
+      doseAmount: item.doseAmount,
+      doseUnit: item.doseUnit,
+      frequencyCode: item.frequencyCode,
+      customTimes: item.customTimes,
+      sosMaxPerDay: item.sosMaxPerDay,
+      route: item.route,
+      durationValue: item.durationValue,
+      durationUnit: item.durationUnit,
+      foodTiming: item.foodTiming,
     }));
 
     // Check stock for all items
@@ -407,16 +538,27 @@ export class PrescriptionsService {
       );
     }
 
+    // The original may still be active; don't flag its items against themselves
+    const safetyAlerts = await this.drugSafetyService.assertSafeToPrescribe(
+      visit.patientId,
+      [...new Set(items.map((item) => item.medicineId))],
+      { reason: overrideReason, doctorId, excludePrescriptionId: original.id },
+    );
+
     // Create new prescription
     const newPrescription = await this.prisma.prescription.create({
       data: {
-        patientId: original.patientId,
+        visitId: visit.id,
+        patientId: visit.patientId,
         doctorId,
         diagnosis: original.diagnosis,
         notes: `Repeated from prescription ${original.id}`,
         items: {
           create: items,
         },
+        safetyAlerts: {
+          create: safetyAlerts,
+        },
       },
       include: {
         items: {
@@ -434,10 +576,17 @@ export class PrescriptionsService {
         patient: {
           select: {
             id: true,
+            uhid: true,
             name: true,
+          },
+        },
+        visit: {
+          select: {
+            id: true,
             token: true,
           },
         },
+        safetyAlerts: true,
       },
     });
 
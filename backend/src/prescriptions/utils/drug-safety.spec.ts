@@ -0,0 +1,179 @@
+import { InteractionSeverity, SafetyAlertType } from '@prisma/client';
+import {
+  allergyMentions,
+  checkDrugSafety,
+  interactionPair,
+  parseAllergies,
+  InteractionRule,
+  ContraindicationRule,
+} from './drug-safety';
+
+describe('Drug safety checks', () => {
+  const drug = (id: string, name: string, genericName: string | null) => ({
+    medicineId: id,
+    medicineName: name,
+    genericName,
+  });
+
+  const ibuprofen = drug('m1', 'Ibuprofen 400mg', 'Ibuprofen');
+  const diclofenac = drug('m2', 'Diclofenac Gel 30g', 'Diclofenac');
+  const amoxicillin = drug('m3', 'Amoxicillin 500mg', 'Amoxicillin');
+  const aspirin = drug('m4', 'Aspirin 75mg', 'Aspirin');
+
+  const interactions: InteractionRule[] = [
+    {
+      genericA: 'diclofenac',
+      genericB: 'ibuprofen',
+      severity: InteractionSeverity.MAJOR,
+      effect: 'Two NSAIDs: GI bleeding and renal risk',
+      management: 'Use one NSAID only',
+    },
+    {
+      genericA: 'aspirin',
+      genericB: 'ibuprofen',
+      severity: InteractionSeverity.MODERATE,
+      effect: 'Ibuprofen blunts the antiplatelet effect of aspirin',
+      management: null,
+    },
+  ];
+
+  const contraindications: ContraindicationRule[] = [
+    {
+      allergen: 'penicillin',
+      genericName: 'amoxicillin',
+      severity: InteractionSeverity.MAJOR,
+      reaction: 'Penicillin-class antibiotic',
+    },
+    {
+      allergen: 'nsaid',
+      genericName: 'ibuprofen',
+      severity: InteractionSeverity.MAJOR,
+      reaction: 'NSAID hypersensitivity',
+    },
+    {
+      allergen: 'beta-lactam',
+      genericName: 'amoxicillin',
+      severity: InteractionSeverity.MAJOR,
+      reaction: 'Beta-lactam antibiotic',
+    },
+  ];
+
+  const check = (overrides: Partial<Parameters<typeof checkDrugSafety>[0]>) =>
+    checkDrugSafety({
+      newDrugs: [],
+      activeDrugs: [],
+      allergies: [],
+      interactions,
+      contraindications,
+      ...overrides,
+    });
+
+  describe('interactionPair', () => {
+    it('should order the pair alphabetically, lowercase', () => {
+      expect(interactionPair('Ibuprofen', 'Diclofenac')).toEqual(['diclofenac', 'ibuprofen']);
+      expect(interactionPair('diclofenac', ' IBUPROFEN ')).toEqual(['diclofenac', 'ibuprofen']);
+    });
+  });
+
+  describe('parseAllergies', () => {
+    it('should split free text and drop "none" entries', () => {
+      expect(parseAllergies(['Penicillin, Sulfa; dust', 'NKDA', null, 'penicillin'])).toEqual([
+        'penicillin',
+        'sulfa',
+        'dust',
+      ]);
+      expect(parseAllergies(['Nil'])).toEqual([]);
+    });
+  });
+
+  it('should flag interactions between new items', () => {
+    const alerts = check({ newDrugs: [ibuprofen, diclofenac] });
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({
+      type: SafetyAlertType.INTERACTION,
+      severity: InteractionSeverity.MAJOR,
+      medicineIds: ['m1', 'm2'],
+      medicines: 'Ibuprofen 400mg + Diclofenac Gel 30g',
+    });
+  });
+
+  it('should flag interactions with active prescriptions', () => {
+    const alerts = check({
+      newDrugs: [ibuprofen],
+      activeDrugs: [{ ...aspirin, prescriptionId: 'rx-1' }],
+    });
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({
+      severity: InteractionSeverity.MODERATE,
+      activePrescriptionId: 'rx-1',
+    });
+    expect(alerts[0].message).toContain('Aspirin 75mg is on an active prescription');
+  });
+
+  it('should flag an allergy to the generic itself as major', () => {
+    const alerts = check({ newDrugs: [ibuprofen], allergies: ['ibuprofen'] });
+
+    expect(alerts).toEqual([
+      expect.objectContaining({
+        type: SafetyAlertType.ALLERGY,
+        severity: InteractionSeverity.MAJOR,
+        message: 'Patient is allergic to ibuprofen',
+      }),
+    ]);
+  });
+
+  it('should flag generics contraindicated by an allergen class', () => {
+    const alerts = check({ newDrugs: [amoxicillin], allergies: parseAllergies(['Penicillin']) });
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({
+      type: SafetyAlertType.ALLERGY,
+      severity: InteractionSeverity.MAJOR,
+      medicines: 'Amoxicillin 500mg',
+    });
+  });
+
+  it('should match allergens written as free text', () => {
+    const phrasings = ['Penicillin allergy', 'Allergic to penicillins', 'beta-lactam allergy (rash)'];
+
+    phrasings.forEach((recorded) => {
+      const alerts = check({ newDrugs: [amoxicillin], allergies: parseAllergies([recorded]) });
+
+      expect(alerts).toEqual([
+        expect.objectContaining({ type: SafetyAlertType.ALLERGY, severity: InteractionSeverity.MAJOR }),
+      ]);
+    });
+
+    expect(check({ newDrugs: [ibuprofen], allergies: parseAllergies(['NSAIDs - wheeze']) })).toHaveLength(1);
+  });
+
+  it('should match a generic named in free text directly', () => {
+    const alerts = check({ newDrugs: [ibuprofen], allergies: parseAllergies(['Ibuprofen allergy']) });
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].message).toBe('Patient is allergic to ibuprofen (recorded: "ibuprofen allergy")');
+  });
+
+  describe('allergyMentions', () => {
+    it('should match whole words only', () => {
+      expect(allergyMentions('allergic to sulfa drugs', 'sulfa')).toBe(true);
+      expect(allergyMentions('penicillinase', 'penicillin')).toBe(false);
+      expect(allergyMentions('nystatin', 'statin')).toBe(false);
+    });
+  });
+
+  it('should list the most severe alerts first', () => {
+    const alerts = check({ newDrugs: [aspirin, ibuprofen, diclofenac] });
+
+    expect(alerts.map((alert) => alert.severity)).toEqual([
+      InteractionSeverity.MAJOR,
+      InteractionSeverity.MODERATE,
+    ]);
+  });
+
+  it('should skip medicines without a generic name', () => {
+    expect(check({ newDrugs: [drug('m9', 'Herbal syrup', null), ibuprofen] })).toEqual([]);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Drug safety checks for the prescription builder
+ *
+ * 1. Interactions: every pair among the new items, and every new item
+ *    against the patient's active prescriptions, looked up by generic name
+ * 2. Allergies: a recorded allergy matching the generic itself, or an
+ *    allergen (substance or drug class) contraindicating the generic
+ * 3. Generic names and allergies are compared lowercase; recorded allergies
+ *    are free text ("Penicillin, sulfa drugs") and "nil"/"none"/"NKDA" mean none
+ */
+
+import { InteractionSeverity, SafetyAlertType } from '@prisma/client';
+
+export interface SafetyDrug {
+  medicineId: string;
+  medicineName: string;
+  genericName: string | null;
+}
+
+export interface ActiveDrug extends SafetyDrug {
+  prescriptionId: string;
+}
+
+export interface InteractionRule {
+  genericA: string;
+  genericB: string;
+  severity: InteractionSeverity;
+  effect: string;
+  management: string | null;
+}
+
+export interface ContraindicationRule {
+  allergen: string;
+  genericName: string;
+  severity: InteractionSeverity;
+  reaction: string | null;
+}
+
+export interface SafetyAlert {
+  type: SafetyAlertType;
+  severity: InteractionSeverity;
+  medicineIds: string[];
+  medicines: string; // "Ibuprofen 400mg + Diclofenac Gel 30g"
+  message: string;
+  management: string | null;
+  activePrescriptionId?: string; // Interaction with an earlier prescription
+}
+
+const SEVERITY_ORDER: InteractionSeverity[] = [
+  InteractionSeverity.MAJOR,
+  InteractionSeverity.MODERATE,
+  InteractionSeverity.MINOR,
+];
+
+const NO_ALLERGY = ['nil', 'none', 'nkda', 'no known allergies', 'no known drug allergies', 'na', 'n/a'];
+
+export function normalizeGeneric(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Interaction pairs are stored alphabetically so each pair has one row
+ */
+export function interactionPair(a: string, b: string): [string, string] {
+  const [x, y] = [normalizeGeneric(a), normalizeGeneric(b)];
+  return x <= y ? [x, y] : [y, x];
+}
+
+export function parseAllergies(recorded: (string | null | undefined)[]): string[] {
+  const terms = recorded
+    .filter((text): text is string => !!text)
+    .flatMap((text) => text.split(/[,;\n]+/))
+    .map(normalizeGeneric)
+    .filter((term) => term.length > 0 && !NO_ALLERGY.includes(term));
+
+  return [...new Set(terms)];
+}
+
+function genericOf(drug: SafetyDrug): string | null {
+  return drug.genericName ? normalizeGeneric(drug.genericName) : null;
+}
+
+/**
+ * Whether a recorded allergy mentions a generic or allergen as a whole word,
+ * plural allowed: "penicillin" is in "penicillin allergy" and "allergic to
+ * penicillins", not in "penicillinase"
+ */
+export function allergyMentions(allergy: string, term: string): boolean {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^a-z0-9])${escaped}s?($|[^a-z0-9])`).test(allergy);
+}
+
+export function checkDrugSafety(input: {
+  newDrugs: SafetyDrug[];
+  activeDrugs: ActiveDrug[];
+  allergies: string[];
+  interactions: InteractionRule[];
+  contraindications: ContraindicationRule[];
+}): SafetyAlert[] {
+  const alerts: SafetyAlert[] = [];
+
+  const findInteraction = (a: string, b: string) => {
+    const [genericA, genericB] = interactionPair(a, b);
+    return input.interactions.find(
+      (rule) => rule.genericA === genericA && rule.genericB === genericB,
+    );
+  };
+
+  const interactionAlert = (
+    rule: InteractionRule,
+    first: SafetyDrug,
+    second: SafetyDrug,
+    activePrescriptionId?: string,
+  ): SafetyAlert => ({
+    type: SafetyAlertType.INTERACTION,
+    severity: rule.severity,
+    medicineIds: [first.medicineId, second.medicineId],
+    medicines: `${first.medicineName} + ${second.medicineName}`,
+    message: activePrescriptionId
+      ? `${rule.effect} (${second.medicineName} is on an active prescription)`
+      : rule.effect,
+    management: rule.management,
+    ...(activePrescriptionId && { activePrescriptionId }),
+  });
+
+  input.newDrugs.forEach((drug, index) => {
+    const generic = genericOf(drug);
+    if (!generic) return;
+
+    // New items against each other
+    input.newDrugs.slice(index + 1).forEach((other) => {
+      const otherGeneric = genericOf(other);
+      const rule = otherGeneric && findInteraction(generic, otherGeneric);
+      if (rule) alerts.push(interactionAlert(rule, drug, other));
+    });
+
+    // New items against what the patient is already taking
+    input.activeDrugs.forEach((active) => {
+      const activeGeneric = genericOf(active);
+      const rule = activeGeneric && findInteraction(generic, activeGeneric);
+      if (rule) alerts.push(interactionAlert(rule, drug, active, active.prescriptionId));
+    });
+
+    // Recorded allergies
+    input.allergies.forEach((allergy) => {
+      if (allergyMentions(allergy, generic)) {
+        alerts.push({
+          type: SafetyAlertType.ALLERGY,
+          severity: InteractionSeverity.MAJOR,
+          medicineIds: [drug.medicineId],
+          medicines: drug.medicineName,
+          message:
+            allergy === generic
+              ? `Patient is allergic to ${generic}`
+              : `Patient is allergic to ${generic} (recorded: "${allergy}")`,
+          management: 'Do not prescribe; choose an alternative',
+        });
+        return;
+      }
+
+      const rule = input.contraindications.find(
+        (r) => r.genericName === generic && allergyMentions(allergy, r.allergen),
+      );
+      if (rule) {
+        alerts.push({
+          type: SafetyAlertType.ALLERGY,
+          severity: rule.severity,
+          medicineIds: [drug.medicineId],
+          medicines: drug.medicineName,
+          message: `Recorded allergy: ${allergy}${rule.reaction ? ` (${rule.reaction})` : ''}`,
+          management: null,
+        });
+      }
+    });
+  });
+
+  return alerts.sort(
+    (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity),
+  );
+}
@@ -0,0 +1,168 @@
+import {
+  DoseRoute,
+  DoseUnit,
+  DurationUnit,
+  FoodTiming,
+  FrequencyCode,
+} from '@prisma/client';
+import {
+  Sig,
+  calculateDispenseQuantity,
+  formatSig,
+  parseLegacySig,
+  parseStrength,
+  totalDoses,
+} from './sig';
+
+describe('Structured sig', () => {
+  const tablet = { type: 'Tablet', strength: '500mg' };
+  const syrup = { type: 'Syrup', strength: '100ml' };
+  const gel = { type: 'Gel', strength: '30g' };
+
+  const sig = (overrides: Partial<Sig> = {}): Sig => ({
+    doseAmount: 1,
+    doseUnit: DoseUnit.TABLET,
+    frequencyCode: FrequencyCode.BD,
+    route: DoseRoute.ORAL,
+    durationValue: 5,
+    durationUnit: DurationUnit.DAYS,
+    foodTiming: FoodTiming.AFTER_FOOD,
+    ...overrides,
+  });
+
+  describe('totalDoses', () => {
+    it('should multiply doses per day by days', () => {
+      expect(totalDoses(sig({ frequencyCode: FrequencyCode.TDS }))).toBe(15);
+      expect(totalDoses(sig({ durationValue: 2, durationUnit: DurationUnit.WEEKS }))).toBe(28);
+    });
+
+    it('should count SOS at the daily maximum and CUSTOM by its times', () => {
+      expect(totalDoses(sig({ frequencyCode: FrequencyCode.SOS }))).toBe(5);
+      expect(totalDoses(sig({ frequencyCode: FrequencyCode.SOS, sosMaxPerDay: 3 }))).toBe(15);
+      expect(
+        totalDoses(sig({ frequencyCode: FrequencyCode.CUSTOM, customTimes: ['06:00', '14:00', '22:00'] })),
+      ).toBe(15);
+    });
+
+    it('should count one dose per started week for WEEKLY', () => {
+      expect(totalDoses(sig({ frequencyCode: FrequencyCode.WEEKLY, durationValue: 10 }))).toBe(2);
+      expect(
+        totalDoses(sig({ frequencyCode: FrequencyCode.WEEKLY, durationValue: 1, durationUnit: DurationUnit.MONTHS })),
+      ).toBe(5);
+    });
+  });
+
+  describe('parseStrength', () => {
+    it('should read amount and unit', () => {
+      expect(parseStrength('500mg')).toEqual({ amount: 500, unit: DoseUnit.MG });
+      expect(parseStrength('100 ml')).toEqual({ amount: 100, unit: DoseUnit.ML });
+      expect(parseStrength('100IU')).toEqual({ amount: 100, unit: DoseUnit.IU });
+      expect(parseStrength('Strip')).toBeNull();
+    });
+  });
+
+  describe('calculateDispenseQuantity', () => {
+    it('should dispense tablets per unit', () => {
+      expect(calculateDispenseQuantity(sig(), tablet)).toEqual({ quantity: 10, unit: 'tablets' });
+    });
+
+    it('should convert a dose by weight using the strength', () => {
+      expect(calculateDispenseQuantity(sig({ doseAmount: 1, doseUnit: DoseUnit.G }), tablet)).toEqual({
+        quantity: 20,
+        unit: 'tablets',
+      });
+    });
+
+    it('should round half tablets up to whole units', () => {
+      expect(
+        calculateDispenseQuantity(sig({ doseAmount: 0.5, frequencyCode: FrequencyCode.OD }), tablet),
+      ).toEqual({ quantity: 3, unit: 'tablets' });
+    });
+
+    it('should dispense liquids in whole packs', () => {
+      // 5 ml TDS x 5 days = 75 ml → 1 bottle; 10 ml → 150 ml → 2 bottles
+      const fiveMl = sig({ doseAmount: 5, doseUnit: DoseUnit.ML, frequencyCode: FrequencyCode.TDS });
+      expect(calculateDispenseQuantity(fiveMl, syrup)).toEqual({ quantity: 1, unit: 'bottle' });
+      expect(calculateDispenseQuantity({ ...fiveMl, doseAmount: 10 }, syrup)).toEqual({
+        quantity: 2,
+        unit: 'bottles',
+      });
+    });
+
+    it('should dispense one pack when the dose cannot be measured', () => {
+      const apply = sig({ doseUnit: DoseUnit.APPLICATION, route: DoseRoute.TOPICAL });
+      expect(calculateDispenseQuantity(apply, gel)).toEqual({ quantity: 1, unit: 'tube' });
+    });
+
+    it('should reject a dose unit that does not fit the medicine', () => {
+      expect(calculateDispenseQuantity(sig({ doseAmount: 5, doseUnit: DoseUnit.ML }), tablet)).toBeNull();
+      expect(calculateDispenseQuantity(sig(), syrup)).toBeNull();
+    });
+  });
+
+  describe('formatSig', () => {
+    it('should render each part and a full sentence', () => {
+      expect(formatSig(sig())).toEqual({
+        dosage: '1 tablet',
+        frequency: 'BD (twice daily)',
+        duration: '5 days',
+        text: '1 tablet orally twice daily after food for 5 days',
+      });
+    });
+
+    it('should render SOS, custom times and singular durations', () => {
+      expect(
+        formatSig(sig({ frequencyCode: FrequencyCode.SOS, sosMaxPerDay: 3, foodTiming: FoodTiming.ANY })).text,
+      ).toBe('1 tablet orally when required (max 3 a day) for 5 days');
+      expect(
+        formatSig(
+          sig({
+            doseAmount: 2,
+            frequencyCode: FrequencyCode.CUSTOM,
+            customTimes: ['08:00', '20:00'],
+            durationValue: 1,
+            durationUnit: DurationUnit.WEEKS,
+          }),
+        ).text,
+      ).toBe('2 tablets orally at 08:00, 20:00 after food for 1 week');
+    });
+  });
+
+  describe('parseLegacySig', () => {
+    it('should read dose patterns like 1-0-1', () => {
+      expect(parseLegacySig({ dosage: '1-0-1', duration: '5 days' }, tablet)).toMatchObject({
+        doseAmount: 1,
+        doseUnit: DoseUnit.TABLET,
+        frequencyCode: FrequencyCode.BD,
+        durationValue: 5,
+      });
+      expect(parseLegacySig({ dosage: '0-0-1', duration: '10' }, tablet)).toMatchObject({
+        frequencyCode: FrequencyCode.HS,
+      });
+    });
+
+    it('should read amount with unit and frequency text', () => {
+      expect(
+        parseLegacySig({ dosage: '5ml', frequency: '3 times daily', duration: '1 week' }, syrup),
+      ).toMatchObject({
+        doseAmount: 5,
+        doseUnit: DoseUnit.ML,
+        frequencyCode: FrequencyCode.TDS,
+        durationValue: 1,
+        durationUnit: DurationUnit.WEEKS,
+      });
+      expect(parseLegacySig({ dosage: '1 tablet', frequency: 'SOS', duration: '3 days' }, tablet)).toMatchObject({
+        frequencyCode: FrequencyCode.SOS,
+      });
+      expect(parseLegacySig({ dosage: '1 tablet', frequency: 'Weekly', duration: '4 weeks' }, tablet)).toMatchObject({
+        frequencyCode: FrequencyCode.WEEKLY,
+      });
+    });
+
+    it('should give up on text it cannot read', () => {
+      expect(parseLegacySig({ dosage: '1-0-2', duration: '5 days' }, tablet)).toBeNull();
+      expect(parseLegacySig({ dosage: 'a little', frequency: 'BD', duration: '5 days' }, tablet)).toBeNull();
+      expect(parseLegacySig({ dosage: '1 tablet', frequency: 'whenever', duration: '5 days' }, tablet)).toBeNull();
+    });
+  });
+});
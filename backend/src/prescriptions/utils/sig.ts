@@ -0,0 +1,438 @@
+/**
+ * Structured sig (dose, frequency, route, duration, food timing)
+ *
+ * 1. Quantity to dispense comes from the sig and the medicine's type and
+ *    strength:
+ *    - Tablets/capsules are dispensed as units; a dose in mg/g/mcg is
+ *      converted with the strength (1000 mg of a 500mg tablet = 2 tablets)
+ *    - Everything else is dispensed in whole packs, the strength being the
+ *      pack content (10 ml TDS x 5 days of a 100ml syrup = 2 bottles);
+ *      drops, puffs and applications can't be measured, so one pack
+ *    - SOS counts the most doses allowed a day; WEEKLY one dose per week
+ * 2. formatSig renders the sig the same way for the builder, the stored
+ *    dosage/frequency text and the PDF
+ * 3. parseLegacySig reads the free-text fields older clients send:
+ *    "1-0-1", "5ml", "Twice a day", "SOS", "2 weeks"
+ */
+
+import {
+  DoseRoute,
+  DoseUnit,
+  DurationUnit,
+  FoodTiming,
+  FrequencyCode,
+} from '@prisma/client';
+
+export interface Sig {
+  doseAmount: number;
+  doseUnit: DoseUnit;
+  frequencyCode: FrequencyCode;
+  customTimes?: string[];     // CUSTOM: "08:00", "20:00"
+  sosMaxPerDay?: number | null;
+  route: DoseRoute;
+  durationValue: number;
+  durationUnit: DurationUnit;
+  foodTiming: FoodTiming;
+}
+
+export interface DispensingForm {
+  type: string;     // Tablet, Capsule, Syrup, Gel, Injection
+  strength: string; // 500mg, 100ml, 30g, 100IU
+}
+
+export interface DispenseQuantity {
+  quantity: number;
+  unit: string; // "tablets", "bottles"
+}
+
+export interface RenderedSig {
+  dosage: string;    // "1 tablet"
+  frequency: string; // "BD (twice daily)"
+  duration: string;  // "5 days"
+  text: string;      // "1 tablet orally twice daily after food for 5 days"
+}
+
+const DAYS_PER_UNIT: Record<DurationUnit, number> = {
+  DAYS: 1,
+  WEEKS: 7,
+  MONTHS: 30,
+};
+
+const MG_PER_UNIT: Partial<Record<DoseUnit, number>> = {
+  MG: 1,
+  G: 1000,
+  MCG: 0.001,
+};
+
+// Units that can't be measured against a pack's content
+const UNMEASURED_UNITS: DoseUnit[] = [DoseUnit.DROP, DoseUnit.PUFF, DoseUnit.APPLICATION];
+
+const UNIT_LABELS: Record<DoseUnit, [string, string]> = {
+  TABLET: ['tablet', 'tablets'],
+  CAPSULE: ['capsule', 'capsules'],
+  ML: ['ml', 'ml'],
+  MG: ['mg', 'mg'],
+  G: ['g', 'g'],
+  MCG: ['mcg', 'mcg'],
+  IU: ['IU', 'IU'],
+  DROP: ['drop', 'drops'],
+  PUFF: ['puff', 'puffs'],
+  APPLICATION: ['application', 'applications'],
+};
+
+const FREQUENCY_PHRASES: Record<Exclude<FrequencyCode, 'CUSTOM' | 'SOS'>, string> = {
+  OD: 'once daily',
+  BD: 'twice daily',
+  TDS: 'three times daily',
+  QID: 'four times daily',
+  HS: 'at bedtime',
+  WEEKLY: 'once a week',
+};
+
+const ROUTE_PHRASES: Record<DoseRoute, string> = {
+  ORAL: 'orally',
+  SUBLINGUAL: 'under the tongue',
+  TOPICAL: 'on the skin',
+  INHALED: 'by inhalation',
+  NASAL: 'in the nose',
+  EYE: 'in the eye',
+  EAR: 'in the ear',
+  SC: 'subcutaneously',
+  IM: 'intramuscularly',
+  IV: 'intravenously',
+  RECTAL: 'rectally',
+};
+
+const FOOD_PHRASES: Record<FoodTiming, string | null> = {
+  BEFORE_FOOD: 'before food',
+  AFTER_FOOD: 'after food',
+  WITH_FOOD: 'with food',
+  EMPTY_STOMACH: 'on an empty stomach',
+  ANY: null,
+};
+
+// Dispensed per unit rather than per pack
+const COUNTED_FORMS: Record<string, DoseUnit> = {
+  tablet: DoseUnit.TABLET,
+  capsule: DoseUnit.CAPSULE,
+};
+
+const PACK_NAMES: Record<string, string> = {
+  syrup: 'bottle',
+  suspension: 'bottle',
+  drops: 'bottle',
+  gel: 'tube',
+  cream: 'tube',
+  ointment: 'tube',
+  injection: 'vial',
+  inhaler: 'inhaler',
+};
+
+/**
+ * Starting dose unit and route for a medicine type
+ */
+export function sigDefaults(type: string): { doseUnit: DoseUnit; route: DoseRoute } {
+  switch (type.trim().toLowerCase()) {
+    case 'capsule':
+      return { doseUnit: DoseUnit.CAPSULE, route: DoseRoute.ORAL };
+    case 'syrup':
+    case 'suspension':
+      return { doseUnit: DoseUnit.ML, route: DoseRoute.ORAL };
+    case 'gel':
+    case 'cream':
+    case 'ointment':
+      return { doseUnit: DoseUnit.APPLICATION, route: DoseRoute.TOPICAL };
+    case 'injection':
+      return { doseUnit: DoseUnit.IU, route: DoseRoute.SC };
+    case 'drops':
+      return { doseUnit: DoseUnit.DROP, route: DoseRoute.EYE };
+    case 'inhaler':
+      return { doseUnit: DoseUnit.PUFF, route: DoseRoute.INHALED };
+    default:
+      return { doseUnit: DoseUnit.TABLET, route: DoseRoute.ORAL };
+  }
+}
+
+export function durationInDays(sig: Pick<Sig, 'durationValue' | 'durationUnit'>): number {
+  return sig.durationValue * DAYS_PER_UNIT[sig.durationUnit];
+}
+
+export function dosesPerDay(sig: Sig): number {
+  switch (sig.frequencyCode) {
+    case FrequencyCode.OD:
+    case FrequencyCode.HS:
+      return 1;
+    case FrequencyCode.BD:
+      return 2;
+    case FrequencyCode.TDS:
+      return 3;
+    case FrequencyCode.QID:
+      return 4;
+    case FrequencyCode.SOS:
+      return sig.sosMaxPerDay || 1;
+    case FrequencyCode.WEEKLY:
+      return 1 / 7;
+    case FrequencyCode.CUSTOM:
+      return sig.customTimes?.length || 0;
+  }
+}
+
+export function totalDoses(sig: Sig): number {
+  const days = durationInDays(sig);
+
+  // A course of 10 days of a weekly dose is still 2 doses
+  if (sig.frequencyCode === FrequencyCode.WEEKLY) {
+    return Math.ceil(days / 7);
+  }
+
+  return dosesPerDay(sig) * days;
+}
+
+/**
+ * "500mg" → 500 MG, "100ml" → 100 ML, "100IU" → 100 IU
+ */
+export function parseStrength(strength: string): { amount: number; unit: DoseUnit } | null {
+  const match = strength.trim().match(/^(\d+(?:\.\d+)?)\s*(mg|mcg|g|ml|iu)\b/i);
+  if (!match) return null;
+
+  return { amount: parseFloat(match[1]), unit: match[2].toUpperCase() as DoseUnit };
+}
+
+function convert(amount: number, from: DoseUnit, to: DoseUnit): number | null {
+  if (from === to) return amount;
+
+  const fromMg = MG_PER_UNIT[from];
+  const toMg = MG_PER_UNIT[to];
+  return fromMg && toMg ? (amount * fromMg) / toMg : null;
+}
+
+const plural = (count: number, [one, many]: [string, string]) => (count === 1 ? one : many);
+
+// Rounds up, ignoring float noise (0.1 * 3 = 0.30000000000000004)
+const roundUp = (value: number) => Math.ceil(Math.round(value * 1e6) / 1e6);
+
+/**
+ * ⭐ Quantity to dispense for a sig
+ * Null when the dose unit doesn't fit the medicine (5 ml of a tablet)
+ */
+export function calculateDispenseQuantity(sig: Sig, form: DispensingForm): DispenseQuantity | null {
+  const type = form.type.trim().toLowerCase();
+  const strength = parseStrength(form.strength);
+  const doses = totalDoses(sig);
+
+  const countedUnit = COUNTED_FORMS[type];
+  if (countedUnit) {
+    let unitsPerDose: number | null = null;
+
+    if (sig.doseUnit === DoseUnit.TABLET || sig.doseUnit === DoseUnit.CAPSULE) {
+      unitsPerDose = sig.doseAmount;
+    } else if (strength) {
+      const converted = convert(sig.doseAmount, sig.doseUnit, strength.unit);
+      unitsPerDose = converted === null ? null : converted / strength.amount;
+    }
+
+    if (unitsPerDose === null) return null;
+
+    const quantity = Math.max(roundUp(unitsPerDose * doses), 1);
+    return { quantity, unit: plural(quantity, UNIT_LABELS[countedUnit]) };
+  }
+
+  const packName = PACK_NAMES[type] || 'pack';
+  const packLabel: [string, string] = [packName, `${packName}s`];
+
+  if (UNMEASURED_UNITS.includes(sig.doseUnit)) {
+    return { quantity: 1, unit: plural(1, packLabel) };
+  }
+
+  if (!strength) return null;
+
+  const perDose = convert(sig.doseAmount, sig.doseUnit, strength.unit);
+  if (perDose === null) return null;
+
+  const quantity = Math.max(roundUp((perDose * doses) / strength.amount), 1);
+  return { quantity, unit: plural(quantity, packLabel) };
+}
+
+/**
+ * ⭐ Render a sig for display, storage and print
+ */
+export function formatSig(sig: Sig): RenderedSig {
+  const dosage = `${sig.doseAmount} ${plural(sig.doseAmount, UNIT_LABELS[sig.doseUnit])}`;
+
+  let phrase: string;
+  let frequency: string;
+  switch (sig.frequencyCode) {
+    case FrequencyCode.SOS:
+      phrase = sig.sosMaxPerDay
+        ? `when required (max ${sig.sosMaxPerDay} a day)`
+        : 'when required';
+      frequency = `SOS (${phrase})`;
+      break;
+    case FrequencyCode.CUSTOM:
+      phrase = `at ${(sig.customTimes || []).join(', ')}`;
+      frequency = (sig.customTimes || []).join(', ');
+      break;
+    case FrequencyCode.WEEKLY:
+      phrase = FREQUENCY_PHRASES.WEEKLY;
+      frequency = `Weekly (${phrase})`;
+      break;
+    default:
+      phrase = FREQUENCY_PHRASES[sig.frequencyCode];
+      frequency = `${sig.frequencyCode} (${phrase})`;
+  }
+
+  const durationUnit = sig.durationUnit.toLowerCase();
+  const duration = `${sig.durationValue} ${sig.durationValue === 1 ? durationUnit.slice(0, -1) : durationUnit}`;
+
+  const text = [dosage, ROUTE_PHRASES[sig.route], phrase, FOOD_PHRASES[sig.foodTiming], `for ${duration}`]
+    .filter(Boolean)
+    .join(' ');
+
+  return { dosage, frequency, duration, text };
+}
+
+/**
+ * The stored sig of a prescription item; null for items written as free text
+ */
+export function sigFromItem(item: {
+  doseAmount: number | null;
+  doseUnit: DoseUnit | null;
+  frequencyCode: FrequencyCode | null;
+  customTimes: string[];
+  sosMaxPerDay: number | null;
+  route: DoseRoute | null;
+  durationValue: number | null;
+  durationUnit: DurationUnit | null;
+  foodTiming: FoodTiming | null;
+}): Sig | null {
+  const { doseAmount, doseUnit, frequencyCode, route, durationValue, durationUnit, foodTiming } = item;
+
+  if (!doseAmount || !doseUnit || !frequencyCode || !route || !durationValue || !durationUnit || !foodTiming) {
+    return null;
+  }
+
+  return {
+    doseAmount,
+    doseUnit,
+    frequencyCode,
+    customTimes: item.customTimes,
+    sosMaxPerDay: item.sosMaxPerDay,
+    route,
+    durationValue,
+    durationUnit,
+    foodTiming,
+  };
+}
+
+const UNIT_WORDS: Record<string, DoseUnit> = {
+  tab: DoseUnit.TABLET,
+  tabs: DoseUnit.TABLET,
+  tablet: DoseUnit.TABLET,
+  tablets: DoseUnit.TABLET,
+  cap: DoseUnit.CAPSULE,
+  caps: DoseUnit.CAPSULE,
+  capsule: DoseUnit.CAPSULE,
+  capsules: DoseUnit.CAPSULE,
+  ml: DoseUnit.ML,
+  mg: DoseUnit.MG,
+  g: DoseUnit.G,
+  mcg: DoseUnit.MCG,
+  iu: DoseUnit.IU,
+  units: DoseUnit.IU,
+  drop: DoseUnit.DROP,
+  drops: DoseUnit.DROP,
+  puff: DoseUnit.PUFF,
+  puffs: DoseUnit.PUFF,
+  application: DoseUnit.APPLICATION,
+  apply: DoseUnit.APPLICATION,
+};
+
+// Morning-noon-night(-bedtime) patterns by number of doses
+const PATTERN_FREQUENCIES: Record<number, FrequencyCode> = {
+  1: FrequencyCode.OD,
+  2: FrequencyCode.BD,
+  3: FrequencyCode.TDS,
+  4: FrequencyCode.QID,
+};
+
+function parseLegacyFrequency(frequency: string): FrequencyCode | null {
+  const text = frequency.trim().toLowerCase();
+  const rules: [RegExp, FrequencyCode][] = [
+    [/\b(sos|prn)\b|required|needed/, FrequencyCode.SOS],
+    [/week/, FrequencyCode.WEEKLY],
+    [/\bhs\b|bedtime|night/, FrequencyCode.HS],
+    [/\b(qid|qds)\b|four|\b4\s*times/, FrequencyCode.QID],
+    [/\b(tds|tid)\b|thrice|three|\b3\s*times/, FrequencyCode.TDS],
+    [/\b(bd|bid)\b|twice|\b2\s*times/, FrequencyCode.BD],
+    [/\b(od|qd)\b|once|\b1\s*time|daily/, FrequencyCode.OD],
+  ];
+
+  return rules.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+}
+
+/**
+ * ⭐ Read a sig from free-text dosage/frequency/duration
+ * Null when a field can't be understood
+ */
+export function parseLegacySig(
+  fields: { dosage: string; frequency?: string | null; duration: string },
+  form: DispensingForm,
+): Sig | null {
+  const defaults = sigDefaults(form.type);
+  const dosage = fields.dosage.trim().toLowerCase();
+
+  let doseAmount: number;
+  let doseUnit = defaults.doseUnit;
+  let frequencyCode: FrequencyCode | null = null;
+
+  const pattern = dosage.match(/^\d+(?:\.\d+)?(?:\s*-\s*\d+(?:\.\d+)?){2,3}$/);
+  if (pattern) {
+    // "1-0-1": the same dose at each non-zero slot
+    const slots = dosage.split('-').map((part) => parseFloat(part));
+    const given = slots.filter((amount) => amount > 0);
+    if (given.length === 0 || given.some((amount) => amount !== given[0])) return null;
+
+    doseAmount = given[0];
+    frequencyCode =
+      given.length === 1 && slots.indexOf(given[0]) === slots.length - 1
+        ? FrequencyCode.HS
+        : PATTERN_FREQUENCIES[given.length];
+  } else {
+    const match = dosage.match(/^(\d+(?:\.\d+)?)\s*([a-z]+)?/);
+    if (!match) return null;
+
+    doseAmount = parseFloat(match[1]);
+    if (match[2]) {
+      const unit = UNIT_WORDS[match[2]];
+      if (!unit) return null;
+      doseUnit = unit;
+    }
+
+    frequencyCode = parseLegacyFrequency(fields.frequency || '');
+  }
+
+  if (!frequencyCode || doseAmount <= 0) return null;
+
+  const duration = fields.duration.trim().toLowerCase().match(/^(\d+)\s*([a-z]+)?/);
+  if (!duration) return null;
+
+  const unitWord = duration[2] || 'days';
+  const durationUnit = unitWord.startsWith('w')
+    ? DurationUnit.WEEKS
+    : unitWord.startsWith('m')
+      ? DurationUnit.MONTHS
+      : unitWord.startsWith('d')
+        ? DurationUnit.DAYS
+        : null;
+  if (!durationUnit) return null;
+
+  return {
+    doseAmount,
+    doseUnit,
+    frequencyCode,
+    route: defaults.route,
+    durationValue: parseInt(duration[1]),
+    durationUnit,
+    foodTiming: FoodTiming.ANY,
+  };
+}
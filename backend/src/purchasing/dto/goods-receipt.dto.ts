@@ -0,0 +1,93 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsInt,
+  IsNumber,
+  IsPositive,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  ArrayMinSize,
+  Min,
+  Max,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { SupplierPaymentMode } from '@prisma/client';
+
+export class GoodsReceiptItemDto {
+  @IsString()
+  medicineId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  batchNumber: string;
+
+  @IsDateString()
+  expiryDate: string;
+
+  @IsInt()
+  @Min(0)
+  quantity: number; // Billed units
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  freeQuantity?: number; // Scheme units, no charge
+
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Min(0)
+  purchaseRate: number; // Per billed unit, before GST
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(0.28)
+  gstRate?: number; // Defaults to the medicine's GST rate
+}
+
+/**
+ * DTO for capturing a supplier invoice as a goods-receipt note (draft)
+ */
+export class CreateGoodsReceiptDto {
+  @IsString()
+  supplierId: string;
+
+  @IsOptional()
+  @IsString()
+  purchaseOrderId?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  invoiceNumber: string;
+
+  @IsDateString()
+  invoiceDate: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => GoodsReceiptItemDto)
+  items: GoodsReceiptItemDto[];
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+/**
+ * DTO for a payment to a supplier against a posted GRN
+ */
+export class RecordSupplierPaymentDto {
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  amount: number;
+
+  @IsEnum(SupplierPaymentMode)
+  mode: SupplierPaymentMode;
+
+  @IsOptional()
+  @IsString()
+  reference?: string; // Cheque / UTR number
+}
@@ -0,0 +1,57 @@
+import {
+  IsString,
+  IsOptional,
+  IsInt,
+  IsNumber,
+  IsPositive,
+  IsArray,
+  IsDateString,
+  ArrayMinSize,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class PurchaseOrderItemDto {
+  @IsString()
+  medicineId: string;
+
+  @IsInt()
+  @IsPositive()
+  quantity: number;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @IsPositive()
+  rate?: number; // Expected purchase rate per unit
+}
+
+/**
+ * DTO for raising a purchase order (created as a draft)
+ */
+export class CreatePurchaseOrderDto {
+  @IsString()
+  supplierId: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => PurchaseOrderItemDto)
+  items: PurchaseOrderItemDto[];
+
+  @IsOptional()
+  @IsDateString()
+  expectedDate?: string; // Defaults to today + supplier lead time
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+/**
+ * DTO for raising purchase orders from low-stock alerts
+ */
+export class AutoPurchaseOrdersDto {
+  @IsOptional()
+  @IsString()
+  defaultSupplierId?: string; // For medicines never received from any supplier
+}
@@ -0,0 +1,95 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsInt,
+  IsEmail,
+  IsBoolean,
+  Min,
+  Matches,
+} from 'class-validator';
+
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+/**
+ * DTO for adding a supplier
+ */
+export class CreateSupplierDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  contactPerson?: string;
+
+  @IsOptional()
+  @IsString()
+  phone?: string;
+
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @IsOptional()
+  @Matches(GSTIN_PATTERN, { message: 'gstin must be a valid 15-character GSTIN' })
+  gstin?: string;
+
+  @IsOptional()
+  @IsString()
+  address?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  paymentTermsDays?: number; // Defaults to 30
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  leadTimeDays?: number; // Defaults to 7
+}
+
+/**
+ * DTO for updating a supplier (only the fields sent are changed)
+ */
+export class UpdateSupplierDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  contactPerson?: string;
+
+  @IsOptional()
+  @IsString()
+  phone?: string;
+
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @IsOptional()
+  @Matches(GSTIN_PATTERN, { message: 'gstin must be a valid 15-character GSTIN' })
+  gstin?: string;
+
+  @IsOptional()
+  @IsString()
+  address?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  paymentTermsDays?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  leadTimeDays?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,102 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import { GoodsReceiptStatus, UserRole } from '@prisma/client';
+import { GoodsReceiptsService } from './goods-receipts.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CreateGoodsReceiptDto, RecordSupplierPaymentDto } from './dto/goods-receipt.dto';
+
+/**
+ * GoodsReceiptsController
+ *
+ * Endpoints:
+ * - GET /api/purchasing/goods-receipts?status=DRAFT&supplierId= - GRNs
+ * - GET /api/purchasing/goods-receipts/:id - GRN with lines and payments
+ * - POST /api/purchasing/goods-receipts - Capture supplier invoice (draft)
+ * - POST /api/purchasing/goods-receipts/:id/post - Receive into stock
+ * - POST /api/purchasing/goods-receipts/:id/payments - Pay supplier
+ */
+@Controller('purchasing/goods-receipts')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class GoodsReceiptsController {
+  constructor(private readonly goodsReceiptsService: GoodsReceiptsService) {}
+
+  /**
+   * List GRNs
+   * GET /api/purchasing/goods-receipts?status=DRAFT&supplierId=
+   */
+  @Get()
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN, UserRole.BILLING)
+  async getGoodsReceipts(
+    @Query('status') status?: string,
+    @Query('supplierId') supplierId?: string,
+  ) {
+    if (status && !(status in GoodsReceiptStatus)) {
+      throw new BadRequestException(
+        `status must be one of ${Object.values(GoodsReceiptStatus).join(', ')}`,
+      );
+    }
+
+    return this.goodsReceiptsService.getGoodsReceipts({
+      status: status as GoodsReceiptStatus | undefined,
+      supplierId,
+    });
+  }
+
+  /**
+   * Get GRN
+   * GET /api/purchasing/goods-receipts/:id
+   */
+  @Get(':id')
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN, UserRole.BILLING)
+  async getGoodsReceipt(@Param('id') id: string) {
+    return this.goodsReceiptsService.getGoodsReceipt(id);
+  }
+
+  /**
+   * ⭐ Capture a supplier invoice
+   * POST /api/purchasing/goods-receipts
+   * Body: { supplierId, purchaseOrderId?, invoiceNumber, invoiceDate,
+   *         items: [{ medicineId, batchNumber, expiryDate, quantity, freeQuantity?, purchaseRate, gstRate? }] }
+   */
+  @Post()
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN)
+  async createGoodsReceipt(@Body() dto: CreateGoodsReceiptDto, @CurrentUser() user: any) {
+    return this.goodsReceiptsService.createGoodsReceipt(dto, user.id);
+  }
+
+  /**
+   * ⭐ Post a GRN into stock
+   * POST /api/purchasing/goods-receipts/:id/post
+   */
+  @Post(':id/post')
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN)
+  async postGoodsReceipt(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.goodsReceiptsService.postGoodsReceipt(id, user.id);
+  }
+
+  /**
+   * Record a payment to the supplier
+   * POST /api/purchasing/goods-receipts/:id/payments
+   * Body: { amount, mode, reference? }
+   */
+  @Post(':id/payments')
+  @Roles(UserRole.ADMIN, UserRole.BILLING)
+  async recordPayment(
+    @Param('id') id: string,
+    @Body() dto: RecordSupplierPaymentDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.goodsReceiptsService.recordPayment(id, dto, user.id);
+  }
+}
@@ -0,0 +1,360 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import {
+  GoodsReceiptStatus,
+  Prisma,
+  PurchaseOrderStatus,
+  SequenceName,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SequenceService } from '../sequence/sequence.service';
+import { StockService } from '../pharmacy/stock.service';
+import { isExpired } from '../pharmacy/utils/expiry';
+import { SuppliersService } from './suppliers.service';
+import { calculateReceiptLine, summarizeReceipt } from './utils/receipt-lines';
+import { CreateGoodsReceiptDto, RecordSupplierPaymentDto } from './dto/goods-receipt.dto';
+
+const GOODS_RECEIPT_INCLUDE = {
+  supplier: { select: { id: true, name: true, gstin: true } },
+  purchaseOrder: { select: { id: true, poNumber: true, status: true } },
+  items: {
+    include: { medicine: { select: { id: true, name: true, strength: true } } },
+  },
+  payments: { orderBy: { paidAt: 'asc' } },
+  createdBy: { select: { id: true, name: true } },
+  postedBy: { select: { id: true, name: true } },
+} satisfies Prisma.GoodsReceiptInclude;
+
+/**
+ * GoodsReceiptsService - Goods-received notes (GRN)
+ *
+ * 1. A GRN captures one supplier invoice: batch, expiry, purchase rate,
+ *    free quantity and GST per line, optionally against a purchase order
+ * 2. Posting receives every line into stock (MedicineStock batch + RECEIPT
+ *    movement referencing the GRN) in one stock transaction, and advances
+ *    the purchase order's received quantities
+ * 3. Posted GRNs are payables until paid in full
+ */
+@Injectable()
+export class GoodsReceiptsService {
+  constructor(
+    private prisma: PrismaService,
+    private sequenceService: SequenceService,
+    private stockService: StockService,
+    private suppliersService: SuppliersService,
+  ) {}
+
+  async getGoodsReceipts(filters: { status?: GoodsReceiptStatus; supplierId?: string }) {
+    return this.prisma.goodsReceipt.findMany({
+      where: {
+        ...(filters.status && { status: filters.status }),
+        ...(filters.supplierId && { supplierId: filters.supplierId }),
+      },
+      include: GOODS_RECEIPT_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async getGoodsReceipt(id: string) {
+    const receipt = await this.prisma.goodsReceipt.findUnique({
+      where: { id },
+      include: GOODS_RECEIPT_INCLUDE,
+    });
+
+    if (!receipt) {
+      throw new NotFoundException(`Goods receipt ${id} not found`);
+    }
+
+    return receipt;
+  }
+
+  /**
+   * ⭐ Capture a supplier invoice as a draft GRN
+   * Stock is not touched until the GRN is posted
+   */
+  async createGoodsReceipt(dto: CreateGoodsReceiptDto, createdById: string) {
+    const supplier = await this.suppliersService.getActiveSupplier(dto.supplierId);
+
+    const duplicate = await this.prisma.goodsReceipt.findUnique({
+      where: { supplierId_invoiceNumber: { supplierId: supplier.id, invoiceNumber: dto.invoiceNumber } },
+    });
+    if (duplicate) {
+      throw new ConflictException(
+        `Invoice ${dto.invoiceNumber} from ${supplier.name} is already on ${duplicate.grnNumber}`,
+      );
+    }
+
+    // Lines against a purchase order must be for medicines on that order
+    const orderItemIds = new Map<string, string>();
+    if (dto.purchaseOrderId) {
+      const order = await this.prisma.purchaseOrder.findUnique({
+        where: { id: dto.purchaseOrderId },
+        include: { items: true },
+      });
+
+      if (!order) {
+        throw new NotFoundException(`Purchase order ${dto.purchaseOrderId} not found`);
+      }
+
+      if (order.supplierId !== supplier.id) {
+        throw new BadRequestException(`Purchase order ${order.poNumber} is not with ${supplier.name}`);
+      }
+
+      if (
+        order.status !== PurchaseOrderStatus.ORDERED &&
+        order.status !== PurchaseOrderStatus.PARTIALLY_RECEIVED
+      ) {
+        throw new BadRequestException(
+          `Purchase order ${order.poNumber} is ${order.status.toLowerCase()}; it can't receive goods`,
+        );
+      }
+
+      order.items.forEach((item) => orderItemIds.set(item.medicineId, item.id));
+    }
+
+    const medicines = await this.prisma.medicine.findMany({
+      where: { id: { in: dto.items.map((item) => item.medicineId) } },
+      select: { id: true, name: true, gstRate: true },
+    });
+
+    const invoiceDate = new Date(dto.invoiceDate);
+    const seenBatches = new Set<string>();
+
+    const lines = dto.items.map((item) => {
+      const medicine = medicines.find((med) => med.id === item.medicineId);
+      if (!medicine) {
+        throw new NotFoundException(`Medicine ${item.medicineId} not found`);
+      }
+
+      if (dto.purchaseOrderId && !orderItemIds.has(medicine.id)) {
+        throw new BadRequestException(`${medicine.name} is not on the purchase order`);
+      }
+
+      const batchKey = `${medicine.id}:${item.batchNumber}`;
+      if (seenBatches.has(batchKey)) {
+        throw new BadRequestException(`${medicine.name} batch ${item.batchNumber} is listed twice`);
+      }
+      seenBatches.add(batchKey);
+
+      const freeQuantity = item.freeQuantity || 0;
+      if (item.quantity + freeQuantity === 0) {
+        throw new BadRequestException(`${medicine.name} batch ${item.batchNumber} has no quantity`);
+      }
+
+      const expiryDate = new Date(item.expiryDate);
+      if (isExpired(expiryDate)) {
+        throw new BadRequestException(
+          `${medicine.name} batch ${item.batchNumber} expired on ${expiryDate.toDateString()}`,
+        );
+      }
+
+      const gstRate = item.gstRate ?? medicine.gstRate;
+      const amounts = calculateReceiptLine({
+        quantity: item.quantity,
+        freeQuantity,
+        purchaseRate: item.purchaseRate,
+        gstRate,
+      });
+
+      return {
+        medicineId: medicine.id,
+        purchaseOrderItemId: orderItemIds.get(medicine.id),
+        batchNumber: item.batchNumber,
+        expiryDate,
+        quantity: item.quantity,
+        freeQuantity,
+        purchaseRate: item.purchaseRate,
+        gstRate,
+        amounts,
+      };
+    });
+
+    const totals = summarizeReceipt(lines.map((line) => line.amounts));
+    const dueDate = new Date(invoiceDate.getTime() + supplier.paymentTermsDays * 24 * 60 * 60 * 1000);
+
+    const receipt = await this.prisma.$transaction(async (tx) => {
+      const grnNumber = await this.sequenceService.next(SequenceName.GOODS_RECEIPT, tx);
+
+      return tx.goodsReceipt.create({
+        data: {
+          grnNumber,
+          supplierId: supplier.id,
+          purchaseOrderId: dto.purchaseOrderId,
+          invoiceNumber: dto.invoiceNumber,
+          invoiceDate,
+          dueDate,
+          ...totals,
+          notes: dto.notes,
+          createdById,
+          items: {
+            create: lines.map(({ amounts, ...line }) => ({ ...line, amount: amounts.amount })),
+          },
+        },
+        include: GOODS_RECEIPT_INCLUDE,
+      });
+    });
+
+    console.log(
+      `✅ ${receipt.grnNumber} captured: ${supplier.name} invoice ${dto.invoiceNumber}, ₹${totals.totalAmount}`,
+    );
+
+    return receipt;
+  }
+
+  /**
+   * ⭐ Post a GRN: receive every line into stock
+   * The DRAFT -> POSTED change inside the stock transaction stops a double post;
+   * the purchase order is re-checked under a row lock in the same transaction
+   */
+  async postGoodsReceipt(id: string, postedById: string) {
+    const receipt = await this.getGoodsReceipt(id);
+
+    if (receipt.status !== GoodsReceiptStatus.DRAFT) {
+      throw new BadRequestException(`${receipt.grnNumber} is already posted`);
+    }
+
+    // Lock medicines in id order (see StockService.takeStock)
+    const items = [...receipt.items].sort((a, b) => a.medicineId.localeCompare(b.medicineId));
+    const medicineIds = [...new Set(items.map((item) => item.medicineId))];
+
+    await this.stockService.runStockTransaction(medicineIds, async (tx) => {
+      const { count } = await tx.goodsReceipt.updateMany({
+        where: { id, status: GoodsReceiptStatus.DRAFT },
+        data: { status: GoodsReceiptStatus.POSTED, postedById, postedAt: new Date() },
+      });
+
+      if (count === 0) {
+        throw new BadRequestException(`${receipt.grnNumber} is already posted`);
+      }
+
+      // The order may have been cancelled since the draft was captured; the lock
+      // makes a concurrent cancel wait and then find it received
+      if (receipt.purchaseOrderId) {
+        const [order] = await tx.$queryRaw<Array<{ poNumber: string; status: PurchaseOrderStatus }>>`
+          SELECT "poNumber", "status" FROM "purchase_orders"
+          WHERE "id" = ${receipt.purchaseOrderId}
+          FOR UPDATE
+        `;
+
+        if (
+          order.status !== PurchaseOrderStatus.ORDERED &&
+          order.status !== PurchaseOrderStatus.PARTIALLY_RECEIVED
+        ) {
+          throw new BadRequestException(
+            `Purchase order ${order.poNumber} is ${order.status.toLowerCase().replace('_', ' ')}; ${receipt.grnNumber} cannot be posted against it`,
+          );
+        }
+      }
+
+      for (const item of items) {
+        const { unitCost } = calculateReceiptLine(item);
+
+        const batch = await this.stockService.receiveStock(
+          tx,
+          {
+            medicineId: item.medicineId,
+            batchNumber: item.batchNumber,
+            quantity: item.quantity + item.freeQuantity,
+            expiryDate: item.expiryDate,
+            costPrice: unitCost,
+            supplierId: receipt.supplierId,
+          },
+          {
+            performedById: postedById,
+            reason: `${receipt.supplier.name} invoice ${receipt.invoiceNumber}`,
+            referenceType: 'GRN',
+            referenceId: receipt.grnNumber,
+          },
+        );
+
+        await tx.goodsReceiptItem.update({
+          where: { id: item.id },
+          data: { stockBatchId: batch.id },
+        });
+
+        if (item.purchaseOrderItemId) {
+          await tx.purchaseOrderItem.update({
+            where: { id: item.purchaseOrderItemId },
+            data: { receivedQuantity: { increment: item.quantity } },
+          });
+        }
+      }
+
+      if (receipt.purchaseOrderId) {
+        const orderItems = await tx.purchaseOrderItem.findMany({
+          where: { purchaseOrderId: receipt.purchaseOrderId },
+        });
+        const complete = orderItems.every((item) => item.receivedQuantity >= item.quantity);
+
+        await tx.purchaseOrder.update({
+          where: { id: receipt.purchaseOrderId },
+          data: {
+            status: complete
+              ? PurchaseOrderStatus.RECEIVED
+              : PurchaseOrderStatus.PARTIALLY_RECEIVED,
+          },
+        });
+      }
+    });
+
+    console.log(
+      `✅ ${receipt.grnNumber} posted: ${items.length} batch(es) received from ${receipt.supplier.name}`,
+    );
+
+    return this.getGoodsReceipt(id);
+  }
+
+  /**
+   * ⭐ Record a payment to the supplier against a posted GRN
+   */
+  async recordPayment(id: string, dto: RecordSupplierPaymentDto, recordedById: string) {
+    const receipt = await this.getGoodsReceipt(id);
+
+    if (receipt.status !== GoodsReceiptStatus.POSTED) {
+      throw new BadRequestException(`${receipt.grnNumber} must be posted before it is paid`);
+    }
+
+    const balance = Math.round((receipt.totalAmount - receipt.paidAmount) * 100) / 100;
+    if (dto.amount > balance) {
+      throw new BadRequestException(
+        `Payment ₹${dto.amount} exceeds the balance of ₹${balance} on ${receipt.grnNumber}`,
+      );
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      // Guard against a concurrent payment taking the same balance
+      const { count } = await tx.goodsReceipt.updateMany({
+        where: {
+          id,
+          paidAmount: { lte: Math.round((receipt.totalAmount - dto.amount) * 100) / 100 },
+        },
+        data: { paidAmount: { increment: dto.amount } },
+      });
+
+      if (count === 0) {
+        throw new BadRequestException(`Payment ₹${dto.amount} exceeds the balance on ${receipt.grnNumber}`);
+      }
+
+      await tx.supplierPayment.create({
+        data: {
+          supplierId: receipt.supplierId,
+          goodsReceiptId: id,
+          amount: dto.amount,
+          mode: dto.mode,
+          reference: dto.reference,
+          recordedById,
+        },
+      });
+    });
+
+    console.log(
+      `✅ Paid ₹${dto.amount} (${dto.mode}) to ${receipt.supplier.name} against ${receipt.grnNumber}`,
+    );
+
+    return this.getGoodsReceipt(id);
+  }
+}
@@ -0,0 +1,108 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import { PurchaseOrderStatus, UserRole } from '@prisma/client';
+import { PurchaseOrdersService } from './purchase-orders.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AutoPurchaseOrdersDto, CreatePurchaseOrderDto } from './dto/purchase-order.dto';
+
+/**
+ * PurchaseOrdersController
+ *
+ * Endpoints:
+ * - GET /api/purchasing/purchase-orders?status=ORDERED&supplierId= - Purchase orders
+ * - GET /api/purchasing/purchase-orders/:id - Purchase order with its GRNs
+ * - POST /api/purchasing/purchase-orders - Raise draft order
+ * - POST /api/purchasing/purchase-orders/auto - Raise draft orders from low-stock alerts
+ * - POST /api/purchasing/purchase-orders/:id/place - Place draft with supplier
+ * - POST /api/purchasing/purchase-orders/:id/cancel - Cancel (nothing received yet)
+ */
+@Controller('purchasing/purchase-orders')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class PurchaseOrdersController {
+  constructor(private readonly purchaseOrdersService: PurchaseOrdersService) {}
+
+  /**
+   * List purchase orders
+   * GET /api/purchasing/purchase-orders?status=ORDERED&supplierId=
+   */
+  @Get()
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN)
+  async getPurchaseOrders(
+    @Query('status') status?: string,
+    @Query('supplierId') supplierId?: string,
+  ) {
+    if (status && !(status in PurchaseOrderStatus)) {
+      throw new BadRequestException(
+        `status must be one of ${Object.values(PurchaseOrderStatus).join(', ')}`,
+      );
+    }
+
+    return this.purchaseOrdersService.getPurchaseOrders({
+      status: status as PurchaseOrderStatus | undefined,
+      supplierId,
+    });
+  }
+
+  /**
+   * Get purchase order
+   * GET /api/purchasing/purchase-orders/:id
+   */
+  @Get(':id')
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN)
+  async getPurchaseOrder(@Param('id') id: string) {
+    return this.purchaseOrdersService.getPurchaseOrder(id);
+  }
+
+  /**
+   * ⭐ Raise a purchase order
+   * POST /api/purchasing/purchase-orders
+   * Body: { supplierId, items: [{ medicineId, quantity, rate? }], expectedDate?, notes? }
+   */
+  @Post()
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN)
+  async createPurchaseOrder(@Body() dto: CreatePurchaseOrderDto, @CurrentUser() user: any) {
+    return this.purchaseOrdersService.createPurchaseOrder(dto, user.id);
+  }
+
+  /**
+   * ⭐ Raise draft orders for medicines at or below their reorder level
+   * POST /api/purchasing/purchase-orders/auto
+   * Body: { defaultSupplierId? }
+   */
+  @Post('auto')
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN)
+  async raiseAutoPurchaseOrders(@Body() dto: AutoPurchaseOrdersDto, @CurrentUser() user: any) {
+    return this.purchaseOrdersService.raiseAutoPurchaseOrders(dto, user.id);
+  }
+
+  /**
+   * Place a draft order with the supplier
+   * POST /api/purchasing/purchase-orders/:id/place
+   */
+  @Post(':id/place')
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN)
+  async placePurchaseOrder(@Param('id') id: string) {
+    return this.purchaseOrdersService.placePurchaseOrder(id);
+  }
+
+  /**
+   * Cancel a purchase order
+   * POST /api/purchasing/purchase-orders/:id/cancel
+   */
+  @Post(':id/cancel')
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN)
+  async cancelPurchaseOrder(@Param('id') id: string) {
+    return this.purchaseOrdersService.cancelPurchaseOrder(id);
+  }
+}
@@ -0,0 +1,255 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Prisma, PurchaseOrderStatus, SequenceName } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SequenceService } from '../sequence/sequence.service';
+import { PharmacyService } from '../pharmacy/pharmacy.service';
+import { SuppliersService } from './suppliers.service';
+import {
+  AutoPurchaseOrdersDto,
+  CreatePurchaseOrderDto,
+  PurchaseOrderItemDto,
+} from './dto/purchase-order.dto';
+
+const PURCHASE_ORDER_INCLUDE = {
+  supplier: { select: { id: true, name: true, phone: true, email: true } },
+  items: {
+    include: { medicine: { select: { id: true, name: true, strength: true } } },
+  },
+  createdBy: { select: { id: true, name: true } },
+} satisfies Prisma.PurchaseOrderInclude;
+
+export interface SkippedReorder {
+  medicineId: string;
+  medicineName: string;
+  reason: string;
+}
+
+/**
+ * PurchaseOrdersService - Purchase orders
+ *
+ * 1. Orders are raised as drafts, placed with the supplier, then received
+ *    (possibly over several goods-receipt notes) or cancelled
+ * 2. Auto-reorder: medicines at or below their reorder level (low-stock and
+ *    out-of-stock alerts) are ordered from the supplier who last delivered
+ *    them, in the quantity ReorderService suggests
+ */
+@Injectable()
+export class PurchaseOrdersService {
+  constructor(
+    private prisma: PrismaService,
+    private sequenceService: SequenceService,
+    private pharmacyService: PharmacyService,
+    private suppliersService: SuppliersService,
+  ) {}
+
+  async getPurchaseOrders(filters: { status?: PurchaseOrderStatus; supplierId?: string }) {
+    return this.prisma.purchaseOrder.findMany({
+      where: {
+        ...(filters.status && { status: filters.status }),
+        ...(filters.supplierId && { supplierId: filters.supplierId }),
+      },
+      include: PURCHASE_ORDER_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async getPurchaseOrder(id: string) {
+    const order = await this.prisma.purchaseOrder.findUnique({
+      where: { id },
+      include: {
+        ...PURCHASE_ORDER_INCLUDE,
+        goodsReceipts: {
+          select: { id: true, grnNumber: true, invoiceNumber: true, status: true, postedAt: true },
+        },
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundException(`Purchase order ${id} not found`);
+    }
+
+    return order;
+  }
+
+  /**
+   * ⭐ Raise a purchase order (draft)
+   */
+  async createPurchaseOrder(dto: CreatePurchaseOrderDto, createdById: string) {
+    const supplier = await this.suppliersService.getActiveSupplier(dto.supplierId);
+
+    const medicineIds = dto.items.map((item) => item.medicineId);
+    if (new Set(medicineIds).size !== medicineIds.length) {
+      throw new BadRequestException('Each medicine can appear only once on a purchase order');
+    }
+
+    const medicines = await this.prisma.medicine.findMany({
+      where: { id: { in: medicineIds } },
+      select: { id: true },
+    });
+    const missing = medicineIds.filter((id) => !medicines.some((med) => med.id === id));
+    if (missing.length > 0) {
+      throw new NotFoundException(`Medicine(s) not found: ${missing.join(', ')}`);
+    }
+
+    const expectedDate = dto.expectedDate
+      ? new Date(dto.expectedDate)
+      : new Date(Date.now() + supplier.leadTimeDays * 24 * 60 * 60 * 1000);
+
+    const order = await this.createOrder(
+      supplier.id,
+      dto.items,
+      { expectedDate, notes: dto.notes, isAuto: false },
+      createdById,
+    );
+
+    console.log(`✅ Purchase order ${order.poNumber} raised on ${supplier.name}`);
+
+    return order;
+  }
+
+  /**
+   * ⭐ Raise draft purchase orders for everything at or below its reorder level
+   * One order per supplier; medicines with no supplier on record are skipped
+   * unless a default supplier is given
+   */
+  async raiseAutoPurchaseOrders(dto: AutoPurchaseOrdersDto, createdById: string) {
+    const defaultSupplier = dto.defaultSupplierId
+      ? await this.suppliersService.getActiveSupplier(dto.defaultSupplierId)
+      : null;
+
+    const suggestions = await this.pharmacyService.getReorderSuggestions();
+
+    const bySupplier = new Map<string, PurchaseOrderItemDto[]>();
+    const skipped: SkippedReorder[] = [];
+
+    for (const suggestion of suggestions) {
+      if (suggestion.suggestedQuantity === 0) {
+        skipped.push({
+          medicineId: suggestion.medicineId,
+          medicineName: suggestion.medicineName,
+          reason: `${suggestion.onOrder} already on order`,
+        });
+        continue;
+      }
+
+      const supplierId = suggestion.supplierId || defaultSupplier?.id;
+
+      if (!supplierId) {
+        skipped.push({
+          medicineId: suggestion.medicineId,
+          medicineName: suggestion.medicineName,
+          reason: 'No supplier on record',
+        });
+        continue;
+      }
+
+      const items = bySupplier.get(supplierId) || [];
+      items.push({
+        medicineId: suggestion.medicineId,
+        quantity: suggestion.suggestedQuantity,
+        rate: suggestion.lastPurchaseRate ?? undefined,
+      });
+      bySupplier.set(supplierId, items);
+    }
+
+    const orders = [];
+    for (const [supplierId, items] of bySupplier) {
+      const supplier = await this.suppliersService.getActiveSupplier(supplierId);
+      orders.push(
+        await this.createOrder(
+          supplierId,
+          items,
+          {
+            expectedDate: new Date(Date.now() + supplier.leadTimeDays * 24 * 60 * 60 * 1000),
+            notes: 'Raised from low-stock alerts',
+            isAuto: true,
+          },
+          createdById,
+        ),
+      );
+    }
+
+    console.log(
+      `✅ Auto-reorder: ${orders.length} purchase order(s) raised, ${skipped.length} medicine(s) skipped`,
+    );
+
+    return { orders, skipped };
+  }
+
+  /**
+   * Place a draft order with the supplier
+   */
+  async placePurchaseOrder(id: string) {
+    const order = await this.getPurchaseOrder(id);
+
+    const { count } = await this.prisma.purchaseOrder.updateMany({
+      where: { id, status: PurchaseOrderStatus.DRAFT },
+      data: { status: PurchaseOrderStatus.ORDERED, orderedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException(`Purchase order ${order.poNumber} is not a draft`);
+    }
+
+    console.log(`✅ Purchase order ${order.poNumber} placed with ${order.supplier.name}`);
+
+    return this.getPurchaseOrder(id);
+  }
+
+  /**
+   * Cancel an order that hasn't received any goods
+   */
+  async cancelPurchaseOrder(id: string) {
+    const order = await this.getPurchaseOrder(id);
+
+    const { count } = await this.prisma.purchaseOrder.updateMany({
+      where: {
+        id,
+        status: { in: [PurchaseOrderStatus.DRAFT, PurchaseOrderStatus.ORDERED] },
+      },
+      data: { status: PurchaseOrderStatus.CANCELLED, cancelledAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException(
+        `Purchase order ${order.poNumber} is ${order.status.toLowerCase().replace('_', ' ')}`,
+      );
+    }
+
+    console.log(`⚠️ Purchase order ${order.poNumber} cancelled`);
+
+    return this.getPurchaseOrder(id);
+  }
+
+  private async createOrder(
+    supplierId: string,
+    items: PurchaseOrderItemDto[],
+    details: { expectedDate: Date; notes?: string; isAuto: boolean },
+    createdById: string,
+  ) {
+    return this.prisma.$transaction(async (tx) => {
+      const poNumber = await this.sequenceService.next(SequenceName.PURCHASE_ORDER, tx);
+
+      return tx.purchaseOrder.create({
+        data: {
+          poNumber,
+          supplierId,
+          ...details,
+          createdById,
+          items: {
+            create: items.map((item) => ({
+              medicineId: item.medicineId,
+              quantity: item.quantity,
+              rate: item.rate,
+            })),
+          },
+        },
+        include: PURCHASE_ORDER_INCLUDE,
+      });
+    });
+  }
+}
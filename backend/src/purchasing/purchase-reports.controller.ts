@@ -0,0 +1,57 @@
+import {
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { PurchaseReportsService } from './purchase-reports.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+/**
+ * PurchaseReportsController
+ *
+ * Endpoints:
+ * - GET /api/purchasing/reports/purchases?from=2024-07-01&to=2024-07-31 - Supplier-wise purchases
+ * - GET /api/purchasing/reports/payables - Outstanding to suppliers with ageing
+ */
+@Controller('purchasing/reports')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class PurchaseReportsController {
+  constructor(private readonly purchaseReportsService: PurchaseReportsService) {}
+
+  /**
+   * ⭐ Supplier-wise purchases
+   * GET /api/purchasing/reports/purchases?from=2024-07-01&to=2024-07-31
+   *
+   * Defaults to the current month
+   */
+  @Get('purchases')
+  @Roles(UserRole.ADMIN, UserRole.PHARMACIST, UserRole.BILLING)
+  async getPurchaseReport(@Query('from') from?: string, @Query('to') to?: string) {
+    const now = new Date();
+    const start = from
+      ? new Date(`${from}T00:00:00`)
+      : new Date(now.getFullYear(), now.getMonth(), 1);
+    const end = to ? new Date(`${to}T23:59:59.999`) : now;
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+      throw new BadRequestException('from/to must be valid dates (YYYY-MM-DD), from before to');
+    }
+
+    return this.purchaseReportsService.getPurchaseReport(start, end);
+  }
+
+  /**
+   * ⭐ Supplier payables
+   * GET /api/purchasing/reports/payables
+   */
+  @Get('payables')
+  @Roles(UserRole.ADMIN, UserRole.BILLING)
+  async getPayables() {
+    return this.purchaseReportsService.getPayables();
+  }
+}
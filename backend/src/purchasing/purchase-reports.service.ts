@@ -0,0 +1,153 @@
+import { Injectable } from '@nestjs/common';
+import { GoodsReceiptStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  AgeingBucket,
+  daysOutstanding,
+  emptyAgeingBuckets,
+  getAgeingBucket,
+} from '../billing/utils/ageing';
+
+export interface SupplierPurchases {
+  supplierId: string;
+  supplierName: string;
+  invoiceCount: number;
+  taxableAmount: number;
+  gstAmount: number;
+  totalAmount: number;
+  paidAmount: number;
+}
+
+export interface SupplierPayable {
+  supplierId: string;
+  supplierName: string;
+  outstanding: number;
+  overdue: number; // Past the payment-terms due date
+  ageing: Record<AgeingBucket, number>; // By days since invoice
+  invoices: {
+    goodsReceiptId: string;
+    grnNumber: string;
+    invoiceNumber: string;
+    invoiceDate: Date;
+    dueDate: Date;
+    totalAmount: number;
+    paidAmount: number;
+    balance: number;
+    daysOverdue: number;
+  }[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * PurchaseReportsService - Supplier-wise purchases and payables
+ *
+ * Only posted GRNs count: drafts haven't been received yet
+ */
+@Injectable()
+export class PurchaseReportsService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * ⭐ Purchases per supplier, by invoice date
+   */
+  async getPurchaseReport(from: Date, to: Date) {
+    const groups = await this.prisma.goodsReceipt.groupBy({
+      by: ['supplierId'],
+      where: {
+        status: GoodsReceiptStatus.POSTED,
+        invoiceDate: { gte: from, lte: to },
+      },
+      _count: { _all: true },
+      _sum: { taxableAmount: true, gstAmount: true, totalAmount: true, paidAmount: true },
+    });
+
+    const suppliers = await this.prisma.supplier.findMany({
+      where: { id: { in: groups.map((group) => group.supplierId) } },
+      select: { id: true, name: true },
+    });
+
+    const rows: SupplierPurchases[] = groups
+      .map((group) => ({
+        supplierId: group.supplierId,
+        supplierName: suppliers.find((s) => s.id === group.supplierId)?.name || 'Unknown',
+        invoiceCount: group._count._all,
+        taxableAmount: round2(group._sum.taxableAmount || 0),
+        gstAmount: round2(group._sum.gstAmount || 0),
+        totalAmount: round2(group._sum.totalAmount || 0),
+        paidAmount: round2(group._sum.paidAmount || 0),
+      }))
+      .sort((a, b) => b.totalAmount - a.totalAmount);
+
+    return {
+      from,
+      to,
+      suppliers: rows,
+      totals: {
+        invoiceCount: rows.reduce((sum, row) => sum + row.invoiceCount, 0),
+        taxableAmount: round2(rows.reduce((sum, row) => sum + row.taxableAmount, 0)),
+        gstAmount: round2(rows.reduce((sum, row) => sum + row.gstAmount, 0)),
+        totalAmount: round2(rows.reduce((sum, row) => sum + row.totalAmount, 0)),
+      },
+    };
+  }
+
+  /**
+   * ⭐ Amounts owed to suppliers, with overdue and ageing
+   */
+  async getPayables(asOf: Date = new Date()) {
+    const receipts = await this.prisma.goodsReceipt.findMany({
+      where: { status: GoodsReceiptStatus.POSTED },
+      include: { supplier: { select: { id: true, name: true } } },
+      orderBy: { invoiceDate: 'asc' },
+    });
+
+    const bySupplier = new Map<string, SupplierPayable>();
+
+    for (const receipt of receipts) {
+      const balance = round2(receipt.totalAmount - receipt.paidAmount);
+      if (balance <= 0) continue;
+
+      const payable = bySupplier.get(receipt.supplierId) || {
+        supplierId: receipt.supplierId,
+        supplierName: receipt.supplier.name,
+        outstanding: 0,
+        overdue: 0,
+        ageing: emptyAgeingBuckets(),
+        invoices: [],
+      };
+
+      const daysOverdue = receipt.dueDate < asOf ? daysOutstanding(receipt.dueDate, asOf) : 0;
+
+      payable.outstanding = round2(payable.outstanding + balance);
+      if (receipt.dueDate < asOf) {
+        payable.overdue = round2(payable.overdue + balance);
+      }
+      const bucket = getAgeingBucket(receipt.invoiceDate, asOf);
+      payable.ageing[bucket] = round2(payable.ageing[bucket] + balance);
+
+      payable.invoices.push({
+        goodsReceiptId: receipt.id,
+        grnNumber: receipt.grnNumber,
+        invoiceNumber: receipt.invoiceNumber,
+        invoiceDate: receipt.invoiceDate,
+        dueDate: receipt.dueDate,
+        totalAmount: receipt.totalAmount,
+        paidAmount: receipt.paidAmount,
+        balance,
+        daysOverdue,
+      });
+
+      bySupplier.set(receipt.supplierId, payable);
+    }
+
+    const suppliers = [...bySupplier.values()].sort((a, b) => b.outstanding - a.outstanding);
+
+    return {
+      asOf,
+      totalOutstanding: round2(suppliers.reduce((sum, s) => sum + s.outstanding, 0)),
+      totalOverdue: round2(suppliers.reduce((sum, s) => sum + s.overdue, 0)),
+      suppliers,
+    };
+  }
+}
@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { SuppliersController } from './suppliers.controller';
+import { PurchaseOrdersController } from './purchase-orders.controller';
+import { GoodsReceiptsController } from './goods-receipts.controller';
+import { PurchaseReportsController } from './purchase-reports.controller';
+import { SuppliersService } from './suppliers.service';
+import { PurchaseOrdersService } from './purchase-orders.service';
+import { GoodsReceiptsService } from './goods-receipts.service';
+import { PurchaseReportsService } from './purchase-reports.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { PharmacyModule } from '../pharmacy/pharmacy.module';
+import { SequenceModule } from '../sequence/sequence.module';
+
+@Module({
+  imports: [PrismaModule, PharmacyModule, SequenceModule],
+  controllers: [
+    SuppliersController,
+    PurchaseOrdersController,
+    GoodsReceiptsController,
+    PurchaseReportsController,
+  ],
+  providers: [
+    SuppliersService,
+    PurchaseOrdersService,
+    GoodsReceiptsService,
+    PurchaseReportsService,
+  ],
+  exports: [SuppliersService],
+})
+export class PurchasingModule {}
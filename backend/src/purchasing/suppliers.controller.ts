@@ -0,0 +1,71 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { SuppliersService } from './suppliers.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CreateSupplierDto, UpdateSupplierDto } from './dto/supplier.dto';
+
+/**
+ * SuppliersController
+ *
+ * Endpoints:
+ * - GET /api/purchasing/suppliers?includeInactive=true - Supplier list
+ * - GET /api/purchasing/suppliers/:id - Supplier with open orders and outstanding
+ * - POST /api/purchasing/suppliers - Add supplier
+ * - PATCH /api/purchasing/suppliers/:id - Update or deactivate supplier
+ */
+@Controller('purchasing/suppliers')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class SuppliersController {
+  constructor(private readonly suppliersService: SuppliersService) {}
+
+  /**
+   * List suppliers
+   * GET /api/purchasing/suppliers?includeInactive=true
+   */
+  @Get()
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN, UserRole.BILLING)
+  async getSuppliers(@Query('includeInactive') includeInactive?: string) {
+    return this.suppliersService.getSuppliers(includeInactive === 'true');
+  }
+
+  /**
+   * Get supplier
+   * GET /api/purchasing/suppliers/:id
+   */
+  @Get(':id')
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN, UserRole.BILLING)
+  async getSupplier(@Param('id') id: string) {
+    return this.suppliersService.getSupplier(id);
+  }
+
+  /**
+   * Add supplier
+   * POST /api/purchasing/suppliers
+   */
+  @Post()
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN)
+  async createSupplier(@Body() dto: CreateSupplierDto) {
+    return this.suppliersService.createSupplier(dto);
+  }
+
+  /**
+   * Update supplier
+   * PATCH /api/purchasing/suppliers/:id
+   */
+  @Patch(':id')
+  @Roles(UserRole.PHARMACIST, UserRole.ADMIN)
+  async updateSupplier(@Param('id') id: string, @Body() dto: UpdateSupplierDto) {
+    return this.suppliersService.updateSupplier(id, dto);
+  }
+}
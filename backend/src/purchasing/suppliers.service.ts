@@ -0,0 +1,121 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { GoodsReceiptStatus, PurchaseOrderStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateSupplierDto, UpdateSupplierDto } from './dto/supplier.dto';
+
+/**
+ * SuppliersService - Supplier master
+ *
+ * Suppliers are deactivated rather than deleted: their purchase orders,
+ * goods receipts and payments stay on record
+ */
+@Injectable()
+export class SuppliersService {
+  constructor(private prisma: PrismaService) {}
+
+  async getSuppliers(includeInactive = false) {
+    return this.prisma.supplier.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /**
+   * Supplier with open purchase orders and outstanding balance
+   */
+  async getSupplier(id: string) {
+    const supplier = await this.prisma.supplier.findUnique({
+      where: { id },
+      include: {
+        purchaseOrders: {
+          where: {
+            status: {
+              in: [
+                PurchaseOrderStatus.DRAFT,
+                PurchaseOrderStatus.ORDERED,
+                PurchaseOrderStatus.PARTIALLY_RECEIVED,
+              ],
+            },
+          },
+          select: { id: true, poNumber: true, status: true, expectedDate: true, createdAt: true },
+          orderBy: { createdAt: 'desc' },
+        },
+      },
+    });
+
+    if (!supplier) {
+      throw new NotFoundException(`Supplier ${id} not found`);
+    }
+
+    const posted = await this.prisma.goodsReceipt.aggregate({
+      where: { supplierId: id, status: GoodsReceiptStatus.POSTED },
+      _sum: { totalAmount: true, paidAmount: true },
+    });
+
+    const purchased = posted._sum.totalAmount || 0;
+    const paid = posted._sum.paidAmount || 0;
+
+    return {
+      ...supplier,
+      totalPurchased: purchased,
+      totalPaid: paid,
+      outstanding: Math.round((purchased - paid) * 100) / 100,
+    };
+  }
+
+  /**
+   * Get an active supplier, for raising orders and receipts
+   */
+  async getActiveSupplier(id: string) {
+    const supplier = await this.prisma.supplier.findUnique({ where: { id } });
+
+    if (!supplier) {
+      throw new NotFoundException(`Supplier ${id} not found`);
+    }
+
+    if (!supplier.isActive) {
+      throw new BadRequestException(`Supplier ${supplier.name} is inactive`);
+    }
+
+    return supplier;
+  }
+
+  async createSupplier(dto: CreateSupplierDto) {
+    await this.assertNameFree(dto.name);
+
+    const supplier = await this.prisma.supplier.create({ data: dto });
+
+    console.log(`✅ Supplier ${supplier.name} added`);
+
+    return supplier;
+  }
+
+  async updateSupplier(id: string, dto: UpdateSupplierDto) {
+    const supplier = await this.prisma.supplier.findUnique({ where: { id } });
+
+    if (!supplier) {
+      throw new NotFoundException(`Supplier ${id} not found`);
+    }
+
+    if (dto.name && dto.name !== supplier.name) {
+      await this.assertNameFree(dto.name);
+    }
+
+    return this.prisma.supplier.update({ where: { id }, data: dto });
+  }
+
+  private async assertNameFree(name: string) {
+    const existing = await this.prisma.supplier.findFirst({
+      where: { name: { equals: name, mode: 'insensitive' } },
+    });
+
+    if (existing) {
+      throw new ConflictException(`Supplier ${existing.name} already exists`);
+    }
+  }
+}
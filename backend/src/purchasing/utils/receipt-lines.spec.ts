@@ -0,0 +1,41 @@
+import { calculateReceiptLine, summarizeReceipt } from './receipt-lines';
+
+describe('GRN line amounts', () => {
+  it('should add GST on top of the purchase rate', () => {
+    const line = calculateReceiptLine({ quantity: 100, freeQuantity: 0, purchaseRate: 2.5, gstRate: 0.12 });
+
+    expect(line).toEqual({ taxableAmount: 250, gstAmount: 30, amount: 280, unitCost: 2.5 });
+  });
+
+  it('should spread the cost over free units', () => {
+    // Buy 10 + 1 free at ₹11: landed cost ₹10 per unit
+    const line = calculateReceiptLine({ quantity: 10, freeQuantity: 1, purchaseRate: 11, gstRate: 0.05 });
+
+    expect(line.taxableAmount).toBe(110);
+    expect(line.gstAmount).toBe(5.5);
+    expect(line.amount).toBe(115.5);
+    expect(line.unitCost).toBe(10);
+  });
+
+  it('should give zero cost to an all-free line', () => {
+    const line = calculateReceiptLine({ quantity: 0, freeQuantity: 20, purchaseRate: 4, gstRate: 0.12 });
+
+    expect(line).toEqual({ taxableAmount: 0, gstAmount: 0, amount: 0, unitCost: 0 });
+  });
+
+  it('should round each line to paise', () => {
+    const line = calculateReceiptLine({ quantity: 3, freeQuantity: 0, purchaseRate: 3.333, gstRate: 0.12 });
+
+    expect(line.taxableAmount).toBe(10);
+    expect(line.gstAmount).toBe(1.2);
+  });
+
+  it('should total the lines of an invoice', () => {
+    const totals = summarizeReceipt([
+      calculateReceiptLine({ quantity: 100, freeQuantity: 0, purchaseRate: 2.5, gstRate: 0.12 }),
+      calculateReceiptLine({ quantity: 10, freeQuantity: 1, purchaseRate: 11, gstRate: 0.05 }),
+    ]);
+
+    expect(totals).toEqual({ taxableAmount: 360, gstAmount: 35.5, totalAmount: 395.5 });
+  });
+});
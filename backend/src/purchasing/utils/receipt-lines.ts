@@ -0,0 +1,55 @@
+/**
+ * Goods-receipt (GRN) line amounts
+ *
+ * 1. Supplier invoices bill `quantity` units at the purchase rate, with GST on top
+ * 2. Free (scheme) units come at no charge, so they lower the landed cost:
+ *    unit cost = taxable amount / (billed + free units)
+ * 3. Unit cost excludes GST (input tax is claimed back) and is what the
+ *    batch records as its cost price
+ */
+
+export interface ReceiptLineInput {
+  quantity: number;
+  freeQuantity: number;
+  purchaseRate: number;
+  gstRate: number; // Decimal, e.g. 0.12
+}
+
+export interface ReceiptLineAmounts {
+  taxableAmount: number;
+  gstAmount: number;
+  amount: number;   // Taxable + GST
+  unitCost: number; // Per unit received, before GST
+}
+
+export interface ReceiptTotals {
+  taxableAmount: number;
+  gstAmount: number;
+  totalAmount: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function calculateReceiptLine(line: ReceiptLineInput): ReceiptLineAmounts {
+  const taxableAmount = round2(line.quantity * line.purchaseRate);
+  const gstAmount = round2(taxableAmount * line.gstRate);
+  const units = line.quantity + line.freeQuantity;
+
+  return {
+    taxableAmount,
+    gstAmount,
+    amount: round2(taxableAmount + gstAmount),
+    unitCost: units > 0 ? Math.round((taxableAmount / units) * 10000) / 10000 : 0,
+  };
+}
+
+export function summarizeReceipt(lines: ReceiptLineAmounts[]): ReceiptTotals {
+  const taxableAmount = round2(lines.reduce((sum, line) => sum + line.taxableAmount, 0));
+  const gstAmount = round2(lines.reduce((sum, line) => sum + line.gstAmount, 0));
+
+  return {
+    taxableAmount,
+    gstAmount,
+    totalAmount: round2(taxableAmount + gstAmount),
+  };
+}
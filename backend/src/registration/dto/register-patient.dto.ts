@@ -0,0 +1,44 @@
+import {
+  IsString,
+  IsOptional,
+  IsInt,
+  IsEnum,
+  Min,
+  Max,
+  Matches,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { Gender, DoctorSpecialty } from '@prisma/client';
+
+export class RegisterPatientDto {
+  @IsOptional()
+  @IsString()
+  uhid?: string; // Returning patient: check in against an existing UHID
+
+  @IsString()
+  name: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(130)
+  age: number;
+
+  @IsEnum(Gender)
+  gender: Gender;
+
+  @Matches(/^\d{10}$/, { message: 'mobile must be a 10-digit number' })
+  mobile: string;
+
+  @IsOptional()
+  @IsString()
+  address?: string;
+
+  @IsOptional()
+  @IsEnum(DoctorSpecialty)
+  consultationType?: DoctorSpecialty; // Defaults to GENERAL (shared queue)
+
+  @IsOptional()
+  @IsString()
+  doctorId?: string; // Required for specialist consultations
+}
@@ -0,0 +1,11 @@
+import { IsOptional, IsString, Matches } from 'class-validator';
+
+export class SearchPatientDto {
+  @IsOptional()
+  @IsString()
+  uhid?: string;
+
+  @IsOptional()
+  @Matches(/^\d{10}$/, { message: 'mobile must be a 10-digit number' })
+  mobile?: string;
+}
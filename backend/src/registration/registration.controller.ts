@@ -0,0 +1,46 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { RegistrationService } from './registration.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '@prisma/client';
+import { RegisterPatientDto } from './dto/register-patient.dto';
+import { SearchPatientDto } from './dto/search-patient.dto';
+
+@Controller('registration')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class RegistrationController {
+  constructor(private readonly registrationService: RegistrationService) {}
+
+  /**
+   * Search existing patients by UHID or mobile
+   * GET /api/registration/patients/search?uhid=UH2024001
+   * GET /api/registration/patients/search?mobile=9876543210
+   */
+  @Get('patients/search')
+  @Roles(UserRole.RECEPTIONIST, UserRole.ADMIN)
+  async searchPatients(@Query() searchDto: SearchPatientDto) {
+    return this.registrationService.searchPatients(searchDto);
+  }
+
+  /**
+   * ⭐ Register walk-in patient (new or returning) and allocate token
+   * POST /api/registration/patients
+   */
+  @Post('patients')
+  @Roles(UserRole.RECEPTIONIST, UserRole.ADMIN)
+  async registerPatient(
+    @Body() registerDto: RegisterPatientDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.registrationService.registerPatient(registerDto, user.id);
+  }
+}
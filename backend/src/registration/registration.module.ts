@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { RegistrationController } from './registration.controller';
+import { RegistrationService } from './registration.service';
+import { EventsModule } from '../events/events.module';
+import { DuesModule } from '../dues/dues.module';
+import { SequenceModule } from '../sequence/sequence.module';
+
+@Module({
+  imports: [EventsModule, DuesModule, SequenceModule],
+  controllers: [RegistrationController],
+  providers: [RegistrationService],
+  exports: [RegistrationService],
+})
+export class RegistrationModule {}
@@ -0,0 +1,288 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  Prisma,
+  PatientStage,
+  PatientStatus,
+  DoctorSpecialty,
+  UserRole,
+  SequenceName,
+} from '@prisma/client';
+import { QueueGateway } from '../events/queue.gateway';
+import { DuesService } from '../dues/dues.service';
+import { SequenceService } from '../sequence/sequence.service';
+import { RegisterPatientDto } from './dto/register-patient.dto';
+import { SearchPatientDto } from './dto/search-patient.dto';
+
+/**
+ * RegistrationService - Front desk
+ *
+ * Handles walk-in registration:
+ * 1. Looks up existing patients by UHID or mobile
+ * 2. Creates a new patient with the next UHID when no match is found
+ * 3. Allocates the next daily token and opens a Visit
+ * 4. Drops the patient into the vitals queue (VITALS_PENDING)
+ * 5. Warns the front desk when a returning patient has unpaid dues
+ */
+@Injectable()
+export class RegistrationService {
+  constructor(
+    private prisma: PrismaService,
+    private queueGateway: QueueGateway,
+    private duesService: DuesService,
+    private sequenceService: SequenceService,
+  ) {}
+
+  /**
+   * Search existing patients by UHID or mobile
+   */
+  async searchPatients(searchDto: SearchPatientDto) {
+    const { uhid, mobile } = searchDto;
+
+    if (!uhid && !mobile) {
+      throw new BadRequestException('Provide a UHID or mobile number to search');
+    }
+
+    const patients = await this.prisma.patient.findMany({
+      where: {
+        OR: [
+          ...(uhid ? [{ uhid: { equals: uhid, mode: 'insensitive' as const } }] : []),
+          ...(mobile ? [{ mobile }] : []),
+        ],
+      },
+      include: {
+        visits: {
+          orderBy: { arrivedAt: 'desc' },
+          take: 1,
+        },
+      },
+      orderBy: {
+        registeredAt: 'desc',
+      },
+    });
+
+    // Flag unpaid dues before the patient is checked in
+    const dueTotals = await this.duesService.getDueTotals(
+      patients.map((patient) => patient.id),
+    );
+
+    return patients.map((patient) => ({
+      ...patient,
+      outstandingDue: dueTotals.get(patient.id) || 0,
+    }));
+  }
+
+  /**
+   * ⭐ Register a walk-in patient and open today's visit
+   * Reuses the existing record when the UHID (or mobile + name) matches
+   */
+  async registerPatient(registerDto: RegisterPatientDto, performedBy: string) {
+    const consultationType =
+      registerDto.consultationType || DoctorSpecialty.GENERAL;
+    const doctorId = await this.resolveDoctor(
+      consultationType,
+      registerDto.doctorId,
+    );
+
+    const { patient, visit, existing } = await this.prisma.$transaction(async (tx) => {
+      const existing = await this.findExistingPatient(tx, registerDto);
+
+      if (existing) {
+        // Lock the patient so a concurrent check-in waits and then sees this visit
+        await tx.$queryRaw`SELECT "id" FROM "patients" WHERE "id" = ${existing.id} FOR UPDATE`;
+
+        const activeVisit = await tx.visit.findFirst({
+          where: {
+            patientId: existing.id,
+            status: PatientStatus.IN_PROGRESS,
+          },
+        });
+
+        if (activeVisit) {
+          throw new BadRequestException(
+            `Patient ${existing.uhid} already has an active visit (Token #${activeVisit.token}, ${activeVisit.stage})`,
+          );
+        }
+      }
+
+      const { token, visitDate } = await this.allocateDailyToken(tx);
+
+      const patient = existing
+        ? await tx.patient.update({
+            where: { id: existing.id },
+            data: {
+              // Keep demographics current for returning patients
+              age: registerDto.age,
+              mobile: registerDto.mobile,
+              address: registerDto.address ?? existing.address,
+            },
+          })
+        : await tx.patient.create({
+            data: {
+              uhid: await this.sequenceService.next(SequenceName.UHID, tx),
+              name: registerDto.name,
+              age: registerDto.age,
+              gender: registerDto.gender,
+              mobile: registerDto.mobile,
+              address: registerDto.address,
+            },
+          });
+
+      const visit = await tx.visit.create({
+        data: {
+          patientId: patient.id,
+          token,
+          visitDate,
+          stage: PatientStage.VITALS_PENDING,
+          status: PatientStatus.IN_PROGRESS,
+          consultationType,
+          doctorId,
+        },
+      });
+
+      await tx.patientStateHistory.create({
+        data: {
+          visitId: visit.id,
+          patientId: patient.id,
+          fromStage: null,
+          toStage: PatientStage.VITALS_PENDING,
+          performedBy,
+          reason: existing
+            ? 'Returning patient checked in at front desk'
+            : 'New patient registered at front desk',
+        },
+      });
+
+      return { patient, visit, existing };
+    });
+
+    console.log(
+      `✅ Registered ${patient.name} (${patient.uhid}) with token #${visit.token}`,
+    );
+
+    const dues = existing
+      ? await this.duesService.getPatientDues(patient.id)
+      : null;
+
+    if (dues && dues.totalDue > 0) {
+      console.log(
+        `⚠️ ${patient.uhid} has unpaid dues of ₹${dues.totalDue} across ${dues.dues.length} bill(s)`,
+      );
+    }
+
+    // Broadcast new visit to vitals queue
+    this.queueGateway.broadcastQueueUpdate({
+      type: 'patient_added',
+      patientId: patient.id,
+      visitId: visit.id,
+      patientToken: visit.token,
+      stage: visit.stage,
+      doctorId: visit.doctorId,
+      data: { ...visit, patient },
+    });
+
+    return {
+      patient,
+      visit,
+      isNewPatient: !existing,
+      outstandingDues: dues && dues.totalDue > 0 ? dues : null,
+    };
+  }
+
+  /**
+   * Match a returning patient by UHID, or by mobile + name
+   * (a mobile number is often shared by a whole family)
+   *
+   * Registrations by mobile take a transaction-scoped advisory lock on the
+   * number first, so two desks can't both miss the match and create duplicates
+   */
+  private async findExistingPatient(
+    tx: Prisma.TransactionClient,
+    registerDto: RegisterPatientDto,
+  ) {
+    if (registerDto.uhid) {
+      const patient = await tx.patient.findUnique({
+        where: { uhid: registerDto.uhid },
+      });
+
+      if (!patient) {
+        throw new NotFoundException(`Patient with UHID ${registerDto.uhid} not found`);
+      }
+
+      return patient;
+    }
+
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`patient-mobile:${registerDto.mobile}`}))`;
+
+    return tx.patient.findFirst({
+      where: {
+        mobile: registerDto.mobile,
+        name: {
+          equals: registerDto.name.trim(),
+          mode: 'insensitive',
+        },
+      },
+      orderBy: {
+        registeredAt: 'desc',
+      },
+    });
+  }
+
+  /**
+   * GENERAL consultations go to the shared queue (no doctor)
+   * Specialist consultations must be assigned to a matching doctor
+   */
+  private async resolveDoctor(
+    consultationType: DoctorSpecialty,
+    doctorId?: string,
+  ): Promise<string | null> {
+    if (consultationType === DoctorSpecialty.GENERAL) {
+      return null;
+    }
+
+    if (!doctorId) {
+      throw new BadRequestException(
+        `A doctor must be selected for ${consultationType} consultations`,
+      );
+    }
+
+    const doctor = await this.prisma.user.findUnique({
+      where: { id: doctorId },
+    });
+
+    if (
+      !doctor ||
+      !doctor.isActive ||
+      doctor.role !== UserRole.DOCTOR ||
+      doctor.specialty !== consultationType
+    ) {
+      throw new BadRequestException(
+        `Doctor ${doctorId} is not an active ${consultationType} specialist`,
+      );
+    }
+
+    return doctor.id;
+  }
+
+  /**
+   * Next token for today from the VISIT_TOKEN series (restarts daily)
+   * The counter is atomic, so concurrent registrations never share a token.
+   * visitDate is stored as the same local calendar day the counter is keyed
+   * on; the column default (UTC date) would differ around midnight on an IST server
+   */
+  private async allocateDailyToken(
+    tx: Prisma.TransactionClient,
+  ): Promise<{ token: number; visitDate: Date }> {
+    const now = new Date();
+    const token = Number(await this.sequenceService.next(SequenceName.VISIT_TOKEN, tx, now));
+
+    return {
+      token,
+      visitDate: new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())),
+    };
+  }
+}
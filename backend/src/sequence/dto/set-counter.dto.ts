@@ -0,0 +1,10 @@
+import { IsInt, Min } from 'class-validator';
+
+/**
+ * DTO for moving a series counter forward (current period)
+ */
+export class SetCounterDto {
+  @IsInt()
+  @Min(0)
+  lastValue: number; // Next number issued will be lastValue + 1
+}
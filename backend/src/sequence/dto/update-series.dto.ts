@@ -0,0 +1,15 @@
+import { IsString, IsNotEmpty, IsEnum } from 'class-validator';
+import { SequenceReset } from '@prisma/client';
+
+/**
+ * DTO for changing a number series format
+ * Example: { "pattern": "HMS/{FY}/{SEQ:5}", "resetPeriod": "FINANCIAL_YEAR" }
+ */
+export class UpdateSeriesDto {
+  @IsString()
+  @IsNotEmpty()
+  pattern: string;
+
+  @IsEnum(SequenceReset)
+  resetPeriod: SequenceReset;
+}
@@ -0,0 +1,67 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Patch,
+  Body,
+  Param,
+  ParseEnumPipe,
+  UseGuards,
+} from '@nestjs/common';
+import { UserRole, SequenceName } from '@prisma/client';
+import { SequenceService } from './sequence.service';
+import { UpdateSeriesDto } from './dto/update-series.dto';
+import { SetCounterDto } from './dto/set-counter.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+/**
+ * SequenceController - Number series configuration (ADMIN)
+ *
+ * Endpoints:
+ * - GET /api/sequences - All series with next number
+ * - PUT /api/sequences/:name - Change pattern / reset period
+ * - PATCH /api/sequences/:name/counter - Move current counter forward
+ */
+@Controller('sequences')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class SequenceController {
+  constructor(private readonly sequenceService: SequenceService) {}
+
+  /**
+   * Get all number series
+   * GET /api/sequences
+   */
+  @Get()
+  async getAllSeries() {
+    return this.sequenceService.getAllSeries();
+  }
+
+  /**
+   * Change series format
+   * PUT /api/sequences/BILL
+   */
+  @Put(':name')
+  async updateSeries(
+    @Param('name', new ParseEnumPipe(SequenceName)) name: SequenceName,
+    @Body() dto: UpdateSeriesDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.sequenceService.updateSeries(name, dto, user.id);
+  }
+
+  /**
+   * Move current period's counter forward
+   * PATCH /api/sequences/UHID/counter
+   */
+  @Patch(':name/counter')
+  async setCounter(
+    @Param('name', new ParseEnumPipe(SequenceName)) name: SequenceName,
+    @Body() dto: SetCounterDto,
+  ) {
+    return this.sequenceService.setCounter(name, dto.lastValue);
+  }
+}
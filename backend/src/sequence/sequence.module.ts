@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { SequenceController } from './sequence.controller';
+import { SequenceService } from './sequence.service';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [SequenceController],
+  providers: [SequenceService],
+  exports: [SequenceService],
+})
+export class SequenceModule {}
@@ -0,0 +1,67 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { SequenceName, SequenceReset } from '@prisma/client';
+import { SequenceService } from './sequence.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('SequenceService', () => {
+  let service: SequenceService;
+  let prisma: any;
+
+  beforeEach(async () => {
+    prisma = {
+      numberSeries: {
+        findUnique: jest.fn(({ where }) => Promise.resolve({ id: `series-${where.name}`, name: where.name })),
+        update: jest.fn(({ data }) => Promise.resolve(data)),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [SequenceService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    service = module.get<SequenceService>(SequenceService);
+  });
+
+  describe('updateSeries', () => {
+    it('should accept a plain daily counter for visit tokens', async () => {
+      const updated = await service.updateSeries(
+        SequenceName.VISIT_TOKEN,
+        { pattern: '{SEQ:3}', resetPeriod: SequenceReset.DAILY },
+        'admin-1',
+      );
+
+      expect(updated).toEqual({ pattern: '{SEQ:3}', resetPeriod: SequenceReset.DAILY, updatedBy: 'admin-1' });
+    });
+
+    it('should reject date tokens or other resets for visit tokens', async () => {
+      await expect(
+        service.updateSeries(
+          SequenceName.VISIT_TOKEN,
+          { pattern: '{YYYY}{MM}{DD}{SEQ}', resetPeriod: SequenceReset.DAILY },
+          'admin-1',
+        ),
+      ).rejects.toThrow('plain {SEQ} counter');
+
+      await expect(
+        service.updateSeries(
+          SequenceName.VISIT_TOKEN,
+          { pattern: '{SEQ}', resetPeriod: SequenceReset.NEVER },
+          'admin-1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.numberSeries.update).not.toHaveBeenCalled();
+    });
+
+    it('should still require date tokens for other daily series', async () => {
+      await expect(
+        service.updateSeries(
+          SequenceName.SAMPLE,
+          { pattern: '{SEQ:4}', resetPeriod: SequenceReset.DAILY },
+          'admin-1',
+        ),
+      ).rejects.toThrow('date tokens for a DAILY reset');
+      expect(prisma.numberSeries.update).not.toHaveBeenCalled();
+    });
+  });
+});
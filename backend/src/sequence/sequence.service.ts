@@ -0,0 +1,189 @@
+import {
+  Injectable,
+  OnModuleInit,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { Prisma, SequenceName, SequenceReset } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { UpdateSeriesDto } from './dto/update-series.dto';
+import {
+  formatSequence,
+  sequencePeriod,
+  validatePattern,
+} from './utils/sequence-format';
+
+/**
+ * Built-in formats, created on startup when a series is not configured yet
+ */
+const DEFAULT_SERIES: Record<SequenceName, { pattern: string; resetPeriod: SequenceReset }> = {
+  [SequenceName.BILL]: { pattern: 'HMS/{FY}/{SEQ:4}', resetPeriod: SequenceReset.FINANCIAL_YEAR },
+  [SequenceName.RECEIPT]: { pattern: 'RCP/{FY}/{SEQ:4}', resetPeriod: SequenceReset.FINANCIAL_YEAR },
+  [SequenceName.REFUND_NOTE]: { pattern: 'RFN/{FY}/{SEQ:4}', resetPeriod: SequenceReset.FINANCIAL_YEAR },
+  [SequenceName.SAMPLE]: { pattern: '{YY}{MM}{DD}{SEQ:4}', resetPeriod: SequenceReset.DAILY },
+  [SequenceName.UHID]: { pattern: 'UH{YYYY}{SEQ:3}', resetPeriod: SequenceReset.YEARLY },
+  [SequenceName.PURCHASE_ORDER]: { pattern: 'PO/{FY}/{SEQ:4}', resetPeriod: SequenceReset.FINANCIAL_YEAR },
+  [SequenceName.GOODS_RECEIPT]: { pattern: 'GRN/{FY}/{SEQ:4}', resetPeriod: SequenceReset.FINANCIAL_YEAR },
+  [SequenceName.VISIT_TOKEN]: { pattern: '{SEQ:1}', resetPeriod: SequenceReset.DAILY },
+};
+
+/**
+ * SequenceService - Document numbers
+ *
+ * Issues bill, receipt, refund-note, sample, UHID, purchase-order and GRN numbers,
+ * and daily visit tokens:
+ * 1. One database counter per series per reset period (financial year, day, ...)
+ * 2. Increment is a single INSERT ... ON CONFLICT DO UPDATE, so concurrent
+ *    callers never get the same number; inside a transaction the counter row
+ *    stays locked until commit, so a rolled-back document releases its number
+ * 3. Prefix pattern and reset period are configurable per series
+ */
+@Injectable()
+export class SequenceService implements OnModuleInit {
+  constructor(private prisma: PrismaService) {}
+
+  async onModuleInit() {
+    // Existing configuration is left untouched
+    await this.prisma.numberSeries.createMany({
+      data: Object.entries(DEFAULT_SERIES).map(([name, config]) => ({
+        name: name as SequenceName,
+        ...config,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * ⭐ Issue the next number in a series
+   * Pass the caller's transaction so the number is only consumed on commit
+   */
+  async next(
+    name: SequenceName,
+    tx?: Prisma.TransactionClient,
+    date: Date = new Date(),
+  ): Promise<string> {
+    const client = tx || this.prisma;
+    const series = await this.getSeries(client, name);
+    const period = sequencePeriod(series.resetPeriod, date);
+
+    const [counter] = await client.$queryRaw<Array<{ lastValue: number }>>`
+      INSERT INTO "sequence_counters" ("id", "seriesId", "period", "lastValue")
+      VALUES (${randomUUID()}, ${series.id}, ${period}, 1)
+      ON CONFLICT ("seriesId", "period")
+      DO UPDATE SET "lastValue" = "sequence_counters"."lastValue" + 1
+      RETURNING "lastValue"
+    `;
+
+    return formatSequence(series.pattern, counter.lastValue, date);
+  }
+
+  /**
+   * Issue several consecutive numbers (e.g. one receipt per tender)
+   */
+  async nextMany(
+    name: SequenceName,
+    count: number,
+    tx?: Prisma.TransactionClient,
+  ): Promise<string[]> {
+    const numbers: string[] = [];
+    for (let i = 0; i < count; i++) {
+      numbers.push(await this.next(name, tx));
+    }
+    return numbers;
+  }
+
+  /**
+   * Get all series with their current counter and next number
+   */
+  async getAllSeries() {
+    const now = new Date();
+    const series = await this.prisma.numberSeries.findMany({
+      include: { counters: true },
+      orderBy: { name: 'asc' },
+    });
+
+    return series.map(({ counters, ...config }) => {
+      const period = sequencePeriod(config.resetPeriod, now);
+      const lastValue = counters.find((counter) => counter.period === period)?.lastValue || 0;
+
+      return {
+        ...config,
+        currentPeriod: period,
+        lastValue,
+        nextNumber: formatSequence(config.pattern, lastValue + 1, now),
+      };
+    });
+  }
+
+  /**
+   * Change a series' pattern or reset period
+   */
+  async updateSeries(name: SequenceName, dto: UpdateSeriesDto, updatedBy: string) {
+    // Tokens are stored as numbers and are unique per visit date, so the
+    // counter needs no date tokens (and can't carry any)
+    if (name === SequenceName.VISIT_TOKEN) {
+      if (!/^\{SEQ(:\d+)?\}$/.test(dto.pattern) || dto.resetPeriod !== SequenceReset.DAILY) {
+        throw new BadRequestException('Visit tokens must be a plain {SEQ} counter that resets daily');
+      }
+    } else {
+      const problem = validatePattern(dto.pattern, dto.resetPeriod);
+      if (problem) {
+        throw new BadRequestException(problem);
+      }
+    }
+
+    const series = await this.getSeries(this.prisma, name);
+
+    const updated = await this.prisma.numberSeries.update({
+      where: { id: series.id },
+      data: {
+        pattern: dto.pattern,
+        resetPeriod: dto.resetPeriod,
+        updatedBy,
+      },
+    });
+
+    console.log(`✅ Number series ${name} now "${dto.pattern}" (${dto.resetPeriod})`);
+
+    return updated;
+  }
+
+  /**
+   * Move the current period's counter forward
+   * (e.g. continuing from numbers issued by a previous system)
+   */
+  async setCounter(name: SequenceName, lastValue: number) {
+    const series = await this.getSeries(this.prisma, name);
+    const period = sequencePeriod(series.resetPeriod, new Date());
+
+    const current = await this.prisma.sequenceCounter.findUnique({
+      where: { seriesId_period: { seriesId: series.id, period } },
+    });
+
+    // Going backwards would reissue numbers already printed
+    if (current && lastValue < current.lastValue) {
+      throw new BadRequestException(
+        `${name} counter for ${period} is already at ${current.lastValue}; it can only move forward`,
+      );
+    }
+
+    return this.prisma.sequenceCounter.upsert({
+      where: { seriesId_period: { seriesId: series.id, period } },
+      create: { seriesId: series.id, period, lastValue },
+      update: { lastValue },
+    });
+  }
+
+  private async getSeries(client: Prisma.TransactionClient, name: SequenceName) {
+    const series = await client.numberSeries.findUnique({
+      where: { name },
+    });
+
+    if (!series) {
+      throw new NotFoundException(`Number series ${name} is not configured`);
+    }
+
+    return series;
+  }
+}
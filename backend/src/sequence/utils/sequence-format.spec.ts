@@ -0,0 +1,60 @@
+import { SequenceReset } from '@prisma/client';
+import {
+  financialYear,
+  sequencePeriod,
+  formatSequence,
+  validatePattern,
+} from './sequence-format';
+
+describe('Sequence format', () => {
+  describe('financialYear', () => {
+    it('should roll over on 1 April, not 1 January', () => {
+      expect(financialYear(new Date(2025, 2, 31))).toBe('2024-25');
+      expect(financialYear(new Date(2025, 3, 1))).toBe('2025-26');
+      expect(financialYear(new Date(2025, 0, 15))).toBe('2024-25');
+    });
+
+    it('should handle the century boundary', () => {
+      expect(financialYear(new Date(2099, 5, 1))).toBe('2099-00');
+    });
+  });
+
+  describe('sequencePeriod', () => {
+    const date = new Date(2024, 6, 9);
+
+    it('should bucket counters by reset period', () => {
+      expect(sequencePeriod(SequenceReset.NEVER, date)).toBe('ALL');
+      expect(sequencePeriod(SequenceReset.FINANCIAL_YEAR, date)).toBe('2024-25');
+      expect(sequencePeriod(SequenceReset.YEARLY, date)).toBe('2024');
+      expect(sequencePeriod(SequenceReset.MONTHLY, date)).toBe('2024-07');
+      expect(sequencePeriod(SequenceReset.DAILY, date)).toBe('2024-07-09');
+    });
+  });
+
+  describe('formatSequence', () => {
+    const date = new Date(2025, 1, 3);
+
+    it('should render date tokens and pad the counter', () => {
+      expect(formatSequence('HMS/{FY}/{SEQ:4}', 1, date)).toBe('HMS/2024-25/0001');
+      expect(formatSequence('UH{YYYY}{SEQ:3}', 42, date)).toBe('UH2025042');
+      expect(formatSequence('{YY}{MM}{DD}{SEQ:4}', 7, date)).toBe('2502030007');
+    });
+
+    it('should grow past the padding instead of overflowing', () => {
+      expect(formatSequence('HMS/{FY}/{SEQ:4}', 10000, date)).toBe('HMS/2024-25/10000');
+    });
+  });
+
+  describe('validatePattern', () => {
+    it('should require a counter token', () => {
+      expect(validatePattern('HMS/{FY}', SequenceReset.FINANCIAL_YEAR)).toMatch(/SEQ/);
+    });
+
+    it('should reject patterns that would repeat after a reset', () => {
+      expect(validatePattern('S{SEQ:4}', SequenceReset.DAILY)).not.toBeNull();
+      expect(validatePattern('HMS/{YYYY}/{SEQ:4}', SequenceReset.FINANCIAL_YEAR)).not.toBeNull();
+      expect(validatePattern('{YY}{MM}{DD}{SEQ:4}', SequenceReset.DAILY)).toBeNull();
+      expect(validatePattern('HMS/{FY}/{SEQ:4}', SequenceReset.FINANCIAL_YEAR)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { SequenceReset } from '@prisma/client';
+
+/**
+ * Number series formatting
+ *
+ * Pattern tokens:
+ * - {FY}     Indian financial year (April–March): 2024-25
+ * - {YYYY}   Calendar year: 2024
+ * - {YY}     Two-digit year: 24
+ * - {MM}     Month: 01-12
+ * - {DD}     Day: 01-31
+ * - {SEQ:n}  Counter, zero-padded to at least n digits (grows past 10^n - 1)
+ *
+ * Example: "HMS/{FY}/{SEQ:4}" → HMS/2024-25/0001 ... HMS/2024-25/10000
+ */
+
+const SEQ_TOKEN = /\{SEQ(?::(\d+))?\}/;
+
+/**
+ * Financial year containing a date (April 1 – March 31)
+ * 15 Mar 2025 → 2024-25, 1 Apr 2025 → 2025-26
+ */
+export function financialYear(date: Date): string {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Counter bucket for a date: a new bucket restarts the sequence at 1
+ */
+export function sequencePeriod(reset: SequenceReset, date: Date): string {
+  const yyyy = String(date.getFullYear());
+  const mm = pad(date.getMonth() + 1);
+  const dd = pad(date.getDate());
+
+  switch (reset) {
+    case SequenceReset.NEVER:
+      return 'ALL';
+    case SequenceReset.FINANCIAL_YEAR:
+      return financialYear(date);
+    case SequenceReset.YEARLY:
+      return yyyy;
+    case SequenceReset.MONTHLY:
+      return `${yyyy}-${mm}`;
+    case SequenceReset.DAILY:
+      return `${yyyy}-${mm}-${dd}`;
+  }
+}
+
+/**
+ * Render a pattern for a counter value
+ */
+export function formatSequence(pattern: string, value: number, date: Date): string {
+  return pattern
+    .replace('{FY}', financialYear(date))
+    .replace('{YYYY}', String(date.getFullYear()))
+    .replace('{YY}', String(date.getFullYear() % 100).padStart(2, '0'))
+    .replace('{MM}', pad(date.getMonth() + 1))
+    .replace('{DD}', pad(date.getDate()))
+    .replace(SEQ_TOKEN, (_, width) => String(value).padStart(Number(width || 1), '0'));
+}
+
+/**
+ * A pattern must carry the counter and enough of the date to stay unique
+ * after each reset (e.g. a DAILY series needs the full date)
+ * Returns the problem, or null when the pattern is usable
+ */
+export function validatePattern(pattern: string, reset: SequenceReset): string | null {
+  if (!SEQ_TOKEN.test(pattern)) {
+    return 'Pattern must contain a {SEQ} or {SEQ:n} token';
+  }
+
+  const hasYear = /\{YYYY\}|\{YY\}/.test(pattern);
+  const required: Record<SequenceReset, boolean> = {
+    [SequenceReset.NEVER]: true,
+    [SequenceReset.FINANCIAL_YEAR]: pattern.includes('{FY}'),
+    [SequenceReset.YEARLY]: hasYear,
+    [SequenceReset.MONTHLY]: hasYear && pattern.includes('{MM}'),
+    [SequenceReset.DAILY]: hasYear && pattern.includes('{MM}') && pattern.includes('{DD}'),
+  };
+
+  return required[reset]
+    ? null
+    : `Pattern must include the date tokens for a ${reset} reset, or numbers would repeat`;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
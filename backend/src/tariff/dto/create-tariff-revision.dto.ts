@@ -0,0 +1,73 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsNumber,
+  IsInt,
+  IsDateString,
+  Min,
+  Max,
+} from 'class-validator';
+import {
+  TariffItemType,
+  DoctorSpecialty,
+  ConsultationVisitType,
+} from '@prisma/client';
+
+/**
+ * DTO for adding a price revision to the tariff
+ *
+ * CONSULTATION: specialty + visitType
+ * MEDICINE: medicineId
+ * LAB_TEST: labTestId
+ * LAB_PANEL: labPanelId
+ */
+export class CreateTariffRevisionDto {
+  @IsEnum(TariffItemType)
+  itemType: TariffItemType;
+
+  @IsString()
+  @IsOptional()
+  medicineId?: string;
+
+  @IsString()
+  @IsOptional()
+  labTestId?: string;
+
+  @IsString()
+  @IsOptional()
+  labPanelId?: string;
+
+  @IsEnum(DoctorSpecialty)
+  @IsOptional()
+  specialty?: DoctorSpecialty;
+
+  @IsEnum(ConsultationVisitType)
+  @IsOptional()
+  visitType?: ConsultationVisitType;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  price: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  gstRate: number; // 0.18 = 18%
+
+  @IsString()
+  @IsOptional()
+  hsnSacCode?: string;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  followUpDays?: number; // FOLLOW_UP consultations only
+
+  @IsDateString()
+  effectiveFrom: string;
+
+  @IsString()
+  @IsOptional()
+  reason?: string;
+}
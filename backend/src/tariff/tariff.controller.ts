@@ -0,0 +1,71 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { UserRole, TariffItemType, DoctorSpecialty } from '@prisma/client';
+import { TariffService } from './tariff.service';
+import { CreateTariffRevisionDto } from './dto/create-tariff-revision.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+/**
+ * TariffController
+ *
+ * Endpoints:
+ * - GET /api/tariff/consultation?date=2024-04-01 - Consultation fees in effect
+ * - GET /api/tariff/revisions?itemType=MEDICINE&medicineId=... - Revision history
+ * - POST /api/tariff/revisions - Add price revision (ADMIN)
+ */
+@Controller('tariff')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class TariffController {
+  constructor(private readonly tariffService: TariffService) {}
+
+  /**
+   * Get consultation fees in effect on a date (default: today)
+   * GET /api/tariff/consultation?date=2024-04-01
+   */
+  @Get('consultation')
+  @Roles(UserRole.RECEPTIONIST, UserRole.BILLING, UserRole.ADMIN)
+  async getConsultationTariffs(@Query('date') date?: string) {
+    return this.tariffService.getConsultationTariffs(date ? new Date(date) : new Date());
+  }
+
+  /**
+   * Get revision history
+   * GET /api/tariff/revisions?itemType=LAB_TEST&labTestId=...
+   */
+  @Get('revisions')
+  @Roles(UserRole.BILLING, UserRole.ADMIN)
+  async getRevisions(
+    @Query('itemType') itemType?: TariffItemType,
+    @Query('medicineId') medicineId?: string,
+    @Query('labTestId') labTestId?: string,
+    @Query('labPanelId') labPanelId?: string,
+    @Query('specialty') specialty?: DoctorSpecialty,
+  ) {
+    return this.tariffService.getRevisions({
+      itemType,
+      medicineId,
+      labTestId,
+      labPanelId,
+      specialty,
+    });
+  }
+
+  /**
+   * ⭐ Add price revision
+   * POST /api/tariff/revisions
+   */
+  @Post('revisions')
+  @Roles(UserRole.ADMIN)
+  async createRevision(@Body() dto: CreateTariffRevisionDto, @CurrentUser() user: any) {
+    return this.tariffService.createRevision(dto, user.id);
+  }
+}
@@ -0,0 +1,387 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  Prisma,
+  TariffItemType,
+  DoctorSpecialty,
+  ConsultationVisitType,
+  PatientStatus,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateTariffRevisionDto } from './dto/create-tariff-revision.dto';
+
+/**
+ * Price and tax applicable to one billable item
+ */
+export interface TariffPrice {
+  unitPrice: number;
+  taxRate: number;
+  hsnSacCode: string | null;
+}
+
+export interface ConsultationCharge extends TariffPrice {
+  visitType: ConsultationVisitType;
+  description: string;
+}
+
+/**
+ * TariffService - Price list
+ *
+ * Resolves the price and GST applicable on a given date:
+ * 1. Consultation fees per DoctorSpecialty, NEW vs FOLLOW_UP visit
+ * 2. Medicine, lab test and lab panel prices from effective-dated revisions
+ *    (falling back to the master mrp/price and gstRate)
+ * 3. New revisions close the previous one; revisions already in effect
+ *    are mirrored onto the Medicine/LabTest master
+ */
+@Injectable()
+export class TariffService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * ⭐ Consultation fee for a visit
+   * FOLLOW_UP applies when the patient completed a visit with the same
+   * specialty within the follow-up window
+   */
+  async getConsultationCharge(visit: {
+    id: string;
+    patientId: string;
+    consultationType: DoctorSpecialty;
+    arrivedAt: Date;
+  }): Promise<ConsultationCharge> {
+    const followUp = await this.findRevision(
+      {
+        itemType: TariffItemType.CONSULTATION,
+        specialty: visit.consultationType,
+        visitType: ConsultationVisitType.FOLLOW_UP,
+      },
+      visit.arrivedAt,
+    );
+
+    if (followUp?.followUpDays) {
+      const windowStart = new Date(
+        visit.arrivedAt.getTime() - followUp.followUpDays * 24 * 60 * 60 * 1000,
+      );
+
+      const previousVisit = await this.prisma.visit.findFirst({
+        where: {
+          id: { not: visit.id },
+          patientId: visit.patientId,
+          consultationType: visit.consultationType,
+          status: PatientStatus.COMPLETED,
+          arrivedAt: { gte: windowStart, lt: visit.arrivedAt },
+        },
+      });
+
+      if (previousVisit) {
+        return this.toConsultationCharge(followUp, visit.consultationType);
+      }
+    }
+
+    const newVisit = await this.findRevision(
+      {
+        itemType: TariffItemType.CONSULTATION,
+        specialty: visit.consultationType,
+        visitType: ConsultationVisitType.NEW,
+      },
+      visit.arrivedAt,
+    );
+
+    if (!newVisit) {
+      throw new BadRequestException(
+        `No consultation tariff configured for ${visit.consultationType} on ${visit.arrivedAt.toDateString()}`,
+      );
+    }
+
+    return this.toConsultationCharge(newVisit, visit.consultationType);
+  }
+
+  /**
+   * Medicine price (MRP, tax inclusive) on a date
+   */
+  async getMedicinePrice(
+    medicine: { id: string; mrp: number; gstRate: number; hsnSacCode: string | null },
+    on: Date,
+  ): Promise<TariffPrice> {
+    const revision = await this.findRevision(
+      { itemType: TariffItemType.MEDICINE, medicineId: medicine.id },
+      on,
+    );
+
+    return revision
+      ? this.toPrice(revision)
+      : { unitPrice: medicine.mrp, taxRate: medicine.gstRate, hsnSacCode: medicine.hsnSacCode };
+  }
+
+  /**
+   * Lab test price (tax exclusive) on a date
+   */
+  async getLabTestPrice(
+    test: { id: string; price: number; gstRate: number; hsnSacCode: string | null },
+    on: Date,
+  ): Promise<TariffPrice> {
+    const revision = await this.findRevision(
+      { itemType: TariffItemType.LAB_TEST, labTestId: test.id },
+      on,
+    );
+
+    return revision
+      ? this.toPrice(revision)
+      : { unitPrice: test.price, taxRate: test.gstRate, hsnSacCode: test.hsnSacCode };
+  }
+
+  /**
+   * Lab panel package price (tax exclusive) on a date
+   */
+  async getLabPanelPrice(
+    panel: { id: string; price: number; gstRate: number; hsnSacCode: string | null },
+    on: Date,
+  ): Promise<TariffPrice> {
+    const revision = await this.findRevision(
+      { itemType: TariffItemType.LAB_PANEL, labPanelId: panel.id },
+      on,
+    );
+
+    return revision
+      ? this.toPrice(revision)
+      : { unitPrice: panel.price, taxRate: panel.gstRate, hsnSacCode: panel.hsnSacCode };
+  }
+
+  /**
+   * ⭐ Add a price revision
+   * Revisions are appended in date order; the previous one ends where this starts
+   */
+  async createRevision(dto: CreateTariffRevisionDto, createdBy: string) {
+    const target = await this.resolveTarget(dto);
+    const effectiveFrom = new Date(dto.effectiveFrom);
+
+    const revision = await this.prisma.$transaction(async (tx) => {
+      const current = await tx.tariffRevision.findFirst({
+        where: target,
+        orderBy: { effectiveFrom: 'desc' },
+      });
+
+      if (current && effectiveFrom <= current.effectiveFrom) {
+        throw new BadRequestException(
+          `Revision must take effect after the current one (${current.effectiveFrom.toDateString()})`,
+        );
+      }
+
+      if (current) {
+        await tx.tariffRevision.update({
+          where: { id: current.id },
+          data: { effectiveTo: effectiveFrom },
+        });
+      }
+
+      const revision = await tx.tariffRevision.create({
+        data: {
+          ...target,
+          price: dto.price,
+          gstRate: dto.gstRate,
+          hsnSacCode: dto.hsnSacCode,
+          followUpDays: dto.followUpDays,
+          effectiveFrom,
+          reason: dto.reason,
+          createdBy,
+        },
+      });
+
+      if (effectiveFrom <= new Date()) {
+        await this.syncMaster(tx, revision);
+      }
+
+      return revision;
+    });
+
+    console.log(
+      `✅ Tariff revision for ${this.describe(target)}: ₹${dto.price} @ ${dto.gstRate * 100}% GST from ${effectiveFrom.toDateString()}`,
+    );
+
+    return revision;
+  }
+
+  /**
+   * Consultation fees in effect on a date, per specialty and visit type
+   */
+  async getConsultationTariffs(on: Date = new Date()) {
+    return this.prisma.tariffRevision.findMany({
+      where: {
+        itemType: TariffItemType.CONSULTATION,
+        ...this.effectiveOn(on),
+      },
+      orderBy: [{ specialty: 'asc' }, { visitType: 'asc' }],
+    });
+  }
+
+  /**
+   * Revision history for one tariff line
+   */
+  async getRevisions(filters: {
+    itemType?: TariffItemType;
+    medicineId?: string;
+    labTestId?: string;
+    labPanelId?: string;
+    specialty?: DoctorSpecialty;
+  }) {
+    return this.prisma.tariffRevision.findMany({
+      where: filters,
+      orderBy: { effectiveFrom: 'desc' },
+    });
+  }
+
+  /**
+   * Revision in effect on a date
+   */
+  private async findRevision(target: Prisma.TariffRevisionWhereInput, on: Date) {
+    return this.prisma.tariffRevision.findFirst({
+      where: {
+        ...target,
+        ...this.effectiveOn(on),
+      },
+      orderBy: { effectiveFrom: 'desc' },
+    });
+  }
+
+  private effectiveOn(on: Date): Prisma.TariffRevisionWhereInput {
+    return {
+      effectiveFrom: { lte: on },
+      OR: [{ effectiveTo: null }, { effectiveTo: { gt: on } }],
+    };
+  }
+
+  /**
+   * Validate the revision target for its item type
+   */
+  private async resolveTarget(dto: CreateTariffRevisionDto) {
+    switch (dto.itemType) {
+      case TariffItemType.CONSULTATION:
+        if (!dto.specialty || !dto.visitType) {
+          throw new BadRequestException(
+            'specialty and visitType are required for consultation tariffs',
+          );
+        }
+        if (dto.visitType === ConsultationVisitType.FOLLOW_UP && !dto.followUpDays) {
+          throw new BadRequestException('followUpDays is required for follow-up tariffs');
+        }
+        return {
+          itemType: dto.itemType,
+          specialty: dto.specialty,
+          visitType: dto.visitType,
+        };
+
+      case TariffItemType.MEDICINE: {
+        const medicine = dto.medicineId
+          ? await this.prisma.medicine.findUnique({ where: { id: dto.medicineId } })
+          : null;
+        if (!medicine) {
+          throw new NotFoundException(`Medicine with ID ${dto.medicineId} not found`);
+        }
+        return { itemType: dto.itemType, medicineId: medicine.id };
+      }
+
+      case TariffItemType.LAB_TEST: {
+        const test = dto.labTestId
+          ? await this.prisma.labTest.findUnique({ where: { id: dto.labTestId } })
+          : null;
+        if (!test) {
+          throw new NotFoundException(`Lab test with ID ${dto.labTestId} not found`);
+        }
+        return { itemType: dto.itemType, labTestId: test.id };
+      }
+
+      case TariffItemType.LAB_PANEL: {
+        const panel = dto.labPanelId
+          ? await this.prisma.labPanel.findUnique({ where: { id: dto.labPanelId } })
+          : null;
+        if (!panel) {
+          throw new NotFoundException(`Lab panel with ID ${dto.labPanelId} not found`);
+        }
+        return { itemType: dto.itemType, labPanelId: panel.id };
+      }
+    }
+  }
+
+  /**
+   * Keep the master price in step with the revision now in effect
+   */
+  private async syncMaster(
+    tx: Prisma.TransactionClient,
+    revision: {
+      medicineId: string | null;
+      labTestId: string | null;
+      labPanelId: string | null;
+      price: number;
+      gstRate: number;
+      hsnSacCode: string | null;
+    },
+  ) {
+    if (revision.medicineId) {
+      await tx.medicine.update({
+        where: { id: revision.medicineId },
+        data: {
+          mrp: revision.price,
+          gstRate: revision.gstRate,
+          hsnSacCode: revision.hsnSacCode,
+        },
+      });
+    }
+
+    if (revision.labTestId) {
+      await tx.labTest.update({
+        where: { id: revision.labTestId },
+        data: {
+          price: revision.price,
+          gstRate: revision.gstRate,
+          hsnSacCode: revision.hsnSacCode,
+        },
+      });
+    }
+
+    if (revision.labPanelId) {
+      await tx.labPanel.update({
+        where: { id: revision.labPanelId },
+        data: {
+          price: revision.price,
+          gstRate: revision.gstRate,
+          hsnSacCode: revision.hsnSacCode,
+        },
+      });
+    }
+  }
+
+  private toPrice(revision: { price: number; gstRate: number; hsnSacCode: string | null }): TariffPrice {
+    return {
+      unitPrice: revision.price,
+      taxRate: revision.gstRate,
+      hsnSacCode: revision.hsnSacCode,
+    };
+  }
+
+  private toConsultationCharge(
+    revision: { price: number; gstRate: number; hsnSacCode: string | null; visitType: ConsultationVisitType | null },
+    specialty: DoctorSpecialty,
+  ): ConsultationCharge {
+    const visitType = revision.visitType || ConsultationVisitType.NEW;
+    const label = specialty === DoctorSpecialty.GENERAL ? 'Doctor' : this.titleCase(specialty);
+
+    return {
+      ...this.toPrice(revision),
+      visitType,
+      description:
+        visitType === ConsultationVisitType.FOLLOW_UP
+          ? `${label} Consultation Fee (Follow-up)`
+          : `${label} Consultation Fee`,
+    };
+  }
+
+  private describe(target: { itemType: TariffItemType; specialty?: DoctorSpecialty; visitType?: ConsultationVisitType; medicineId?: string; labTestId?: string; labPanelId?: string }) {
+    if (target.itemType === TariffItemType.CONSULTATION) {
+      return `${target.specialty} ${target.visitType} consultation`;
+    }
+    return `${target.itemType} ${target.medicineId || target.labTestId || target.labPanelId}`;
+  }
+
+  private titleCase(value: string): string {
+    return value.charAt(0) + value.slice(1).toLowerCase();
+  }
+}
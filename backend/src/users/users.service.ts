@@ -143,10 +143,10 @@ export class UsersService {
       totalPrescriptions,
       totalLabOrders,
     ] = await Promise.all([
-      this.prisma.patient.count({
+      this.prisma.visit.count({
         where: { doctorId },
       }),
-      this.prisma.patient.count({
+      this.prisma.visit.count({
         where: {
           doctorId,
           status: 'IN_PROGRESS',
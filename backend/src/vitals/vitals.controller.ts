@@ -11,7 +11,7 @@ export class VitalsController {
   constructor(private vitalsService: VitalsService) {}
 
   /**
-   * Create or update vitals for a patient
+   * Create or update vitals for a visit
    * POST /vitals
    */
   @Post()
@@ -21,17 +21,17 @@ export class VitalsController {
   }
 
   /**
-   * Get vitals by patient ID
-   * GET /vitals/:patientId
+   * Get vitals by visit ID
+   * GET /vitals/:visitId
    */
-  @Get(':patientId')
+  @Get(':visitId')
   @Roles(UserRole.NURSE, UserRole.DOCTOR, UserRole.ADMIN)
-  async getVitalsByPatientId(@Param('patientId') patientId: string) {
-    return this.vitalsService.getVitalsByPatientId(patientId);
+  async getVitalsByVisitId(@Param('visitId') visitId: string) {
+    return this.vitalsService.getVitalsByVisitId(visitId);
   }
 
   /**
-   * Get vitals queue (patients waiting for vitals)
+   * Get vitals queue (visits waiting for vitals)
    * GET /vitals/queue/pending
    */
   @Get('queue/pending')
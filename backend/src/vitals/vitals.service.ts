@@ -3,7 +3,7 @@ import { PrismaService } from '../prisma/prisma.service';
 import { QueueGateway } from '../events/queue.gateway';
 
 interface CreateVitalsDto {
-  patientId: string;
+  visitId: string;
   bp: string;
   pulse: number;
   temperature: number;
@@ -31,15 +31,15 @@ export class VitalsService {
   }
 
   /**
-   * Create or update vitals for a patient
+   * Create or update vitals for a visit
    */
   async createOrUpdateVitals(data: CreateVitalsDto) {
-    const patient = await this.prisma.patient.findUnique({
-      where: { id: data.patientId },
+    const visit = await this.prisma.visit.findUnique({
+      where: { id: data.visitId },
     });
 
-    if (!patient) {
-      throw new NotFoundException('Patient not found');
+    if (!visit) {
+      throw new NotFoundException('Visit not found');
     }
 
     // Calculate BMI
@@ -47,14 +47,14 @@ export class VitalsService {
 
     // Check if vitals already exist
     const existingVitals = await this.prisma.vitals.findUnique({
-      where: { patientId: data.patientId },
+      where: { visitId: data.visitId },
     });
 
     let vitals;
     if (existingVitals) {
       // Update existing vitals
       vitals = await this.prisma.vitals.update({
-        where: { patientId: data.patientId },
+        where: { visitId: data.visitId },
         data: {
           bp: data.bp,
           pulse: data.pulse,
@@ -73,7 +73,8 @@ export class VitalsService {
       // Create new vitals
       vitals = await this.prisma.vitals.create({
         data: {
-          patientId: data.patientId,
+          visitId: visit.id,
+          patientId: visit.patientId,
           bp: data.bp,
           pulse: data.pulse,
           temperature: data.temperature,
@@ -88,13 +89,14 @@ export class VitalsService {
       });
     }
 
-    console.log(`✅ Vitals recorded for patient ${patient.token}: BP ${data.bp}, Temp ${data.temperature}°F`);
+    console.log(`✅ Vitals recorded for token #${visit.token}: BP ${data.bp}, Temp ${data.temperature}°F`);
 
     // Broadcast vitals update event
     this.queueGateway.broadcastQueueUpdate({
       type: 'patient_updated',
-      patientId: patient.id,
-      patientToken: patient.token,
+      patientId: visit.patientId,
+      visitId: visit.id,
+      patientToken: visit.token,
       data: { vitalsRecorded: true },
     });
 
@@ -102,11 +104,11 @@ export class VitalsService {
   }
 
   /**
-   * Get vitals for a patient
+   * Get vitals recorded for a visit
    */
-  async getVitalsByPatientId(patientId: string) {
+  async getVitalsByVisitId(visitId: string) {
     const vitals = await this.prisma.vitals.findUnique({
-      where: { patientId },
+      where: { visitId },
       include: {
         recordedBy: {
           select: {
@@ -119,26 +121,27 @@ export class VitalsService {
     });
 
     if (!vitals) {
-      throw new NotFoundException('Vitals not found for this patient');
+      throw new NotFoundException('Vitals not found for this visit');
     }
 
     return vitals;
   }
 
   /**
-   * Get all patients in vitals queue (VITALS_PENDING stage)
+   * Get all visits in vitals queue (VITALS_PENDING stage)
    */
   async getVitalsQueue() {
-    return this.prisma.patient.findMany({
+    return this.prisma.visit.findMany({
       where: {
         stage: 'VITALS_PENDING',
         status: 'IN_PROGRESS',
       },
       include: {
+        patient: true,
         vitals: true,
       },
       orderBy: {
-        registeredAt: 'asc', // FIFO
+        arrivedAt: 'asc', // FIFO
       },
     });
   }
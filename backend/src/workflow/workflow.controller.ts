@@ -19,29 +19,29 @@ export class WorkflowController {
   constructor(private readonly workflowService: WorkflowService) {}
 
   /**
-   * ⭐ Auto-route patient after consultation
-   * POST /api/workflow/patients/:id/auto-route
+   * ⭐ Auto-route visit after consultation
+   * POST /api/workflow/visits/:id/auto-route
    */
-  @Post('patients/:id/auto-route')
+  @Post('visits/:id/auto-route')
   @Roles(UserRole.DOCTOR)
-  async autoRoute(@Param('id') patientId: string, @CurrentUser() user: any) {
-    return this.workflowService.autoRouteAfterConsultation(patientId, user.id);
+  async autoRoute(@Param('id') visitId: string, @CurrentUser() user: any) {
+    return this.workflowService.autoRouteAfterConsultation(visitId, user.id);
   }
 
   /**
-   * Manually transition patient to next stage
-   * POST /api/workflow/patients/:id/transition
+   * Manually transition visit to next stage
+   * POST /api/workflow/visits/:id/transition
    */
-  @Post('patients/:id/transition')
+  @Post('visits/:id/transition')
   @Roles(UserRole.DOCTOR, UserRole.NURSE, UserRole.ADMIN)
-  async transitionPatient(
-    @Param('id') patientId: string,
+  async transitionVisit(
+    @Param('id') visitId: string,
     @Body('toStage') toStage: PatientStage,
     @Body('reason') reason: string,
     @CurrentUser() user: any,
   ) {
-    return this.workflowService.transitionPatient(
-      patientId,
+    return this.workflowService.transitionVisit(
+      visitId,
       toStage,
       user.id,
       reason,
@@ -50,63 +50,63 @@ export class WorkflowController {
 
   /**
    * Complete vitals and send to doctor queue
-   * POST /api/workflow/patients/:id/complete-vitals
+   * POST /api/workflow/visits/:id/complete-vitals
    */
-  @Post('patients/:id/complete-vitals')
+  @Post('visits/:id/complete-vitals')
   @Roles(UserRole.NURSE, UserRole.ADMIN)
   async completeVitals(
-    @Param('id') patientId: string,
+    @Param('id') visitId: string,
     @CurrentUser() user: any,
   ) {
-    return this.workflowService.completeVitals(patientId, user.id);
+    return this.workflowService.completeVitals(visitId, user.id);
   }
 
   /**
    * Complete lab work
-   * POST /api/workflow/patients/:id/complete-lab
+   * POST /api/workflow/visits/:id/complete-lab
    */
-  @Post('patients/:id/complete-lab')
+  @Post('visits/:id/complete-lab')
   @Roles(UserRole.LAB_TECH, UserRole.ADMIN)
   async completeLabWork(
-    @Param('id') patientId: string,
+    @Param('id') visitId: string,
     @CurrentUser() user: any,
   ) {
-    return this.workflowService.completeLabWork(patientId, user.id);
+    return this.workflowService.completeLabWork(visitId, user.id);
   }
 
   /**
    * Complete pharmacy dispensing
-   * POST /api/workflow/patients/:id/complete-pharmacy
+   * POST /api/workflow/visits/:id/complete-pharmacy
    */
-  @Post('patients/:id/complete-pharmacy')
+  @Post('visits/:id/complete-pharmacy')
   @Roles(UserRole.PHARMACIST, UserRole.ADMIN)
   async completePharmacy(
-    @Param('id') patientId: string,
+    @Param('id') visitId: string,
     @CurrentUser() user: any,
   ) {
-    return this.workflowService.completePharmacy(patientId, user.id);
+    return this.workflowService.completePharmacy(visitId, user.id);
   }
 
   /**
    * Complete billing and checkout
-   * POST /api/workflow/patients/:id/complete-billing
+   * POST /api/workflow/visits/:id/complete-billing
    */
-  @Post('patients/:id/complete-billing')
+  @Post('visits/:id/complete-billing')
   @Roles(UserRole.BILLING, UserRole.ADMIN)
   async completeBilling(
-    @Param('id') patientId: string,
+    @Param('id') visitId: string,
     @CurrentUser() user: any,
   ) {
-    return this.workflowService.completeBilling(patientId, user.id);
+    return this.workflowService.completeBilling(visitId, user.id);
   }
 
   /**
-   * Get patient workflow history
-   * GET /api/workflow/patients/:id/history
+   * Get visit workflow history
+   * GET /api/workflow/visits/:id/history
    */
-  @Get('patients/:id/history')
-  async getWorkflowHistory(@Param('id') patientId: string) {
-    return this.workflowService.getPatientWorkflowHistory(patientId);
+  @Get('visits/:id/history')
+  async getWorkflowHistory(@Param('id') visitId: string) {
+    return this.workflowService.getVisitWorkflowHistory(visitId);
   }
 
   /**
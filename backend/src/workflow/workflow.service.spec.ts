@@ -0,0 +1,121 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { WorkflowService } from './workflow.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { QueueGateway } from '../events/queue.gateway';
+
+describe('WorkflowService', () => {
+  let service: WorkflowService;
+  let prisma: any;
+
+  const visit = (stage: string, extra: Record<string, unknown> = {}) => ({
+    id: 'visit-1',
+    patientId: 'patient-1',
+    doctorId: 'doctor-1',
+    token: 12,
+    stage,
+    prescriptions: [],
+    labOrders: [],
+    ...extra,
+  });
+
+  beforeEach(async () => {
+    prisma = {
+      visit: {
+        findUnique: jest.fn(),
+        update: jest.fn().mockImplementation(({ data }) => Promise.resolve({ ...visit('LAB_PENDING'), ...data })),
+      },
+      patientStateHistory: {
+        create: jest.fn().mockResolvedValue({}),
+      },
+    };
+    // Batch transactions resolve each queued operation
+    prisma.$transaction = jest.fn((operations) => Promise.all(operations));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkflowService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: QueueGateway, useValue: { broadcastQueueUpdate: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<WorkflowService>(WorkflowService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('completeLabWork', () => {
+    it('should only count undispensed prescriptions', async () => {
+      prisma.visit.findUnique.mockResolvedValue(visit('LAB_PENDING'));
+
+      await service.completeLabWork('visit-1', 'tech-1');
+
+      const { include } = prisma.visit.findUnique.mock.calls[0][0];
+      expect(include.prescriptions.where).toEqual({ dispensedAt: null });
+    });
+
+    it('should go straight to billing when pharmacy already dispensed everything', async () => {
+      // Dispensed in parallel: the filtered include returns no prescriptions
+      prisma.visit.findUnique.mockResolvedValue(
+        visit('LAB_PENDING', { labOrders: [{ status: 'RELEASED' }] }),
+      );
+
+      const result = await service.completeLabWork('visit-1', 'tech-1');
+
+      expect(result.stage).toBe('BILLING_PENDING');
+      expect(prisma.patientStateHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ fromStage: 'LAB_PENDING', toStage: 'BILLING_PENDING' }),
+      });
+    });
+
+    it('should go to pharmacy while a prescription is still undispensed', async () => {
+      prisma.visit.findUnique.mockResolvedValue(
+        visit('LAB_PENDING', {
+          prescriptions: [{ id: 'rx-1' }],
+          labOrders: [{ status: 'RELEASED' }],
+        }),
+      );
+
+      const result = await service.completeLabWork('visit-1', 'tech-1');
+
+      expect(result.stage).toBe('PHARMACY_PENDING');
+    });
+
+    it('should reject while lab orders are unreleased', async () => {
+      prisma.visit.findUnique.mockResolvedValue(
+        visit('LAB_PENDING', { labOrders: [{ status: 'COMPLETED' }] }),
+      );
+
+      await expect(service.completeLabWork('visit-1', 'tech-1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(prisma.visit.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('autoRouteAfterConsultation', () => {
+    it('should route a reviewed visit to billing when nothing is left to dispense or test', async () => {
+      prisma.visit.findUnique.mockResolvedValue(visit('DOCTOR_REVIEW_PENDING'));
+
+      const result = await service.autoRouteAfterConsultation('visit-1', 'doctor-1');
+
+      const { include } = prisma.visit.findUnique.mock.calls[0][0];
+      expect(include.prescriptions.where).toEqual({ doctorId: 'doctor-1', dispensedAt: null });
+      expect(include.labOrders.where).toEqual({ doctorId: 'doctor-1', status: { not: 'RELEASED' } });
+      expect(result.stage).toBe('BILLING_PENDING');
+    });
+
+    it('should route a reviewed visit to pharmacy while a prescription is undispensed', async () => {
+      prisma.visit.findUnique.mockResolvedValue(
+        visit('DOCTOR_REVIEW_PENDING', { prescriptions: [{ id: 'rx-1' }] }),
+      );
+
+      const result = await service.autoRouteAfterConsultation('visit-1', 'doctor-1');
+
+      expect(result.stage).toBe('PHARMACY_PENDING');
+    });
+  });
+});
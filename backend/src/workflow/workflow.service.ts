@@ -1,6 +1,6 @@
 import { Injectable, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { PatientStage, PatientStatus } from '@prisma/client';
+import { PatientStage, PatientStatus, LabStatus } from '@prisma/client';
 import { QueueGateway } from '../events/queue.gateway';
 
 interface StateTransition {
@@ -35,6 +35,7 @@ export class WorkflowService {
     [PatientStage.LAB_PENDING]: [
       PatientStage.DOCTOR_REVIEW_PENDING,
       PatientStage.PHARMACY_PENDING, // Parallel routing
+      PatientStage.BILLING_PENDING, // Nothing left to dispense
     ],
     [PatientStage.DOCTOR_REVIEW_PENDING]: [
       PatientStage.PHARMACY_PENDING,
@@ -58,33 +59,33 @@ export class WorkflowService {
   }
 
   /**
-   * ⭐ Transition patient to next stage with validation
+   * ⭐ Transition visit to next stage with validation
    */
-  async transitionPatient(
-    patientId: string,
+  async transitionVisit(
+    visitId: string,
     toStage: PatientStage,
     performedBy?: string,
     reason?: string,
   ) {
-    const patient = await this.prisma.patient.findUnique({
-      where: { id: patientId },
+    const visit = await this.prisma.visit.findUnique({
+      where: { id: visitId },
     });
 
-    if (!patient) {
-      throw new BadRequestException('Patient not found');
+    if (!visit) {
+      throw new BadRequestException('Visit not found');
     }
 
     // Validate transition
-    if (!this.isTransitionValid(patient.stage, toStage)) {
+    if (!this.isTransitionValid(visit.stage, toStage)) {
       throw new BadRequestException(
-        `Invalid transition from ${patient.stage} to ${toStage}`,
+        `Invalid transition from ${visit.stage} to ${toStage}`,
       );
     }
 
     // Perform transition with audit trail
     const updated = await this.prisma.$transaction([
-      this.prisma.patient.update({
-        where: { id: patientId },
+      this.prisma.visit.update({
+        where: { id: visitId },
         data: {
           stage: toStage,
           status:
@@ -97,8 +98,9 @@ export class WorkflowService {
       }),
       this.prisma.patientStateHistory.create({
         data: {
-          patientId,
-          fromStage: patient.stage,
+          visitId,
+          patientId: visit.patientId,
+          fromStage: visit.stage,
           toStage,
           performedBy,
           reason,
@@ -107,13 +109,14 @@ export class WorkflowService {
     ]);
 
     console.log(
-      `✅ Patient ${patient.token} transitioned: ${patient.stage} → ${toStage}`,
+      `✅ Token ${visit.token} transitioned: ${visit.stage} → ${toStage}`,
     );
 
     // Broadcast workflow transition event
     this.queueGateway.broadcastQueueUpdate({
       type: 'stage_changed',
-      patientId: updated[0].id,
+      patientId: updated[0].patientId,
+      visitId: updated[0].id,
       patientToken: updated[0].token,
       stage: toStage,
       doctorId: updated[0].doctorId,
@@ -124,39 +127,30 @@ export class WorkflowService {
   }
 
   /**
-   * ⭐ Auto-route patient after doctor consultation
-   * Determines next stage based on prescriptions and lab orders
+   * ⭐ Auto-route visit after doctor consultation (or lab review)
+   * Determines next stage based on this visit's undispensed prescriptions
+   * and unreleased lab orders
    */
-  async autoRouteAfterConsultation(patientId: string, doctorId: string) {
-    // Get patient with prescriptions and lab orders
-    const patient = await this.prisma.patient.findUnique({
-      where: { id: patientId },
+  async autoRouteAfterConsultation(visitId: string, doctorId: string) {
+    // Get visit with outstanding prescriptions and lab orders
+    const visit = await this.prisma.visit.findUnique({
+      where: { id: visitId },
       include: {
         prescriptions: {
-          where: {
-            doctorId,
-            createdAt: {
-              gte: new Date(Date.now() - 24 * 60 * 60 * 1000), // Last 24 hours
-            },
-          },
+          where: { doctorId, dispensedAt: null },
         },
         labOrders: {
-          where: {
-            doctorId,
-            createdAt: {
-              gte: new Date(Date.now() - 24 * 60 * 60 * 1000), // Last 24 hours
-            },
-          },
+          where: { doctorId, status: { not: LabStatus.RELEASED } },
         },
       },
     });
 
-    if (!patient) {
-      throw new BadRequestException('Patient not found');
+    if (!visit) {
+      throw new BadRequestException('Visit not found');
     }
 
-    const hasPrescription = patient.prescriptions.length > 0;
-    const hasLabOrder = patient.labOrders.length > 0;
+    const hasPrescription = visit.prescriptions.length > 0;
+    const hasLabOrder = visit.labOrders.length > 0;
 
     let nextStage: PatientStage;
     let reason: string;
@@ -181,15 +175,15 @@ export class WorkflowService {
         'Auto-routed to BILLING. Consultation only (no lab/pharmacy needed).';
     }
 
-    return this.transitionPatient(patientId, nextStage, doctorId, reason);
+    return this.transitionVisit(visitId, nextStage, doctorId, reason);
   }
 
   /**
    * Complete vitals and send to doctor queue
    */
-  async completeVitals(patientId: string, performedBy: string) {
-    return this.transitionPatient(
-      patientId,
+  async completeVitals(visitId: string, performedBy: string) {
+    return this.transitionVisit(
+      visitId,
       PatientStage.DOCTOR_PENDING,
       performedBy,
       'Vitals completed',
@@ -198,46 +192,52 @@ export class WorkflowService {
 
   /**
    * Complete lab work
+   * Only once every lab order has been verified and released
    */
-  async completeLabWork(patientId: string, performedBy: string) {
-    // Check if patient also needs pharmacy
-    const patient = await this.prisma.patient.findUnique({
-      where: { id: patientId },
+  async completeLabWork(visitId: string, performedBy: string) {
+    // Check if this visit still needs pharmacy (dispensing may have run in parallel)
+    const visit = await this.prisma.visit.findUnique({
+      where: { id: visitId },
       include: {
         prescriptions: {
-          where: {
-            createdAt: {
-              gte: new Date(Date.now() - 24 * 60 * 60 * 1000),
-            },
-          },
+          where: { dispensedAt: null },
+          select: { id: true },
         },
+        labOrders: { select: { status: true } },
       },
     });
 
-    if (!patient) {
-      throw new BadRequestException('Patient not found');
+    if (!visit) {
+      throw new BadRequestException('Visit not found');
+    }
+
+    const unreleased = visit.labOrders.filter((order) => order.status !== LabStatus.RELEASED);
+    if (unreleased.length > 0) {
+      throw new BadRequestException(
+        `${unreleased.length} lab order(s) not yet verified and released`,
+      );
     }
 
-    const hasPrescription = patient.prescriptions.length > 0;
+    const hasPrescription = visit.prescriptions.length > 0;
 
-    // If has prescription, go to pharmacy; else go to billing
+    // If has undispensed prescription, go to pharmacy; else go to billing
     const nextStage = hasPrescription
       ? PatientStage.PHARMACY_PENDING
       : PatientStage.BILLING_PENDING;
 
     const reason = hasPrescription
       ? 'Lab completed. Moving to pharmacy for medicine dispensing.'
-      : 'Lab completed. No pharmacy needed, moving to billing.';
+      : 'Lab completed. Nothing left to dispense, moving to billing.';
 
-    return this.transitionPatient(patientId, nextStage, performedBy, reason);
+    return this.transitionVisit(visitId, nextStage, performedBy, reason);
   }
 
   /**
    * Complete pharmacy dispensing
    */
-  async completePharmacy(patientId: string, performedBy: string) {
-    return this.transitionPatient(
-      patientId,
+  async completePharmacy(visitId: string, performedBy: string) {
+    return this.transitionVisit(
+      visitId,
       PatientStage.BILLING_PENDING,
       performedBy,
       'Medicine dispensed',
@@ -247,9 +247,9 @@ export class WorkflowService {
   /**
    * Complete billing and checkout patient
    */
-  async completeBilling(patientId: string, performedBy: string) {
-    return this.transitionPatient(
-      patientId,
+  async completeBilling(visitId: string, performedBy: string) {
+    return this.transitionVisit(
+      visitId,
       PatientStage.COMPLETED,
       performedBy,
       'Payment completed',
@@ -257,11 +257,11 @@ export class WorkflowService {
   }
 
   /**
-   * Get patient workflow history
+   * Get visit workflow history
    */
-  async getPatientWorkflowHistory(patientId: string) {
+  async getVisitWorkflowHistory(visitId: string) {
     return this.prisma.patientStateHistory.findMany({
-      where: { patientId },
+      where: { visitId },
       orderBy: {
         timestamp: 'asc',
       },
@@ -276,7 +276,7 @@ export class WorkflowService {
 
     const stats = await Promise.all(
       stages.map(async (stage) => {
-        const count = await this.prisma.patient.count({
+        const count = await this.prisma.visit.count({
           where: {
             stage,
             status: PatientStatus.IN_PROGRESS,
@@ -290,13 +290,13 @@ export class WorkflowService {
       }),
     );
 
-    const totalActive = await this.prisma.patient.count({
+    const totalActive = await this.prisma.visit.count({
       where: {
         status: PatientStatus.IN_PROGRESS,
       },
     });
 
-    const totalCompleted = await this.prisma.patient.count({
+    const totalCompleted = await this.prisma.visit.count({
       where: {
         status: PatientStatus.COMPLETED,
       },
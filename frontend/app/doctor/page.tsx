@@ -17,15 +17,17 @@ import {
 } from "lucide-react";
 import PatientQueue from "@/components/PatientQueue";
 import ConsultationPanel from "@/components/ConsultationPanel";
-import { useQueueUpdates } from "@/hooks/useQueueUpdates";
+import CriticalAlertModal from "@/components/CriticalAlertModal";
+import { useQueueUpdates, toastUserNotification } from "@/hooks/useQueueUpdates";
 
 export default function DoctorDashboard() {
   const router = useRouter();
   const { user, isAuthenticated, logout, initAuth } = useAuthStore();
   const [queue, setQueue] = useState<any[]>([]);
-  const [selectedPatient, setSelectedPatient] = useState<any>(null);
+  const [selectedVisit, setSelectedVisit] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [stats, setStats] = useState<any>(null);
+  const [criticalAlerts, setCriticalAlerts] = useState<any[]>([]);
 
   // WebSocket connection for real-time queue updates
   const { isConnected } = useQueueUpdates({
@@ -42,7 +44,18 @@ export default function DoctorDashboard() {
         toast.info(`Patient #${event.patientToken} moved to ${event.stage}`);
       }
     },
+    // Critical lab values block the console until read back; TAT alerts are toasts
+    onDoctorUpdate: (event) => {
+      if (event.type === "critical_result") {
+        fetchCriticalAlerts();
+      } else if (event.type === "lab_tat_breach") {
+        toast.error(event.message, { duration: 8000 });
+      } else if (event.type === "lab_tat_warning") {
+        toast(event.message, { icon: "⏱️" });
+      }
+    },
     doctorId: user?.id,
+    onUserNotification: toastUserNotification,
     autoConnect: isAuthenticated,
   });
 
@@ -54,6 +67,7 @@ export default function DoctorDashboard() {
     }
     fetchQueue();
     fetchStats();
+    fetchCriticalAlerts();
   }, [isAuthenticated, router, initAuth]);
 
   const fetchQueue = async () => {
@@ -68,6 +82,15 @@ export default function DoctorDashboard() {
     }
   };
 
+  const fetchCriticalAlerts = async () => {
+    try {
+      const data = await api.getOpenCriticalAlerts();
+      setCriticalAlerts(data);
+    } catch (error) {
+      console.error("Error fetching critical alerts:", error);
+    }
+  };
+
   const fetchStats = async () => {
     try {
       const data = await api.getQueueStats();
@@ -77,19 +100,19 @@ export default function DoctorDashboard() {
     }
   };
 
-  const handleSelectPatient = async (patient: any) => {
+  const handleSelectVisit = async (visit: any) => {
     try {
-      // Lock patient if in general queue
-      if (!patient.doctorId) {
-        await api.lockPatient(patient.id);
-        toast.success(`Patient ${patient.name} assigned to you`);
+      // Lock visit if in general queue
+      if (!visit.doctorId) {
+        await api.lockVisit(visit.id);
+        toast.success(`Patient ${visit.patient.name} assigned to you`);
       }
 
-      // Fetch full patient details
-      const fullPatient = await api.getPatientById(patient.id);
-      setSelectedPatient(fullPatient);
+      // Fetch full visit details (with patient history)
+      const fullVisit = await api.getVisitById(visit.id);
+      setSelectedVisit(fullVisit);
     } catch (error: any) {
-      console.error("Error selecting patient:", error);
+      console.error("Error selecting visit:", error);
       toast.error(error.response?.data?.message || "Failed to select patient");
     }
   };
@@ -100,7 +123,7 @@ export default function DoctorDashboard() {
   };
 
   const handleConsultationComplete = () => {
-    setSelectedPatient(null);
+    setSelectedVisit(null);
     fetchQueue();
     fetchStats();
     toast.success("Consultation completed successfully!");
@@ -118,6 +141,8 @@ export default function DoctorDashboard() {
 
   return (
     <div className="min-h-screen p-4 md:p-6">
+      <CriticalAlertModal alerts={criticalAlerts} onAcknowledged={fetchCriticalAlerts} />
+
       <div className="max-w-7xl mx-auto space-y-6">
         {/* Header */}
         <motion.div
@@ -224,8 +249,8 @@ export default function DoctorDashboard() {
           >
             <PatientQueue
               queue={queue}
-              selectedPatient={selectedPatient}
-              onSelectPatient={handleSelectPatient}
+              selectedVisit={selectedVisit}
+              onSelectVisit={handleSelectVisit}
             />
           </motion.div>
 
@@ -236,11 +261,11 @@ export default function DoctorDashboard() {
             transition={{ delay: 0.2 }}
             className="lg:col-span-2"
           >
-            {selectedPatient ? (
+            {selectedVisit ? (
               <ConsultationPanel
-                patient={selectedPatient}
+                visit={selectedVisit}
                 onComplete={handleConsultationComplete}
-                onCancel={() => setSelectedPatient(null)}
+                onCancel={() => setSelectedVisit(null)}
               />
             ) : (
               <div className="glass-card p-12 text-center">
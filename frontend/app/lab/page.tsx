@@ -0,0 +1,517 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAuthStore } from "@/store/authStore";
+import { api } from "@/lib/api";
+import toast from "react-hot-toast";
+import { motion } from "framer-motion";
+import {
+  AlertTriangle,
+  BadgeCheck,
+  FlaskConical,
+  LogOut,
+  RefreshCw,
+  Siren,
+  Syringe,
+  ScanBarcode,
+  TestTube,
+  Wifi,
+  WifiOff,
+} from "lucide-react";
+import { useQueueUpdates, toastUserNotification } from "@/hooks/useQueueUpdates";
+import { PRIORITY_STYLES, LabPriority } from "@/components/LabOrders";
+
+function PriorityBadge({ priority }: { priority: LabPriority }) {
+  if (priority === "ROUTINE") return null;
+
+  return (
+    <span
+      className={`px-2 py-0.5 rounded-full text-xs font-bold flex items-center gap-1 ${
+        PRIORITY_STYLES[priority]
+      } ${priority === "STAT" ? "animate-pulse" : ""}`}
+    >
+      {priority === "STAT" && <Siren className="w-3 h-3" />}
+      {priority}
+    </span>
+  );
+}
+
+export default function LabConsole() {
+  const router = useRouter();
+  const { user, isAuthenticated, logout, initAuth } = useAuthStore();
+  const [worklist, setWorklist] = useState<any[]>([]);
+  const [benchQueue, setBenchQueue] = useState<any[]>([]);
+  const [verificationQueue, setVerificationQueue] = useState<any[]>([]);
+  const [scanValue, setScanValue] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  // Pathologists only verify; lab techs collect and run samples; admins see both
+  const isPathologist = user?.role === "PATHOLOGIST";
+  const canVerify = isPathologist || user?.role === "ADMIN";
+
+  const fetchQueues = useCallback(async () => {
+    try {
+      if (!isPathologist) {
+        const [worklistData, benchData] = await Promise.all([
+          api.getCollectionWorklist(),
+          api.getInProgressLabOrders(),
+        ]);
+        setWorklist(worklistData);
+        setBenchQueue(benchData);
+      }
+      if (canVerify) {
+        setVerificationQueue(await api.getVerificationQueue());
+      }
+    } catch (error) {
+      console.error("Error fetching lab queues:", error);
+      toast.error("Failed to load lab queues");
+    } finally {
+      setLoading(false);
+    }
+  }, [isPathologist, canVerify]);
+
+  // STAT orders and TAT alerts arrive on the lab queue
+  const handleQueueAlert = useCallback(
+    (event: { type: string; message: string }) => {
+      if (event.type === "lab_stat_order") {
+        toast.error(event.message, { icon: "🚨", duration: 10000 });
+      } else if (event.type === "critical_result_acknowledged") {
+        toast.success(event.message);
+      } else if (event.type === "lab_tat_breach") {
+        toast.error(event.message, { duration: 8000 });
+      } else {
+        toast(event.message, { icon: "⏱️" });
+      }
+      fetchQueues();
+    },
+    [fetchQueues]
+  );
+
+  const { isConnected } = useQueueUpdates({
+    onQueueAlert: handleQueueAlert,
+    queues: ["lab"],
+    onUserNotification: toastUserNotification,
+    autoConnect: isAuthenticated,
+  });
+
+  useEffect(() => {
+    initAuth();
+    if (!isAuthenticated) {
+      router.push("/login");
+      return;
+    }
+
+    // Only lab staff can access this page
+    if (!["LAB_TECH", "PATHOLOGIST", "ADMIN"].includes(user?.role || "")) {
+      toast.error("Access denied: Lab staff only");
+      router.push("/login");
+      return;
+    }
+
+    fetchQueues();
+  }, [isAuthenticated, user, router, initAuth, fetchQueues]);
+
+  const printLabels = async (sampleIds: string[]) => {
+    const blob = await api.getSpecimenLabels(sampleIds);
+    const url = URL.createObjectURL(blob);
+    window.open(url, "_blank");
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  };
+
+  const handleCollect = async (patientId: string, sampleType: string) => {
+    setBusy(true);
+    try {
+      const specimen = await api.collectSpecimen({ patientId, sampleType });
+      toast.success(`${sampleType} collected: ${specimen.sampleId}`);
+      await printLabels([specimen.sampleId]);
+      fetchQueues();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to collect specimen");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const sampleId = scanValue.trim();
+    if (!sampleId) return;
+
+    setBusy(true);
+    try {
+      await api.receiveSpecimen(sampleId);
+      toast.success(`Specimen ${sampleId} received`);
+      setScanValue("");
+      fetchQueues();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to receive specimen");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleVerify = async (order: any) => {
+    setBusy(true);
+    try {
+      await api.verifyLabOrder(order.id);
+      toast.success(`${order.test.name} released for ${order.patient.name}`);
+      fetchQueues();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to verify results");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLogout = () => {
+    logout();
+    router.push("/login");
+  };
+
+  const statCount =
+    worklist.filter((entry) => entry.priority === "STAT").length +
+    benchQueue.filter((order) => order.priority === "STAT").length +
+    verificationQueue.filter((order) => order.priority === "STAT").length;
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="glass-card p-8">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen p-4 md:p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass-card p-6"
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <div className="w-12 h-12 bg-gradient-to-br from-teal-500 to-cyan-600 rounded-xl flex items-center justify-center">
+                <FlaskConical className="w-6 h-6 text-white" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-800">Lab Console</h1>
+                <p className="text-sm text-gray-600">
+                  Welcome, {user?.name || "Lab Technician"} •{" "}
+                  {isPathologist ? "Result Verification" : "Collection & Bench"}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3">
+              {/* WebSocket Status Indicator */}
+              <div
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg ${
+                  isConnected
+                    ? "bg-green-100 text-green-700"
+                    : "bg-red-100 text-red-700"
+                }`}
+              >
+                {isConnected ? (
+                  <>
+                    <Wifi className="w-4 h-4" />
+                    <span className="text-xs font-medium">Live</span>
+                  </>
+                ) : (
+                  <>
+                    <WifiOff className="w-4 h-4" />
+                    <span className="text-xs font-medium">Offline</span>
+                  </>
+                )}
+              </div>
+
+              <button
+                onClick={fetchQueues}
+                className="btn-secondary flex items-center gap-2"
+              >
+                <RefreshCw className="w-4 h-4" />
+                Refresh
+              </button>
+              <button
+                onClick={handleLogout}
+                className="btn-secondary flex items-center gap-2 text-red-600"
+              >
+                <LogOut className="w-4 h-4" />
+                Logout
+              </button>
+            </div>
+          </div>
+
+          {/* Queue Stats */}
+          <div
+            className={`mt-6 grid gap-4 ${
+              isPathologist ? "grid-cols-2" : canVerify ? "grid-cols-4" : "grid-cols-3"
+            }`}
+          >
+            <div
+              className={`rounded-xl p-4 ${
+                statCount > 0 ? "bg-red-600 text-white" : "bg-white/50 text-gray-600"
+              }`}
+            >
+              <p className="text-sm flex items-center gap-2">
+                <Siren className="w-4 h-4" />
+                STAT
+              </p>
+              <p className="text-3xl font-bold">{statCount}</p>
+            </div>
+            {!isPathologist && (
+              <>
+                <div className="bg-white/50 rounded-xl p-4">
+                  <p className="text-sm text-gray-600">Awaiting Collection</p>
+                  <p className="text-3xl font-bold text-indigo-600">{worklist.length}</p>
+                </div>
+                <div className="bg-white/50 rounded-xl p-4">
+                  <p className="text-sm text-gray-600">On the Bench</p>
+                  <p className="text-3xl font-bold text-indigo-600">{benchQueue.length}</p>
+                </div>
+              </>
+            )}
+            {canVerify && (
+              <div className="bg-white/50 rounded-xl p-4">
+                <p className="text-sm text-gray-600">Awaiting Verification</p>
+                <p className="text-3xl font-bold text-indigo-600">{verificationQueue.length}</p>
+              </div>
+            )}
+          </div>
+        </motion.div>
+
+        {!isPathologist && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Collection Worklist */}
+            <motion.div
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.1 }}
+              className="glass-card p-6"
+            >
+              <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
+                <Syringe className="w-5 h-5" />
+                Collection Worklist
+              </h2>
+
+              {worklist.length === 0 ? (
+                <div className="text-center py-8">
+                  <Syringe className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+                  <p className="text-gray-500">No samples to collect</p>
+                </div>
+              ) : (
+                <div className="space-y-3 max-h-[calc(100vh-360px)] overflow-y-auto">
+                  {worklist.map((entry) => (
+                    <div
+                      key={entry.patient.id}
+                      className={`p-4 rounded-xl bg-white/60 ${
+                        entry.priority === "STAT" ? "border-2 border-red-500" : "border border-white/40"
+                      }`}
+                    >
+                      <div className="flex items-center justify-between mb-2">
+                        <div>
+                          <p className="font-semibold text-gray-800">{entry.patient.name}</p>
+                          <p className="text-xs text-gray-600">
+                            {entry.patient.uhid} • {entry.patient.age}Y/{entry.patient.gender}
+                          </p>
+                        </div>
+                        <PriorityBadge priority={entry.priority} />
+                      </div>
+
+                      <div className="space-y-2">
+                        {entry.draws.map((draw: any) => (
+                          <div
+                            key={draw.sampleType}
+                            className="flex items-center justify-between bg-white/60 rounded-lg p-2"
+                          >
+                            <div>
+                              <p className="text-sm font-medium text-gray-800 flex items-center gap-2">
+                                <TestTube className="w-4 h-4 text-indigo-600" />
+                                {draw.sampleType}
+                                <PriorityBadge priority={draw.priority} />
+                                {draw.recollection && (
+                                  <span className="bg-orange-100 text-orange-700 px-2 py-0.5 rounded-full text-xs font-medium">
+                                    Recollect
+                                  </span>
+                                )}
+                              </p>
+                              <p className="text-xs text-gray-600">
+                                {draw.orders.map((order: any) => order.testName).join(", ")}
+                              </p>
+                            </div>
+                            <button
+                              onClick={() => handleCollect(entry.patient.id, draw.sampleType)}
+                              disabled={busy}
+                              className="btn-primary text-xs px-3 py-1.5"
+                            >
+                              Collect
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </motion.div>
+
+            {/* Bench */}
+            <motion.div
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.2 }}
+              className="glass-card p-6"
+            >
+              <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
+                <FlaskConical className="w-5 h-5" />
+                Bench Queue
+              </h2>
+
+              {/* Scan-to-receive */}
+              <form onSubmit={handleReceive} className="flex gap-2 mb-4">
+                <div className="relative flex-1">
+                  <ScanBarcode className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+                  <input
+                    type="text"
+                    value={scanValue}
+                    onChange={(e) => setScanValue(e.target.value)}
+                    className="input-glass pl-10"
+                    placeholder="Scan sample barcode to receive"
+                    autoFocus
+                  />
+                </div>
+                <button type="submit" disabled={busy} className="btn-primary">
+                  Receive
+                </button>
+              </form>
+
+              {benchQueue.length === 0 ? (
+                <div className="text-center py-8">
+                  <FlaskConical className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+                  <p className="text-gray-500">No samples on the bench</p>
+                </div>
+              ) : (
+                <div className="space-y-3 max-h-[calc(100vh-420px)] overflow-y-auto">
+                  {benchQueue.map((order) => (
+                    <div
+                      key={order.id}
+                      className={`p-4 rounded-xl bg-white/60 ${
+                        order.priority === "STAT" ? "border-2 border-red-500" : "border border-white/40"
+                      }`}
+                    >
+                      <div className="flex items-center justify-between mb-1">
+                        <p className="font-semibold text-gray-800">{order.test.name}</p>
+                        <PriorityBadge priority={order.priority} />
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        #{order.visit.token} • {order.patient.name} ({order.patient.uhid})
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </motion.div>
+          </div>
+        )}
+
+        {/* Verification */}
+        {canVerify && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3 }}
+            className="glass-card p-6"
+          >
+            <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
+              <BadgeCheck className="w-5 h-5" />
+              Awaiting Verification
+            </h2>
+
+            {verificationQueue.length === 0 ? (
+              <div className="text-center py-8">
+                <BadgeCheck className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+                <p className="text-gray-500">No results awaiting verification</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+                {verificationQueue.map((order) => (
+                  <div
+                    key={order.id}
+                    className={`p-4 rounded-xl bg-white/60 ${
+                      order.priority === "STAT" ? "border-2 border-red-500" : "border border-white/40"
+                    }`}
+                  >
+                    <div className="flex items-center justify-between mb-1">
+                      <p className="font-semibold text-gray-800">
+                        {order.test.name}
+                        {order.panelOrder && (
+                          <span className="text-xs font-normal text-gray-500">
+                            {" "}• {order.panelOrder.panel.name}
+                          </span>
+                        )}
+                      </p>
+                      <PriorityBadge priority={order.priority} />
+                    </div>
+                    <p className="text-sm text-gray-600 mb-2">
+                      #{order.visit.token} • {order.patient.name} ({order.patient.uhid}) •{" "}
+                      {order.patient.age}Y/{order.patient.gender}
+                    </p>
+
+                    <table className="w-full text-sm mb-2">
+                      <tbody>
+                        {order.results.map((result: any) => (
+                          <tr key={result.id} className="border-t border-gray-100">
+                            <td className="py-1 text-gray-700">{result.analyte.name}</td>
+                            <td
+                              className={`py-1 ${
+                                result.flag === "NORMAL"
+                                  ? "text-gray-800"
+                                  : "text-red-600 font-semibold"
+                              }`}
+                            >
+                              <span className="flex items-center gap-1">
+                                {result.value ?? result.textValue} {result.unit}
+                                {result.flag.startsWith("CRITICAL") && (
+                                  <AlertTriangle className="w-3 h-3" />
+                                )}
+                              </span>
+                            </td>
+                            <td className="py-1 text-xs text-gray-500">
+                              {result.referenceLow ?? "-"} - {result.referenceHigh ?? "-"}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+
+                    {order.remarks && (
+                      <p className="text-xs text-gray-600 italic mb-2">{order.remarks}</p>
+                    )}
+
+                    <div className="flex items-center justify-between">
+                      <p className="text-xs text-gray-500">
+                        Entered by {order.performedBy?.name || "-"}
+                      </p>
+                      <button
+                        onClick={() => handleVerify(order)}
+                        disabled={busy || order.performedBy?.id === user?.id}
+                        className="btn-primary text-xs px-3 py-1.5 disabled:opacity-50"
+                      >
+                        Verify & Release
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </motion.div>
+        )}
+      </div>
+    </div>
+  );
+}
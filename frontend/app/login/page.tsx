@@ -42,6 +42,10 @@ export default function LoginPage() {
       // Redirect based on role
       if (response.user.role === "DOCTOR") {
         router.push("/doctor");
+      } else if (response.user.role === "LAB_TECH" || response.user.role === "PATHOLOGIST") {
+        router.push("/lab");
+      } else if (response.user.role === "PHARMACIST") {
+        router.push("/pharmacy");
       } else {
         router.push("/dashboard");
       }
@@ -152,6 +156,7 @@ export default function LoginPage() {
                   <option value="NURSE">Nurse</option>
                   <option value="PHARMACIST">Pharmacist</option>
                   <option value="LAB_TECH">Lab Technician</option>
+                  <option value="PATHOLOGIST">Pathologist</option>
                   <option value="RECEPTIONIST">Receptionist</option>
                   <option value="ADMIN">Admin</option>
                 </select>
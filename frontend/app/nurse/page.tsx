@@ -16,14 +16,14 @@ import {
   Wifi,
   WifiOff,
 } from "lucide-react";
-import { useQueueUpdates } from "@/hooks/useQueueUpdates";
+import { useQueueUpdates, toastUserNotification } from "@/hooks/useQueueUpdates";
 import VitalsEntryForm from "@/components/VitalsEntryForm";
 
 export default function NurseConsole() {
   const router = useRouter();
   const { user, isAuthenticated, logout, initAuth } = useAuthStore();
   const [queue, setQueue] = useState<any[]>([]);
-  const [selectedPatient, setSelectedPatient] = useState<any>(null);
+  const [selectedVisit, setSelectedVisit] = useState<any>(null);
   const [loading, setLoading] = useState(true);
 
   // WebSocket connection for real-time queue updates
@@ -32,6 +32,7 @@ export default function NurseConsole() {
       console.log("🔔 Nurse Console: Real-time queue update:", event);
       fetchQueue();
     },
+    onUserNotification: toastUserNotification,
     autoConnect: isAuthenticated,
   });
 
@@ -64,8 +65,8 @@ export default function NurseConsole() {
     }
   };
 
-  const handleSelectPatient = (patient: any) => {
-    setSelectedPatient(patient);
+  const handleSelectVisit = (visit: any) => {
+    setSelectedVisit(visit);
   };
 
   const handleLogout = () => {
@@ -74,7 +75,7 @@ export default function NurseConsole() {
   };
 
   const handleVitalsComplete = () => {
-    setSelectedPatient(null);
+    setSelectedVisit(null);
     fetchQueue();
     toast.success("Vitals recorded successfully!");
   };
@@ -190,27 +191,27 @@ export default function NurseConsole() {
                 </div>
               ) : (
                 <div className="space-y-3 max-h-[calc(100vh-300px)] overflow-y-auto">
-                  {queue.map((patient) => (
+                  {queue.map((visit) => (
                     <button
-                      key={patient.id}
-                      onClick={() => handleSelectPatient(patient)}
+                      key={visit.id}
+                      onClick={() => handleSelectVisit(visit)}
                       className={`w-full text-left p-4 rounded-xl transition-all duration-200 ${
-                        selectedPatient?.id === patient.id
+                        selectedVisit?.id === visit.id
                           ? "bg-gradient-to-r from-pink-500 to-rose-600 text-white shadow-lg scale-105"
                           : "bg-white/60 hover:bg-white/80 hover:shadow-md"
                       }`}
                     >
                       <div className="flex items-center justify-between mb-2">
                         <span className="text-lg font-bold">
-                          #{patient.token}
+                          #{visit.token}
                         </span>
                         <span className="text-xs opacity-75">
-                          {new Date(patient.registeredAt).toLocaleTimeString()}
+                          {new Date(visit.arrivedAt).toLocaleTimeString()}
                         </span>
                       </div>
-                      <p className="font-semibold">{patient.name}</p>
+                      <p className="font-semibold">{visit.patient.name}</p>
                       <p className="text-sm opacity-75">
-                        Age: {patient.age} • {patient.gender}
+                        Age: {visit.patient.age} • {visit.patient.gender}
                       </p>
                     </button>
                   ))}
@@ -226,11 +227,11 @@ export default function NurseConsole() {
             transition={{ delay: 0.2 }}
             className="lg:col-span-2"
           >
-            {selectedPatient ? (
+            {selectedVisit ? (
               <VitalsEntryForm
-                patient={selectedPatient}
+                visit={selectedVisit}
                 onComplete={handleVitalsComplete}
-                onCancel={() => setSelectedPatient(null)}
+                onCancel={() => setSelectedVisit(null)}
               />
             ) : (
               <div className="glass-card p-12 text-center">
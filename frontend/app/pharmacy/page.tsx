@@ -0,0 +1,421 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAuthStore } from "@/store/authStore";
+import { api } from "@/lib/api";
+import toast from "react-hot-toast";
+import { motion } from "framer-motion";
+import {
+  LogOut,
+  Package,
+  Pill,
+  RefreshCw,
+  Repeat,
+  Wifi,
+  WifiOff,
+} from "lucide-react";
+import { useQueueUpdates, toastUserNotification } from "@/hooks/useQueueUpdates";
+
+interface DispenseLine {
+  quantity: string;
+  substituteMedicineId: string;
+}
+
+export default function PharmacyConsole() {
+  const router = useRouter();
+  const { user, isAuthenticated, logout, initAuth } = useAuthStore();
+  const [prescriptions, setPrescriptions] = useState<any[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [lines, setLines] = useState<Record<string, DispenseLine>>({});
+  const [equivalents, setEquivalents] = useState<Record<string, any[]>>({});
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const selected = prescriptions.find((p) => p.id === selectedId) || null;
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      setPrescriptions(await api.getPendingPrescriptions());
+    } catch (error) {
+      console.error("Error fetching pharmacy queue:", error);
+      toast.error("Failed to load pharmacy queue");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Expiry and stock drift alerts arrive on the pharmacy queue
+  const handleQueueAlert = useCallback(
+    (event: { type: string; message: string }) => {
+      if (event.type === "expiry_alert") {
+        toast(event.message, { icon: "📅", duration: 10000 });
+      } else if (event.type === "stock_drift") {
+        toast.error(event.message, { duration: 8000 });
+      } else {
+        toast(event.message);
+      }
+    },
+    []
+  );
+
+  const { isConnected } = useQueueUpdates({
+    onQueueUpdate: (event) => {
+      if (event.type === "stage_changed") fetchQueue();
+    },
+    onQueueAlert: handleQueueAlert,
+    queues: ["pharmacy"],
+    onUserNotification: toastUserNotification,
+    autoConnect: isAuthenticated,
+  });
+
+  useEffect(() => {
+    initAuth();
+    if (!isAuthenticated) {
+      router.push("/login");
+      return;
+    }
+
+    // Only pharmacy staff can access this page
+    if (!["PHARMACIST", "ADMIN"].includes(user?.role || "")) {
+      toast.error("Access denied: Pharmacy staff only");
+      router.push("/login");
+      return;
+    }
+
+    fetchQueue();
+  }, [isAuthenticated, user, router, initAuth, fetchQueue]);
+
+  // Default each open item to its outstanding quantity
+  const selectPrescription = (prescription: any) => {
+    setSelectedId(prescription.id);
+    const initial: Record<string, DispenseLine> = {};
+    prescription.items
+      .filter((item: any) => !item.dispensed)
+      .forEach((item: any) => {
+        initial[item.id] = {
+          quantity: String(item.quantity - item.dispensedQuantity),
+          substituteMedicineId: "",
+        };
+      });
+    setLines(initial);
+  };
+
+  const updateLine = (itemId: string, patch: Partial<DispenseLine>) => {
+    setLines((prev) => ({ ...prev, [itemId]: { ...prev[itemId], ...patch } }));
+  };
+
+  const loadEquivalents = async (medicineId: string) => {
+    if (equivalents[medicineId]) return;
+    try {
+      const data = await api.getEquivalentMedicines(medicineId);
+      setEquivalents((prev) => ({ ...prev, [medicineId]: data }));
+      if (data.length === 0) toast("No equivalent brands on file", { icon: "ℹ️" });
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to load equivalents");
+    }
+  };
+
+  const handleDispense = async (closePrescription: boolean) => {
+    if (!selected) return;
+
+    const items = Object.entries(lines)
+      .map(([prescriptionItemId, line]) => ({
+        prescriptionItemId,
+        quantity: parseInt(line.quantity, 10) || 0,
+        substituteMedicineId: line.substituteMedicineId || undefined,
+      }))
+      .filter((item) => item.quantity > 0);
+
+    if (items.length === 0 && !closePrescription) {
+      toast.error("Enter a quantity to dispense");
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const updated = await api.dispensePrescription(selected.id, {
+        items,
+        closePrescription,
+      });
+
+      if (updated.dispensedAt) {
+        toast.success(`Prescription for ${selected.patient.name} dispensed`);
+        setSelectedId(null);
+      } else {
+        toast.success("Partially dispensed");
+        selectPrescription(updated);
+      }
+      fetchQueue();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to dispense");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLogout = () => {
+    logout();
+    router.push("/login");
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="glass-card p-8">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen p-4 md:p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass-card p-6"
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <div className="w-12 h-12 bg-gradient-to-br from-emerald-500 to-green-600 rounded-xl flex items-center justify-center">
+                <Pill className="w-6 h-6 text-white" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-800">Pharmacy Console</h1>
+                <p className="text-sm text-gray-600">
+                  Welcome, {user?.name || "Pharmacist"} • Dispensing
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3">
+              {/* WebSocket Status Indicator */}
+              <div
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg ${
+                  isConnected
+                    ? "bg-green-100 text-green-700"
+                    : "bg-red-100 text-red-700"
+                }`}
+              >
+                {isConnected ? (
+                  <>
+                    <Wifi className="w-4 h-4" />
+                    <span className="text-xs font-medium">Live</span>
+                  </>
+                ) : (
+                  <>
+                    <WifiOff className="w-4 h-4" />
+                    <span className="text-xs font-medium">Offline</span>
+                  </>
+                )}
+              </div>
+
+              <button
+                onClick={fetchQueue}
+                className="btn-secondary flex items-center gap-2"
+              >
+                <RefreshCw className="w-4 h-4" />
+                Refresh
+              </button>
+              <button
+                onClick={handleLogout}
+                className="btn-secondary flex items-center gap-2 text-red-600"
+              >
+                <LogOut className="w-4 h-4" />
+                Logout
+              </button>
+            </div>
+          </div>
+
+          <div className="mt-6 grid grid-cols-2 gap-4">
+            <div className="bg-white/50 rounded-xl p-4">
+              <p className="text-sm text-gray-600">Awaiting Dispensing</p>
+              <p className="text-3xl font-bold text-indigo-600">{prescriptions.length}</p>
+            </div>
+            <div className="bg-white/50 rounded-xl p-4">
+              <p className="text-sm text-gray-600">Partially Dispensed</p>
+              <p className="text-3xl font-bold text-indigo-600">
+                {
+                  prescriptions.filter((p) =>
+                    p.items.some((item: any) => item.dispensedQuantity > 0)
+                  ).length
+                }
+              </p>
+            </div>
+          </div>
+        </motion.div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Queue */}
+          <motion.div
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ delay: 0.1 }}
+            className="glass-card p-6"
+          >
+            <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
+              <Package className="w-5 h-5" />
+              Prescriptions
+            </h2>
+
+            {prescriptions.length === 0 ? (
+              <div className="text-center py-8">
+                <Package className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+                <p className="text-gray-500">No prescriptions to dispense</p>
+              </div>
+            ) : (
+              <div className="space-y-3 max-h-[calc(100vh-360px)] overflow-y-auto">
+                {prescriptions.map((prescription) => (
+                  <button
+                    key={prescription.id}
+                    onClick={() => selectPrescription(prescription)}
+                    className={`w-full text-left p-4 rounded-xl bg-white/60 ${
+                      prescription.id === selectedId
+                        ? "border-2 border-indigo-500"
+                        : "border border-white/40"
+                    }`}
+                  >
+                    <p className="font-semibold text-gray-800">
+                      #{prescription.visit.token} • {prescription.patient.name}
+                    </p>
+                    <p className="text-xs text-gray-600">
+                      {prescription.patient.uhid} • Dr. {prescription.doctor.name} •{" "}
+                      {prescription.items.length} item(s)
+                    </p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </motion.div>
+
+          {/* Dispensing */}
+          <motion.div
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ delay: 0.2 }}
+            className="glass-card p-6 lg:col-span-2"
+          >
+            {!selected ? (
+              <div className="text-center py-16">
+                <Pill className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+                <p className="text-gray-500">Select a prescription to dispense</p>
+              </div>
+            ) : (
+              <>
+                <div className="mb-4">
+                  <h2 className="text-lg font-semibold text-gray-800">
+                    {selected.patient.name} ({selected.patient.uhid})
+                  </h2>
+                  {selected.diagnosis && (
+                    <p className="text-sm text-gray-600">{selected.diagnosis}</p>
+                  )}
+                </div>
+
+                <div className="space-y-3">
+                  {selected.items.map((item: any) => {
+                    const outstanding = item.quantity - item.dispensedQuantity;
+                    const line = lines[item.id];
+                    const options = equivalents[item.medicineId];
+
+                    return (
+                      <div
+                        key={item.id}
+                        className="p-4 rounded-xl bg-white/60 border border-white/40"
+                      >
+                        <div className="flex items-center justify-between mb-2">
+                          <div>
+                            <p className="font-semibold text-gray-800">
+                              {item.medicine.name} {item.medicine.strength}
+                            </p>
+                            <p className="text-xs text-gray-600">
+                              {item.dosage} • {item.duration} days
+                              {item.instructions && ` • ${item.instructions}`}
+                            </p>
+                          </div>
+                          <p className="text-sm text-gray-700">
+                            {item.dispensedQuantity}/{item.quantity} dispensed
+                          </p>
+                        </div>
+
+                        {!item.dispensed && line && (
+                          <div className="flex items-center gap-2">
+                            <input
+                              type="number"
+                              min={0}
+                              max={outstanding}
+                              value={line.quantity}
+                              onChange={(e) => updateLine(item.id, { quantity: e.target.value })}
+                              className="input-glass w-24"
+                            />
+                            {options ? (
+                              <select
+                                value={line.substituteMedicineId}
+                                onChange={(e) =>
+                                  updateLine(item.id, { substituteMedicineId: e.target.value })
+                                }
+                                className="input-glass flex-1"
+                              >
+                                <option value="">As prescribed</option>
+                                {options.map((option: any) => (
+                                  <option key={option.medicineId} value={option.medicineId}>
+                                    {option.indicator} {option.medicineName} ({option.currentStock})
+                                  </option>
+                                ))}
+                              </select>
+                            ) : (
+                              <button
+                                onClick={() => loadEquivalents(item.medicineId)}
+                                className="btn-chip flex items-center gap-1"
+                              >
+                                <Repeat className="w-3 h-3" />
+                                Substitute
+                              </button>
+                            )}
+                          </div>
+                        )}
+
+                        {item.dispenseRecords.length > 0 && (
+                          <p className="text-xs text-gray-500 mt-2">
+                            {item.dispenseRecords
+                              .map(
+                                (record: any) =>
+                                  `${record.quantity} × ${record.medicine.name} (batch ${record.batchNumber})`
+                              )
+                              .join(", ")}
+                          </p>
+                        )}
+                        {item.dispensed && item.dispensedQuantity < item.quantity && (
+                          <p className="text-xs text-orange-600 mt-1">Closed short</p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="flex justify-end gap-3 mt-4">
+                  <button
+                    onClick={() => handleDispense(true)}
+                    disabled={busy}
+                    className="btn-secondary disabled:opacity-50"
+                  >
+                    Dispense & Close
+                  </button>
+                  <button
+                    onClick={() => handleDispense(false)}
+                    disabled={busy}
+                    className="btn-primary disabled:opacity-50"
+                  >
+                    Dispense
+                  </button>
+                </div>
+              </>
+            )}
+          </motion.div>
+        </div>
+      </div>
+    </div>
+  );
+}
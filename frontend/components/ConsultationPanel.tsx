@@ -4,28 +4,31 @@ import { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Check, X, Printer } from "lucide-react";
 import PatientInfo from "./PatientInfo";
-import PrescriptionBuilder from "./PrescriptionBuilder";
-import LabOrders from "./LabOrders";
+import PrescriptionBuilder, { toPrescriptionSig } from "./PrescriptionBuilder";
+import LabOrders, { LabPriority } from "./LabOrders";
 import LifestyleAdvice from "./LifestyleAdvice";
 import toast from "react-hot-toast";
 import { api } from "@/lib/api";
 // ...existing code...
 export default function ConsultationPanel({
-  patient,
+  visit,
   onComplete,
   onCancel,
 }: ConsultationPanelProps) {
   const [activeTab, setActiveTab] = useState<"prescription" | "history">("prescription");
   const [prescriptionItems, setPrescriptionItems] = useState<any[]>([]);
   const [labTests, setLabTests] = useState<any[]>([]);
+  const [labPriority, setLabPriority] = useState<LabPriority>("ROUTINE");
   const [lifestyleAdvice, setLifestyleAdvice] = useState<string[]>([]);
   const [diagnosis, setDiagnosis] = useState("");
   const [notes, setNotes] = useState("");
+  const [overrideReason, setOverrideReason] = useState("");
+  const [requiresOverride, setRequiresOverride] = useState(false);
   const [saving, setSaving] = useState(false);
 
   // New UX states
   const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
-  const DRAFT_KEY = `consultation_draft_${patient.id}`;
+  const DRAFT_KEY = `consultation_draft_${visit.id}`;
 
   // Load draft on mount
   useEffect(() => {
@@ -33,8 +36,10 @@ export default function ConsultationPanel({
       const raw = localStorage.getItem(DRAFT_KEY);
       if (raw) {
         const draft = JSON.parse(raw);
-        setPrescriptionItems(draft.prescriptionItems || []);
+        // Drafts saved before structured sigs have no dose unit; drop those items
+        setPrescriptionItems((draft.prescriptionItems || []).filter((item: any) => item.doseUnit));
         setLabTests(draft.labTests || []);
+        setLabPriority(draft.labPriority || "ROUTINE");
         setLifestyleAdvice(draft.lifestyleAdvice || []);
         setDiagnosis(draft.diagnosis || "");
         setNotes(draft.notes || "");
@@ -51,6 +56,7 @@ export default function ConsultationPanel({
       const payload = {
         prescriptionItems,
         labTests,
+        labPriority,
         lifestyleAdvice,
         diagnosis,
         notes,
@@ -70,7 +76,7 @@ export default function ConsultationPanel({
     const t = setTimeout(() => saveDraft(), 1500);
     return () => clearTimeout(t);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [prescriptionItems, labTests, lifestyleAdvice, diagnosis, notes]);
+  }, [prescriptionItems, labTests, labPriority, lifestyleAdvice, diagnosis, notes]);
 
   // Periodic autosave as safety net
   useEffect(() => {
@@ -89,7 +95,7 @@ export default function ConsultationPanel({
     window.addEventListener("keydown", handler);
     return () => window.removeEventListener("keydown", handler);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [prescriptionItems, labTests, diagnosis, notes, lifestyleAdvice, saving]);
+  }, [prescriptionItems, labTests, labPriority, diagnosis, notes, lifestyleAdvice, saving, requiresOverride, overrideReason]);
 
   const handlePrintPrescription = async (prescriptionId: string) => {
     try {
@@ -140,6 +146,11 @@ export default function ConsultationPanel({
       return;
     }
 
+    if (prescriptionItems.length > 0 && requiresOverride && !overrideReason.trim()) {
+      toast.error("Document an override reason for the major drug safety alerts");
+      return;
+    }
+
     // Confirm before finalizing
     const ok = window.confirm(
       "Finish consultation and route patient to the next stage? This action cannot be undone."
@@ -151,24 +162,27 @@ export default function ConsultationPanel({
       // Create prescription if items exist
       if (prescriptionItems.length > 0) {
         await api.createPrescription({
-          patientId: patient.id,
+          visitId: visit.id,
           diagnosis,
           notes: `${notes}\n\nLifestyle Advice: ${lifestyleAdvice.join(", ")}`,
-          items: prescriptionItems,
+          items: prescriptionItems.map(toPrescriptionSig),
+          ...(requiresOverride && { overrideReason }),
         });
       }
 
       // Create lab orders if tests exist
       if (labTests.length > 0) {
         await api.createLabOrder({
-          patientId: patient.id,
-          testIds: labTests.map((t) => t.id),
+          visitId: visit.id,
+          testIds: labTests.filter((t) => !t.isPanel).map((t) => t.id),
+          panelIds: labTests.filter((t) => t.isPanel).map((t) => t.id),
           clinicalNotes: diagnosis,
+          urgency: labPriority,
         });
       }
 
-      // Auto-route patient to next stage
-      await api.autoRoutePatient(patient.id);
+      // Auto-route visit to next stage
+      await api.autoRouteVisit(visit.id);
 
       // Clear draft on success
       try {
@@ -198,7 +212,7 @@ export default function ConsultationPanel({
       )}
 
       {/* Patient Info & Vitals */}
-      <PatientInfo patient={patient} />
+      <PatientInfo visit={visit} />
 
       {/* Tabs */}
       <div className="flex gap-4 mb-6 border-b border-gray-200">
@@ -254,16 +268,22 @@ export default function ConsultationPanel({
 
               {/* 1. Medications */}
               <PrescriptionBuilder
-                patientId={patient.id}
+                patientId={visit.patient.id}
                 items={prescriptionItems}
                 onItemsChange={setPrescriptionItems}
+                overrideReason={overrideReason}
+                onOverrideReasonChange={setOverrideReason}
+                onSafetyChange={setRequiresOverride}
               />
 
               {/* 2. Lab Investigations */}
               <LabOrders
-                patientId={patient.id}
+                patientId={visit.patient.id}
                 tests={labTests}
                 onTestsChange={setLabTests}
+                priority={labPriority}
+                onPriorityChange={setLabPriority}
+                existingOrders={visit.labOrders}
               />
 
               {/* 3. Lifestyle & Advice */}
@@ -297,8 +317,8 @@ export default function ConsultationPanel({
               <h3 className="font-semibold text-gray-800 mb-3">
                 Previous Prescriptions
               </h3>
-              {patient.prescriptions && patient.prescriptions.length > 0 ? (
-                patient.prescriptions.map((rx: any) => (
+              {visit.patient.prescriptions && visit.patient.prescriptions.length > 0 ? (
+                visit.patient.prescriptions.map((rx: any) => (
                   <div
                     key={rx.id}
                     className="bg-white/60 rounded-lg p-4 border border-white/40"
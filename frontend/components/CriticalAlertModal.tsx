@@ -0,0 +1,115 @@
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { AlertTriangle, PhoneCall } from "lucide-react";
+import toast from "react-hot-toast";
+import { api } from "@/lib/api";
+
+interface CriticalAlertModalProps {
+  alerts: any[]; // Open critical alerts, oldest first
+  onAcknowledged: () => void;
+}
+
+/**
+ * Blocking overlay for critical lab values
+ * Stays up until every alert is acknowledged by reading the value back
+ */
+export default function CriticalAlertModal({
+  alerts,
+  onAcknowledged,
+}: CriticalAlertModalProps) {
+  const [readBack, setReadBack] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  if (alerts.length === 0) return null;
+
+  const alert = alerts[0];
+
+  const handleAcknowledge = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(readBack);
+    if (isNaN(value)) {
+      toast.error("Read back the reported value");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await api.acknowledgeCriticalAlert(alert.id, value);
+      toast.success(`${alert.analyte.name} acknowledged`);
+      setReadBack("");
+      onAcknowledged();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to acknowledge");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        className="w-full max-w-md rounded-2xl bg-white p-6 shadow-2xl border-4 border-red-600"
+      >
+        <div className="flex items-center gap-3 mb-4">
+          <div className="w-12 h-12 bg-red-600 rounded-xl flex items-center justify-center animate-pulse">
+            <AlertTriangle className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-red-700">Critical Lab Value</h2>
+            {alerts.length > 1 && (
+              <p className="text-xs text-gray-600">
+                1 of {alerts.length} awaiting acknowledgement
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-red-50 rounded-xl p-4 mb-4">
+          <p className="text-sm text-gray-700">
+            {alert.labOrder.patient.name} ({alert.labOrder.patient.uhid})
+          </p>
+          <p className="text-sm text-gray-600">{alert.labOrder.test.name}</p>
+          <p className="text-3xl font-bold text-red-700 mt-2">
+            {alert.analyte.name}: {alert.value} {alert.unit}
+          </p>
+          <p className="text-xs text-gray-600 mt-1">
+            Critical {alert.flag === "CRITICAL_LOW" ? "low" : "high"} limit: {alert.limit}
+            {" • "}Raised {new Date(alert.raisedAt).toLocaleTimeString()}
+          </p>
+          {alert.escalatedAt && (
+            <p className="text-xs font-semibold text-red-700 mt-1">
+              Escalated to admin at {new Date(alert.escalatedAt).toLocaleTimeString()}
+            </p>
+          )}
+        </div>
+
+        <form onSubmit={handleAcknowledge} className="space-y-3">
+          <label className="block text-sm font-medium text-gray-700">
+            Read back the {alert.analyte.name} value to acknowledge
+          </label>
+          <input
+            type="number"
+            step="any"
+            value={readBack}
+            onChange={(e) => setReadBack(e.target.value)}
+            className="input-glass"
+            placeholder="Value as reported"
+            autoFocus
+          />
+          <button
+            type="submit"
+            disabled={submitting || !readBack}
+            className="btn-primary w-full flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <PhoneCall className="w-4 h-4" />
+            Acknowledge
+          </button>
+        </form>
+      </motion.div>
+    </div>
+  );
+}
@@ -1,23 +1,60 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Plus, FlaskConical, X } from "lucide-react";
+import { Plus, FlaskConical, X, AlertTriangle, Siren, Package, Printer } from "lucide-react";
 import { api } from "@/lib/api";
 import toast from "react-hot-toast";
 import { motion, AnimatePresence } from "framer-motion";
 
+export type LabPriority = "ROUTINE" | "URGENT" | "STAT";
+
 interface LabOrdersProps {
   patientId: string;
-  tests: any[];
+  tests: any[]; // Selected tests and panels (panels carry isPanel: true)
   onTestsChange: (tests: any[]) => void;
+  priority: LabPriority;
+  onPriorityChange: (priority: LabPriority) => void;
+  existingOrders?: any[]; // Orders already raised for this visit (with results)
 }
 
+const FLAG_STYLES: Record<string, { label: string; className: string }> = {
+  NORMAL: { label: "", className: "text-gray-800" },
+  LOW: { label: "L", className: "text-blue-600 font-semibold" },
+  HIGH: { label: "H", className: "text-orange-600 font-semibold" },
+  CRITICAL_LOW: { label: "LL", className: "text-red-600 font-bold" },
+  CRITICAL_HIGH: { label: "HH", className: "text-red-600 font-bold" },
+};
+
+// Entered results stay with the lab until a pathologist releases them
+const STATUS_LABELS: Record<string, string> = {
+  COMPLETED: "AWAITING VERIFICATION",
+};
+
+export const PRIORITY_STYLES: Record<LabPriority, string> = {
+  STAT: "bg-red-600 text-white",
+  URGENT: "bg-amber-100 text-amber-700",
+  ROUTINE: "bg-gray-100 text-gray-600",
+};
+
+const formatRange = (result: any) => {
+  if (result.referenceLow != null && result.referenceHigh != null) {
+    return `${result.referenceLow} - ${result.referenceHigh}`;
+  }
+  if (result.referenceHigh != null) return `< ${result.referenceHigh}`;
+  if (result.referenceLow != null) return `> ${result.referenceLow}`;
+  return "-";
+};
+
 export default function LabOrders({
   patientId,
   tests,
   onTestsChange,
+  priority,
+  onPriorityChange,
+  existingOrders = [],
 }: LabOrdersProps) {
   const [availableTests, setAvailableTests] = useState<any[]>([]);
+  const [availablePanels, setAvailablePanels] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [showTestMenu, setShowTestMenu] = useState(false);
 
@@ -27,8 +64,12 @@ export default function LabOrders({
 
   const fetchLabTests = async () => {
     try {
-      const data = await api.getAllLabTests();
+      const [data, panels] = await Promise.all([
+        api.getAllLabTests(),
+        api.getLabPanels(),
+      ]);
       setAvailableTests(data);
+      setAvailablePanels(panels.map((panel: any) => ({ ...panel, isPanel: true })));
     } catch (error) {
       console.error("Error fetching lab tests:", error);
       toast.error("Failed to load lab tests");
@@ -37,12 +78,30 @@ export default function LabOrders({
     }
   };
 
+  // Test IDs already covered by a selected test or panel
+  const selectedTestIds = (items: any[]) =>
+    items.flatMap((item) =>
+      item.isPanel ? item.tests.map((component: any) => component.testId) : [item.id]
+    );
+
   const handleAddTest = (test: any) => {
     if (tests.some((t) => t.id === test.id)) {
       toast.error("Test already added");
       return;
     }
 
+    const alreadyOrdered = selectedTestIds([test]).filter((id) =>
+      selectedTestIds(tests).includes(id)
+    );
+    if (alreadyOrdered.length > 0) {
+      toast.error(
+        test.isPanel
+          ? "Remove the tests already included in this panel first"
+          : "Test is already part of a selected panel"
+      );
+      return;
+    }
+
     onTestsChange([...tests, test]);
     setShowTestMenu(false);
     toast.success(`${test.name} added`);
@@ -53,14 +112,148 @@ export default function LabOrders({
     onTestsChange(newTests);
   };
 
+  const renderOrder = (order: any) => (
+    <div
+      key={order.id}
+      className="bg-white/60 rounded-xl p-4 border border-white/40"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <p className="font-medium text-gray-800">{order.test.name}</p>
+        <div className="flex items-center gap-2">
+          {order.priority && order.priority !== "ROUTINE" && (
+            <span
+              className={`px-2 py-0.5 rounded-full text-xs font-bold ${
+                PRIORITY_STYLES[order.priority as LabPriority]
+              }`}
+            >
+              {order.priority}
+            </span>
+          )}
+          <span className="bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded-full text-xs font-medium">
+            {STATUS_LABELS[order.status] || order.status}
+          </span>
+          {order.version > 1 && (
+            <span className="bg-red-100 text-red-700 px-2 py-0.5 rounded-full text-xs font-medium">
+              AMENDED
+            </span>
+          )}
+        </div>
+      </div>
+
+      {order.results?.length > 0 ? (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 text-left">
+              <th className="font-medium pb-1">Analyte</th>
+              <th className="font-medium pb-1">Result</th>
+              <th className="font-medium pb-1">Unit</th>
+              <th className="font-medium pb-1">Reference</th>
+            </tr>
+          </thead>
+          <tbody>
+            {order.results.map((result: any) => {
+              const flag = FLAG_STYLES[result.flag] || FLAG_STYLES.NORMAL;
+              return (
+                <tr key={result.id} className="border-t border-gray-100">
+                  <td className="py-1 text-gray-700">{result.analyte.name}</td>
+                  <td className={`py-1 ${flag.className}`}>
+                    <span className="flex items-center gap-1">
+                      {result.value ?? result.textValue}
+                      {flag.label && <span>{flag.label}</span>}
+                      {result.flag.startsWith("CRITICAL") && (
+                        <AlertTriangle className="w-3 h-3" />
+                      )}
+                    </span>
+                  </td>
+                  <td className="py-1 text-gray-600">{result.unit}</td>
+                  <td className="py-1 text-gray-600">{formatRange(result)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      ) : (
+        <p className="text-xs text-gray-500">Awaiting results</p>
+      )}
+
+      {order.remarks && order.status === "RELEASED" && (
+        <p className="text-xs text-gray-600 italic mt-2">{order.remarks}</p>
+      )}
+    </div>
+  );
+
+  // Panel components share a section; standalone tests get their own
+  const sections = existingOrders.reduce(
+    (acc: Array<{ key: string; panel: string | null; orders: any[] }>, order) => {
+      const panelOrderId = order.panelOrder?.id;
+      const section = panelOrderId && acc.find((s) => s.key === panelOrderId);
+      if (section) {
+        section.orders.push(order);
+      } else {
+        acc.push({
+          key: panelOrderId || order.id,
+          panel: order.panelOrder?.panel.name || null,
+          orders: [order],
+        });
+      }
+      return acc;
+    },
+    []
+  );
+
+  const handlePrintReport = async () => {
+    try {
+      const blob = await api.getLabReportPdf(existingOrders[0].visitId);
+      const url = URL.createObjectURL(blob);
+      window.open(url, "_blank");
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (error) {
+      console.error("Error generating lab report:", error);
+      toast.error("Failed to generate lab report");
+    }
+  };
+
   // Common lab tests for quick access
   const commonTests = ["CBC", "Blood Sugar", "Lipid Profile", "Thyroid", "LFT", "KFT"];
 
   return (
     <div>
-      <h3 className="text-sm font-medium text-gray-700 uppercase mb-3">
-        2. Lab Investigations
-      </h3>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium text-gray-700 uppercase">
+          2. Lab Investigations
+        </h3>
+        {existingOrders.some((order) => order.status === "RELEASED") && (
+          <button
+            onClick={handlePrintReport}
+            className="btn-chip flex items-center gap-2"
+          >
+            <Printer className="w-3 h-3" />
+            Print Report
+          </button>
+        )}
+      </div>
+
+      {/* Results for orders already raised during this visit, grouped under panel headings */}
+      {sections.length > 0 && (
+        <div className="space-y-3 mb-4">
+          {sections.map((section) =>
+            section.panel ? (
+              <div
+                key={section.key}
+                className="rounded-xl border border-indigo-200/60 bg-indigo-50/40 p-3 space-y-2"
+              >
+                <p className="text-sm font-semibold text-indigo-700 flex items-center gap-2">
+                  <Package className="w-4 h-4" />
+                  {section.panel}
+                </p>
+                {section.orders.map(renderOrder)}
+              </div>
+            ) : (
+              section.orders.map(renderOrder)
+            )
+          )}
+        </div>
+      )}
 
       {/* Quick Add Buttons */}
       <div className="flex flex-wrap gap-2 mb-4">
@@ -98,6 +291,31 @@ export default function LabOrders({
             exit={{ opacity: 0, height: 0 }}
             className="mb-4 glass-card p-3 max-h-48 overflow-y-auto"
           >
+            {availablePanels.length > 0 && (
+              <>
+                <p className="text-xs font-semibold text-gray-500 uppercase mb-2">
+                  Panels / Profiles
+                </p>
+                <div className="grid grid-cols-2 gap-2 mb-3">
+                  {availablePanels.map((panel) => (
+                    <button
+                      key={panel.id}
+                      onClick={() => handleAddTest(panel)}
+                      className="text-left p-2 hover:bg-white/60 rounded-lg transition-all text-sm"
+                    >
+                      <p className="font-medium text-gray-800 flex items-center gap-1">
+                        <Package className="w-3 h-3 text-indigo-600" />
+                        {panel.name}
+                      </p>
+                      <p className="text-xs text-gray-600">
+                        ₹{panel.price} • {panel.tests.length} tests
+                      </p>
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs font-semibold text-gray-500 uppercase mb-2">Tests</p>
+              </>
+            )}
             <div className="grid grid-cols-2 gap-2">
               {availableTests.map((test) => (
                 <button
@@ -124,6 +342,25 @@ export default function LabOrders({
             </p>
           </div>
 
+          {/* Priority */}
+          <div className="flex items-center gap-2 mb-3">
+            <span className="text-xs font-medium text-gray-600">Priority:</span>
+            {(["ROUTINE", "URGENT", "STAT"] as LabPriority[]).map((level) => (
+              <button
+                key={level}
+                onClick={() => onPriorityChange(level)}
+                className={`px-3 py-1 rounded-full text-xs font-semibold flex items-center gap-1 transition-all ${
+                  priority === level
+                    ? PRIORITY_STYLES[level]
+                    : "bg-white/60 text-gray-500 hover:bg-white/80"
+                }`}
+              >
+                {level === "STAT" && <Siren className="w-3 h-3" />}
+                {level}
+              </button>
+            ))}
+          </div>
+
           <div className="flex flex-wrap gap-2">
             {tests.map((test) => (
               <motion.div
@@ -133,6 +370,7 @@ export default function LabOrders({
                 exit={{ opacity: 0, scale: 0.9 }}
                 className="bg-white/60 px-3 py-1.5 rounded-lg flex items-center gap-2 text-sm"
               >
+                {test.isPanel && <Package className="w-3 h-3 text-indigo-600" />}
                 <span className="font-medium text-gray-800">{test.name}</span>
                 <button
                   onClick={() => handleRemoveTest(test.id)}
@@ -1,26 +1,26 @@
 import { User, Activity, Heart, Weight, Thermometer } from "lucide-react";
 
 interface PatientInfoProps {
-  patient: any;
+  visit: any;
 }
 
-export default function PatientInfo({ patient }: PatientInfoProps) {
+export default function PatientInfo({ visit }: PatientInfoProps) {
   return (
     <div className="mb-6">
       <div className="flex items-start justify-between mb-4">
         <div>
-          <h2 className="text-2xl font-bold text-gray-800">{patient.name}</h2>
+          <h2 className="text-2xl font-bold text-gray-800">{visit.patient.name}</h2>
           <p className="text-gray-600">
-            {patient.gender}, {patient.age} Years
+            {visit.patient.gender}, {visit.patient.age} Years
           </p>
         </div>
         <span className="bg-indigo-100 text-indigo-700 px-3 py-1.5 rounded-lg text-sm font-medium">
-          Token #{patient.token}
+          Token #{visit.token}
         </span>
       </div>
 
       {/* Vitals */}
-      {patient.vitals && (
+      {visit.vitals && (
         <div>
           <h3 className="text-sm font-medium text-gray-600 uppercase mb-3">
             Vitals (Just Now)
@@ -30,21 +30,21 @@ export default function PatientInfo({ patient }: PatientInfoProps) {
               <Heart className="w-5 h-5 text-red-500 mx-auto mb-2" />
               <p className="text-xs text-gray-600">BP</p>
               <p className="text-lg font-bold text-indigo-600">
-                {patient.vitals.bloodPressure}
+                {visit.vitals.bloodPressure}
               </p>
             </div>
             <div className="vitals-item">
               <Thermometer className="w-5 h-5 text-orange-500 mx-auto mb-2" />
               <p className="text-xs text-gray-600">Temp</p>
               <p className="text-lg font-bold text-red-600">
-                {patient.vitals.temperature}°F
+                {visit.vitals.temperature}°F
               </p>
             </div>
             <div className="vitals-item">
               <Weight className="w-5 h-5 text-blue-500 mx-auto mb-2" />
               <p className="text-xs text-gray-600">Weight</p>
               <p className="text-lg font-bold text-gray-800">
-                {patient.vitals.weight} kg
+                {visit.vitals.weight} kg
               </p>
             </div>
           </div>
@@ -52,12 +52,12 @@ export default function PatientInfo({ patient }: PatientInfoProps) {
       )}
 
       {/* Chief Complaint */}
-      {patient.chiefComplaint && (
+      {visit.vitals?.chiefComplaint && (
         <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-lg">
           <h3 className="text-sm font-medium text-gray-600 uppercase mb-2">
             Chief Complaint
           </h3>
-          <p className="text-gray-800 italic">"{patient.chiefComplaint}"</p>
+          <p className="text-gray-800 italic">"{visit.vitals.chiefComplaint}"</p>
         </div>
       )}
     </div>
@@ -3,14 +3,14 @@ import { formatTime } from "@/lib/utils";
 
 interface PatientQueueProps {
   queue: any[];
-  selectedPatient: any;
-  onSelectPatient: (patient: any) => void;
+  selectedVisit: any;
+  onSelectVisit: (visit: any) => void;
 }
 
 export default function PatientQueue({
   queue,
-  selectedPatient,
-  onSelectPatient,
+  selectedVisit,
+  onSelectVisit,
 }: PatientQueueProps) {
   return (
     <div className="glass-card p-6 h-[calc(100vh-240px)] flex flex-col">
@@ -28,12 +28,12 @@ export default function PatientQueue({
             <p className="text-gray-500">No patients in queue</p>
           </div>
         ) : (
-          queue.map((patient) => (
+          queue.map((visit) => (
             <button
-              key={patient.id}
-              onClick={() => onSelectPatient(patient)}
+              key={visit.id}
+              onClick={() => onSelectVisit(visit)}
               className={`w-full text-left p-4 rounded-xl transition-all duration-200 ${
-                selectedPatient?.id === patient.id
+                selectedVisit?.id === visit.id
                   ? "bg-gradient-to-r from-indigo-500 to-purple-600 text-white shadow-lg scale-105"
                   : "bg-white/60 hover:bg-white/80 border border-white/40"
               }`}
@@ -43,38 +43,49 @@ export default function PatientQueue({
                   <div className="flex items-center gap-2">
                     <span
                       className={`text-lg font-bold ${
-                        selectedPatient?.id === patient.id
+                        selectedVisit?.id === visit.id
                           ? "text-white"
                           : "text-gray-800"
                       }`}
                     >
-                      #{patient.token}
+                      #{visit.token}
                     </span>
                     <span
                       className={`px-2 py-0.5 rounded-full text-xs font-medium ${
-                        selectedPatient?.id === patient.id
+                        selectedVisit?.id === visit.id
                           ? "bg-white/20 text-white"
                           : "bg-indigo-100 text-indigo-700"
                       }`}
                     >
-                      {patient.consultationType}
+                      {visit.consultationType}
                     </span>
+                    {visit.stage === "DOCTOR_REVIEW_PENDING" && (
+                      <span
+                        className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                          selectedVisit?.id === visit.id
+                            ? "bg-white/20 text-white"
+                            : "bg-amber-100 text-amber-700"
+                        }`}
+                      >
+                        Lab Review
+                      </span>
+                    )}
                   </div>
                   <p
                     className={`font-semibold mt-1 ${
-                      selectedPatient?.id === patient.id
+                      selectedVisit?.id === visit.id
                         ? "text-white"
                         : "text-gray-800"
                     }`}
                   >
-                    {patient.name}
+                    {visit.patient.name}
                   </p>
                 </div>
 
-                {patient.vitals && (
+                {visit.vitals && (
                   <Activity
                     className={`w-5 h-5 ${
-                      selectedPatient?.id === patient.id
+                      selectedVisit?.id === visit.id
                         ? "text-white"
                         : "text-green-600"
                     }`}
@@ -85,30 +96,30 @@ export default function PatientQueue({
               <div className="flex items-center gap-4 text-sm">
                 <span
                   className={`flex items-center gap-1 ${
-                    selectedPatient?.id === patient.id
+                    selectedVisit?.id === visit.id
                       ? "text-white/90"
                       : "text-gray-600"
                   }`}
                 >
                   <User className="w-4 h-4" />
-                  {patient.gender}, {patient.age}Y
+                  {visit.patient.gender}, {visit.patient.age}Y
                 </span>
                 <span
                   className={`flex items-center gap-1 ${
-                    selectedPatient?.id === patient.id
+                    selectedVisit?.id === visit.id
                       ? "text-white/90"
                       : "text-gray-600"
                   }`}
                 >
                   <Clock className="w-4 h-4" />
-                  {formatTime(patient.registeredAt)}
+                  {formatTime(visit.arrivedAt)}
                 </span>
               </div>
 
-              {patient.vitals && (
+              {visit.vitals && (
                 <div
                   className={`mt-3 pt-3 border-t ${
-                    selectedPatient?.id === patient.id
+                    selectedVisit?.id === visit.id
                       ? "border-white/20"
                       : "border-gray-200"
                   } text-xs grid grid-cols-3 gap-2`}
@@ -116,7 +127,7 @@ export default function PatientQueue({
                   <div>
                     <span
                       className={`block ${
-                        selectedPatient?.id === patient.id
+                        selectedVisit?.id === visit.id
                           ? "text-white/70"
                           : "text-gray-500"
                       }`}
@@ -125,18 +136,18 @@ export default function PatientQueue({
                     </span>
                     <span
                       className={`font-medium ${
-                        selectedPatient?.id === patient.id
+                        selectedVisit?.id === visit.id
                           ? "text-white"
                           : "text-gray-700"
                       }`}
                     >
-                      {patient.vitals.bloodPressure}
+                      {visit.vitals.bloodPressure}
                     </span>
                   </div>
                   <div>
                     <span
                       className={`block ${
-                        selectedPatient?.id === patient.id
+                        selectedVisit?.id === visit.id
                           ? "text-white/70"
                           : "text-gray-500"
                       }`}
@@ -145,18 +156,18 @@ export default function PatientQueue({
                     </span>
                     <span
                       className={`font-medium ${
-                        selectedPatient?.id === patient.id
+                        selectedVisit?.id === visit.id
                           ? "text-white"
                           : "text-gray-700"
                       }`}
                     >
-                      {patient.vitals.temperature}°F
+                      {visit.vitals.temperature}°F
                     </span>
                   </div>
                   <div>
                     <span
                       className={`block ${
-                        selectedPatient?.id === patient.id
+                        selectedVisit?.id === visit.id
                           ? "text-white/70"
                           : "text-gray-500"
                       }`}
@@ -165,12 +176,12 @@ export default function PatientQueue({
                     </span>
                     <span
                       className={`font-medium ${
-                        selectedPatient?.id === patient.id
+                        selectedVisit?.id === visit.id
                           ? "text-white"
                           : "text-gray-700"
                       }`}
                     >
-                      {patient.vitals.weight}kg
+                      {visit.vitals.weight}kg
                     </span>
                   </div>
                 </div>
@@ -1,8 +1,8 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
-import { Search, X, Plus } from "lucide-react";
-import { api } from "@/lib/api";
+import { Search, X, Plus, AlertTriangle } from "lucide-react";
+import { api, PrescriptionSig } from "@/lib/api";
 import { getStockIndicator } from "@/lib/utils";
 import toast from "react-hot-toast";
 import { motion, AnimatePresence } from "framer-motion";
@@ -11,19 +11,151 @@ interface PrescriptionBuilderProps {
   patientId: string;
   items: any[];
   onItemsChange: (items: any[]) => void;
+  overrideReason?: string;
+  onOverrideReasonChange?: (reason: string) => void;
+  onSafetyChange?: (requiresOverride: boolean) => void; // A major alert needs a reason
 }
 
+const DOSE_UNITS = ["TABLET", "CAPSULE", "ML", "MG", "G", "MCG", "IU", "DROP", "PUFF", "APPLICATION"];
+
+const FREQUENCIES = [
+  { value: "OD", label: "OD - once daily" },
+  { value: "BD", label: "BD - twice daily" },
+  { value: "TDS", label: "TDS - three times daily" },
+  { value: "QID", label: "QID - four times daily" },
+  { value: "HS", label: "HS - at bedtime" },
+  { value: "SOS", label: "SOS - when required" },
+  { value: "WEEKLY", label: "Weekly" },
+  { value: "CUSTOM", label: "At set times" },
+];
+
+const ROUTES = ["ORAL", "SUBLINGUAL", "TOPICAL", "INHALED", "NASAL", "EYE", "EAR", "SC", "IM", "IV", "RECTAL"];
+
+const FOOD_TIMINGS = [
+  { value: "AFTER_FOOD", label: "After food" },
+  { value: "BEFORE_FOOD", label: "Before food" },
+  { value: "WITH_FOOD", label: "With food" },
+  { value: "EMPTY_STOMACH", label: "Empty stomach" },
+  { value: "ANY", label: "Any time" },
+];
+
+// Starting dose unit, amount and route by medicine type
+const TYPE_DEFAULTS: Record<string, { doseAmount: number; doseUnit: string; route: string }> = {
+  tablet: { doseAmount: 1, doseUnit: "TABLET", route: "ORAL" },
+  capsule: { doseAmount: 1, doseUnit: "CAPSULE", route: "ORAL" },
+  syrup: { doseAmount: 5, doseUnit: "ML", route: "ORAL" },
+  suspension: { doseAmount: 5, doseUnit: "ML", route: "ORAL" },
+  gel: { doseAmount: 1, doseUnit: "APPLICATION", route: "TOPICAL" },
+  cream: { doseAmount: 1, doseUnit: "APPLICATION", route: "TOPICAL" },
+  ointment: { doseAmount: 1, doseUnit: "APPLICATION", route: "TOPICAL" },
+  injection: { doseAmount: 10, doseUnit: "IU", route: "SC" },
+  drops: { doseAmount: 2, doseUnit: "DROP", route: "EYE" },
+  inhaler: { doseAmount: 2, doseUnit: "PUFF", route: "INHALED" },
+};
+
+// Builder item -> API shape (drops display-only fields)
+export function toPrescriptionSig(item: any): PrescriptionSig {
+  return {
+    medicineId: item.medicineId,
+    doseAmount: Number(item.doseAmount),
+    doseUnit: item.doseUnit,
+    frequencyCode: item.frequencyCode,
+    ...(item.frequencyCode === "CUSTOM" && { customTimes: item.customTimes || [] }),
+    ...(item.frequencyCode === "SOS" && item.sosMaxPerDay && { sosMaxPerDay: Number(item.sosMaxPerDay) }),
+    route: item.route,
+    durationValue: Number(item.durationValue),
+    durationUnit: item.durationUnit,
+    foodTiming: item.foodTiming,
+    ...(item.instructions && { instructions: item.instructions }),
+  };
+}
+
+const SEVERITY_STYLES: Record<string, string> = {
+  MAJOR: "bg-red-50 border-red-300 text-red-800",
+  MODERATE: "bg-amber-50 border-amber-300 text-amber-800",
+  MINOR: "bg-blue-50 border-blue-200 text-blue-800",
+};
+
 export default function PrescriptionBuilder({
   patientId,
   items,
   onItemsChange,
+  overrideReason = "",
+  onOverrideReasonChange,
+  onSafetyChange,
 }: PrescriptionBuilderProps) {
   const [searchQuery, setSearchQuery] = useState("");
   const [searchResults, setSearchResults] = useState<any[]>([]);
   const [searching, setSearching] = useState(false);
   const [showResults, setShowResults] = useState(false);
+  const [safetyAlerts, setSafetyAlerts] = useState<any[]>([]);
+  const [previews, setPreviews] = useState<any[]>([]);
+  const [previewError, setPreviewError] = useState<string | null>(null);
   const searchTimeoutRef = useRef<NodeJS.Timeout>();
 
+  const sigKey = JSON.stringify(items.map(toPrescriptionSig));
+
+  // Render sigs and dispense quantities (same wording as the printed prescription)
+  useEffect(() => {
+    const sigs: PrescriptionSig[] = JSON.parse(sigKey);
+    if (sigs.length === 0) {
+      setPreviews([]);
+      setPreviewError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const result = await api.previewSigs(sigs);
+        if (!cancelled) {
+          setPreviews(result);
+          setPreviewError(null);
+        }
+      } catch (error: any) {
+        if (!cancelled) {
+          setPreviews([]);
+          setPreviewError(error?.response?.data?.message?.toString() || "Check the dose, frequency and duration");
+        }
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [sigKey]);
+
+  const medicineKey = items.map((item) => item.medicineId).join(",");
+  const requiresOverride = safetyAlerts.some((alert) => alert.severity === "MAJOR");
+
+  // Check interactions and allergies whenever the medicine list changes
+  useEffect(() => {
+    if (!medicineKey) {
+      setSafetyAlerts([]);
+      return;
+    }
+
+    let cancelled = false;
+    api
+      .checkDrugSafety({ patientId, medicineIds: medicineKey.split(",") })
+      .then((result) => {
+        if (!cancelled) setSafetyAlerts(result.alerts);
+      })
+      .catch((error) => {
+        console.error("Error checking drug safety:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [patientId, medicineKey]);
+
+  useEffect(() => {
+    onSafetyChange?.(requiresOverride);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [requiresOverride]);
+
   // Search medicines with debounce
   useEffect(() => {
     if (searchQuery.trim().length < 2) {
@@ -66,14 +198,16 @@ export default function PrescriptionBuilder({
       return;
     }
 
-    // Add with default values
+    // Add with default values for the medicine's type
     const newItem = {
       medicineId: medicine.medicineId,
       medicineName: medicine.medicineName,
-      dosage: "1 tablet",
-      frequency: "3 times daily",
-      duration: "5 days",
-      instructions: "After food",
+      ...(TYPE_DEFAULTS[(medicine.type || "").toLowerCase()] || TYPE_DEFAULTS.tablet),
+      frequencyCode: "TDS",
+      durationValue: 5,
+      durationUnit: "DAYS",
+      foodTiming: "AFTER_FOOD",
+      instructions: "",
       stockStatus: medicine.status,
       stockIndicator: medicine.indicator,
     };
@@ -89,9 +223,9 @@ export default function PrescriptionBuilder({
     onItemsChange(newItems);
   };
 
-  const handleUpdateItem = (index: number, field: string, value: string) => {
+  const handleUpdateItem = (index: number, field: string, value: any) => {
     const newItems = [...items];
-    newItems[index][field] = value;
+    newItems[index] = { ...newItems[index], [field]: value };
     onItemsChange(newItems);
   };
 
@@ -157,6 +291,46 @@ export default function PrescriptionBuilder({
         </AnimatePresence>
       </div>
 
+      {/* Interaction & Allergy Alerts */}
+      {safetyAlerts.length > 0 && (
+        <div className="space-y-2 mb-4">
+          {safetyAlerts.map((alert, index) => (
+            <div
+              key={index}
+              className={`p-3 rounded-xl border-2 text-sm ${SEVERITY_STYLES[alert.severity]}`}
+            >
+              <div className="flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <div>
+                  <p className="font-semibold">
+                    {alert.severity} {alert.type === "ALLERGY" ? "allergy" : "interaction"}: {alert.medicines}
+                  </p>
+                  <p>{alert.message}</p>
+                  {alert.management && (
+                    <p className="text-xs mt-1 opacity-80">{alert.management}</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+
+          {requiresOverride && onOverrideReasonChange && (
+            <div>
+              <label className="text-xs text-red-700 font-medium block mb-1">
+                Override reason (required to prescribe despite major alerts)
+              </label>
+              <input
+                type="text"
+                value={overrideReason}
+                onChange={(e) => onOverrideReasonChange(e.target.value)}
+                className="input-glass text-sm"
+                placeholder="e.g. Benefit outweighs risk; patient counselled"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Added Medicines */}
       <div className="space-y-3">
         <AnimatePresence>
@@ -195,45 +369,151 @@ export default function PrescriptionBuilder({
                 <div className="grid grid-cols-2 gap-3">
                   <div>
                     <label className="text-xs text-gray-600 block mb-1">
-                      Dosage
+                      Dose
                     </label>
-                    <input
-                      type="text"
-                      value={item.dosage}
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={item.doseAmount ?? ""}
+                        onChange={(e) =>
+                          handleUpdateItem(index, "doseAmount", e.target.value)
+                        }
+                        className="input-glass text-sm w-20"
+                      />
+                      <select
+                        value={item.doseUnit}
+                        onChange={(e) =>
+                          handleUpdateItem(index, "doseUnit", e.target.value)
+                        }
+                        className="input-glass text-sm flex-1"
+                      >
+                        {DOSE_UNITS.map((unit) => (
+                          <option key={unit} value={unit}>
+                            {unit.toLowerCase()}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                  <div>
+                    <label className="text-xs text-gray-600 block mb-1">
+                      Frequency
+                    </label>
+                    <select
+                      value={item.frequencyCode}
                       onChange={(e) =>
-                        handleUpdateItem(index, "dosage", e.target.value)
+                        handleUpdateItem(index, "frequencyCode", e.target.value)
                       }
                       className="input-glass text-sm"
-                      placeholder="1 tablet"
-                    />
+                    >
+                      {FREQUENCIES.map((frequency) => (
+                        <option key={frequency.value} value={frequency.value}>
+                          {frequency.label}
+                        </option>
+                      ))}
+                    </select>
                   </div>
+                  {item.frequencyCode === "CUSTOM" && (
+                    <div className="col-span-2">
+                      <label className="text-xs text-gray-600 block mb-1">
+                        Times (HH:mm, comma separated)
+                      </label>
+                      <input
+                        type="text"
+                        value={(item.customTimes || []).join(", ")}
+                        onChange={(e) =>
+                          handleUpdateItem(
+                            index,
+                            "customTimes",
+                            e.target.value.split(",").map((time) => time.trim()).filter(Boolean)
+                          )
+                        }
+                        className="input-glass text-sm"
+                        placeholder="08:00, 14:00, 20:00"
+                      />
+                    </div>
+                  )}
+                  {item.frequencyCode === "SOS" && (
+                    <div className="col-span-2">
+                      <label className="text-xs text-gray-600 block mb-1">
+                        Max doses a day
+                      </label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={item.sosMaxPerDay ?? ""}
+                        onChange={(e) =>
+                          handleUpdateItem(index, "sosMaxPerDay", e.target.value)
+                        }
+                        className="input-glass text-sm"
+                        placeholder="3"
+                      />
+                    </div>
+                  )}
                   <div>
                     <label className="text-xs text-gray-600 block mb-1">
-                      Frequency
+                      Duration
                     </label>
-                    <input
-                      type="text"
-                      value={item.frequency}
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        min={1}
+                        value={item.durationValue ?? ""}
+                        onChange={(e) =>
+                          handleUpdateItem(index, "durationValue", e.target.value)
+                        }
+                        className="input-glass text-sm w-20"
+                      />
+                      <select
+                        value={item.durationUnit}
+                        onChange={(e) =>
+                          handleUpdateItem(index, "durationUnit", e.target.value)
+                        }
+                        className="input-glass text-sm flex-1"
+                      >
+                        <option value="DAYS">days</option>
+                        <option value="WEEKS">weeks</option>
+                        <option value="MONTHS">months</option>
+                      </select>
+                    </div>
+                  </div>
+                  <div>
+                    <label className="text-xs text-gray-600 block mb-1">
+                      Route
+                    </label>
+                    <select
+                      value={item.route}
                       onChange={(e) =>
-                        handleUpdateItem(index, "frequency", e.target.value)
+                        handleUpdateItem(index, "route", e.target.value)
                       }
                       className="input-glass text-sm"
-                      placeholder="3 times daily"
-                    />
+                    >
+                      {ROUTES.map((route) => (
+                        <option key={route} value={route}>
+                          {route.toLowerCase()}
+                        </option>
+                      ))}
+                    </select>
                   </div>
                   <div>
                     <label className="text-xs text-gray-600 block mb-1">
-                      Duration
+                      Food
                     </label>
-                    <input
-                      type="text"
-                      value={item.duration}
+                    <select
+                      value={item.foodTiming}
                       onChange={(e) =>
-                        handleUpdateItem(index, "duration", e.target.value)
+                        handleUpdateItem(index, "foodTiming", e.target.value)
                       }
                       className="input-glass text-sm"
-                      placeholder="5 days"
-                    />
+                    >
+                      {FOOD_TIMINGS.map((timing) => (
+                        <option key={timing.value} value={timing.value}>
+                          {timing.label}
+                        </option>
+                      ))}
+                    </select>
                   </div>
                   <div>
                     <label className="text-xs text-gray-600 block mb-1">
@@ -246,15 +526,27 @@ export default function PrescriptionBuilder({
                         handleUpdateItem(index, "instructions", e.target.value)
                       }
                       className="input-glass text-sm"
-                      placeholder="After food"
+                      placeholder="Shake well"
                     />
                   </div>
                 </div>
+
+                {/* Rendered sig, as printed */}
+                {previews[index] && (
+                  <p className="text-xs text-indigo-700 mt-3">
+                    {previews[index].text} • Dispense {previews[index].quantity}{" "}
+                    {previews[index].unit}
+                  </p>
+                )}
               </motion.div>
             );
           })}
         </AnimatePresence>
 
+        {previewError && (
+          <p className="text-sm text-red-600">{previewError}</p>
+        )}
+
         {items.length === 0 && (
           <p className="text-center text-gray-500 py-4">
             No medications added yet
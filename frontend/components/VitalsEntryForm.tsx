@@ -20,13 +20,13 @@ import {
 } from "lucide-react";
 
 interface VitalsEntryFormProps {
-  patient: any;
+  visit: any;
   onComplete: () => void;
   onCancel: () => void;
 }
 
 export default function VitalsEntryForm({
-  patient,
+  visit,
   onComplete,
   onCancel,
 }: VitalsEntryFormProps) {
@@ -118,7 +118,7 @@ export default function VitalsEntryForm({
     setLoading(true);
     try {
       await api.createOrUpdateVitals({
-        patientId: patient.id,
+        visitId: visit.id,
         bp: formData.bp,
         pulse: parseInt(formData.pulse),
         temperature: parseFloat(formData.temperature),
@@ -146,7 +146,7 @@ export default function VitalsEntryForm({
     try {
       // First save vitals
       await api.createOrUpdateVitals({
-        patientId: patient.id,
+        visitId: visit.id,
         bp: formData.bp,
         pulse: parseInt(formData.pulse),
         temperature: parseFloat(formData.temperature),
@@ -159,10 +159,10 @@ export default function VitalsEntryForm({
       });
 
       // Then complete vitals workflow (move to doctor queue)
-      await api.completeVitals(patient.id);
+      await api.completeVitals(visit.id);
 
       toast.success(
-        `Patient ${patient.name} sent to doctor queue!`
+        `Patient ${visit.patient.name} sent to doctor queue!`
       );
       onComplete();
     } catch (error: any) {
@@ -186,9 +186,9 @@ export default function VitalsEntryForm({
       <div className="bg-gradient-to-r from-pink-500 to-rose-600 rounded-xl p-4 text-white mb-6">
         <div className="flex items-center justify-between">
           <div>
-            <h3 className="text-xl font-bold">#{patient.token} - {patient.name}</h3>
+            <h3 className="text-xl font-bold">#{visit.token} - {visit.patient.name}</h3>
             <p className="text-sm opacity-90">
-              Age: {patient.age} • Gender: {patient.gender} • Mobile: {patient.mobile}
+              Age: {visit.patient.age} • Gender: {visit.patient.gender} • Mobile: {visit.patient.mobile}
             </p>
           </div>
           <button
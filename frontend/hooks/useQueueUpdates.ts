@@ -1,5 +1,6 @@
 import { useEffect, useCallback, useRef } from 'react';
 import { io, Socket } from 'socket.io-client';
+import toast from 'react-hot-toast';
 
 const WEBSOCKET_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
@@ -12,6 +13,12 @@ interface QueueUpdateEvent {
   data?: any;
 }
 
+interface QueueAlertEvent {
+  type: string;
+  message: string;
+  data?: any;
+}
+
 interface UseQueueUpdatesOptions {
   /**
    * Callback when queue update event is received
@@ -23,17 +30,47 @@ interface UseQueueUpdatesOptions {
    */
   onDoctorUpdate?: (event: any) => void;
 
+  /**
+   * Callback when an alert is pushed to a subscribed department queue
+   */
+  onQueueAlert?: (event: QueueAlertEvent) => void;
+
+  /**
+   * Callback when a notification addressed to the logged-in user is received
+   * (approval decisions, escalations). Subscribes to the user's own channel.
+   */
+  onUserNotification?: (event: QueueAlertEvent) => void;
+
   /**
    * Doctor ID to subscribe to doctor-specific updates
    */
   doctorId?: string;
 
+  /**
+   * Department queues to subscribe to on connect (e.g. ["lab"])
+   */
+  queues?: string[];
+
   /**
    * Whether to connect automatically (default: true)
    */
   autoConnect?: boolean;
 }
 
+/**
+ * Default toast for user notifications; rejections stay up longer and
+ * critical-value escalations (sent to admins) stay up for a minute
+ */
+export function toastUserNotification(event: QueueAlertEvent) {
+  if (event.type === 'critical_result_escalated') {
+    toast.error(event.message, { icon: '🚨', duration: 60000 });
+  } else if (/rejected|drift/.test(event.type)) {
+    toast.error(event.message, { duration: 8000 });
+  } else {
+    toast(event.message, { icon: '🔔' });
+  }
+}
+
 /**
  * Custom hook for real-time queue updates via WebSocket
  *
@@ -52,9 +89,13 @@ export function useQueueUpdates(options: UseQueueUpdatesOptions = {}) {
   const {
     onQueueUpdate,
     onDoctorUpdate,
+    onQueueAlert,
+    onUserNotification,
     doctorId,
+    queues,
     autoConnect = true,
   } = options;
+  const queueKey = (queues || []).join(",");
 
   const socketRef = useRef<Socket | null>(null);
   const isConnectedRef = useRef(false);
@@ -75,6 +116,8 @@ export function useQueueUpdates(options: UseQueueUpdatesOptions = {}) {
       reconnection: true,
       reconnectionDelay: 1000,
       reconnectionAttempts: 5,
+      // The server derives the user channel from this token
+      auth: (callback) => callback({ token: localStorage.getItem('hms_token') }),
     });
 
     socket.on('connect', () => {
@@ -86,6 +129,26 @@ export function useQueueUpdates(options: UseQueueUpdatesOptions = {}) {
         socket.emit('subscribe:doctor', { doctorId });
         console.log(`📡 Subscribed to doctor updates: ${doctorId}`);
       }
+
+      // Auto-subscribe to department queues
+      queueKey
+        .split(",")
+        .filter(Boolean)
+        .forEach((queueType) => {
+          socket.emit('subscribe:queue', { queueType });
+          console.log(`📡 Subscribed to queue: ${queueType}`);
+        });
+
+      // Subscribe to notifications addressed to the logged-in user
+      if (onUserNotification) {
+        socket.emit('subscribe:user', {}, (response: { success: boolean; message?: string }) => {
+          if (response?.success) {
+            console.log('📡 Subscribed to user notifications');
+          } else {
+            console.error('❌ User notifications refused:', response?.message);
+          }
+        });
+      }
     });
 
     socket.on('disconnect', () => {
@@ -110,8 +173,20 @@ export function useQueueUpdates(options: UseQueueUpdatesOptions = {}) {
       onDoctorUpdate?.(event);
     });
 
+    // Listen for department queue alerts (e.g. STAT lab orders)
+    socket.on('queue:alert', (event: QueueAlertEvent) => {
+      console.log('📥 Queue alert received:', event);
+      onQueueAlert?.(event);
+    });
+
+    // Listen for notifications addressed to this user
+    socket.on('user:notification', (event: QueueAlertEvent) => {
+      console.log('📥 User notification received:', event);
+      onUserNotification?.(event);
+    });
+
     socketRef.current = socket;
-  }, [doctorId, onQueueUpdate, onDoctorUpdate]);
+  }, [doctorId, queueKey, onQueueUpdate, onDoctorUpdate, onQueueAlert, onUserNotification]);
 
   /**
    * Disconnect WebSocket
@@ -130,7 +205,7 @@ export function useQueueUpdates(options: UseQueueUpdatesOptions = {}) {
    */
   const subscribeToQueue = useCallback((queueName: string) => {
     if (socketRef.current?.connected) {
-      socketRef.current.emit('subscribe:queue', { queue: queueName });
+      socketRef.current.emit('subscribe:queue', { queueType: queueName });
       console.log(`📡 Subscribed to queue: ${queueName}`);
     }
   }, []);
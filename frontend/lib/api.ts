@@ -2,6 +2,21 @@ import axios, { AxiosInstance } from 'axios';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
 
+// A prescription line as the API takes it: the structured sig
+export interface PrescriptionSig {
+  medicineId: string;
+  doseAmount: number;
+  doseUnit: string;        // TABLET, CAPSULE, ML, MG, G, MCG, IU, DROP, PUFF, APPLICATION
+  frequencyCode: string;   // OD, BD, TDS, QID, HS, SOS, WEEKLY, CUSTOM
+  customTimes?: string[];  // CUSTOM: ["08:00", "20:00"]
+  sosMaxPerDay?: number;
+  route: string;           // ORAL, TOPICAL, SC, ...
+  durationValue: number;
+  durationUnit: string;    // DAYS, WEEKS, MONTHS
+  foodTiming: string;      // BEFORE_FOOD, AFTER_FOOD, WITH_FOOD, EMPTY_STOMACH, ANY
+  instructions?: string;
+}
+
 class ApiClient {
   private client: AxiosInstance;
 
@@ -62,8 +77,13 @@ class ApiClient {
     return response.data;
   }
 
-  async lockPatient(patientId: string) {
-    const response = await this.client.patch(`/patients/${patientId}/lock`);
+  async getVisitById(visitId: string) {
+    const response = await this.client.get(`/patients/visits/${visitId}`);
+    return response.data;
+  }
+
+  async lockVisit(visitId: string) {
+    const response = await this.client.patch(`/patients/visits/${visitId}/lock`);
     return response.data;
   }
 
@@ -97,30 +117,76 @@ class ApiClient {
     return response.data;
   }
 
+  async getPendingPrescriptions() {
+    const response = await this.client.get('/pharmacy/prescriptions/pending');
+    return response.data;
+  }
+
+  async getEquivalentMedicines(medicineId: string) {
+    const response = await this.client.get(`/pharmacy/prescriptions/equivalents/${medicineId}`);
+    return response.data;
+  }
+
+  async dispensePrescription(
+    prescriptionId: string,
+    data: {
+      items: Array<{
+        prescriptionItemId: string;
+        quantity: number;
+        substituteMedicineId?: string;
+      }>;
+      closePrescription?: boolean;
+    }
+  ) {
+    const response = await this.client.post(
+      `/pharmacy/prescriptions/${prescriptionId}/dispense`,
+      data
+    );
+    return response.data;
+  }
+
   // Prescriptions
   async createPrescription(data: {
-    patientId: string;
+    visitId: string;
     diagnosis?: string;
     notes?: string;
-    items: Array<{
-      medicineId: string;
-      dosage: string;
-      frequency: string;
-      duration: string;
-      instructions?: string;
-    }>;
+    items: PrescriptionSig[];
+    overrideReason?: string; // Required when there are major drug safety alerts
   }) {
     const response = await this.client.post('/prescriptions', data);
     return response.data;
   }
 
+  // Rendered sig ("1 tablet orally twice daily after food for 5 days") and quantity per item
+  async previewSigs(items: PrescriptionSig[]) {
+    const response = await this.client.post('/prescriptions/sig-preview', { items });
+    return response.data;
+  }
+
+  // Interactions with each other / active prescriptions, and recorded allergies
+  async checkDrugSafety(data: {
+    visitId?: string;
+    patientId?: string;
+    medicineIds: string[];
+  }) {
+    const response = await this.client.post('/drug-safety/check', data);
+    return response.data;
+  }
+
   async getPatientPrescriptions(patientId: string) {
     const response = await this.client.get(`/prescriptions/patient/${patientId}`);
     return response.data;
   }
 
-  async repeatPrescription(prescriptionId: string) {
-    const response = await this.client.post(`/prescriptions/${prescriptionId}/repeat`);
+  async getVisitPrescriptions(visitId: string) {
+    const response = await this.client.get(`/prescriptions/visit/${visitId}`);
+    return response.data;
+  }
+
+  async repeatPrescription(prescriptionId: string, visitId: string) {
+    const response = await this.client.post(`/prescriptions/${prescriptionId}/repeat`, {
+      visitId,
+    });
     return response.data;
   }
 
@@ -137,10 +203,17 @@ class ApiClient {
     return response.data;
   }
 
+  async getLabPanels() {
+    const response = await this.client.get('/lab/panels');
+    return response.data;
+  }
+
   async createLabOrder(data: {
-    patientId: string;
+    visitId: string;
     testIds: string[];
+    panelIds?: string[];
     clinicalNotes?: string;
+    urgency?: 'ROUTINE' | 'URGENT' | 'STAT';
   }) {
     const response = await this.client.post('/lab/orders', data);
     return response.data;
@@ -151,14 +224,86 @@ class ApiClient {
     return response.data;
   }
 
+  async getVisitLabOrders(visitId: string) {
+    const response = await this.client.get(`/lab/orders/visit/${visitId}`);
+    return response.data;
+  }
+
+  async getPendingLabOrders() {
+    const response = await this.client.get('/lab/orders/queue/pending');
+    return response.data;
+  }
+
+  async getInProgressLabOrders() {
+    const response = await this.client.get('/lab/orders/queue/in-progress');
+    return response.data;
+  }
+
+  // Specimens
+  async getCollectionWorklist() {
+    const response = await this.client.get('/lab/specimens/worklist');
+    return response.data;
+  }
+
+  async collectSpecimen(data: {
+    patientId: string;
+    sampleType: string;
+    orderIds?: string[];
+  }) {
+    const response = await this.client.post('/lab/specimens/collect', data);
+    return response.data;
+  }
+
+  async receiveSpecimen(sampleId: string) {
+    const response = await this.client.post(`/lab/specimens/${sampleId}/receive`);
+    return response.data;
+  }
+
+  async getSpecimenLabels(sampleIds: string[]) {
+    const response = await this.client.get('/lab/specimens/labels', {
+      params: { sampleIds: sampleIds.join(',') },
+      responseType: 'blob',
+    });
+    return response.data as Blob;
+  }
+
+  async getVerificationQueue() {
+    const response = await this.client.get('/lab/orders/queue/verification');
+    return response.data;
+  }
+
+  async verifyLabOrder(orderId: string) {
+    const response = await this.client.post(`/lab/orders/${orderId}/verify`);
+    return response.data;
+  }
+
+  async getOpenCriticalAlerts() {
+    const response = await this.client.get('/lab/critical-alerts/open');
+    return response.data;
+  }
+
+  async acknowledgeCriticalAlert(alertId: string, readBackValue: number) {
+    const response = await this.client.post(`/lab/critical-alerts/${alertId}/acknowledge`, {
+      readBackValue,
+    });
+    return response.data;
+  }
+
+  async getLabReportPdf(visitId: string) {
+    const response = await this.client.get(`/lab/orders/visit/${visitId}/report/pdf`, {
+      responseType: 'blob',
+    });
+    return response.data as Blob;
+  }
+
   // Workflow
-  async autoRoutePatient(patientId: string) {
-    const response = await this.client.post(`/workflow/patients/${patientId}/auto-route`);
+  async autoRouteVisit(visitId: string) {
+    const response = await this.client.post(`/workflow/visits/${visitId}/auto-route`);
     return response.data;
   }
 
-  async getWorkflowHistory(patientId: string) {
-    const response = await this.client.get(`/workflow/patients/${patientId}/history`);
+  async getWorkflowHistory(visitId: string) {
+    const response = await this.client.get(`/workflow/visits/${visitId}/history`);
     return response.data;
   }
 
@@ -177,7 +322,7 @@ class ApiClient {
   }
 
   async createOrUpdateVitals(data: {
-    patientId: string;
+    visitId: string;
     bp: string;
     pulse: number;
     temperature: number;
@@ -192,13 +337,13 @@ class ApiClient {
     return response.data;
   }
 
-  async getVitalsByPatientId(patientId: string) {
-    const response = await this.client.get(`/vitals/${patientId}`);
+  async getVitalsByVisitId(visitId: string) {
+    const response = await this.client.get(`/vitals/${visitId}`);
     return response.data;
   }
 
-  async completeVitals(patientId: string) {
-    const response = await this.client.post(`/workflow/patients/${patientId}/complete-vitals`);
+  async completeVitals(visitId: string) {
+    const response = await this.client.post(`/workflow/visits/${visitId}/complete-vitals`);
     return response.data;
   }
 }